@@ -2,8 +2,9 @@
  * BrowserAI Craft — Electron Main Process
  *
  * Creates the main application window, system tray, MCP server lifecycle
- * management (LM Studio / Ollama), Chrome extension loading, auto-update
- * via electron-updater, and IPC handlers for native file operations.
+ * management (LM Studio / Ollama and the stdio MCP servers configured in
+ * `assets/mcp-servers/`), Chrome extension loading, auto-update via
+ * electron-updater, and IPC handlers for native file operations.
  *
  * Cross-platform support: Windows, macOS, Linux.
  */
@@ -13,6 +14,7 @@ import path from "node:path";
 import fs from "node:fs";
 import { spawn, type ChildProcess } from "node:child_process";
 import { autoUpdater } from "electron-updater";
+import { StdioTransport, type StdioServerConfig } from "./mcp/StdioTransport";
 
 // ── Global references ──────────────────────────────────────────────────────────
 
@@ -39,6 +41,9 @@ const mcpServers: Record<string, ChildProcess | null> = {
   ollama: null,
 };
 
+/** Running stdio MCP servers, keyed by server name. */
+const stdioServers = new Map<string, StdioTransport>();
+
 // ── App Lifecycle ──────────────────────────────────────────────────────────────
 
 app.on("ready", async () => {
@@ -154,6 +159,8 @@ async function startMCPServers(): Promise<void> {
   } catch {
     // Ollama not available — non-fatal
   }
+
+  await startStdioServers();
 }
 
 function stopAllMCPServers(): void {
@@ -165,6 +172,10 @@ function stopAllMCPServers(): void {
     mcpServers.ollama.kill();
     mcpServers.ollama = null;
   }
+  for (const transport of stdioServers.values()) {
+    void transport.close();
+  }
+  stdioServers.clear();
 }
 
 // ── LM Studio ──────────────────────────────────────────────────────────────────
@@ -223,6 +234,73 @@ function stopOllama(): void {
   }
 }
 
+// ── stdio MCP Servers ──────────────────────────────────────────────────────────
+
+/**
+ * Read the stdio server configs (`MCPServerConfig` JSON files) from
+ * `assets/mcp-servers/`. Configs for other transports are left to the
+ * extension, which connects to HTTP servers itself.
+ */
+function loadStdioServerConfigs(): { name: string; config: StdioServerConfig }[] {
+  const dir = resolveAsset("mcp-servers");
+  if (!fs.existsSync(dir)) return [];
+
+  return fs
+    .readdirSync(dir)
+    .filter((file) => file.endsWith(".json"))
+    .flatMap((file) => {
+      try {
+        const raw = JSON.parse(fs.readFileSync(path.join(dir, file), "utf-8"));
+        if (raw.transport !== "stdio") return [];
+        return [
+          {
+            name: raw.name ?? path.basename(file, ".json"),
+            config: { command: raw.command, args: raw.args ?? [], env: raw.env },
+          },
+        ];
+      } catch (error) {
+        console.warn(`[MCP] Ignoring ${file}:`, (error as Error).message);
+        return [];
+      }
+    });
+}
+
+/** Launch every configured stdio MCP server; one that fails is skipped. */
+async function startStdioServers(): Promise<void> {
+  for (const { name, config } of loadStdioServerConfigs()) {
+    try {
+      await startStdioServer(name, config);
+    } catch (error) {
+      console.warn(`[MCP] ${name} not available:`, (error as Error).message);
+    }
+  }
+}
+
+/**
+ * Spawn one stdio MCP server and relay the JSON-RPC messages it sends over
+ * IPC, where the extension's `MCPIpcTransport` is the MCP client's end.
+ */
+async function startStdioServer(name: string, config: StdioServerConfig): Promise<void> {
+  if (stdioServers.has(name)) return;
+
+  const transport = new StdioTransport(config);
+  transport.onmessage = (message) => {
+    mainWindow?.webContents.send("mcp-message", { server: name, message });
+  };
+  transport.onclose = (error) => {
+    if (stdioServers.get(name) === transport) stdioServers.delete(name);
+    mainWindow?.webContents.send("mcp-status", {
+      server: name,
+      running: false,
+      error: error?.message,
+    });
+  };
+
+  await transport.start();
+  stdioServers.set(name, transport);
+  mainWindow?.webContents.send("mcp-status", { server: name, running: true });
+}
+
 // ── Chrome Extension Loading ───────────────────────────────────────────────────
 
 async function loadExtension(): Promise<void> {
@@ -269,6 +347,22 @@ ipcMain.handle("stop-ollama", () => {
   return { success: true };
 });
 
+ipcMain.handle("list-mcp-servers", () => [...stdioServers.keys()]);
+
+ipcMain.handle("send-mcp-message", async (_event, data: { server: string; message: object }) => {
+  const transport = stdioServers.get(data.server);
+  if (!transport) {
+    return { success: false, error: `MCP server "${data.server}" is not running` };
+  }
+
+  try {
+    await transport.send(data.message);
+    return { success: true };
+  } catch (error) {
+    return { success: false, error: (error as Error).message };
+  }
+});
+
 ipcMain.handle("select-file", async () => {
   if (!mainWindow) return null;
 
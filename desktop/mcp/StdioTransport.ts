@@ -0,0 +1,168 @@
+/**
+ * BrowserAI Craft — stdio MCP transport
+ *
+ * Launches an MCP server as a child process (as described by the
+ * `command` / `args` / `env` of an MCP server config) and exchanges
+ * newline-delimited JSON-RPC messages over its stdin / stdout.
+ *
+ * Node-only: the extension cannot spawn processes, so stdio servers are
+ * run from the desktop app. The class satisfies the `MCPTransport`
+ * interface used by `MCPIntegration`.
+ */
+
+import { spawn, type ChildProcess } from "node:child_process";
+
+// ── Types ──────────────────────────────────────────────────────────────────────
+
+/** Process description for a stdio MCP server. */
+export interface StdioServerConfig {
+  command: string;
+  args: string[];
+  env?: Record<string, string>;
+  /** Working directory for the server process */
+  cwd?: string;
+}
+
+/** A JSON-RPC 2.0 message (request, response or notification). */
+type JSONRPCMessage = { jsonrpc: "2.0"; id?: string | number; method?: string };
+
+// ── Transport ──────────────────────────────────────────────────────────────────
+
+export class StdioTransport {
+  onmessage?: (message: JSONRPCMessage) => void;
+  onclose?: (error?: Error) => void;
+
+  private readonly config: StdioServerConfig;
+  private child: ChildProcess | null = null;
+  private buffer = "";
+  private closing = false;
+
+  constructor(config: StdioServerConfig) {
+    this.config = config;
+  }
+
+  /**
+   * Spawn the server process. Resolves once the process has started,
+   * rejects if it cannot be launched. Can be called again after the
+   * process has exited.
+   */
+  start(): Promise<void> {
+    if (this.child) {
+      return Promise.reject(new Error("StdioTransport: already started"));
+    }
+    this.closing = false;
+    this.buffer = "";
+
+    return new Promise((resolve, reject) => {
+      const child = spawn(this.config.command, this.config.args, {
+        cwd: this.config.cwd,
+        env: { ...process.env, ...this.config.env },
+        stdio: ["pipe", "pipe", "pipe"],
+        shell: process.platform === "win32",
+      });
+      this.child = child;
+
+      child.once("spawn", () => resolve());
+      child.once("error", (error) => {
+        if (this.child === child) this.child = null;
+        reject(error);
+        this.onclose?.(error);
+      });
+
+      // Writing to a server that has died fails with EPIPE; the exit
+      // handler reports the close, so only log it here.
+      child.stdin?.on("error", (error) => {
+        console.warn(`[MCP:${this.config.command}] stdin error: ${error.message}`);
+      });
+
+      child.stdout?.setEncoding("utf8");
+      child.stdout?.on("data", (chunk: string) => this.handleData(chunk));
+
+      child.stderr?.on("data", (data: Buffer) => {
+        console.warn(`[MCP:${this.config.command}] ${data.toString().trimEnd()}`);
+      });
+
+      child.once("exit", (code, signal) => {
+        this.child = null;
+        if (this.closing) {
+          this.onclose?.();
+        } else {
+          this.onclose?.(
+            new Error(`MCP server exited (code ${code ?? "null"}, signal ${signal ?? "none"})`)
+          );
+        }
+      });
+    });
+  }
+
+  /**
+   * Write one JSON-RPC message followed by a newline.
+   */
+  send(message: object): Promise<void> {
+    const stdin = this.child?.stdin;
+    if (!stdin || stdin.destroyed) {
+      return Promise.reject(new Error("StdioTransport: not connected"));
+    }
+
+    return new Promise((resolve, reject) => {
+      stdin.write(`${JSON.stringify(message)}\n`, (error) => (error ? reject(error) : resolve()));
+    });
+  }
+
+  /**
+   * Terminate the server: close stdin first so well-behaved servers can
+   * exit on their own, then signal the process.
+   */
+  async close(): Promise<void> {
+    const child = this.child;
+    if (!child) return;
+
+    this.closing = true;
+    child.stdin?.end();
+
+    await new Promise<void>((resolve) => {
+      const timer = setTimeout(() => {
+        child.kill("SIGKILL");
+        resolve();
+      }, 2000);
+      child.once("exit", () => {
+        clearTimeout(timer);
+        resolve();
+      });
+      child.kill("SIGTERM");
+    });
+  }
+
+  // ── Framing ──────────────────────────────────────────────────────────────────
+
+  /**
+   * Split stdout into newline-delimited messages. Lines that are not valid
+   * JSON-RPC (e.g. stray log output) are skipped.
+   */
+  private handleData(chunk: string): void {
+    this.buffer += chunk;
+
+    let newline = this.buffer.indexOf("\n");
+    while (newline !== -1) {
+      const line = this.buffer.slice(0, newline).trim();
+      this.buffer = this.buffer.slice(newline + 1);
+
+      const message = line ? this.parseLine(line) : null;
+      if (message) {
+        this.onmessage?.(message);
+      }
+
+      newline = this.buffer.indexOf("\n");
+    }
+  }
+
+  private parseLine(line: string): JSONRPCMessage | null {
+    try {
+      const message = JSON.parse(line) as JSONRPCMessage;
+      return message && message.jsonrpc === "2.0" ? message : null;
+    } catch {
+      console.warn(`[MCP:${this.config.command}] Ignoring non-JSON output: ${line}`);
+      return null;
+    }
+  }
+}
@@ -20,6 +20,13 @@ export interface ElectronBridge {
   startOllama: () => Promise<{ success: boolean; error?: string }>;
   stopOllama: () => Promise<{ success: boolean }>;
 
+  // stdio MCP servers run by the app
+  listMCPServers: () => Promise<string[]>;
+  sendMCPMessage: (
+    server: string,
+    message: object
+  ) => Promise<{ success: boolean; error?: string }>;
+
   // File operations
   selectFile: () => Promise<{ path: string; content: string } | null>;
   saveFile: (data: {
@@ -39,6 +46,10 @@ export interface ElectronBridge {
   onLMStudioStatus: (callback: (data: { running: boolean }) => void) => void;
   onOllamaStatus: (callback: (data: { running: boolean }) => void) => void;
   onTrayStartJob: (callback: () => void) => void;
+  onMCPMessage: (callback: (data: { server: string; message: object }) => void) => void;
+  onMCPStatus: (
+    callback: (data: { server: string; running: boolean; error?: string }) => void
+  ) => void;
   onUpdateStatus: (
     callback: (data: { status: string; version?: string; percent?: number; error?: string }) => void,
   ) => void;
@@ -57,6 +68,11 @@ contextBridge.exposeInMainWorld("electron", {
   startOllama: () => ipcRenderer.invoke("start-ollama"),
   stopOllama: () => ipcRenderer.invoke("stop-ollama"),
 
+  // stdio MCP servers
+  listMCPServers: () => ipcRenderer.invoke("list-mcp-servers"),
+  sendMCPMessage: (server: string, message: object) =>
+    ipcRenderer.invoke("send-mcp-message", { server, message }),
+
   // File operations
   selectFile: () => ipcRenderer.invoke("select-file"),
   saveFile: (data: {
@@ -82,6 +98,12 @@ contextBridge.exposeInMainWorld("electron", {
   onTrayStartJob: (callback: () => void) => {
     ipcRenderer.on("tray-start-job", () => callback());
   },
+  onMCPMessage: (callback: (data: { server: string; message: object }) => void) => {
+    ipcRenderer.on("mcp-message", (_event, data) => callback(data));
+  },
+  onMCPStatus: (callback: (data: { server: string; running: boolean; error?: string }) => void) => {
+    ipcRenderer.on("mcp-status", (_event, data) => callback(data));
+  },
   onUpdateStatus: (
     callback: (data: { status: string; version?: string; percent?: number; error?: string }) => void,
   ) => {
@@ -0,0 +1,149 @@
+/**
+ * BrowserAI Craft Bridge — runs the Figma adapter's custom actions with the
+ * Figma plugin API.
+ *
+ * Requests arrive from the extension's content script through the hidden
+ * UI (ui.html); each one is answered with a response carrying the same id.
+ * Layers and frames are addressed by name. See src/core/types/figma.ts for
+ * the message and parameter shapes.
+ */
+
+const SOURCE = "browserai-craft-bridge";
+const CLONE_GAP = 80;
+
+figma.showUI(__html__, { visible: false });
+
+figma.ui.onmessage = async (request) => {
+  if (!request || request.source !== SOURCE || request.direction !== "request") return;
+
+  const respond = (fields) =>
+    figma.ui.postMessage({ source: SOURCE, direction: "response", id: request.id, ...fields });
+
+  const handler = HANDLERS[request.action];
+  if (!handler) {
+    respond({ success: false, error: `Unknown bridge action "${request.action}"` });
+    return;
+  }
+
+  try {
+    respond({ success: true, data: await handler(request.params || {}) });
+  } catch (error) {
+    respond({ success: false, error: error instanceof Error ? error.message : String(error) });
+  }
+};
+
+// ---------------------------------------------------------------------------
+// Actions
+// ---------------------------------------------------------------------------
+
+const HANDLERS = {
+  ping: async () => ({ file: figma.root.name, page: figma.currentPage.name }),
+
+  getNodeTree: async ({ depth = 3 }) =>
+    figma.currentPage.children.map((node) => summarize(node, depth)),
+
+  setText: async ({ layer, text, frame }) => {
+    const node = findLayer(layer, frame, "TEXT");
+    await setCharacters(node, text);
+    return { layer: node.name, id: node.id };
+  },
+
+  setImageFill: async ({ layer, imageUrl, frame }) => {
+    const node = findLayer(layer, frame);
+    await setImage(node, imageUrl);
+    return { layer: node.name, id: node.id };
+  },
+
+  cloneFrame: async ({ frame, rows, nameColumn }) => {
+    const source = findFrame(frame);
+    const copies = [];
+
+    for (const [index, row] of rows.entries()) {
+      const copy = source.clone();
+      copy.x = source.x + (source.width + CLONE_GAP) * (index + 1);
+      copy.y = source.y;
+      copy.name =
+        nameColumn && row[nameColumn] ? String(row[nameColumn]) : `${source.name} ${index + 1}`;
+      await fillFromRow(copy, row);
+      copies.push(copy);
+    }
+
+    figma.viewport.scrollAndZoomIntoView([source, ...copies]);
+    return { frames: copies.map((copy) => ({ id: copy.id, name: copy.name })) };
+  },
+
+  exportFrame: async ({ frame, format, scale = 1 }) => {
+    const node = findFrame(frame);
+    const settings =
+      format === "png" || format === "jpg"
+        ? { format: format.toUpperCase(), constraint: { type: "SCALE", value: scale } }
+        : { format: format.toUpperCase() };
+    const bytes = await node.exportAsync(settings);
+    return { name: node.name, format, base64: figma.base64Encode(bytes) };
+  },
+};
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function summarize(node, depth) {
+  const summary = { id: node.id, name: node.name, type: node.type };
+  if (node.type === "TEXT") summary.characters = node.characters;
+  if (hasImageFill(node)) summary.hasImageFill = true;
+  if (depth > 1 && "children" in node) {
+    summary.children = node.children.map((child) => summarize(child, depth - 1));
+  }
+  return summary;
+}
+
+function findFrame(name) {
+  const frame = figma.currentPage.children.find((node) => node.name === name);
+  if (!frame)
+    throw new Error(`No top-level frame named "${name}" on page "${figma.currentPage.name}"`);
+  return frame;
+}
+
+function findLayer(name, frame, type) {
+  const scope = frame ? findFrame(frame) : figma.currentPage;
+  const node = scope.findOne((n) => n.name === name && (!type || n.type === type));
+  if (!node) {
+    const kind = type === "TEXT" ? "text layer" : "layer";
+    throw new Error(`No ${kind} named "${name}"${frame ? ` in frame "${frame}"` : ""}`);
+  }
+  return node;
+}
+
+function hasImageFill(node) {
+  return "fills" in node && Array.isArray(node.fills) && node.fills.some((f) => f.type === "IMAGE");
+}
+
+async function setCharacters(node, text) {
+  const fonts =
+    node.characters.length > 0
+      ? node.getRangeAllFontNames(0, node.characters.length)
+      : [node.fontName];
+  await Promise.all(fonts.map((font) => figma.loadFontAsync(font)));
+  node.characters = String(text);
+}
+
+async function setImage(node, url) {
+  if (!("fills" in node)) throw new Error(`Layer "${node.name}" cannot have an image fill`);
+  const image = await figma.createImageAsync(url);
+  const fills = Array.isArray(node.fills) ? node.fills.filter((f) => f.type !== "IMAGE") : [];
+  node.fills = [...fills, { type: "IMAGE", imageHash: image.hash, scaleMode: "FILL" }];
+}
+
+/** Text layers named after a column get its value; image layers get the image at its URL. */
+async function fillFromRow(frame, row) {
+  for (const [column, value] of Object.entries(row)) {
+    if (value === undefined || value === null || value === "") continue;
+    for (const node of frame.findAll((n) => n.name === column)) {
+      if (node.type === "TEXT") {
+        await setCharacters(node, value);
+      } else if (hasImageFill(node)) {
+        await setImage(node, String(value));
+      }
+    }
+  }
+}
@@ -0,0 +1 @@
+/// <reference types="plasmo/templates/plasmo" />
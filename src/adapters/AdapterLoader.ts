@@ -0,0 +1,659 @@
+/**
+ * AdapterLoader — Builds adapter knowledge from the declarative files in
+ * `adapters/<site>/` and from user-installed adapter packs.
+ *
+ * Parses `selectors.yaml`, `workflows.yaml`, `canvas-rules.yaml` and
+ * `prompts/*.txt` into the {@link SelectorMap}, {@link WorkflowMap},
+ * {@link CanvasRules} and prompt templates of an {@link AdapterKnowledge},
+ * validating them against the adapter types. Every problem is reported
+ * with its file, line and column so a broken selector can be fixed by
+ * editing YAML alone.
+ */
+
+import { LineCounter, parseDocument } from "yaml";
+import type { Document } from "yaml";
+import { z } from "zod";
+import { ACTION_CAPABILITIES } from "~types/adapter";
+import type {
+  AdapterKnowledge,
+  AdapterPackManifest,
+  CanvasRules,
+  CustomActionScript,
+  SelectorMap,
+  Workflow,
+  WorkflowMap,
+  WorkflowStep,
+} from "~types/adapter";
+import type { BrowserAction } from "~types/browser";
+import type { ElementSelector } from "~types/common";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** File contents keyed by path relative to the adapter folder. */
+export type AdapterFiles = Record<string, string>;
+
+/** The parts of an {@link AdapterKnowledge} defined declaratively. */
+export type AdapterDefinition = Pick<
+  AdapterKnowledge,
+  "selectors" | "workflows" | "canvasRules" | "prompts"
+>;
+
+/** A validated adapter pack, ready to be wrapped in a `PackAdapter`. */
+export interface LoadedAdapterPack {
+  manifest: AdapterPackManifest;
+  definition: AdapterDefinition;
+  actions: Record<string, CustomActionScript>;
+}
+
+/** A single problem found while loading an adapter. */
+export interface AdapterLoadIssue {
+  /** File the problem is in, relative to the adapter folder */
+  file: string;
+  /** 1-based line, or 0 when the location is unknown */
+  line: number;
+  /** 1-based column, or 0 when the location is unknown */
+  column: number;
+  /** Dotted path to the offending value, e.g. `exportDesign.steps[2].target` */
+  path: string;
+  message: string;
+}
+
+/**
+ * Error raised when an adapter's files cannot be parsed or do not match
+ * the adapter types. Lists every issue found, not just the first.
+ */
+export class AdapterLoadError extends Error {
+  readonly adapter: string;
+  readonly issues: AdapterLoadIssue[];
+
+  constructor(adapter: string, issues: AdapterLoadIssue[]) {
+    super(
+      `Adapter "${adapter}" is invalid:\n` +
+        issues.map((issue) => `  ${formatAdapterLoadIssue(issue)}`).join("\n")
+    );
+    this.name = "AdapterLoadError";
+    this.adapter = adapter;
+    this.issues = issues;
+  }
+}
+
+/** Format an issue as `file:line:col path: message`. */
+export function formatAdapterLoadIssue(issue: AdapterLoadIssue): string {
+  const location = issue.line > 0 ? `${issue.file}:${issue.line}:${issue.column}` : issue.file;
+  return issue.path
+    ? `${location} ${issue.path}: ${issue.message}`
+    : `${location} ${issue.message}`;
+}
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+const SELECTORS_FILE = "selectors.yaml";
+const WORKFLOWS_FILE = "workflows.yaml";
+const CANVAS_RULES_FILE = "canvas-rules.yaml";
+const PROMPTS_DIR = "prompts/";
+const MANIFEST_FILE = "manifest.yaml";
+
+/**
+ * Bare identifiers used as a step `target` name an entry in the selector
+ * map; anything else is taken as a literal CSS selector.
+ */
+const SELECTOR_NAME = /^[A-Za-z][A-Za-z0-9_]*$/;
+
+/** Hostnames an adapter pack may claim, e.g. `express.adobe.com`. */
+const DOMAIN = /^[a-z0-9-]+(\.[a-z0-9-]+)*$/i;
+
+// ---------------------------------------------------------------------------
+// Schemas
+// ---------------------------------------------------------------------------
+
+const selectorsSchema = z.record(z.string().trim().min(1, "selector must not be empty"));
+
+const targetSchema = z.union([
+  z.string().trim().min(1, "target must not be empty"),
+  z.discriminatedUnion("type", [
+    z.object({ type: z.literal("css"), selector: z.string().min(1) }).strict(),
+    z.object({ type: z.literal("coordinates"), x: z.number(), y: z.number() }).strict(),
+    z.object({ type: z.literal("semantic"), description: z.string().min(1) }).strict(),
+    z.object({ type: z.literal("named"), name: z.string().min(1) }).strict(),
+  ]),
+]);
+
+const waitConditionSchema = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("element_visible"), selector: z.string().min(1) }).strict(),
+  z.object({ type: z.literal("element_hidden"), selector: z.string().min(1) }).strict(),
+  z.object({ type: z.literal("network_idle"), timeout: z.number().optional() }).strict(),
+  z.object({ type: z.literal("timeout"), duration: z.number().nonnegative() }).strict(),
+  z.object({ type: z.literal("text_visible"), text: z.string() }).strict(),
+  z.object({ type: z.literal("url_match"), pattern: z.string() }).strict(),
+]);
+
+const actionOptionsSchema = z
+  .object({
+    timeout: z.number().nonnegative().optional(),
+    retries: z.number().int().nonnegative().optional(),
+    waitAfter: z.number().nonnegative().optional(),
+    scrollIntoView: z.boolean().optional(),
+  })
+  .strict();
+
+interface StepInput {
+  action: BrowserAction["type"];
+  description: string;
+  target?: z.infer<typeof targetSchema>;
+  value?: unknown;
+  condition?: z.infer<typeof waitConditionSchema>;
+  timeout?: number;
+  clearFirst?: boolean;
+  direction?: "up" | "down" | "left" | "right";
+  amount?: number;
+  options?: z.infer<typeof actionOptionsSchema>;
+  name?: string;
+  params?: Record<string, unknown>;
+  optional?: boolean;
+  fallback?: StepInput[];
+}
+
+const stepSchema: z.ZodType<StepInput> = z.lazy(() =>
+  z
+    .object({
+      action: z.enum([
+        "click",
+        "type",
+        "upload",
+        "wait",
+        "navigate",
+        "screenshot",
+        "scroll",
+        "hover",
+        "press_key",
+        "evaluate",
+        "custom",
+      ]),
+      name: z.string().min(1).optional(),
+      params: z.record(z.unknown()).optional(),
+      description: z.string().min(1),
+      target: targetSchema.optional(),
+      value: z.unknown().optional(),
+      condition: waitConditionSchema.optional(),
+      timeout: z.number().nonnegative().optional(),
+      clearFirst: z.boolean().optional(),
+      direction: z.enum(["up", "down", "left", "right"]).optional(),
+      amount: z.number().positive().optional(),
+      options: actionOptionsSchema.optional(),
+      optional: z.boolean().optional(),
+      fallback: z.array(stepSchema).min(1).optional(),
+    })
+    .strict()
+);
+
+const workflowsSchema = z.record(
+  z
+    .object({
+      description: z.string().min(1),
+      requirements: z.array(z.string()).optional(),
+      steps: z.array(stepSchema).min(1, "a workflow needs at least one step"),
+    })
+    .strict()
+);
+
+const interactionRuleSchema = z
+  .object({
+    strategy: z.enum(["vision", "coordinate", "hybrid"]),
+    fallback: z.enum(["vision", "coordinate"]).optional(),
+    waitAfter: z.number().nonnegative().optional(),
+    notes: z.array(z.string()).optional(),
+  })
+  .strict();
+
+// `specialCases` and `verificationRules` are guidance for authors, so
+// unknown top-level keys are allowed here.
+const canvasRulesSchema = z.object({
+  canvas: z
+    .object({
+      editorSelector: z.string().min(1),
+      requiresVision: z.boolean(),
+      clickableAreas: z
+        .object({ textLayers: z.string(), images: z.string(), shapes: z.string() })
+        .strict(),
+    })
+    .strict(),
+  interactions: z
+    .object({
+      click: interactionRuleSchema,
+      drag: interactionRuleSchema,
+      text: interactionRuleSchema,
+    })
+    .strict(),
+});
+
+const manifestSchema = z
+  .object({
+    name: z.string().trim().min(1),
+    version: z.string().regex(/^\d+\.\d+\.\d+/, "version must look like 1.0.0"),
+    description: z.string().optional(),
+    supportedDomains: z
+      .array(z.string().regex(DOMAIN, "must be a hostname such as example.com"))
+      .min(1, "a pack must support at least one domain"),
+    capabilities: z.array(z.enum(["interact", "input", "navigate", "capture", "evaluate"])),
+    knowledge: z
+      .object({
+        selectors: z.string().min(1),
+        workflows: z.string().min(1).optional(),
+        canvasRules: z.string().min(1).optional(),
+        prompts: z.array(z.string().min(1)).optional(),
+      })
+      .strict(),
+    actions: z.record(z.string().min(1)).optional(),
+    tips: z.array(z.string()).optional(),
+  })
+  .strict();
+
+const scriptSchema = z
+  .object({
+    description: z.string().min(1),
+    params: z.array(z.string().regex(SELECTOR_NAME, "must be an identifier")).optional(),
+    steps: z.array(stepSchema).min(1, "a script needs at least one step"),
+  })
+  .strict();
+
+// ---------------------------------------------------------------------------
+// AdapterLoader
+// ---------------------------------------------------------------------------
+
+/** A parsed YAML file with the line counter needed to locate its nodes. */
+interface ParsedFile {
+  file: string;
+  doc: Document;
+  lines: LineCounter;
+}
+
+/** Where each knowledge file lives within an adapter folder or pack. */
+interface KnowledgePaths {
+  selectors: string;
+  workflows?: string;
+  canvasRules?: string;
+  prompts: string[];
+}
+
+/** The selector map that step targets are checked against. */
+interface SelectorSource {
+  file: string;
+  map: SelectorMap;
+}
+
+/**
+ * Loads declarative adapter definitions. Stateless; all methods are static.
+ */
+export class AdapterLoader {
+  /**
+   * Parse and validate an adapter's files. `selectors.yaml` is required;
+   * workflows, canvas rules and prompts are optional.
+   *
+   * @throws {AdapterLoadError} listing every problem found.
+   */
+  static load(adapter: string, files: AdapterFiles): AdapterDefinition {
+    const issues: AdapterLoadIssue[] = [];
+
+    if (files[SELECTORS_FILE] === undefined) {
+      issues.push(AdapterLoader.issue(SELECTORS_FILE, "", "file is missing"));
+      throw new AdapterLoadError(adapter, issues);
+    }
+
+    const paths: KnowledgePaths = {
+      selectors: SELECTORS_FILE,
+      workflows: files[WORKFLOWS_FILE] !== undefined ? WORKFLOWS_FILE : undefined,
+      canvasRules: files[CANVAS_RULES_FILE] !== undefined ? CANVAS_RULES_FILE : undefined,
+      prompts: Object.keys(files).filter((p) => p.startsWith(PROMPTS_DIR) && p.endsWith(".txt")),
+    };
+    const definition = AdapterLoader.loadKnowledge(files, paths, issues);
+
+    if (issues.length > 0) throw new AdapterLoadError(adapter, issues);
+    AdapterLoader.logLoaded(adapter, definition);
+    return definition;
+  }
+
+  /**
+   * Parse and validate an adapter pack: its `manifest.yaml`, the knowledge
+   * files it lists and its custom action scripts. Every script step must
+   * be covered by a capability the manifest declares.
+   *
+   * @throws {AdapterLoadError} listing every problem found.
+   */
+  static loadPack(files: AdapterFiles): LoadedAdapterPack {
+    const issues: AdapterLoadIssue[] = [];
+
+    if (files[MANIFEST_FILE] === undefined) {
+      issues.push(AdapterLoader.issue(MANIFEST_FILE, "", "file is missing"));
+      throw new AdapterLoadError("adapter pack", issues);
+    }
+
+    const manifestFile = AdapterLoader.parse(MANIFEST_FILE, files[MANIFEST_FILE], issues);
+    const manifest = manifestFile && AdapterLoader.validate(manifestFile, manifestSchema, issues);
+    if (!manifestFile || !manifest) throw new AdapterLoadError("adapter pack", issues);
+
+    // Every file the manifest references must be part of the pack.
+    const { knowledge } = manifest;
+    const referenced: Array<[string, Array<string | number>]> = [
+      [knowledge.selectors, ["knowledge", "selectors"]],
+      ...(knowledge.workflows ? [[knowledge.workflows, ["knowledge", "workflows"]]] : []),
+      ...(knowledge.canvasRules ? [[knowledge.canvasRules, ["knowledge", "canvasRules"]]] : []),
+      ...(knowledge.prompts ?? []).map((p, i) => [p, ["knowledge", "prompts", i]]),
+      ...Object.entries(manifest.actions ?? {}).map(([name, p]) => [p, ["actions", name]]),
+    ] as Array<[string, Array<string | number>]>;
+    for (const [file, path] of referenced) {
+      if (files[file] === undefined) {
+        issues.push(AdapterLoader.locate(manifestFile, path, `file "${file}" is not in the pack`));
+      }
+    }
+    if (issues.length > 0) throw new AdapterLoadError(manifest.name, issues);
+
+    const definition = AdapterLoader.loadKnowledge(
+      files,
+      { ...knowledge, prompts: knowledge.prompts ?? [] },
+      issues
+    );
+    const selectors = { file: knowledge.selectors, map: definition.selectors };
+
+    const actions: Record<string, CustomActionScript> = {};
+    for (const [name, file] of Object.entries(manifest.actions ?? {})) {
+      const parsed = AdapterLoader.parse(file, files[file], issues);
+      const raw = parsed && AdapterLoader.validate(parsed, scriptSchema, issues);
+      if (!parsed || !raw) continue;
+
+      const steps = raw.steps.map((step, i) =>
+        AdapterLoader.toStep(parsed, step, ["steps", i], selectors, issues)
+      );
+      AdapterLoader.checkCapabilities(parsed, raw.steps, ["steps"], manifest, issues);
+      actions[name] = { name, description: raw.description, params: raw.params ?? [], steps };
+    }
+
+    if (issues.length > 0) throw new AdapterLoadError(manifest.name, issues);
+    AdapterLoader.logLoaded(manifest.name, definition);
+    return { manifest, definition, actions };
+  }
+
+  // -----------------------------------------------------------------------
+  // Private helpers
+  // -----------------------------------------------------------------------
+
+  /** Load the knowledge files at `paths`, which must exist in `files`. */
+  private static loadKnowledge(
+    files: AdapterFiles,
+    paths: KnowledgePaths,
+    issues: AdapterLoadIssue[]
+  ): AdapterDefinition {
+    const selectorsFile = AdapterLoader.parse(paths.selectors, files[paths.selectors], issues);
+    const selectors: SelectorSource = {
+      file: paths.selectors,
+      map: (selectorsFile && AdapterLoader.validate(selectorsFile, selectorsSchema, issues)) ?? {},
+    };
+
+    let workflows: WorkflowMap = {};
+    if (paths.workflows) {
+      const parsed = AdapterLoader.parse(paths.workflows, files[paths.workflows], issues);
+      const raw = parsed && AdapterLoader.validate(parsed, workflowsSchema, issues);
+      if (parsed && raw) workflows = AdapterLoader.toWorkflows(parsed, raw, selectors, issues);
+    }
+
+    let canvasRules: CanvasRules | undefined;
+    if (paths.canvasRules) {
+      const parsed = AdapterLoader.parse(paths.canvasRules, files[paths.canvasRules], issues);
+      const raw = parsed && AdapterLoader.validate(parsed, canvasRulesSchema, issues);
+      if (raw) canvasRules = { ...raw.canvas, interactions: raw.interactions };
+    }
+
+    // Prompts are keyed by file name: `prompts/text-edit.txt` → `text-edit`.
+    const prompts: Record<string, string> = {};
+    for (const path of paths.prompts) {
+      const name = path.slice(path.lastIndexOf("/") + 1).replace(/\.[^.]+$/, "");
+      prompts[name] = files[path].trim();
+    }
+
+    return { selectors: selectors.map, workflows, canvasRules, prompts };
+  }
+
+  /**
+   * Report script steps (including fallbacks) whose action needs a
+   * capability the pack's manifest does not declare.
+   */
+  private static checkCapabilities(
+    parsed: ParsedFile,
+    steps: StepInput[],
+    path: Array<string | number>,
+    manifest: AdapterPackManifest,
+    issues: AdapterLoadIssue[]
+  ): void {
+    steps.forEach((step, i) => {
+      const stepPath = [...path, i, "action"];
+      const required = ACTION_CAPABILITIES[step.action];
+      if (step.action === "custom") {
+        const message = "custom action scripts cannot call other custom actions";
+        issues.push(AdapterLoader.locate(parsed, stepPath, message));
+      } else if (required && !manifest.capabilities.includes(required)) {
+        const message =
+          `"${step.action}" needs the "${required}" capability, ` +
+          "which the manifest does not declare";
+        issues.push(AdapterLoader.locate(parsed, stepPath, message));
+      }
+      if (step.fallback) {
+        AdapterLoader.checkCapabilities(
+          parsed,
+          step.fallback,
+          [...path, i, "fallback"],
+          manifest,
+          issues
+        );
+      }
+    });
+  }
+
+  private static logLoaded(adapter: string, definition: AdapterDefinition): void {
+    console.debug(
+      `[AdapterLoader] Loaded ${adapter}: ${Object.keys(definition.selectors).length} selectors,`,
+      `${Object.keys(definition.workflows).length} workflows,`,
+      `${Object.keys(definition.prompts ?? {}).length} prompts`
+    );
+  }
+
+  /** Parse YAML, recording syntax errors. Returns null if parsing failed. */
+  private static parse(
+    file: string,
+    content: string,
+    issues: AdapterLoadIssue[]
+  ): ParsedFile | null {
+    const lines = new LineCounter();
+    const doc = parseDocument(content, { lineCounter: lines });
+
+    if (doc.errors.length > 0) {
+      for (const error of doc.errors) {
+        const pos = error.linePos?.[0];
+        issues.push({
+          file,
+          line: pos?.line ?? 0,
+          column: pos?.col ?? 0,
+          path: "",
+          message: error.message.split(" at line")[0],
+        });
+      }
+      return null;
+    }
+    return { file, doc, lines };
+  }
+
+  /**
+   * Validate a parsed file against a schema, mapping each schema issue back
+   * to the YAML node it refers to. An empty file is treated as `{}`.
+   */
+  private static validate<T>(
+    parsed: ParsedFile,
+    schema: z.ZodType<T>,
+    issues: AdapterLoadIssue[]
+  ): T | null {
+    const result = schema.safeParse(parsed.doc.toJS() ?? {});
+    if (result.success) return result.data;
+
+    for (const issue of result.error.issues) {
+      const path = [...issue.path];
+      // Point at the offending key itself for typos like `tagret:`.
+      if (issue.code === "unrecognized_keys") path.push(issue.keys[0]);
+      issues.push(
+        AdapterLoader.locate(parsed, path, issue.message, issue.code === "unrecognized_keys")
+      );
+    }
+    return null;
+  }
+
+  /** Convert validated workflow input into typed {@link Workflow}s. */
+  private static toWorkflows(
+    parsed: ParsedFile,
+    raw: z.infer<typeof workflowsSchema>,
+    selectors: SelectorSource,
+    issues: AdapterLoadIssue[]
+  ): WorkflowMap {
+    const workflows: WorkflowMap = {};
+
+    for (const [name, input] of Object.entries(raw)) {
+      const workflow: Workflow = {
+        name,
+        description: input.description,
+        steps: input.steps.map((step, i) =>
+          AdapterLoader.toStep(parsed, step, [name, "steps", i], selectors, issues)
+        ),
+      };
+      if (input.requirements) workflow.requirements = input.requirements;
+      workflows[name] = workflow;
+    }
+    return workflows;
+  }
+
+  private static toStep(
+    parsed: ParsedFile,
+    input: StepInput,
+    path: Array<string | number>,
+    selectors: SelectorSource,
+    issues: AdapterLoadIssue[]
+  ): WorkflowStep {
+    const { action: type, description, target, optional, fallback, ...fields } = input;
+
+    if (type === "custom" && !fields.name) {
+      issues.push(AdapterLoader.locate(parsed, path, "a custom action step needs a `name`"));
+    }
+
+    // Remaining fields (value, condition, timeout, clearFirst, direction,
+    // amount, options, name, params) are the action's own typed fields, e.g.
+    // a WaitAction's `condition` or a CustomAction's `name`.
+    const action: BrowserAction = { type, ...fields };
+    if (target !== undefined) {
+      action.target = AdapterLoader.toTarget(
+        parsed,
+        target,
+        [...path, "target"],
+        selectors,
+        issues
+      );
+    }
+
+    const step: WorkflowStep = { action, description };
+    if (optional !== undefined) step.optional = optional;
+    if (fallback) {
+      step.fallback = fallback.map((s, i) =>
+        AdapterLoader.toStep(parsed, s, [...path, "fallback", i], selectors, issues)
+      );
+    }
+    return step;
+  }
+
+  /**
+   * Resolve a step target. Bare names become `named` selectors (resolved
+   * against the selector map when the workflow runs) and must exist.
+   */
+  private static toTarget(
+    parsed: ParsedFile,
+    target: z.infer<typeof targetSchema>,
+    path: Array<string | number>,
+    selectors: SelectorSource,
+    issues: AdapterLoadIssue[]
+  ): ElementSelector {
+    const name =
+      typeof target === "string"
+        ? SELECTOR_NAME.test(target)
+          ? target
+          : null
+        : target.type === "named"
+          ? target.name
+          : null;
+
+    if (name === null) {
+      return typeof target === "string" ? { type: "css", selector: target } : target;
+    }
+    if (!(name in selectors.map)) {
+      const message = `unknown selector "${name}" (not defined in ${selectors.file})`;
+      issues.push(AdapterLoader.locate(parsed, path, message));
+    }
+    return { type: "named", name };
+  }
+
+  /**
+   * Build an issue for the YAML node at `path`, falling back to the
+   * nearest existing ancestor (e.g. the map a required key is missing from).
+   */
+  private static locate(
+    parsed: ParsedFile,
+    path: Array<string | number>,
+    message: string,
+    atKey = false
+  ): AdapterLoadIssue {
+    for (let depth = path.length; depth >= 0; depth--) {
+      const node = AdapterLoader.nodeAt(
+        parsed.doc,
+        path.slice(0, depth),
+        atKey && depth === path.length
+      );
+      if (node?.range) {
+        const pos = parsed.lines.linePos(node.range[0]);
+        return {
+          file: parsed.file,
+          line: pos.line,
+          column: pos.col,
+          path: AdapterLoader.formatPath(path),
+          message,
+        };
+      }
+    }
+    return AdapterLoader.issue(parsed.file, AdapterLoader.formatPath(path), message);
+  }
+
+  /** The node at `path`, or the key node of its last segment when `atKey`. */
+  private static nodeAt(
+    doc: Document,
+    path: Array<string | number>,
+    atKey: boolean
+  ): { range?: [number, number, number] | null } | null {
+    if (path.length === 0) return doc.contents;
+    if (!atKey) return (doc.getIn(path, true) as { range?: [number, number, number] }) ?? null;
+
+    const parent = path.length === 1 ? doc.contents : doc.getIn(path.slice(0, -1), true);
+    const key = path[path.length - 1];
+    const items = (
+      parent as { items?: Array<{ key?: { value?: unknown; range?: [number, number, number] } }> }
+    )?.items;
+    return items?.find((pair) => pair.key?.value === key)?.key ?? null;
+  }
+
+  /** `["exportDesign", "steps", 2, "target"]` → `exportDesign.steps[2].target` */
+  private static formatPath(path: Array<string | number>): string {
+    return path
+      .map((segment, i) =>
+        typeof segment === "number" ? `[${segment}]` : i === 0 ? segment : `.${segment}`
+      )
+      .join("");
+  }
+
+  private static issue(file: string, path: string, message: string): AdapterLoadIssue {
+    return { file, line: 0, column: 0, path, message };
+  }
+}
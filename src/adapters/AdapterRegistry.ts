@@ -39,6 +39,17 @@ export class AdapterRegistry {
     );
   }
 
+  /**
+   * Remove a registered adapter by name, e.g. when an adapter pack is
+   * uninstalled. Returns `false` if no such adapter was registered.
+   */
+  unregisterAdapter(name: string): boolean {
+    const index = this.adapters.findIndex((a) => a.name === name);
+    if (index === -1) return false;
+    this.adapters.splice(index, 1);
+    return true;
+  }
+
   /**
    * Return the most appropriate adapter for the given URL.
    *
@@ -1,231 +1,86 @@
 /**
  * CanvaAdapter — Website adapter for Canva (canva.com).
  *
- * Provides Canva-specific selectors, workflows, canvas interaction rules,
- * and prompt builders so the orchestration layer can drive the Canva editor.
+ * Selectors, workflows, canvas interaction rules and prompt templates are
+ * loaded from the declarative files in `adapters/canva/`; this class adds
+ * task templates, tips, the prompt builders the orchestration layer
+ * needs to drive the Canva editor, and the Canva custom actions, which run
+ * in the Canva content script.
  */
 
+import { z } from "zod";
 import type {
   BaseAdapter,
   AdapterKnowledge,
-  SelectorMap,
-  WorkflowMap,
-  CanvasRules,
   TaskTemplateMap,
-  Workflow,
+  WorkflowMap,
   Observation,
   Task,
 } from "~types/adapter";
 import type { ActionResult } from "~types/common";
 import type { BrowserAction } from "~types/browser";
+import type { CanvaActionName } from "~types/canva";
+import canvasRulesYaml from "data-text:~adapters/canva/canvas-rules.yaml";
+import templateSearchPrompt from "data-text:~adapters/canva/prompts/template-search.txt";
+import textEditPrompt from "data-text:~adapters/canva/prompts/text-edit.txt";
+import selectorsYaml from "data-text:~adapters/canva/selectors.yaml";
+import workflowsYaml from "data-text:~adapters/canva/workflows.yaml";
+import { AdapterLoader } from "./AdapterLoader";
+import type { AdapterDefinition, AdapterFiles } from "./AdapterLoader";
+import { ContentScriptClient } from "./ContentScriptClient";
+import type { ContentScriptAction } from "./ContentScriptClient";
 
 // ---------------------------------------------------------------------------
-// Selectors
-// ---------------------------------------------------------------------------
-
-const SELECTORS: SelectorMap = {
-  homeButton: '[data-testid="brand-logo"]',
-  createButton: '[data-testid="create-blank-button"]',
-  templatesTab: '[data-testid="templates-tab"]',
-  searchInput: '[data-testid="search-input"]',
-  canvasContainer: ".canvas-container",
-  editor: '[data-testid="editor"]',
-  designCanvas: '[data-testid="design-surface"]',
-  textButton: '[data-testid="text-button"]',
-  imagesButton: '[data-testid="images-button"]',
-  elementsButton: '[data-testid="elements-button"]',
-  uploadsButton: '[data-testid="upload-button"]',
-  exportButton: '[data-testid="export-button"]',
-  downloadButton: '[data-testid="download-button"]',
-  fileTypeDropdown: '[data-testid="format-selector"]',
-  templateCard: '[data-testid="template-item"]',
-  templatePreview: '[data-testid="template-preview"]',
-  useTemplateButton: '[data-testid="use-template-button"]',
-  textElement: '[data-testid="text-layer"]',
-  textInput: '[data-testid="text-input"]',
-  modal: '[role="dialog"]',
-  modalClose: '[data-testid="modal-close"]',
-  loadingSpinner: '[data-testid="loading-spinner"]',
-};
-
-// ---------------------------------------------------------------------------
-// Workflows
-// ---------------------------------------------------------------------------
-
-const createFromTemplateWorkflow: Workflow = {
-  name: "createFromTemplate",
-  description: "Search for a template and start a new design from it",
-  requirements: ["Must be on the Canva homepage or templates page"],
-  steps: [
-    {
-      action: { type: "click", target: { type: "css", selector: SELECTORS.searchInput } },
-      description: "Click the search input",
-    },
-    {
-      action: { type: "type", target: { type: "css", selector: SELECTORS.searchInput }, value: "{{template_query}}" },
-      description: "Enter the template search query",
-    },
-    {
-      action: { type: "wait", target: { type: "css", selector: SELECTORS.templateCard }, options: { timeout: 5000 } },
-      description: "Wait for template results to appear",
-    },
-    {
-      action: { type: "click", target: { type: "css", selector: SELECTORS.templateCard } },
-      description: "Click the first matching template card",
-    },
-    {
-      action: { type: "wait", target: { type: "css", selector: SELECTORS.useTemplateButton }, options: { timeout: 3000 } },
-      description: "Wait for the template preview to load",
-    },
-    {
-      action: { type: "click", target: { type: "css", selector: SELECTORS.useTemplateButton } },
-      description: "Click 'Use this template' to open in the editor",
-    },
-  ],
-};
-
-const editTextWorkflow: Workflow = {
-  name: "editText",
-  description: "Select and edit a text layer in the Canva editor canvas",
-  requirements: ["Must be in the Canva editor with a design open"],
-  steps: [
-    {
-      action: { type: "click", target: { type: "semantic", description: "{{text_layer_description}}" } },
-      description: "Click the text layer to select it",
-    },
-    {
-      action: { type: "wait", options: { timeout: 500 } },
-      description: "Wait for layer selection",
-    },
-    {
-      action: { type: "type", target: { type: "css", selector: SELECTORS.textInput }, value: "{{new_text}}" },
-      description: "Replace the text content",
-    },
-    {
-      action: { type: "click", target: { type: "css", selector: SELECTORS.designCanvas } },
-      description: "Click the canvas to deselect and confirm",
-    },
-  ],
-};
-
-const replaceImageWorkflow: Workflow = {
-  name: "replaceImage",
-  description: "Replace an image layer in the current design",
-  requirements: ["Must be in the Canva editor with a design open"],
-  steps: [
-    {
-      action: { type: "click", target: { type: "semantic", description: "{{image_layer_description}}" } },
-      description: "Click the image layer to select it",
-    },
-    {
-      action: {
-        type: "wait",
-        target: { type: "css", selector: '[data-testid="replace-button"]' },
-        options: { timeout: 2000 },
-      },
-      description: "Wait for the replace option to appear",
-    },
-    {
-      action: { type: "click", target: { type: "css", selector: '[data-testid="replace-button"]' } },
-      description: "Click the replace button",
-    },
-    {
-      action: { type: "click", target: { type: "css", selector: SELECTORS.uploadsButton } },
-      description: "Open the uploads panel to choose a replacement image",
-    },
-  ],
-};
-
-const exportWorkflow: Workflow = {
-  name: "export",
-  description: "Export the current Canva design",
-  requirements: ["Must be in the Canva editor with a design open"],
-  steps: [
-    {
-      action: { type: "click", target: { type: "css", selector: '[data-testid="share-button"]' } },
-      description: "Open the Share menu",
-    },
-    {
-      action: { type: "wait", target: { type: "css", selector: SELECTORS.downloadButton }, options: { timeout: 3000 } },
-      description: "Wait for the download option",
-    },
-    {
-      action: { type: "click", target: { type: "css", selector: SELECTORS.downloadButton } },
-      description: "Click the Download option",
-    },
-    {
-      action: { type: "click", target: { type: "css", selector: SELECTORS.fileTypeDropdown } },
-      description: "Open the file type dropdown",
-      optional: true,
-    },
-    {
-      action: { type: "click", target: { type: "semantic", description: "{{export_format}} format option" } },
-      description: "Select the desired export format",
-    },
-    {
-      action: { type: "click", target: { type: "css", selector: SELECTORS.exportButton } },
-      description: "Click the Export / Download button",
-    },
-    {
-      action: { type: "wait", options: { timeout: 5000 } },
-      description: "Wait for the export to complete",
-    },
-  ],
-};
-
-const WORKFLOWS: WorkflowMap = {
-  createFromTemplate: createFromTemplateWorkflow,
-  editText: editTextWorkflow,
-  replaceImage: replaceImageWorkflow,
-  export: exportWorkflow,
-};
-
-// ---------------------------------------------------------------------------
-// Canvas Rules
+// Declarative knowledge
 // ---------------------------------------------------------------------------
 
-const CANVAS_RULES: CanvasRules = {
-  editorSelector: '[data-testid="design-surface"]',
-  requiresVision: true,
-  clickableAreas: {
-    textLayers: ".text-layer",
-    images: ".image-layer",
-    shapes: ".shape-layer",
-  },
-  interactions: {
-    click: { strategy: "hybrid", fallback: "vision", waitAfter: 500 },
-    drag: { strategy: "coordinate", fallback: "vision", waitAfter: 300 },
-    text: { strategy: "hybrid", fallback: "vision", waitAfter: 200 },
-  },
+/** The files in `adapters/canva/`, bundled at build time. */
+export const CANVA_ADAPTER_FILES: AdapterFiles = {
+  "selectors.yaml": selectorsYaml,
+  "workflows.yaml": workflowsYaml,
+  "canvas-rules.yaml": canvasRulesYaml,
+  "prompts/template-search.txt": templateSearchPrompt,
+  "prompts/text-edit.txt": textEditPrompt,
 };
 
 // ---------------------------------------------------------------------------
 // Common Task Templates
 // ---------------------------------------------------------------------------
 
-const COMMON_TASKS: TaskTemplateMap = {
-  createFromTemplate: {
-    name: "Create from Template",
-    workflow: createFromTemplateWorkflow,
-    dataMapping: { template_query: "templateName" },
-    conditions: [{ check: "!url.includes('canva.com')", action: "fail" }],
-  },
-  editText: {
-    name: "Edit Text",
-    workflow: editTextWorkflow,
-    dataMapping: { new_text: "textContent", text_layer_description: "layerDescription" },
-  },
-  replaceImage: {
-    name: "Replace Image",
-    workflow: replaceImageWorkflow,
-    dataMapping: { image_path: "imagePath", image_layer_description: "layerDescription" },
-  },
-  export: {
-    name: "Export Design",
-    workflow: exportWorkflow,
-    dataMapping: { export_format: "format" },
-  },
-};
+/** Build the task templates from the workflows defined in `workflows.yaml`. */
+function buildCommonTasks(workflows: WorkflowMap): TaskTemplateMap {
+  const tasks: TaskTemplateMap = {};
+  if (workflows.searchAndSelectTemplate) {
+    tasks.createFromTemplate = {
+      name: "Create from Template",
+      workflow: workflows.searchAndSelectTemplate,
+      dataMapping: { template_query: "templateName" },
+      conditions: [{ check: "!url.includes('canva.com')", action: "fail" }],
+    };
+  }
+  if (workflows.editTextLayer) {
+    tasks.editText = {
+      name: "Edit Text",
+      workflow: workflows.editTextLayer,
+      dataMapping: { new_text: "textContent", text_layer_description: "layerDescription" },
+    };
+  }
+  if (workflows.replaceImage) {
+    tasks.replaceImage = {
+      name: "Replace Image",
+      workflow: workflows.replaceImage,
+      dataMapping: { image_path: "imagePath", image_layer_description: "layerDescription" },
+    };
+  }
+  if (workflows.exportDesign) {
+    tasks.export = {
+      name: "Export Design",
+      workflow: workflows.exportDesign,
+      dataMapping: { export_format: "format" },
+    };
+  }
+  return tasks;
+}
 
 // ---------------------------------------------------------------------------
 // Tips
@@ -239,6 +94,45 @@ const TIPS: string[] = [
   "The Share → Download path is the primary export flow.",
 ];
 
+// ---------------------------------------------------------------------------
+// Custom actions
+// ---------------------------------------------------------------------------
+
+const exportFormat = z.preprocess(
+  (v) => (typeof v === "string" ? v.trim().toLowerCase() : v),
+  z.enum(["png", "pdf", "jpg", "mp4"])
+);
+const layerIndex = z.coerce.number().int().min(0);
+
+/** Parameter schemas and prompt descriptions of the Canva custom actions. */
+const CANVA_ACTIONS: Record<CanvaActionName, ContentScriptAction> = {
+  selectTextLayer: {
+    schema: z.object({ index: layerIndex }).strict(),
+    description: "selectTextLayer(index): click the text layer at index (0-based)",
+  },
+  replaceText: {
+    schema: z.object({ text: z.string(), index: layerIndex.optional() }).strict(),
+    description: "replaceText(text, index?): replace the text of a text layer or the selected one",
+  },
+  replaceImageFromAsset: {
+    schema: z.object({ asset: z.string().min(1), index: layerIndex.optional() }).strict(),
+    description:
+      "replaceImageFromAsset(asset, index?): swap an image layer for an uploaded asset, by name",
+  },
+  duplicatePage: {
+    schema: z.object({ page: layerIndex.optional() }).strict(),
+    description: "duplicatePage(page?): duplicate a page (0-based) or the current one",
+  },
+  setExportFormat: {
+    schema: z.object({ format: exportFormat }).strict(),
+    description: "setExportFormat(format): pick png, jpg, pdf or mp4 in the open download panel",
+  },
+  downloadDesign: {
+    schema: z.object({ format: exportFormat.optional() }).strict(),
+    description: "downloadDesign(format?): open Share → Download and download the design",
+  },
+};
+
 // ---------------------------------------------------------------------------
 // CanvaAdapter
 // ---------------------------------------------------------------------------
@@ -253,13 +147,33 @@ export class CanvaAdapter implements BaseAdapter {
   readonly name = "Canva";
   readonly supportedDomains = ["canva.com", "www.canva.com"];
 
+  private knowledge: AdapterKnowledge;
+
+  /**
+   * @param definition Declarative knowledge to use instead of the bundled
+   *   `adapters/canva/` files.
+   * @throws {AdapterLoadError} if the bundled files are invalid.
+   */
+  constructor(definition?: AdapterDefinition) {
+    this.knowledge = CanvaAdapter.toKnowledge(
+      definition ?? AdapterLoader.load(this.name, CANVA_ADAPTER_FILES)
+    );
+  }
+
   /** Return the full Canva knowledge base. */
   getKnowledge(): AdapterKnowledge {
+    return this.knowledge;
+  }
+
+  /** Replace the declarative part of the knowledge base. */
+  setKnowledge(definition: AdapterDefinition): void {
+    this.knowledge = CanvaAdapter.toKnowledge(definition);
+  }
+
+  private static toKnowledge(definition: AdapterDefinition): AdapterKnowledge {
     return {
-      selectors: SELECTORS,
-      workflows: WORKFLOWS,
-      canvasRules: CANVAS_RULES,
-      commonTasks: COMMON_TASKS,
+      ...definition,
+      commonTasks: buildCommonTasks(definition.workflows),
       tips: TIPS,
     };
   }
@@ -294,6 +208,7 @@ export class CanvaAdapter implements BaseAdapter {
       "Return a single JSON object in one of the following shapes:",
       '- For most actions: { "type": "<ActionType>", "target": { ... }, "value": <any> }',
       '- For wait actions: { "type": "wait", "target": { "type": "css", "selector": "<selector>" }, "options": { "timeout": <ms> } }',
+      ...ContentScriptClient.describe("Canva", CANVA_ACTIONS),
     ].join("\n");
   }
 
@@ -327,18 +242,12 @@ export class CanvaAdapter implements BaseAdapter {
   }
 
   /**
-   * Execute a Canva-specific custom action.
-   *
-   * This is a stub — concrete browser automation is handled by the
-   * ActionExecutor. The adapter logs the request and returns success.
+   * Run a Canva custom action (see {@link CanvaActionParams}) in the Canva
+   * content script of the active tab. Parameters are validated first; the
+   * result's duration covers the whole round trip.
    */
-  async executeCustomAction(_action: BrowserAction): Promise<ActionResult> {
-    console.debug("[CanvaAdapter] executeCustomAction (stub)");
-    return {
-      success: true,
-      timestamp: new Date().toISOString(),
-      duration: 0,
-    };
+  async executeCustomAction(action: BrowserAction): Promise<ActionResult> {
+    return ContentScriptClient.run("canva", CANVA_ACTIONS, action);
   }
 
   /** Called when a Canva page finishes loading. */
@@ -0,0 +1,109 @@
+/**
+ * ContentScriptClient — Runs an adapter's custom actions in the site's
+ * content script.
+ *
+ * Adapters describe their custom actions with a parameter schema; the
+ * client validates the parameters, sends them to the content script of the
+ * active tab over `chrome.tabs.sendMessage` and times the round trip.
+ */
+
+import type { z } from "zod";
+import type { BrowserAction, CustomAction } from "~types/browser";
+import type { ActionResult } from "~types/common";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** A custom action implemented by a content script. */
+export interface ContentScriptAction {
+  /** Validates (and may coerce) the action's `params` */
+  schema: z.ZodTypeAny;
+  /** One-line signature and summary, listed in Think prompts */
+  description: string;
+}
+
+/** Message understood by the platform content scripts. */
+export interface ContentScriptMessage {
+  platform: string;
+  customAction: string;
+  params?: Record<string, unknown>;
+}
+
+// ---------------------------------------------------------------------------
+// ContentScriptClient
+// ---------------------------------------------------------------------------
+
+/**
+ * Sends custom actions to platform content scripts.
+ */
+export class ContentScriptClient {
+  /**
+   * Validate `action` against `actions` and run it in the `platform`
+   * content script of the active tab. Never throws; the result's duration
+   * covers validation and the round trip.
+   */
+  static async run(
+    platform: string,
+    actions: Record<string, ContentScriptAction>,
+    action: BrowserAction
+  ): Promise<ActionResult> {
+    const start = Date.now();
+    const site = platform.charAt(0).toUpperCase() + platform.slice(1);
+    const fail = (error: string): ActionResult => ({
+      success: false,
+      error,
+      timestamp: new Date().toISOString(),
+      duration: Date.now() - start,
+    });
+
+    const { name, params = {} } = action as CustomAction;
+    const spec =
+      action.type === "custom" && Object.prototype.hasOwnProperty.call(actions, name)
+        ? actions[name]
+        : undefined;
+    if (!spec) {
+      const label = action.type === "custom" ? `"${name}"` : `of type "${action.type}"`;
+      return fail(`Unknown ${site} custom action ${label}`);
+    }
+
+    const parsed = spec.schema.safeParse(params);
+    if (!parsed.success) {
+      const issues = parsed.error.issues.map(
+        (i) => `${i.path.join(".") || "params"}: ${i.message}`
+      );
+      return fail(`Invalid params for ${name}: ${issues.join("; ")}`);
+    }
+
+    const message: ContentScriptMessage = { platform, customAction: name, params: parsed.data };
+    try {
+      const [tab] = await chrome.tabs.query({ active: true, currentWindow: true });
+      if (tab?.id === undefined) return fail("No active tab found");
+
+      const response: ActionResult | undefined = await chrome.tabs.sendMessage(tab.id, message);
+      if (!response) {
+        return fail(`The ${site} content script did not respond — is a ${site} tab open?`);
+      }
+
+      console.debug(`[ContentScriptClient] ${platform}.${name}:`, response.error ?? "ok");
+      return {
+        ...response,
+        timestamp: new Date().toISOString(),
+        duration: Date.now() - start,
+      };
+    } catch (error) {
+      const msg = error instanceof Error ? error.message : String(error);
+      return fail(`Content script communication failed: ${msg}`);
+    }
+  }
+
+  /** Prompt lines listing `actions` and the JSON shape to call them with. */
+  static describe(site: string, actions: Record<string, ContentScriptAction>): string[] {
+    return [
+      `- For ${site} actions: { "type": "custom", "name": "<action>", "params": { ... } }`,
+      "",
+      `${site} actions (run as one step):`,
+      ...Object.values(actions).map((a) => `  - ${a.description}`),
+    ];
+  }
+}
@@ -2,9 +2,13 @@
  * FigmaAdapter — Website adapter for Figma (figma.com).
  *
  * Provides Figma-specific selectors, workflows, and prompt builders so the
- * orchestration layer can drive the Figma editor.
+ * orchestration layer can drive the Figma editor. Custom actions go through
+ * the companion plugin (`figma-plugin/`), which works on the document's
+ * node tree, so layers are addressed by name rather than located on the
+ * canvas.
  */
 
+import { z } from "zod";
 import type {
   BaseAdapter,
   AdapterKnowledge,
@@ -17,7 +21,10 @@ import type {
   Task,
 } from "~types/adapter";
 import type { ActionResult } from "~types/common";
-import type { BrowserAction } from "~types/browser";
+import type { BrowserAction, CustomAction } from "~types/browser";
+import type { FigmaActionName } from "~types/figma";
+import { ContentScriptClient } from "./ContentScriptClient";
+import type { ContentScriptAction } from "./ContentScriptClient";
 
 // ---------------------------------------------------------------------------
 // Selectors
@@ -59,32 +66,42 @@ const openFileWorkflow: Workflow = {
 
 const editTextWorkflow: Workflow = {
   name: "editText",
-  description: "Select and edit a text node in the Figma canvas",
+  description: "Set the text of a named text layer, or edit it on the canvas",
   requirements: ["Must be in the Figma editor with a file open"],
   steps: [
     {
-      action: { type: "click", target: { type: "semantic", description: "{{text_layer_description}}" } },
-      description: "Click the text node on the canvas",
-    },
-    {
-      action: { type: "wait", options: { timeout: 300 } },
-      description: "Wait for the node to be selected",
-    },
-    {
-      action: { type: "click", target: { type: "semantic", description: "{{text_layer_description}}" } },
-      description: "Double-click the text node to enter editing mode",
-    },
-    {
-      action: { type: "wait", options: { timeout: 200 } },
-      description: "Wait for text editing mode to activate",
-    },
-    {
-      action: { type: "type", target: { type: "css", selector: SELECTORS.canvas }, value: "{{new_text}}" },
-      description: "Type the replacement text",
-    },
-    {
-      action: { type: "click", target: { type: "css", selector: SELECTORS.viewport } },
-      description: "Click outside to exit text editing mode",
+      action: {
+        type: "custom",
+        name: "setText",
+        params: { layer: "{{layer_name}}", text: "{{new_text}}" },
+      } as CustomAction,
+      description: "Set the text through the Figma plugin bridge",
+      fallback: [
+        {
+          action: { type: "click", target: { type: "semantic", description: "{{text_layer_description}}" } },
+          description: "Click the text node on the canvas",
+        },
+        {
+          action: { type: "wait", options: { timeout: 300 } },
+          description: "Wait for the node to be selected",
+        },
+        {
+          action: { type: "click", target: { type: "semantic", description: "{{text_layer_description}}" } },
+          description: "Double-click the text node to enter editing mode",
+        },
+        {
+          action: { type: "wait", options: { timeout: 200 } },
+          description: "Wait for text editing mode to activate",
+        },
+        {
+          action: { type: "type", target: { type: "css", selector: SELECTORS.canvas }, value: "{{new_text}}" },
+          description: "Type the replacement text",
+        },
+        {
+          action: { type: "click", target: { type: "css", selector: SELECTORS.viewport } },
+          description: "Click outside to exit text editing mode",
+        },
+      ],
     },
   ],
 };
@@ -157,7 +174,11 @@ const COMMON_TASKS: TaskTemplateMap = {
   editText: {
     name: "Edit Text",
     workflow: editTextWorkflow,
-    dataMapping: { new_text: "textContent", text_layer_description: "layerDescription" },
+    dataMapping: {
+      new_text: "textContent",
+      layer_name: "layerName",
+      text_layer_description: "layerDescription",
+    },
   },
   export: {
     name: "Export Design",
@@ -171,12 +192,69 @@ const COMMON_TASKS: TaskTemplateMap = {
 // ---------------------------------------------------------------------------
 
 const TIPS: string[] = [
-  "Figma uses a WebGL canvas — individual layers must be located with vision or the layers panel.",
+  "Prefer the Figma actions: they address layers by name and work without the canvas.",
+  "The Figma actions need the BrowserAI Craft Bridge plugin running (Plugins → Development).",
+  "Without the plugin, layers on the WebGL canvas must be located with vision or the layers panel.",
   "Press Enter on a selected text node to enter editing mode.",
   "Use Ctrl+A to select all text before replacing.",
   "The right-hand Design panel contains export settings when a frame is selected.",
 ];
 
+// ---------------------------------------------------------------------------
+// Custom actions
+// ---------------------------------------------------------------------------
+
+const nodeName = z.string().trim().min(1);
+const cell = z.union([z.string(), z.number()]);
+
+/** Parameter schemas and prompt descriptions of the plugin bridge actions. */
+const FIGMA_ACTIONS: Record<FigmaActionName, ContentScriptAction> = {
+  ping: {
+    schema: z.object({}).strict(),
+    description: "ping(): check that the BrowserAI Craft Bridge plugin is running",
+  },
+  getNodeTree: {
+    schema: z.object({ depth: z.coerce.number().int().min(1).max(10).optional() }).strict(),
+    description: "getNodeTree(depth?): list the current page's layers (names, types, text)",
+  },
+  setText: {
+    schema: z.object({ layer: nodeName, text: z.string(), frame: nodeName.optional() }).strict(),
+    description: "setText(layer, text, frame?): set the text of the text layer with that name",
+  },
+  setImageFill: {
+    schema: z
+      .object({ layer: nodeName, imageUrl: z.string().url(), frame: nodeName.optional() })
+      .strict(),
+    description: "setImageFill(layer, imageUrl, frame?): replace the image fill of a named layer",
+  },
+  cloneFrame: {
+    schema: z
+      .object({
+        frame: nodeName,
+        rows: z.array(z.record(cell)).min(1),
+        nameColumn: nodeName.optional(),
+      })
+      .strict(),
+    description:
+      "cloneFrame(frame, rows, nameColumn?): copy a frame per data row; " +
+      "layers named after a column get its value",
+  },
+  exportFrame: {
+    schema: z
+      .object({
+        frame: nodeName,
+        format: z.preprocess(
+          (v) => (typeof v === "string" ? v.trim().toLowerCase() : v),
+          z.enum(["png", "jpg", "svg", "pdf"])
+        ),
+        scale: z.coerce.number().min(0.5).max(4).optional(),
+      })
+      .strict(),
+    description:
+      "exportFrame(frame, format, scale?): export a frame as png, jpg, svg or pdf and download it",
+  },
+};
+
 // ---------------------------------------------------------------------------
 // FigmaAdapter
 // ---------------------------------------------------------------------------
@@ -232,6 +310,7 @@ export class FigmaAdapter implements BaseAdapter {
       "Return a single JSON object in one of the following shapes:",
       '- For most actions: { "type": "<ActionType>", "target": { ... }, "value": <any> }',
       '- For wait actions: { "type": "wait", "target": { "type": "css", "selector": "<selector>" }, "options": { "timeout": <ms> } }',
+      ...ContentScriptClient.describe("Figma", FIGMA_ACTIONS),
     ].join("\n");
   }
 
@@ -263,15 +342,11 @@ export class FigmaAdapter implements BaseAdapter {
   }
 
   /**
-   * Execute a Figma-specific custom action (stub).
+   * Run a Figma custom action (see {@link FigmaActionParams}) through the
+   * plugin bridge in the Figma content script of the active tab.
    */
-  async executeCustomAction(_action: BrowserAction): Promise<ActionResult> {
-    console.debug("[FigmaAdapter] executeCustomAction (stub)");
-    return {
-      success: true,
-      timestamp: new Date().toISOString(),
-      duration: 0,
-    };
+  async executeCustomAction(action: BrowserAction): Promise<ActionResult> {
+    return ContentScriptClient.run("figma", FIGMA_ACTIONS, action);
   }
 
   /** Called when a Figma page finishes loading. */
@@ -0,0 +1,222 @@
+/**
+ * PackAdapter — Adapter backed by a user-installed adapter pack.
+ *
+ * A pack is a folder with a `manifest.yaml`, the usual knowledge files
+ * (selectors, workflows, canvas rules, prompts) and optional custom action
+ * scripts. Scripts are declarative step lists, never code: each step runs
+ * through the action executor only after it is checked against the
+ * capabilities the manifest declares, and navigation is limited to the
+ * pack's own domains.
+ */
+
+import type {
+  AdapterKnowledge,
+  AdapterPack,
+  AdapterPackManifest,
+  BaseAdapter,
+  CustomActionScript,
+  Observation,
+  Task,
+} from "~types/adapter";
+import { ACTION_CAPABILITIES } from "~types/adapter";
+import type { BrowserAction, CustomAction } from "~types/browser";
+import type { ActionResult } from "~types/common";
+import type { ActionExecutor } from "~core/browser/ActionExecutor";
+import { WorkflowRunner } from "~core/browser/WorkflowRunner";
+import { AdapterLoader } from "./AdapterLoader";
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+/** Upper bound on steps (including fallbacks) one custom action may run. */
+const MAX_SCRIPT_STEPS = 50;
+
+// ---------------------------------------------------------------------------
+// PackAdapter
+// ---------------------------------------------------------------------------
+
+/**
+ * Adapter for a site described by an installed {@link AdapterPack}.
+ */
+export class PackAdapter implements BaseAdapter {
+  readonly name: string;
+  readonly supportedDomains: string[];
+  readonly manifest: AdapterPackManifest;
+
+  private readonly knowledge: AdapterKnowledge;
+  private readonly actions: Record<string, CustomActionScript>;
+  private readonly runner: WorkflowRunner;
+
+  /**
+   * @param pack - The installed pack.
+   * @param executor - Runs the browser actions of custom action scripts.
+   * @throws {AdapterLoadError} if the pack's files are invalid.
+   */
+  constructor(pack: AdapterPack, executor: Pick<ActionExecutor, "executeSequence">) {
+    const loaded = AdapterLoader.loadPack(pack.files);
+    this.manifest = loaded.manifest;
+    this.name = loaded.manifest.name;
+    this.supportedDomains = loaded.manifest.supportedDomains;
+    this.actions = loaded.actions;
+    this.runner = new WorkflowRunner(executor);
+    this.knowledge = {
+      ...loaded.definition,
+      commonTasks: {},
+      tips: loaded.manifest.tips,
+    };
+  }
+
+  /** Return the pack's knowledge base. */
+  getKnowledge(): AdapterKnowledge {
+    return this.knowledge;
+  }
+
+  /** The custom action scripts this pack provides. */
+  getCustomActions(): CustomActionScript[] {
+    return Object.values(this.actions);
+  }
+
+  /**
+   * Build a Think-phase prompt from the pack's selectors, tips and custom
+   * actions.
+   */
+  buildThinkPrompt(observation: Observation): string {
+    const { domState, task, previousActions, attempt } = observation;
+
+    const previousSummary = previousActions.length
+      ? previousActions
+          .map((a, i) => `  ${i + 1}. ${a.type} → ${JSON.stringify(a.target)}`)
+          .join("\n")
+      : "  (none)";
+
+    const selectorBlock = Object.entries(this.knowledge.selectors)
+      .map(([name, selector]) => `  - ${name}: ${selector}`)
+      .join("\n");
+
+    const tipBlock = this.knowledge.tips?.length
+      ? `\n${this.name} Tips:\n${this.knowledge.tips.map((t) => `  - ${t}`).join("\n")}`
+      : "";
+
+    const customBlock = this.getCustomActions().length
+      ? [
+          "",
+          "Custom actions (run as one step):",
+          ...this.getCustomActions().map(
+            (a) => `  - ${a.name}(${a.params.join(", ")}): ${a.description}`
+          ),
+          '- For custom actions: { "type": "custom", "name": "<action>", "params": { ... } }',
+        ].join("\n")
+      : "";
+
+    return [
+      `You are an AI agent operating ${this.name}.`,
+      `Current URL: ${domState.url}`,
+      `Page title: ${domState.title}`,
+      `Task: ${task.goal} (type: ${task.type}, attempt ${attempt})`,
+      `Visible elements: ${domState.visibleElements.length}`,
+      `Known selectors:\n${selectorBlock}`,
+      `Previous actions:\n${previousSummary}`,
+      tipBlock,
+      "",
+      "Decide the single next BrowserAction to take.",
+      "Return a single JSON object in one of the following shapes:",
+      '- For most actions: { "type": "<ActionType>", "target": { ... }, "value": <any> }',
+      customBlock,
+    ].join("\n");
+  }
+
+  /**
+   * Build a generic verification prompt.
+   */
+  buildVerifyPrompt(task: Task, result: ActionResult): string {
+    return [
+      `Task: ${task.goal}`,
+      `Result: ${result.success ? "success" : "failure"} (${result.duration}ms)`,
+      result.error ? `Error: ${result.error}` : "",
+      "",
+      `Verify the action completed successfully in ${this.name} by examining the page.`,
+      "Return JSON:",
+      '{ "success": <boolean>, "reasoning": "<string>", "confidence": <0-100> }',
+    ]
+      .filter(Boolean)
+      .join("\n");
+  }
+
+  /**
+   * Run one of the pack's custom action scripts through the
+   * {@link WorkflowRunner}, with `action.params` as its variables.
+   */
+  async executeCustomAction(action: BrowserAction): Promise<ActionResult> {
+    const start = Date.now();
+    const { name, params = {} } = action as CustomAction;
+    const script = action.type === "custom" ? this.actions[name] : undefined;
+    if (!script) {
+      const label = action.type === "custom" ? `"${name}"` : `of type "${action.type}"`;
+      return this.fail(new Error(`Unknown custom action ${label} in ${this.name}`), start);
+    }
+
+    const run = await this.runner.run(script, {
+      selectors: this.knowledge.selectors,
+      variables: params,
+      beforeAction: (step) => this.authorize(script, step),
+      maxSteps: MAX_SCRIPT_STEPS,
+    });
+    if (!run.success) return this.fail(new Error(run.error), start);
+
+    console.info(`[PackAdapter] ${this.name}: ran custom action "${script.name}"`);
+    return {
+      success: true,
+      data: { action: script.name, steps: run.actions.length },
+      timestamp: new Date().toISOString(),
+      duration: Date.now() - start,
+    };
+  }
+
+  // -----------------------------------------------------------------------
+  // Private helpers
+  // -----------------------------------------------------------------------
+
+  /**
+   * Throw unless the manifest grants the capability `action` needs. This
+   * re-checks at run time what the loader checked at install time, and
+   * keeps navigation on the pack's own domains.
+   */
+  private authorize(script: CustomActionScript, action: BrowserAction): void {
+    const required = ACTION_CAPABILITIES[action.type];
+    if (action.type === "custom" || (required && !this.manifest.capabilities.includes(required))) {
+      throw new Error(
+        `Custom action "${script.name}" is not allowed to "${action.type}" ` +
+          `(${this.name} declares: ${this.manifest.capabilities.join(", ") || "no capabilities"})`
+      );
+    }
+
+    if (action.type === "navigate") {
+      const url = (action as BrowserAction & { url?: string }).url ?? String(action.value ?? "");
+      let hostname = "";
+      try {
+        hostname = new URL(url).hostname;
+      } catch {
+        // Relative or malformed URLs are rejected below
+      }
+      const allowed = this.supportedDomains.some(
+        (d) => hostname === d || hostname.endsWith(`.${d}`)
+      );
+      if (!allowed) {
+        throw new Error(
+          `Custom action "${script.name}" may only navigate within ${this.supportedDomains.join(", ")}`
+        );
+      }
+    }
+  }
+
+  /** Build a failed {@link ActionResult}. */
+  private fail(error: unknown, start: number): ActionResult {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : String(error),
+      timestamp: new Date().toISOString(),
+      duration: Date.now() - start,
+    };
+  }
+}
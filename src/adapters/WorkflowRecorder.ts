@@ -0,0 +1,270 @@
+/**
+ * WorkflowRecorder — Drafts adapter knowledge from a demonstrated flow.
+ *
+ * Collects the clicks, typing, scrolls and navigations the universal
+ * content script captures in record mode, names their selectors and turns
+ * them into a {@link Workflow}. Typed text that matches a column of the
+ * loaded data rows becomes a `{{column}}` placeholder. The reviewed draft is
+ * exported as an adapter pack that `AdapterLoader.loadPack` accepts.
+ */
+
+import { stringify } from "yaml";
+import type { RecordedDraft, RecordedEvent } from "~types/recorder";
+import type { SelectorMap, WorkflowStep } from "~types/adapter";
+import type { BrowserAction, WaitCondition } from "~types/browser";
+import type { DataRow } from "~types/data";
+import type { AdapterFiles } from "./AdapterLoader";
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+/** A navigation this soon after a click or keystroke is taken to be caused by it. */
+const CAUSED_NAVIGATION_MS = 3000;
+
+/** Words of an element's label kept in its selector name. */
+const NAME_WORDS = 4;
+
+// ---------------------------------------------------------------------------
+// WorkflowRecorder
+// ---------------------------------------------------------------------------
+
+/**
+ * One recording session. Events are added as they arrive from the content
+ * script; {@link buildDraft} can be called at any time.
+ */
+export class WorkflowRecorder {
+  private readonly recorded: RecordedEvent[] = [];
+
+  /**
+   * @param startUrl - URL of the page the recording started on.
+   * @param events - Events of a recording being resumed, already merged.
+   */
+  constructor(
+    readonly startUrl: string,
+    events: readonly RecordedEvent[] = []
+  ) {
+    this.recorded.push(...events);
+  }
+
+  /** The events recorded so far, after merging. */
+  get events(): readonly RecordedEvent[] {
+    return this.recorded;
+  }
+
+  /**
+   * Add an event. Keystrokes in one field collapse into a single event with
+   * the final value, clicking a field right before typing into it is
+   * dropped, and consecutive scrolls keep only the final position.
+   */
+  add(event: RecordedEvent): void {
+    const last = this.recorded[this.recorded.length - 1];
+
+    if (
+      event.type === "type" &&
+      (last?.type === "type" || last?.type === "click") &&
+      last.selector === event.selector
+    ) {
+      this.recorded[this.recorded.length - 1] = event;
+      return;
+    }
+    if (event.type === "scroll" && last?.type === "scroll" && last.url === event.url) {
+      this.recorded[this.recorded.length - 1] = event;
+      return;
+    }
+    if (event.type === "navigate") {
+      if ((last?.url ?? this.startUrl) === event.url) return;
+    }
+
+    this.recorded.push(event);
+  }
+
+  /**
+   * Build a draft workflow named `name` from the recording.
+   *
+   * @param rows - Loaded data rows; typed text equal to one of their cells
+   *   becomes a placeholder for that cell's column.
+   */
+  buildDraft(name: string, rows: DataRow[] = []): RecordedDraft {
+    const domain = new URL(this.startUrl).hostname.replace(/^www\./, "");
+    const selectors: SelectorMap = {};
+    const names = new Map<string, string>();
+    const variables = new Set<string>();
+    const steps: WorkflowStep[] = [];
+    let position = { x: 0, y: 0 };
+    let lastInteraction = -Infinity;
+
+    const target = (selector: string, label: string, suffix = ""): BrowserAction["target"] => {
+      let selectorName = names.get(selector);
+      if (!selectorName) {
+        selectorName = WorkflowRecorder.uniqueName(
+          WorkflowRecorder.toName(label, suffix),
+          selectors
+        );
+        names.set(selector, selectorName);
+        selectors[selectorName] = selector;
+      }
+      return { type: "named", name: selectorName };
+    };
+
+    for (const event of this.recorded) {
+      switch (event.type) {
+        case "click":
+          lastInteraction = event.timestamp;
+          steps.push({
+            action: { type: "click", target: target(event.selector, event.label) },
+            description: `Click ${WorkflowRecorder.quote(event.label)}`,
+          });
+          break;
+
+        case "type": {
+          lastInteraction = event.timestamp;
+          const column = WorkflowRecorder.matchColumn(event.value, rows);
+          if (column) variables.add(column);
+          steps.push({
+            action: {
+              type: "type",
+              target: target(event.selector, event.label, "Input"),
+              value: column ? `{{${column}}}` : event.value,
+              clearFirst: true,
+            } as BrowserAction,
+            description: column
+              ? `Enter {{${column}}} in ${WorkflowRecorder.quote(event.label)}`
+              : `Type "${event.value}" in ${WorkflowRecorder.quote(event.label)}`,
+          });
+          break;
+        }
+
+        case "scroll": {
+          const dx = event.x - position.x;
+          const dy = event.y - position.y;
+          position = { x: event.x, y: event.y };
+          if (dx === 0 && dy === 0) break;
+
+          const vertical = Math.abs(dy) >= Math.abs(dx);
+          const direction = vertical ? (dy > 0 ? "down" : "up") : dx > 0 ? "right" : "left";
+          const amount = Math.round(Math.abs(vertical ? dy : dx));
+          steps.push({
+            action: { type: "scroll", direction, amount } as BrowserAction,
+            description: `Scroll ${direction} ${amount}px`,
+          });
+          break;
+        }
+
+        case "navigate": {
+          position = { x: 0, y: 0 };
+          const url = new URL(event.url);
+          if (event.timestamp - lastInteraction <= CAUSED_NAVIGATION_MS) {
+            const condition: WaitCondition = {
+              type: "url_match",
+              pattern: WorkflowRecorder.escapeRegExp(url.origin + url.pathname),
+            };
+            steps.push({
+              action: { type: "wait", condition, timeout: 15000 } as BrowserAction,
+              description: `Wait for ${url.pathname} to load`,
+            });
+          } else {
+            steps.push({
+              action: { type: "navigate", value: event.url },
+              description: `Open ${url.host}${url.pathname}`,
+            });
+          }
+          break;
+        }
+      }
+    }
+
+    return {
+      name,
+      domain,
+      selectors,
+      workflow: {
+        name,
+        description: `Recorded on ${domain}`,
+        requirements: [`url: ${domain}`],
+        steps,
+      },
+      variables: [...variables],
+    };
+  }
+
+  /**
+   * Export a draft as the files of an adapter pack: `manifest.yaml`,
+   * `selectors.yaml` and `workflows.yaml`.
+   */
+  static toPackFiles(draft: RecordedDraft): AdapterFiles {
+    const manifest = {
+      name: draft.domain,
+      version: "0.1.0",
+      description: `Recorded workflows for ${draft.domain}`,
+      supportedDomains: [draft.domain],
+      capabilities: [],
+      knowledge: { selectors: "selectors.yaml", workflows: "workflows.yaml" },
+    };
+    const { name, description, requirements, steps } = draft.workflow;
+    const workflows = {
+      [name]: { description, requirements, steps: steps.map((s) => WorkflowRecorder.toYaml(s)) },
+    };
+
+    return {
+      "manifest.yaml": stringify(manifest),
+      "selectors.yaml": stringify(draft.selectors),
+      "workflows.yaml": stringify(workflows),
+    };
+  }
+
+  // -----------------------------------------------------------------------
+  // Private helpers
+  // -----------------------------------------------------------------------
+
+  /** A step in the `workflows.yaml` format; named targets become bare names. */
+  private static toYaml(step: WorkflowStep): Record<string, unknown> {
+    const { type, target, ...fields } = step.action;
+    return {
+      action: type,
+      ...(target && { target: target.type === "named" ? target.name : target }),
+      ...fields,
+      description: step.description,
+    };
+  }
+
+  /** Column of the first cell (in row order) equal to `value`, if any. */
+  private static matchColumn(value: string, rows: DataRow[]): string | undefined {
+    const text = value.trim();
+    if (!text) return undefined;
+
+    for (const row of rows) {
+      for (const [column, cell] of Object.entries(row)) {
+        if (String(cell).trim() === text) return column;
+      }
+    }
+    return undefined;
+  }
+
+  /** camelCase selector name from an element label, e.g. "Create a design" → `createADesign`. */
+  private static toName(label: string, suffix: string): string {
+    const words = label
+      .replace(/[^A-Za-z0-9]+/g, " ")
+      .trim()
+      .split(" ")
+      .filter(Boolean)
+      .slice(0, NAME_WORDS)
+      .map((w, i) => (i === 0 ? w.toLowerCase() : w[0].toUpperCase() + w.slice(1).toLowerCase()));
+    const base = words.join("").replace(/^[0-9]+/, "") || "element";
+    return suffix && !base.toLowerCase().endsWith(suffix.toLowerCase()) ? base + suffix : base;
+  }
+
+  private static uniqueName(base: string, taken: SelectorMap): string {
+    let candidate = base;
+    for (let n = 2; candidate in taken; n++) candidate = `${base}${n}`;
+    return candidate;
+  }
+
+  private static quote(label: string): string {
+    return label ? `"${label}"` : "the element";
+  }
+
+  private static escapeRegExp(text: string): string {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  }
+}
@@ -0,0 +1,446 @@
+/**
+ * Task condition expressions.
+ *
+ * Evaluates the `check` of a {@link TaskCondition} — e.g.
+ * `row.status == 'done'` or `!url.includes('canva.com')` — against the
+ * current data row, the job's variables and the page. Expressions are parsed
+ * by a small recursive-descent parser and interpreted directly; nothing is
+ * passed to `eval` or `Function`, and only a fixed set of string and array
+ * methods can be called.
+ */
+
+import type { DOMState } from "~types/browser";
+import type { DataRow } from "~types/data";
+
+// ── Types ──────────────────────────────────────────────────────────────────────
+
+/** Values an expression can read. */
+export interface ConditionScope {
+  /** Exposed as `row` */
+  row?: DataRow;
+  /** Exposed as `vars` */
+  variables?: Record<string, unknown>;
+  /** Exposed as `page`, with `url` and `title` as shorthands */
+  page?: DOMState;
+}
+
+type Token =
+  | { kind: "number" | "string"; value: string | number; pos: number }
+  | { kind: "name" | "op"; value: string; pos: number };
+
+type Node =
+  | { type: "literal"; value: unknown }
+  | { type: "name"; name: string }
+  | { type: "member"; object: Node; property: Node }
+  | { type: "call"; object: Node; method: string; args: Node[]; pos: number }
+  | { type: "unary"; op: string; operand: Node }
+  | { type: "binary"; op: string; left: Node; right: Node };
+
+// ── Constants ──────────────────────────────────────────────────────────────────
+
+/** Names an expression may start from. */
+const ROOT_NAMES = new Set(["row", "vars", "page", "url", "title"]);
+
+const LITERALS: Record<string, unknown> = { true: true, false: false, null: null };
+
+/** Operators, longest first so `===` wins over `==`. */
+const OPERATORS = ["===", "!==", "==", "!=", "<=", ">=", "&&", "||", "<", ">", "!", "-"];
+const PUNCTUATION = ".()[],";
+
+/** Methods that may be called, by receiver type. */
+const STRING_METHODS = new Set([
+  "includes",
+  "startsWith",
+  "endsWith",
+  "toLowerCase",
+  "toUpperCase",
+  "trim",
+]);
+const ARRAY_METHODS = new Set(["includes"]);
+
+/** Property names that could reach prototypes. */
+const BLOCKED_PROPERTIES = new Set(["__proto__", "constructor", "prototype"]);
+
+// ── Errors ─────────────────────────────────────────────────────────────────────
+
+/**
+ * An expression that cannot be parsed or uses something the language does
+ * not allow. The message names the offending position.
+ */
+export class ConditionError extends Error {
+  readonly expression: string;
+
+  constructor(expression: string, message: string, pos?: number) {
+    super(`${message}${pos !== undefined ? ` at position ${pos + 1}` : ""} in "${expression}"`);
+    this.name = "ConditionError";
+    this.expression = expression;
+  }
+}
+
+// ── Evaluator ──────────────────────────────────────────────────────────────────
+
+/**
+ * Parses and evaluates condition expressions.
+ *
+ * Supported: `row.x`, `vars.x`, `page.x`, `url`, `title`, `a[b]`, string
+ * and number literals, `true`/`false`/`null`, `!`, unary `-`, `==`, `!=`
+ * (`===`/`!==` are aliases), `<`, `<=`, `>`, `>=`, `&&`, `||`, parentheses,
+ * `.length` and the string methods `includes`, `startsWith`, `endsWith`,
+ * `toLowerCase`, `toUpperCase`, `trim` (arrays: `includes`). Missing
+ * fields read as `null`, so `!row.logo_url` is true when the column is empty
+ * or absent. Numeric strings compare as numbers.
+ */
+export class ConditionEvaluator {
+  /**
+   * Evaluate `expression` to a boolean.
+   *
+   * @throws {ConditionError} If the expression is invalid.
+   */
+  static evaluate(expression: string, scope: ConditionScope): boolean {
+    const ast = ConditionEvaluator.parse(expression);
+    return Boolean(new Interpreter(expression, scope).run(ast));
+  }
+
+  /**
+   * Parse `expression` without evaluating it.
+   *
+   * @throws {ConditionError} If the expression is invalid.
+   */
+  static validate(expression: string): void {
+    ConditionEvaluator.parse(expression);
+  }
+
+  private static parse(expression: string): Node {
+    return new Parser(expression, tokenize(expression)).parseExpression();
+  }
+}
+
+// ── Tokenizer ──────────────────────────────────────────────────────────────────
+
+function tokenize(expression: string): Token[] {
+  const tokens: Token[] = [];
+  let pos = 0;
+
+  while (pos < expression.length) {
+    const char = expression[pos];
+
+    if (/\s/.test(char)) {
+      pos++;
+    } else if (/[0-9]/.test(char)) {
+      const [text] = /^[0-9]+(\.[0-9]+)?/.exec(expression.slice(pos)) ?? [char];
+      tokens.push({ kind: "number", value: Number(text), pos });
+      pos += text.length;
+    } else if (char === "'" || char === '"') {
+      let value = "";
+      let end = pos + 1;
+      while (end < expression.length && expression[end] !== char) {
+        if (expression[end] === "\\" && end + 1 < expression.length) end++;
+        value += expression[end++];
+      }
+      if (end >= expression.length) {
+        throw new ConditionError(expression, "Unterminated string", pos);
+      }
+      tokens.push({ kind: "string", value, pos });
+      pos = end + 1;
+    } else if (/[A-Za-z_$]/.test(char)) {
+      const [name] = /^[A-Za-z_$][A-Za-z0-9_$]*/.exec(expression.slice(pos)) ?? [char];
+      tokens.push({ kind: "name", value: name, pos });
+      pos += name.length;
+    } else {
+      const op =
+        OPERATORS.find((o) => expression.startsWith(o, pos)) ??
+        (PUNCTUATION.includes(char) ? char : undefined);
+      if (!op) throw new ConditionError(expression, `Unexpected "${char}"`, pos);
+      tokens.push({ kind: "op", value: op, pos });
+      pos += op.length;
+    }
+  }
+
+  return tokens;
+}
+
+// ── Parser ─────────────────────────────────────────────────────────────────────
+
+/** Precedence levels for binary operators, loosest first. */
+const BINARY_LEVELS = [["||"], ["&&"], ["==", "!=", "===", "!=="], ["<", "<=", ">", ">="]];
+
+class Parser {
+  private readonly expression: string;
+  private readonly tokens: Token[];
+  private index = 0;
+
+  constructor(expression: string, tokens: Token[]) {
+    this.expression = expression;
+    this.tokens = tokens;
+  }
+
+  parseExpression(): Node {
+    if (this.tokens.length === 0) throw new ConditionError(this.expression, "Empty expression");
+    const node = this.parseBinary(0);
+    const extra = this.peek();
+    if (extra) this.fail(`Unexpected "${extra.value}"`, extra.pos);
+    return node;
+  }
+
+  private parseBinary(level: number): Node {
+    if (level === BINARY_LEVELS.length) return this.parseUnary();
+
+    let left = this.parseBinary(level + 1);
+    for (let token = this.peek(); token?.kind === "op"; token = this.peek()) {
+      if (!BINARY_LEVELS[level].includes(token.value)) break;
+      this.index++;
+      // `===` and `!==` behave like `==` and `!=`.
+      const op = token.value.length === 3 ? token.value.slice(0, 2) : token.value;
+      left = { type: "binary", op, left, right: this.parseBinary(level + 1) };
+    }
+    return left;
+  }
+
+  private parseUnary(): Node {
+    const token = this.peek();
+    if (token?.kind === "op" && (token.value === "!" || token.value === "-")) {
+      this.index++;
+      return { type: "unary", op: token.value, operand: this.parseUnary() };
+    }
+    return this.parsePostfix(this.parsePrimary());
+  }
+
+  private parsePostfix(node: Node): Node {
+    for (;;) {
+      if (this.accept(".")) {
+        const name = this.next();
+        if (name.kind !== "name") this.fail("Expected a property name", name.pos);
+        const property: Node = { type: "literal", value: name.value };
+        if (this.peek()?.value === "(") {
+          this.index++;
+          node = {
+            type: "call",
+            object: node,
+            method: String(name.value),
+            args: this.parseArgs(),
+            pos: name.pos,
+          };
+        } else {
+          node = { type: "member", object: node, property };
+        }
+      } else if (this.accept("[")) {
+        node = { type: "member", object: node, property: this.parseBinary(0) };
+        this.expect("]");
+      } else {
+        const token = this.peek();
+        if (token?.value === "(") {
+          this.fail("Only string and array methods can be called", token.pos);
+        }
+        return node;
+      }
+    }
+  }
+
+  private parseArgs(): Node[] {
+    const args: Node[] = [];
+    if (this.accept(")")) return args;
+    do {
+      args.push(this.parseBinary(0));
+    } while (this.accept(","));
+    this.expect(")");
+    return args;
+  }
+
+  private parsePrimary(): Node {
+    const token = this.next();
+    if (token.kind === "number" || token.kind === "string") {
+      return { type: "literal", value: token.value };
+    }
+    if (token.kind === "name") {
+      if (token.value in LITERALS) return { type: "literal", value: LITERALS[token.value] };
+      if (!ROOT_NAMES.has(token.value)) {
+        this.fail(`Unknown name "${token.value}" (use row, vars, page, url or title)`, token.pos);
+      }
+      return { type: "name", name: token.value };
+    }
+    if (token.value === "(") {
+      const node = this.parseBinary(0);
+      this.expect(")");
+      return node;
+    }
+    return this.fail(`Unexpected "${token.value}"`, token.pos);
+  }
+
+  private peek(): Token | undefined {
+    return this.tokens[this.index];
+  }
+
+  private next(): Token {
+    const token = this.tokens[this.index++];
+    if (!token) this.fail("Unexpected end of expression");
+    return token;
+  }
+
+  private accept(op: string): boolean {
+    const token = this.peek();
+    if (token?.kind !== "op" || token.value !== op) return false;
+    this.index++;
+    return true;
+  }
+
+  private expect(op: string): void {
+    const token = this.peek();
+    if (!this.accept(op)) {
+      this.fail(`Expected "${op}"`, token?.pos);
+    }
+  }
+
+  private fail(message: string, pos?: number): never {
+    throw new ConditionError(this.expression, message, pos);
+  }
+}
+
+// ── Interpreter ────────────────────────────────────────────────────────────────
+
+class Interpreter {
+  private readonly expression: string;
+  private readonly scope: ConditionScope;
+
+  constructor(expression: string, scope: ConditionScope) {
+    this.expression = expression;
+    this.scope = scope;
+  }
+
+  run(node: Node): unknown {
+    switch (node.type) {
+      case "literal":
+        return node.value;
+      case "name":
+        return this.root(node.name);
+      case "member":
+        return this.property(this.run(node.object), this.run(node.property));
+      case "call":
+        return this.call(node);
+      case "unary": {
+        const value = this.run(node.operand);
+        return node.op === "!" ? !value : -Number(value);
+      }
+      case "binary":
+        return this.binary(node.op, node.left, node.right);
+    }
+  }
+
+  private root(name: string): unknown {
+    const { row, variables, page } = this.scope;
+    switch (name) {
+      case "row":
+        return row ?? {};
+      case "vars":
+        return variables ?? {};
+      case "page":
+        return page ?? {};
+      case "url":
+        return page?.url ?? "";
+      default:
+        return page?.title ?? "";
+    }
+  }
+
+  /** Read an own property (or `length`); anything else reads as `null`. */
+  private property(object: unknown, key: unknown): unknown {
+    const name = String(key);
+    if (BLOCKED_PROPERTIES.has(name)) {
+      throw new ConditionError(this.expression, `Property "${name}" is not accessible`);
+    }
+    if (typeof object === "string" || Array.isArray(object)) {
+      if (name === "length") return object.length;
+      if (Array.isArray(object) && Object.prototype.hasOwnProperty.call(object, name)) {
+        return object[Number(name)];
+      }
+      return null;
+    }
+    if (
+      object &&
+      typeof object === "object" &&
+      Object.prototype.hasOwnProperty.call(object, name)
+    ) {
+      return (object as Record<string, unknown>)[name] ?? null;
+    }
+    return null;
+  }
+
+  private call(node: Extract<Node, { type: "call" }>): unknown {
+    const object = this.run(node.object);
+    const args = node.args.map((arg) => this.run(arg));
+
+    if (typeof object === "string" && STRING_METHODS.has(node.method)) {
+      const method = object[node.method as "includes"] as (...a: unknown[]) => unknown;
+      return method.apply(object, args.map(String));
+    }
+    if (Array.isArray(object) && ARRAY_METHODS.has(node.method)) {
+      return args.length > 0 && object.some((item) => looselyEqual(item, args[0]));
+    }
+    // Methods on missing values are false rather than errors, so
+    // `row.tags.includes('x')` works for rows without a tags column.
+    if (object === null || object === undefined) return false;
+    throw new ConditionError(
+      this.expression,
+      `"${node.method}" cannot be called on ${Array.isArray(object) ? "an array" : typeof object}`,
+      node.pos
+    );
+  }
+
+  private binary(op: string, leftNode: Node, rightNode: Node): unknown {
+    const left = this.run(leftNode);
+    if (op === "&&") return left ? this.run(rightNode) : left;
+    if (op === "||") return left ? left : this.run(rightNode);
+
+    const right = this.run(rightNode);
+    switch (op) {
+      case "==":
+        return looselyEqual(left, right);
+      case "!=":
+        return !looselyEqual(left, right);
+      default:
+        return compare(op, left, right);
+    }
+  }
+}
+
+// ── Value Helpers ──────────────────────────────────────────────────────────────
+
+/** Numeric value of numbers and numeric strings, otherwise `null`. */
+function asNumber(value: unknown): number | null {
+  if (typeof value === "number") return value;
+  if (typeof value === "string" && value.trim() !== "" && Number.isFinite(Number(value))) {
+    return Number(value);
+  }
+  return null;
+}
+
+/**
+ * Equality where `null` matches a missing value and numbers match numeric
+ * strings (data rows often hold numbers as text).
+ */
+function looselyEqual(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (a === null || a === undefined || b === null || b === undefined) {
+    return (a ?? null) === (b ?? null);
+  }
+  const x = asNumber(a);
+  const y = asNumber(b);
+  if (x !== null && y !== null) return x === y;
+  return false;
+}
+
+/** `<`, `<=`, `>`, `>=` on numbers when both sides are numeric, else on text. */
+function compare(op: string, a: unknown, b: unknown): boolean {
+  const x = asNumber(a);
+  const y = asNumber(b);
+  const [l, r] = x !== null && y !== null ? [x, y] : [String(a ?? ""), String(b ?? "")];
+  switch (op) {
+    case "<":
+      return l < r;
+    case "<=":
+      return l <= r;
+    case ">":
+      return l > r;
+    default:
+      return l >= r;
+  }
+}
@@ -0,0 +1,842 @@
+/**
+ * Orchestration engine — drives queued jobs through the
+ * Observe → Think → Act → Verify loop.
+ *
+ * For every task in a job the engine captures the page state, asks the
+ * matching site adapter to build a reasoning prompt, lets the LLM decide
+ * the next browser action(s), executes them through the ActionExecutor and
+ * finally verifies the outcome (visually when the provider supports it).
+ * Tasks built from an adapter template first try the template's workflow
+ * directly, which costs no LLM calls when the known flow still works.
+ */
+
+import type { ActionResult } from "~types/common";
+import type { BaseAdapter } from "~types/adapter";
+import type { ElementSelector } from "~types/common";
+import type { BrowserAction, DOMState } from "~types/browser";
+import type { DataRow } from "~types/data";
+import type { PricingTable, UserConfig } from "~types/config";
+import { DEFAULT_CONFIG } from "~types/config";
+import type { LLMConfig, LLMProvider, LLMResponse } from "~types/llm";
+import type { AgentStreamEvent, Job, Observation, Task, UsageTotals } from "~types/orchestration";
+import type { Screenshot, VerificationResult } from "~types/vision";
+import { AdapterRegistry } from "../../adapters/AdapterRegistry";
+import { DataMapper } from "../../data/DataMapper";
+import { ActionExecutor } from "~core/browser/ActionExecutor";
+import type { BrowserAgent } from "~core/browser/BrowserAgent";
+import { WorkflowRunner } from "~core/browser/WorkflowRunner";
+import { CostCalculator } from "~core/llm/CostCalculator";
+import { LLMAdapter } from "~core/llm/LLMAdapter";
+import { VisionAgent } from "~core/vision/VisionAgent";
+import type { StateManager } from "./StateManager";
+import { ConditionEvaluator } from "./ConditionEvaluator";
+import { PromptParser } from "./PromptParser";
+import { TaskPlanner } from "./TaskPlanner";
+
+// ── Constants ──────────────────────────────────────────────────────────────────
+
+/** Maximum Think → Act → Verify iterations spent on a single task. */
+const MAX_STEPS_PER_TASK = 8;
+
+/** Number of failed actions tolerated before a task is marked as failed. */
+const MAX_TASK_ATTEMPTS = 3;
+
+/** Minimum verification confidence (0-1) required to accept a task as done. */
+const VERIFY_CONFIDENCE_THRESHOLD = 0.5;
+
+// ── Types ──────────────────────────────────────────────────────────────────────
+
+/** Collaborators required by the {@link OrchestrationEngine}. */
+export interface OrchestrationDeps {
+  stateManager: StateManager;
+  browserAgent: BrowserAgent;
+  adapterRegistry?: AdapterRegistry;
+  actionExecutor?: ActionExecutor;
+  /**
+   * Factory used to build the LLM for a job, given its provider and the
+   * providers to fail over to. Defaults to `new LLMAdapter(config, { fallbacks })`.
+   */
+  createLLM?: (config: LLMConfig, fallbacks: LLMConfig[]) => LLMAdapter;
+  /**
+   * Receives live progress (streamed reasoning, planned actions, task and
+   * job completion). When set, Think steps stream from the provider.
+   */
+  onStream?: (event: AgentStreamEvent) => void;
+}
+
+/** State of one {@link OrchestrationEngine.executeJob} call. */
+interface JobRun {
+  /**
+   * Aborts the in-flight request when the job is paused or cancelled. A new
+   * controller is made for every request, so an abort never outlives it.
+   */
+  controller: AbortController;
+  /** Task being worked on; LLM usage is charged to it */
+  task?: Task;
+}
+
+/** Outcome of running a single task to completion (or failure). */
+interface TaskOutcome {
+  success: boolean;
+  interrupted: boolean;
+  actions: BrowserAction[];
+  lastResult?: ActionResult;
+  verification?: VerificationResult;
+  screenshot?: Screenshot;
+  error?: string;
+  /** Provider that served the last Think step */
+  provider?: LLMProvider;
+}
+
+// ── Engine ─────────────────────────────────────────────────────────────────────
+
+/**
+ * Executes a job's tasks sequentially, persisting progress after every
+ * step so a paused or interrupted job can pick up where it left off.
+ */
+export class OrchestrationEngine {
+  private readonly stateManager: StateManager;
+  private readonly browserAgent: BrowserAgent;
+  private readonly adapterRegistry: AdapterRegistry;
+  private readonly actionExecutor: ActionExecutor;
+  private readonly workflowRunner: WorkflowRunner;
+  private readonly taskPlanner = new TaskPlanner();
+  private readonly createLLM: (config: LLMConfig, fallbacks: LLMConfig[]) => LLMAdapter;
+  private readonly onStream?: (event: AgentStreamEvent) => void;
+  /** Jobs currently executing, with the controller that aborts them. */
+  private readonly running = new Map<string, { job: Job; run: JobRun }>();
+
+  constructor(deps: OrchestrationDeps) {
+    this.stateManager = deps.stateManager;
+    this.browserAgent = deps.browserAgent;
+    this.adapterRegistry = deps.adapterRegistry ?? new AdapterRegistry();
+    this.actionExecutor = deps.actionExecutor ?? new ActionExecutor(deps.browserAgent);
+    this.workflowRunner = new WorkflowRunner(this.actionExecutor, deps.browserAgent);
+    this.createLLM =
+      deps.createLLM ?? ((config, fallbacks) => new LLMAdapter(config, { fallbacks }));
+    this.onStream = deps.onStream;
+  }
+
+  // ── Job Execution ──────────────────────────────────────────────────────────
+
+  /**
+   * Run every pending task of a job. Suitable as the `executeJob` callback
+   * for {@link JobQueue.startProcessing}.
+   */
+  async executeJob(job: Job): Promise<void> {
+    console.info("[OrchestrationEngine] Executing job", job.id, "—", job.tasks.length, "tasks");
+
+    const config = await this.stateManager.getConfig();
+    const pricing = config.llm.pricing ?? DEFAULT_CONFIG.llm.pricing;
+    const llm = this.createLLM(job.config.llmProvider, this.fallbackConfigs(job, config));
+    const vision = llm.supportsVision ? new VisionAgent(llm) : null;
+
+    // Usage is charged to the task being worked on, or to the job alone
+    // while planning.
+    const run: JobRun = { controller: new AbortController() };
+    const unsubscribe = llm.onUsage((response) =>
+      this.recordUsage(job, run.task, response, pricing)
+    );
+    this.running.set(job.id, { job, run });
+    // Lets the agent's self-healing look for broken elements by vision.
+    this.browserAgent.setVisionAgent(vision);
+
+    try {
+      if (job.tasks.length === 0) {
+        await this.planJob(job, llm, pricing);
+      }
+      await this.runTasks(job, llm, vision, run);
+    } finally {
+      unsubscribe();
+      this.browserAgent.setVisionAgent(null);
+      this.running.delete(job.id);
+      this.emit({ type: "job_end", jobId: job.id, status: job.status });
+    }
+  }
+
+  /**
+   * Live LLM usage of a running job, updated after every request. Returns
+   * `undefined` if the job is not executing.
+   */
+  getUsage(jobId: string): UsageTotals | undefined {
+    const usage = this.running.get(jobId)?.job.usage;
+    return usage ? { ...usage } : undefined;
+  }
+
+  /** Whether the job is executing, including while it stops after a pause. */
+  isRunning(jobId: string): boolean {
+    return this.running.has(jobId);
+  }
+
+  /**
+   * Abort a running job's in-flight LLM request. Call after pausing or
+   * cancelling the job so it stops now rather than after the current step.
+   */
+  abortJob(jobId: string): boolean {
+    const entry = this.running.get(jobId);
+    if (!entry) return false;
+    entry.run.controller.abort();
+    return true;
+  }
+
+  /** Run the job's tasks from its saved position to the end. */
+  private async runTasks(
+    job: Job,
+    llm: LLMAdapter,
+    vision: VisionAgent | null,
+    run: JobRun
+  ): Promise<void> {
+    for (let i = job.currentTaskIndex; i < job.tasks.length; i++) {
+      if (await this.isInterrupted(job)) return;
+
+      const task = job.tasks[i];
+      job.currentTaskIndex = i;
+
+      if (task.status === "completed" || task.status === "skipped") continue;
+
+      if (!this.dependenciesMet(job, task)) {
+        task.status = "skipped";
+        task.error = "Skipped: a dependency did not complete";
+        await this.saveJob(job);
+        continue;
+      }
+
+      if (!(await this.applyConditions(job, task))) {
+        await this.saveJob(job);
+        this.emit({
+          type: "task_end",
+          jobId: job.id,
+          taskId: task.id,
+          status: task.status,
+          error: task.error,
+        });
+        continue;
+      }
+
+      task.status = "running";
+      await this.saveJob(job);
+
+      run.task = task;
+      const outcome = await this.runTask(job, task, llm, vision, run);
+      run.task = undefined;
+      if (outcome.interrupted) {
+        task.status = "pending";
+        await this.saveJob(job);
+        return;
+      }
+
+      this.recordOutcome(job, task, outcome);
+      await this.saveJob(job);
+      this.emit({
+        type: "task_end",
+        jobId: job.id,
+        taskId: task.id,
+        status: task.status,
+        error: task.error,
+      });
+    }
+
+    job.currentTaskIndex = job.tasks.length;
+    job.status = job.tasks.some((t) => t.status === "failed") ? "failed" : "completed";
+    job.completedAt = new Date().toISOString();
+    await this.saveJob(job);
+
+    console.info("[OrchestrationEngine] Job", job.id, "finished with status", job.status);
+  }
+
+  /**
+   * Parse the job's prompt and expand it into tasks using the adapter named
+   * in the prompt, or the adapter for the active tab. The job's field
+   * mappings are added to its data rows once, here.
+   */
+  private async planJob(job: Job, llm: LLMAdapter, pricing: PricingTable): Promise<void> {
+    const parsed = await new PromptParser(llm).parse(job.prompt);
+    const adapter = await this.resolvePlanningAdapter(parsed.platform);
+    const dataRows = this.mapDataRows(job);
+    const plan = this.taskPlanner.createPlan(parsed, adapter, { dataRows });
+
+    job.parsedPrompt = parsed;
+    if (dataRows) job.context = { ...job.context, dataRows };
+    job.tasks = plan.tasks;
+    job.currentTaskIndex = 0;
+
+    const { type, model } = job.config.llmProvider;
+    job.estimatedUsage = CostCalculator.add(
+      job.usage,
+      CostCalculator.estimate(plan.tasks.length, pricing, type, model)
+    );
+    const overBudget = CostCalculator.exceededBudget(job.estimatedUsage, job.config.budget);
+    if (overBudget) {
+      console.warn(
+        "[OrchestrationEngine] Job",
+        job.id,
+        "is projected to exceed its budget:",
+        overBudget
+      );
+    }
+    await this.saveJob(job);
+
+    // Planning turns are not useful context for the step-by-step loop.
+    llm.clearHistory();
+
+    console.info(
+      "[OrchestrationEngine] Planned",
+      plan.tasks.length,
+      "tasks for job",
+      job.id,
+      "using",
+      adapter.name
+    );
+  }
+
+  /**
+   * The job's data rows with the fields of `config.fieldMappings` added,
+   * so workflow placeholders can use the transformed values.
+   */
+  private mapDataRows(job: Job): DataRow[] | undefined {
+    const rows = job.context?.dataRows;
+    const mappings = job.config.fieldMappings;
+    if (!rows || !mappings) return rows;
+
+    const mapper = new DataMapper();
+    return rows.map((row) => ({ ...row, ...mapper.applyFieldMappings(row, mappings) }));
+  }
+
+  // ── Task Loop ──────────────────────────────────────────────────────────────
+
+  /**
+   * Evaluate the conditions of the adapter template a task was built from,
+   * against its data row, the job's variables and the page. A `skip` or
+   * `fail` condition whose check is true sets the task's status; `warn`
+   * only logs. An invalid expression fails the task.
+   *
+   * @returns Whether the task should run.
+   */
+  private async applyConditions(job: Job, task: Task): Promise<boolean> {
+    if (!task.template) return true;
+
+    const adapter = await this.resolvePlanningAdapter(task.adapter);
+    const conditions = adapter.getKnowledge().commonTasks[task.template]?.conditions;
+    if (!conditions?.length) return true;
+
+    const scope = {
+      row: task.dataRowIndex !== undefined ? job.context?.dataRows?.[task.dataRowIndex] : undefined,
+      variables: job.context?.variables,
+      page: await this.browserAgent.getDOMState(),
+    };
+
+    for (const { check, action } of conditions) {
+      let matched: boolean;
+      try {
+        matched = ConditionEvaluator.evaluate(check, scope);
+      } catch (error) {
+        task.condition = check;
+        this.recordOutcome(job, task, {
+          success: false,
+          interrupted: false,
+          actions: [],
+          error: `Invalid condition: ${this.errorMessage(error)}`,
+        });
+        return false;
+      }
+      if (!matched) continue;
+
+      if (action === "warn") {
+        console.warn("[OrchestrationEngine] Task", task.id, "condition is true:", check);
+        continue;
+      }
+
+      task.condition = check;
+      if (action === "skip") {
+        console.info("[OrchestrationEngine] Skipping task", task.id, "—", check);
+        task.status = "skipped";
+        task.error = undefined;
+      } else {
+        this.recordOutcome(job, task, {
+          success: false,
+          interrupted: false,
+          actions: [],
+          error: `Condition failed: ${check}`,
+        });
+      }
+      return false;
+    }
+    return true;
+  }
+
+  /**
+   * Drive a single task through repeated Observe → Think → Act → Verify
+   * iterations until verification succeeds, the attempt budget is spent,
+   * or the job is paused/cancelled. Template tasks try their workflow first.
+   */
+  private async runTask(
+    job: Job,
+    task: Task,
+    llm: LLMAdapter,
+    vision: VisionAgent | null,
+    run: JobRun
+  ): Promise<TaskOutcome> {
+    const scripted = await this.runTemplateWorkflow(job, task, vision, this.nextSignal(run));
+    if (scripted) return scripted;
+
+    const actions: BrowserAction[] = [];
+    let lastResult: ActionResult | undefined;
+    let lastError: string | undefined;
+    let provider: LLMProvider | undefined;
+
+    for (let step = 1; step <= MAX_STEPS_PER_TASK; step++) {
+      if (await this.isInterrupted(job)) {
+        return { success: false, interrupted: true, actions };
+      }
+
+      // Observe
+      const domState = await this.browserAgent.getDOMState();
+      const adapter = this.adapterRegistry.getAdapter(domState.url);
+      const screenshot = await this.captureIfNeeded(task, vision);
+      const observation = this.buildObservation(task, adapter, domState, screenshot, actions);
+
+      // Think
+      let planned: BrowserAction[];
+      const signal = this.nextSignal(run);
+      try {
+        const prompt = adapter.buildThinkPrompt(observation);
+        const response = await this.think(job, task, step, llm, prompt, signal);
+        if (response.provider && response.provider !== provider) {
+          provider = response.provider;
+          console.info("[OrchestrationEngine] Task", task.id, "served by", provider);
+        }
+        planned = this.parseActions(llm, response.content);
+        this.emit({ type: "think_end", jobId: job.id, taskId: task.id, actions: planned });
+      } catch (error) {
+        // An abort only interrupts the task if the job is really paused or
+        // cancelled; otherwise it counts as a failed attempt.
+        if (signal.aborted && (await this.isInterrupted(job))) {
+          return { success: false, interrupted: true, actions };
+        }
+        lastError = `Think step failed: ${this.errorMessage(error)}`;
+        if (++task.attempts >= MAX_TASK_ATTEMPTS) break;
+        continue;
+      }
+
+      // Act
+      const results = await this.act(adapter, planned);
+      actions.push(...planned.slice(0, results.length));
+      lastResult = results[results.length - 1];
+
+      if (!lastResult || !lastResult.success) {
+        lastError = lastResult?.error ?? "Action produced no result";
+        console.info("[OrchestrationEngine] Action failed for task", task.id, "—", lastError);
+        if (++task.attempts >= MAX_TASK_ATTEMPTS) break;
+        continue;
+      }
+
+      // Verify
+      const verification = await this.verifyTask(task, adapter, lastResult, llm, vision);
+      if (verification.success && verification.confidence >= VERIFY_CONFIDENCE_THRESHOLD) {
+        return {
+          success: true,
+          interrupted: false,
+          actions,
+          lastResult,
+          verification,
+          screenshot,
+          provider,
+        };
+      }
+
+      lastError = `Verification failed: ${verification.reasoning}`;
+    }
+
+    return {
+      success: false,
+      interrupted: false,
+      actions,
+      lastResult,
+      provider,
+      error: lastError ?? `Task did not complete within ${MAX_STEPS_PER_TASK} steps`,
+    };
+  }
+
+  /**
+   * Run the workflow of the adapter template the task was built from.
+   * Returns `null` when there is none, a placeholder has no value, or the
+   * workflow fails — the task then falls back to the LLM loop.
+   */
+  private async runTemplateWorkflow(
+    job: Job,
+    task: Task,
+    vision: VisionAgent | null,
+    signal: AbortSignal
+  ): Promise<TaskOutcome | null> {
+    if (!task.template) return null;
+
+    const adapter = await this.resolvePlanningAdapter(task.adapter);
+    const knowledge = adapter.getKnowledge();
+    const template = knowledge.commonTasks[task.template];
+    if (!template) return null;
+
+    const options = {
+      selectors: knowledge.selectors,
+      variables: {
+        export_format: job.parsedPrompt?.exportFormat ?? job.config.exportFormat,
+        template_query: job.parsedPrompt?.style,
+        ...job.context?.variables,
+      },
+      row: task.dataRowIndex !== undefined ? job.context?.dataRows?.[task.dataRowIndex] : undefined,
+      dataMapping: template.dataMapping,
+      locate: vision ? (description: string) => this.locate(vision, description) : undefined,
+      runCustom: (action: BrowserAction) => adapter.executeCustomAction(action),
+      signal,
+    };
+
+    const missing = WorkflowRunner.missingVariables(template.workflow, options);
+    if (missing.length > 0) {
+      console.info(
+        "[OrchestrationEngine] No values for",
+        missing.join(", "),
+        "— task",
+        task.id,
+        "uses the LLM loop"
+      );
+      return null;
+    }
+
+    const result = await this.workflowRunner.run(template.workflow, options);
+    if (!result.success && (await this.isInterrupted(job))) {
+      return { success: false, interrupted: true, actions: result.actions };
+    }
+    if (!result.success) {
+      console.info(
+        "[OrchestrationEngine] Workflow",
+        result.workflow,
+        "failed for task",
+        task.id,
+        "—",
+        result.error
+      );
+      return null;
+    }
+
+    console.info("[OrchestrationEngine] Task", task.id, "completed by workflow", result.workflow);
+    return {
+      success: true,
+      interrupted: false,
+      actions: result.actions,
+      lastResult: result.lastResult,
+    };
+  }
+
+  /** Find an element from a description with the VisionAgent. */
+  private async locate(vision: VisionAgent, description: string): Promise<ElementSelector | null> {
+    const screenshot = await this.browserAgent.captureScreenshot();
+    const location = await vision.locateElement(screenshot.data, description);
+    if (!location.found || location.confidence < VERIFY_CONFIDENCE_THRESHOLD) return null;
+    if (location.selector) return { type: "css", selector: location.selector };
+    if (!location.bbox) return null;
+
+    const { x, y, width, height } = location.bbox;
+    return { type: "coordinates", x: x + width / 2, y: y + height / 2 };
+  }
+
+  /**
+   * Execute planned actions in order, stopping at the first failure.
+   * Custom actions go to the adapter; everything else to the executor.
+   */
+  private async act(adapter: BaseAdapter, actions: BrowserAction[]): Promise<ActionResult[]> {
+    if (!actions.some((a) => a.type === "custom")) {
+      return this.actionExecutor.executeSequence(actions);
+    }
+
+    const results: ActionResult[] = [];
+    for (const action of actions) {
+      const [result] =
+        action.type === "custom"
+          ? [await adapter.executeCustomAction(action)]
+          : await this.actionExecutor.executeSequence([action]);
+      if (!result) break;
+      results.push(result);
+      if (!result.success) break;
+    }
+    return results;
+  }
+
+  /** Replace the run's controller and return the new signal. */
+  private nextSignal(run: JobRun): AbortSignal {
+    run.controller = new AbortController();
+    return run.controller.signal;
+  }
+
+  /**
+   * Ask the LLM for the next actions. Streams the reply to `onStream` when
+   * a listener is attached.
+   */
+  private async think(
+    job: Job,
+    task: Task,
+    step: number,
+    llm: LLMAdapter,
+    prompt: string,
+    signal: AbortSignal
+  ): Promise<LLMResponse> {
+    const options = { responseFormat: "json" as const, signal };
+    if (!this.onStream) return llm.generate(prompt, options);
+
+    this.emit({ type: "think_start", jobId: job.id, taskId: task.id, taskName: task.name, step });
+    return llm.generateStreaming(
+      prompt,
+      (chunk) => this.emit({ type: "think_chunk", jobId: job.id, taskId: task.id, chunk }),
+      options
+    );
+  }
+
+  /**
+   * Verify the task outcome. Uses a screenshot and the VisionAgent when the
+   * provider supports vision, otherwise asks the text model to judge the
+   * DOM state against the adapter's verification prompt.
+   */
+  private async verifyTask(
+    task: Task,
+    adapter: BaseAdapter,
+    result: ActionResult,
+    llm: LLMAdapter,
+    vision: VisionAgent | null
+  ): Promise<VerificationResult> {
+    const prompt = adapter.buildVerifyPrompt(task, result);
+
+    try {
+      if (vision) {
+        const screenshot = await this.browserAgent.captureScreenshot();
+        return await vision.verify(screenshot.data, prompt);
+      }
+
+      const domState = await this.browserAgent.getDOMState();
+      const response = await llm.generate(
+        [
+          prompt,
+          "",
+          "No screenshot is available. Judge from the page state instead:",
+          `Current URL: ${domState.url}`,
+          `Page title: ${domState.title}`,
+          `Visible elements: ${domState.visibleElements
+            .slice(0, 30)
+            .map((el) => `${el.tagName} "${el.text}"`)
+            .join(", ")}`,
+        ].join("\n"),
+        { responseFormat: "json" }
+      );
+      const parsed = llm.parseJSON<{ success: boolean; reasoning?: string; confidence?: number }>(
+        response.content
+      );
+
+      return {
+        success: Boolean(parsed.success),
+        reasoning: parsed.reasoning ?? "",
+        // Confidence is requested on a 0-100 scale; normalise to 0-1.
+        confidence: (parsed.confidence ?? 100) / 100,
+      };
+    } catch (error) {
+      return {
+        success: false,
+        reasoning: `Verification error: ${this.errorMessage(error)}`,
+        confidence: 0,
+      };
+    }
+  }
+
+  // ── Helpers ────────────────────────────────────────────────────────────────
+
+  /**
+   * Provider configs from the user's `fallbackChain`, excluding the job's
+   * own provider.
+   */
+  private fallbackConfigs(job: Job, { llm }: UserConfig): LLMConfig[] {
+    return llm.fallbackChain
+      .filter((type) => type !== job.config.llmProvider.type)
+      .map((type) => llm.providers[type])
+      .filter((config): config is LLMConfig => Boolean(config));
+  }
+
+  /**
+   * The adapter named `platform` — the one a job was planned with, or a
+   * task's template comes from — or the adapter for the active tab.
+   */
+  private async resolvePlanningAdapter(platform?: string): Promise<BaseAdapter> {
+    if (platform) {
+      const named = this.adapterRegistry
+        .getAllAdapters()
+        .find((a) => a.name.toLowerCase() === platform.toLowerCase());
+      if (named) return named;
+    }
+
+    const url = await this.browserAgent.getCurrentPageUrl().catch(() => "");
+    return this.adapterRegistry.getAdapter(url);
+  }
+
+  private buildObservation(
+    task: Task,
+    adapter: BaseAdapter,
+    domState: DOMState,
+    screenshot: Screenshot | undefined,
+    previousActions: BrowserAction[]
+  ): Observation {
+    const knowledge = adapter.getKnowledge();
+
+    return {
+      screenshot,
+      domState,
+      task,
+      adapterKnowledge: { selectors: knowledge.selectors, tips: knowledge.tips },
+      previousActions: [...previousActions],
+      attempt: task.attempts + 1,
+    };
+  }
+
+  /**
+   * Capture a screenshot for the Observe phase when the task needs visual
+   * context and a vision-capable model is available to read it.
+   */
+  private async captureIfNeeded(
+    task: Task,
+    vision: VisionAgent | null
+  ): Promise<Screenshot | undefined> {
+    if (!task.requiresVision || !vision) return undefined;
+
+    try {
+      return await this.browserAgent.captureScreenshot();
+    } catch (error) {
+      console.warn("[OrchestrationEngine] Screenshot capture failed:", error);
+      return undefined;
+    }
+  }
+
+  /**
+   * Parse the LLM's Think response into one or more browser actions.
+   * Accepts a single action object, an array, or `{ "actions": [...] }`.
+   */
+  private parseActions(llm: LLMAdapter, content: string): BrowserAction[] {
+    const parsed = llm.parseJSON<BrowserAction | BrowserAction[] | { actions: BrowserAction[] }>(
+      content
+    );
+    const actions = Array.isArray(parsed)
+      ? parsed
+      : "actions" in parsed && Array.isArray(parsed.actions)
+        ? parsed.actions
+        : [parsed as BrowserAction];
+
+    if (actions.length === 0 || actions.some((a) => !a || typeof a.type !== "string")) {
+      throw new Error("LLM response did not contain a valid BrowserAction");
+    }
+
+    return actions;
+  }
+
+  /** Apply a task outcome to the task and the job's results / errors. */
+  private recordOutcome(job: Job, task: Task, outcome: TaskOutcome): void {
+    task.result = outcome.lastResult;
+
+    if (outcome.success) {
+      task.status = "completed";
+      task.error = undefined;
+      job.results.push({
+        taskId: task.id,
+        metadata: {
+          actions: outcome.actions.length,
+          verification: outcome.verification?.reasoning,
+          confidence: outcome.verification?.confidence,
+          provider: outcome.provider,
+        },
+      });
+      return;
+    }
+
+    task.status = "failed";
+    task.error = outcome.error;
+    job.errors.push({
+      taskId: task.id,
+      taskName: task.name,
+      error: outcome.error ?? "Unknown error",
+      provider: outcome.provider,
+      screenshot: outcome.screenshot?.data,
+      timestamp: new Date().toISOString(),
+      recoveryAttempted: task.attempts > 1,
+      recoverySucceeded: false,
+    });
+  }
+
+  /** Add a response's token usage and cost to the job and the current task. */
+  private recordUsage(
+    job: Job,
+    task: Task | undefined,
+    response: LLMResponse,
+    pricing: PricingTable
+  ): void {
+    const provider = response.provider ?? job.config.llmProvider.type;
+    const totals = CostCalculator.fromUsage(response.usage, pricing, provider, response.model);
+
+    job.usage = CostCalculator.add(job.usage, totals);
+    if (task) task.usage = CostCalculator.add(task.usage, totals);
+  }
+
+  /**
+   * Whether all of a task's dependencies completed successfully or were
+   * skipped by one of their conditions.
+   */
+  private dependenciesMet(job: Job, task: Task): boolean {
+    return task.dependencies.every((depId) => {
+      const dep = job.tasks.find((t) => t.id === depId);
+      return dep?.status === "completed" || (dep?.status === "skipped" && !!dep.condition);
+    });
+  }
+
+  /**
+   * Save the job without undoing a pause or cancel stored while it ran:
+   * a stored `paused` or `cancelled` status is kept, and the next
+   * {@link isInterrupted} check stops the job.
+   */
+  private async saveJob(job: Job): Promise<void> {
+    const stored = await this.stateManager.getJobState(job.id);
+    if (stored && (stored.status === "paused" || stored.status === "cancelled")) {
+      job.status = stored.status;
+      job.completedAt = stored.completedAt;
+    }
+    await this.stateManager.saveJobState(job);
+  }
+
+  /**
+   * Check persisted state for a pause or cancel request issued while the
+   * job was running, and mirror it onto the in-memory job. Also pauses the
+   * job once its usage exceeds `config.budget`.
+   */
+  private async isInterrupted(job: Job): Promise<boolean> {
+    const overBudget = CostCalculator.exceededBudget(job.usage, job.config.budget);
+    if (overBudget && job.status !== "paused" && job.status !== "cancelled") {
+      job.status = "paused";
+      job.pausedReason = overBudget;
+      await this.stateManager.saveJobState(job);
+      console.warn("[OrchestrationEngine] Job", job.id, "paused:", overBudget);
+      return true;
+    }
+
+    const stored = await this.stateManager.getJobState(job.id);
+    if (stored && (stored.status === "paused" || stored.status === "cancelled")) {
+      job.status = stored.status;
+      job.completedAt = stored.completedAt;
+      console.info("[OrchestrationEngine] Job", job.id, "interrupted:", stored.status);
+      return true;
+    }
+    return false;
+  }
+
+  /** Forward a stream event; listener errors never affect the job. */
+  private emit(event: AgentStreamEvent): void {
+    try {
+      this.onStream?.(event);
+    } catch (error) {
+      console.warn("[OrchestrationEngine] Stream listener failed:", error);
+    }
+  }
+
+  private errorMessage(error: unknown): string {
+    return error instanceof Error ? error.message : String(error);
+  }
+}
@@ -0,0 +1,113 @@
+/**
+ * Natural-language prompt parsing.
+ *
+ * Turns free-form requests such as "make 20 Instagram posts from my CSV in
+ * Canva, export PNG" into a validated {@link ParsedPrompt} by asking the LLM
+ * for structured JSON and checking it against a schema.
+ */
+
+import { z } from "zod";
+import type { ParsedPrompt } from "~types/orchestration";
+import type { LLMAdapter } from "~core/llm/LLMAdapter";
+
+// ── Schema ─────────────────────────────────────────────────────────────────────
+
+/** Lower-case and trim string input before enum validation. */
+const lowercase = (v: unknown) => (typeof v === "string" ? v.trim().toLowerCase() : v);
+
+const ParsedPromptSchema = z.object({
+  action: z.preprocess(lowercase, z.enum(["create", "modify", "duplicate", "export"])),
+  count: z.coerce.number().int().min(1).max(1000).default(1),
+  style: z.string().trim().min(1).optional(),
+  templatePreference: z.preprocess(lowercase, z.enum(["same", "copy", "new"])).default("same"),
+  exportFormat: z.preprocess(lowercase, z.enum(["png", "pdf", "jpg", "mp4"])).default("png"),
+  dataMapping: z.record(z.string()).optional(),
+  additionalInstructions: z.string().trim().min(1).optional(),
+  platform: z.string().trim().toLowerCase().min(1).optional(),
+});
+
+// ── Parser ─────────────────────────────────────────────────────────────────────
+
+/**
+ * Extracts a {@link ParsedPrompt} from a user prompt using an LLM.
+ */
+export class PromptParser {
+  private readonly llm: LLMAdapter;
+
+  constructor(llm: LLMAdapter) {
+    this.llm = llm;
+  }
+
+  /**
+   * Parse a prompt. If the model's first answer fails validation the issues
+   * are fed back once so it can correct itself.
+   *
+   * @throws If the model cannot produce a valid ParsedPrompt.
+   */
+  async parse(prompt: string): Promise<ParsedPrompt> {
+    const raw = await this.llm.generateJSON<unknown>(this.buildPrompt(prompt));
+    let result = ParsedPromptSchema.safeParse(this.unwrapNulls(raw));
+
+    if (!result.success) {
+      const issues = this.formatIssues(result.error);
+      console.info("[PromptParser] Invalid parse, asking for a correction:", issues);
+
+      const corrected = await this.llm.generateJSON<unknown>(
+        `${this.buildPrompt(prompt)}\n\nYour previous answer was invalid:\n${issues}\nReturn corrected JSON.`
+      );
+      result = ParsedPromptSchema.safeParse(this.unwrapNulls(corrected));
+    }
+
+    if (!result.success) {
+      throw new Error(`PromptParser: could not parse prompt — ${this.formatIssues(result.error)}`);
+    }
+
+    console.debug("[PromptParser] Parsed prompt:", result.data);
+    return result.data;
+  }
+
+  /**
+   * Validate an arbitrary value against the ParsedPrompt schema without
+   * calling the LLM.
+   */
+  validate(value: unknown): ParsedPrompt {
+    const result = ParsedPromptSchema.safeParse(this.unwrapNulls(value));
+    if (!result.success) {
+      throw new Error(`PromptParser: invalid ParsedPrompt — ${this.formatIssues(result.error)}`);
+    }
+    return result.data;
+  }
+
+  // ── Private Helpers ────────────────────────────────────────────────────────
+
+  private buildPrompt(prompt: string): string {
+    return [
+      "Extract the design automation request below into JSON.",
+      "",
+      `Request: "${prompt}"`,
+      "",
+      "Return a single JSON object with these fields:",
+      '- "action": one of "create", "modify", "duplicate", "export"',
+      '- "count": number of designs to produce (integer, default 1)',
+      '- "style": visual style or design type mentioned (e.g. "Instagram post"), optional',
+      '- "templatePreference": "same" (reuse one template), "copy" (duplicate it per item) or "new" (new template per item)',
+      '- "exportFormat": one of "png", "pdf", "jpg", "mp4" (default "png")',
+      '- "dataMapping": object mapping design fields to data columns, optional',
+      '- "additionalInstructions": anything else the user asked for, optional',
+      '- "platform": target design tool if named (e.g. "canva", "figma"), optional',
+      "Omit fields that are not mentioned rather than guessing.",
+    ].join("\n");
+  }
+
+  /** Models often emit `null` for absent fields; treat those as omitted. */
+  private unwrapNulls(value: unknown): unknown {
+    if (!value || typeof value !== "object" || Array.isArray(value)) return value;
+    return Object.fromEntries(Object.entries(value).filter(([, v]) => v !== null));
+  }
+
+  private formatIssues(error: z.ZodError): string {
+    return error.issues
+      .map((issue) => `${issue.path.join(".") || "(root)"}: ${issue.message}`)
+      .join("; ");
+  }
+}
@@ -3,9 +3,13 @@
  * Uses Chrome Storage API for persistence.
  */
 
-import type { Job, JobStatus, TaskStatus } from "~types/orchestration";
+import type { Job, JobBudget, JobStatus, TaskStatus } from "~types/orchestration";
 import type { LogLevel, LogEntry } from "~types/common";
 import type { UserConfig } from "~types/config";
+import type { AdapterPack } from "~types/adapter";
+import type { SelectorOverride, SelectorOverrideStore } from "~types/browser";
+import type { SheetSync } from "~types/data";
+import type { RecordingSession } from "~types/recorder";
 import { DEFAULT_CONFIG } from "~types/config";
 
 // ── Storage Keys ──────────────────────────────────────────────────────────────
@@ -18,6 +22,11 @@ const STORAGE_KEYS = {
   CACHE: "browserai_cache",
   JOBS_INDEX: "browserai_jobs_index",
   STORAGE_VERSION: "browserai_storage_version",
+  ADAPTER_PACKS: "browserai_adapter_packs",
+  SELECTOR_OVERRIDES: "browserai_selector_overrides",
+  SHEET_SYNCS: "browserai_sheet_syncs",
+  SHEET_SYNC_FINGERPRINTS: "browserai_sheet_sync_fingerprints",
+  RECORDING: "browserai_recording",
 };
 
 const CURRENT_STORAGE_VERSION = "1.0.0";
@@ -42,7 +51,10 @@ export interface StateChangeEvent {
     | "job_resumed"
     | "job_cancelled"
     | "logs_cleared"
-    | "cache_cleared";
+    | "cache_cleared"
+    | "adapter_packs_updated"
+    | "selector_overrides_updated"
+    | "sheet_syncs_updated";
   jobId?: string;
   taskId?: string;
   status?: string;
@@ -55,9 +67,17 @@ export interface LogFilter {
   toDate?: string;
 }
 
+/** Whether two overrides are for the same adapter, domain and selector. */
+function sameOverride(
+  a: Pick<SelectorOverride, "adapter" | "domain" | "original">,
+  b: Pick<SelectorOverride, "adapter" | "domain" | "original">
+): boolean {
+  return a.adapter === b.adapter && a.domain === b.domain && a.original === b.original;
+}
+
 // ── StateManager ──────────────────────────────────────────────────────────────
 
-export class StateManager {
+export class StateManager implements SelectorOverrideStore {
   private listeners: Array<(event: StateChangeEvent) => void> = [];
 
   constructor() {
@@ -224,12 +244,18 @@ export class StateManager {
   }
 
   /**
-   * Resume a paused job from its saved position.
+   * Resume a paused job from its saved position. A new `budget` replaces
+   * the job's limits, e.g. after it was paused for exceeding them.
+   *
+   * @throws If the job is not paused.
    */
-  async resumeJob(jobId: string): Promise<void> {
+  async resumeJob(jobId: string, budget?: JobBudget): Promise<void> {
     const job = await this.getJobState(jobId);
     if (!job) throw new Error(`Job ${jobId} not found`);
+    if (job.status !== "paused") throw new Error(`Job ${jobId} is ${job.status}, not paused`);
 
+    if (budget) job.config.budget = budget;
+    job.pausedReason = undefined;
     job.status = "running";
     await this.saveJobState(job);
     this.emitStateChange({ type: "job_resumed", jobId, status: "running" });
@@ -335,6 +361,178 @@ export class StateManager {
     await this.saveConfig(merged);
   }
 
+  // ── Adapter Pack Methods ──────────────────────────────────────────────────
+
+  /**
+   * Load all installed adapter packs.
+   */
+  async getAdapterPacks(): Promise<AdapterPack[]> {
+    try {
+      const result = await chrome.storage.local.get(STORAGE_KEYS.ADAPTER_PACKS);
+      return (result[STORAGE_KEYS.ADAPTER_PACKS] as AdapterPack[]) ?? [];
+    } catch (error) {
+      console.error("[StateManager] Failed to get adapter packs:", error);
+      return [];
+    }
+  }
+
+  /**
+   * Install an adapter pack, replacing any installed pack with the same name.
+   */
+  async saveAdapterPack(pack: AdapterPack): Promise<void> {
+    const packs = await this.getAdapterPacks();
+    const updated = [...packs.filter((p) => p.manifest.name !== pack.manifest.name), pack];
+    await chrome.storage.local.set({ [STORAGE_KEYS.ADAPTER_PACKS]: updated });
+    this.emitStateChange({ type: "adapter_packs_updated" });
+    console.info("[StateManager] Saved adapter pack", pack.manifest.name, pack.manifest.version);
+  }
+
+  /**
+   * Uninstall an adapter pack by name. Returns `false` if it was not installed.
+   */
+  async removeAdapterPack(name: string): Promise<boolean> {
+    const packs = await this.getAdapterPacks();
+    const updated = packs.filter((p) => p.manifest.name !== name);
+    if (updated.length === packs.length) return false;
+
+    await chrome.storage.local.set({ [STORAGE_KEYS.ADAPTER_PACKS]: updated });
+    this.emitStateChange({ type: "adapter_packs_updated" });
+    console.info("[StateManager] Removed adapter pack", name);
+    return true;
+  }
+
+  // ── Selector Override Methods ─────────────────────────────────────────────
+
+  /**
+   * Load the selector overrides learned by self-healing, for every adapter
+   * and domain.
+   */
+  async getSelectorOverrides(): Promise<SelectorOverride[]> {
+    try {
+      const result = await chrome.storage.local.get(STORAGE_KEYS.SELECTOR_OVERRIDES);
+      return (result[STORAGE_KEYS.SELECTOR_OVERRIDES] as SelectorOverride[]) ?? [];
+    } catch (error) {
+      console.error("[StateManager] Failed to get selector overrides:", error);
+      return [];
+    }
+  }
+
+  /**
+   * Save an override, replacing the one for the same adapter, domain and
+   * original selector.
+   */
+  async saveSelectorOverride(override: SelectorOverride): Promise<void> {
+    const overrides = await this.getSelectorOverrides();
+    const updated = [...overrides.filter((o) => !sameOverride(o, override)), override];
+    await chrome.storage.local.set({ [STORAGE_KEYS.SELECTOR_OVERRIDES]: updated });
+    this.emitStateChange({ type: "selector_overrides_updated" });
+  }
+
+  /**
+   * Remove an override. Returns `false` if there was none.
+   */
+  async removeSelectorOverride(
+    key: Pick<SelectorOverride, "adapter" | "domain" | "original">
+  ): Promise<boolean> {
+    const overrides = await this.getSelectorOverrides();
+    const updated = overrides.filter((o) => !sameOverride(o, key));
+    if (updated.length === overrides.length) return false;
+
+    await chrome.storage.local.set({ [STORAGE_KEYS.SELECTOR_OVERRIDES]: updated });
+    this.emitStateChange({ type: "selector_overrides_updated" });
+    console.info("[StateManager] Removed selector override", key.original, "on", key.domain);
+    return true;
+  }
+
+  // ── Sheet Sync Methods ────────────────────────────────────────────────────
+
+  /**
+   * Load all saved sheet syncs.
+   */
+  async getSheetSyncs(): Promise<SheetSync[]> {
+    try {
+      const result = await chrome.storage.local.get(STORAGE_KEYS.SHEET_SYNCS);
+      return (result[STORAGE_KEYS.SHEET_SYNCS] as SheetSync[]) ?? [];
+    } catch (error) {
+      console.error("[StateManager] Failed to get sheet syncs:", error);
+      return [];
+    }
+  }
+
+  /**
+   * Save a sheet sync, replacing the one with the same id.
+   */
+  async saveSheetSync(sync: SheetSync): Promise<void> {
+    const syncs = await this.getSheetSyncs();
+    const updated = [...syncs.filter((s) => s.id !== sync.id), sync];
+    await chrome.storage.local.set({ [STORAGE_KEYS.SHEET_SYNCS]: updated });
+    this.emitStateChange({ type: "sheet_syncs_updated" });
+  }
+
+  /**
+   * Remove a sheet sync and its row fingerprints. Returns `false` if there
+   * was none.
+   */
+  async removeSheetSync(id: string): Promise<boolean> {
+    const syncs = await this.getSheetSyncs();
+    const updated = syncs.filter((s) => s.id !== id);
+    if (updated.length === syncs.length) return false;
+
+    await chrome.storage.local.set({ [STORAGE_KEYS.SHEET_SYNCS]: updated });
+    await chrome.storage.local.remove(`${STORAGE_KEYS.SHEET_SYNC_FINGERPRINTS}_${id}`);
+    this.emitStateChange({ type: "sheet_syncs_updated" });
+    return true;
+  }
+
+  /**
+   * Fingerprints of the rows seen by a sync's last poll, or `null` if it
+   * has never polled.
+   */
+  async getSyncFingerprints(id: string): Promise<string[] | null> {
+    const storageKey = `${STORAGE_KEYS.SHEET_SYNC_FINGERPRINTS}_${id}`;
+    const result = await chrome.storage.local.get(storageKey);
+    return (result[storageKey] as string[] | undefined) ?? null;
+  }
+
+  /**
+   * Replace the row fingerprints of a sync.
+   */
+  async saveSyncFingerprints(id: string, fingerprints: string[]): Promise<void> {
+    await chrome.storage.local.set({
+      [`${STORAGE_KEYS.SHEET_SYNC_FINGERPRINTS}_${id}`]: fingerprints,
+    });
+  }
+
+  // ── Recording Methods ─────────────────────────────────────────────────────
+
+  /**
+   * Load the recording in progress. It lives in session storage, so it is
+   * gone once the browser closes.
+   */
+  async getRecording(): Promise<RecordingSession | null> {
+    try {
+      const result = await chrome.storage.session.get(STORAGE_KEYS.RECORDING);
+      return (result[STORAGE_KEYS.RECORDING] as RecordingSession | undefined) ?? null;
+    } catch (error) {
+      console.error("[StateManager] Failed to get recording:", error);
+      return null;
+    }
+  }
+
+  /**
+   * Save the recording in progress.
+   */
+  async saveRecording(session: RecordingSession): Promise<void> {
+    await chrome.storage.session.set({ [STORAGE_KEYS.RECORDING]: session });
+  }
+
+  /**
+   * Forget the recording in progress.
+   */
+  async clearRecording(): Promise<void> {
+    await chrome.storage.session.remove(STORAGE_KEYS.RECORDING);
+  }
+
   // ── Logging Methods ───────────────────────────────────────────────────────
 
   /**
@@ -0,0 +1,230 @@
+/**
+ * Task planning — expands a {@link ParsedPrompt} into a dependency-ordered
+ * {@link TaskPlan} built from the target adapter's `commonTasks` templates.
+ */
+
+import type { BaseAdapter, TaskTemplate } from "~types/adapter";
+import type { DataRow } from "~types/data";
+import type { ParsedPrompt, Task, TaskPlan, TaskType } from "~types/orchestration";
+
+// ── Constants ──────────────────────────────────────────────────────────────────
+
+/** `commonTasks` keys searched (in order) for each planned task type. */
+const TEMPLATE_KEYS: Partial<Record<TaskType, string[]>> = {
+  search: ["createFromTemplate", "openFile"],
+  edit_text: ["editText"],
+  replace_image: ["replaceImage"],
+  export: ["export"],
+};
+
+/** Rough per-task duration estimates in seconds. */
+const ESTIMATED_SECONDS: Partial<Record<TaskType, number>> = {
+  search: 20,
+  bulk_generate: 10,
+  edit_text: 15,
+  replace_image: 20,
+  export: 25,
+  custom: 30,
+};
+
+/** Column / field names that indicate an image rather than text. */
+const IMAGE_FIELD_PATTERN = /image|photo|picture|img|logo/i;
+
+/** Task types that need visual analysis of the canvas to locate layers. */
+const VISION_TASK_TYPES = new Set<TaskType>(["edit_text", "replace_image"]);
+
+// ── Types ──────────────────────────────────────────────────────────────────────
+
+/** Optional inputs that refine a plan. */
+export interface PlanOptions {
+  /** Data rows for bulk jobs; each design item is bound to one row. */
+  dataRows?: DataRow[];
+}
+
+// ── Planner ────────────────────────────────────────────────────────────────────
+
+/**
+ * Builds task plans for jobs. Each design item expands into
+ * `[bulk_generate] → edit_text → [replace_image] → export`, preceded by a
+ * single `search` task that opens the starting template. A row's tasks
+ * depend on the previous task of that row and on the shared `search` task
+ * only, so one failed row does not skip the rows after it.
+ */
+export class TaskPlanner {
+  /**
+   * Create a sequential plan for the parsed prompt on the given adapter.
+   */
+  createPlan(parsed: ParsedPrompt, adapter: BaseAdapter, options: PlanOptions = {}): TaskPlan {
+    const templates = adapter.getKnowledge().commonTasks;
+    const rows = options.dataRows ?? [];
+    const itemCount = rows.length > 0 ? Math.min(parsed.count, rows.length) : parsed.count;
+    const { textFields, imageFields } = this.splitMappedFields(parsed, rows);
+
+    const tasks: Task[] = [];
+    // The task the next one depends on: the last one of the current row,
+    // or the shared setup task at the start of a row.
+    let previous: Task | undefined;
+    const add = (
+      type: TaskType,
+      goal: string,
+      extra: Pick<Task, "template" | "dataRowIndex"> = {}
+    ): void => {
+      const task: Task = {
+        id: crypto.randomUUID(),
+        name: extra.template ? (templates[extra.template]?.name ?? type) : this.defaultName(type),
+        type,
+        goal,
+        requiresVision: VISION_TASK_TYPES.has(type),
+        dependencies: previous ? [previous.id] : [],
+        status: "pending",
+        attempts: 0,
+        ...(extra.template ? { adapter: adapter.name } : {}),
+        ...extra,
+      };
+      tasks.push(task);
+      previous = task;
+    };
+
+    if (parsed.action === "create" || parsed.action === "duplicate") {
+      const search = this.findTemplate(templates, "search");
+      if (search) {
+        add("search", this.searchGoal(parsed), { template: search.key });
+      }
+    }
+    const setup = previous;
+
+    for (let i = 0; i < itemCount; i++) {
+      previous = setup;
+      const row = rows[i];
+      const rowIndex = row ? i : undefined;
+      const label = itemCount > 1 ? ` (design ${i + 1} of ${itemCount})` : "";
+
+      if (itemCount > 1) {
+        add("bulk_generate", this.bulkGoal(parsed, i, itemCount), { dataRowIndex: rowIndex });
+      }
+
+      if (parsed.action !== "export") {
+        const editText = this.findTemplate(templates, "edit_text");
+        if (editText && (textFields.length > 0 || !parsed.dataMapping)) {
+          add("edit_text", this.textGoal(parsed, textFields, row) + label, {
+            template: editText.key,
+            dataRowIndex: rowIndex,
+          });
+        }
+
+        const replaceImage = this.findTemplate(templates, "replace_image");
+        if (replaceImage && imageFields.length > 0) {
+          add("replace_image", this.imageGoal(parsed, imageFields, row) + label, {
+            template: replaceImage.key,
+            dataRowIndex: rowIndex,
+          });
+        }
+      }
+
+      const exportTemplate = this.findTemplate(templates, "export");
+      if (exportTemplate) {
+        add("export", `Export the design as ${parsed.exportFormat.toUpperCase()}${label}`, {
+          template: exportTemplate.key,
+          dataRowIndex: rowIndex,
+        });
+      }
+    }
+
+    // Adapters without matching templates get a single free-form task.
+    if (tasks.length === 0) {
+      add("custom", this.customGoal(parsed));
+    }
+
+    return {
+      tasks,
+      strategy: "sequential",
+      estimatedDuration: tasks.reduce((sum, t) => sum + (ESTIMATED_SECONDS[t.type] ?? 20), 0),
+    };
+  }
+
+  // ── Goal Builders ──────────────────────────────────────────────────────────
+
+  private searchGoal(parsed: ParsedPrompt): string {
+    const subject = parsed.style ?? "design";
+    return `Open a ${subject} template to start from`;
+  }
+
+  private bulkGoal(parsed: ParsedPrompt, index: number, total: number): string {
+    const how: Record<ParsedPrompt["templatePreference"], string> = {
+      same: "Reuse the open design",
+      copy: "Duplicate the template page",
+      new: "Start a new design from a fresh template",
+    };
+    return `${how[parsed.templatePreference]} for design ${index + 1} of ${total}`;
+  }
+
+  private textGoal(parsed: ParsedPrompt, fields: string[], row?: DataRow): string {
+    if (fields.length === 0) {
+      return parsed.additionalInstructions
+        ? `Edit the text layers: ${parsed.additionalInstructions}`
+        : "Edit the text layers as requested";
+    }
+
+    const assignments = fields.map((field) => {
+      const column = parsed.dataMapping?.[field] ?? field;
+      const value = row?.[column];
+      return value !== undefined ? `${field} → "${value}"` : `${field} → {{${column}}}`;
+    });
+    return `Set text layers: ${assignments.join(", ")}`;
+  }
+
+  private imageGoal(parsed: ParsedPrompt, fields: string[], row?: DataRow): string {
+    const assignments = fields.map((field) => {
+      const column = parsed.dataMapping?.[field] ?? field;
+      const value = row?.[column];
+      return value !== undefined ? `${field} → ${value}` : `${field} → {{${column}}}`;
+    });
+    return `Replace images: ${assignments.join(", ")}`;
+  }
+
+  private customGoal(parsed: ParsedPrompt): string {
+    const parts = [`${parsed.action} ${parsed.count} ${parsed.style ?? "design(s)"}`];
+    if (parsed.additionalInstructions) parts.push(parsed.additionalInstructions);
+    return parts.join(" — ");
+  }
+
+  // ── Private Helpers ────────────────────────────────────────────────────────
+
+  /**
+   * Split mapped design fields into text and image fields. Without an explicit
+   * mapping, the data row columns themselves are used.
+   */
+  private splitMappedFields(
+    parsed: ParsedPrompt,
+    rows: DataRow[]
+  ): { textFields: string[]; imageFields: string[] } {
+    const fields = parsed.dataMapping
+      ? Object.keys(parsed.dataMapping)
+      : rows.length > 0
+        ? Object.keys(rows[0])
+        : [];
+
+    const isImage = (field: string) =>
+      IMAGE_FIELD_PATTERN.test(field) ||
+      IMAGE_FIELD_PATTERN.test(parsed.dataMapping?.[field] ?? "");
+
+    return {
+      textFields: fields.filter((f) => !isImage(f)),
+      imageFields: fields.filter(isImage),
+    };
+  }
+
+  private findTemplate(
+    templates: Record<string, TaskTemplate>,
+    type: TaskType
+  ): { key: string; template: TaskTemplate } | null {
+    for (const key of TEMPLATE_KEYS[type] ?? []) {
+      if (templates[key]) return { key, template: templates[key] };
+    }
+    return null;
+  }
+
+  private defaultName(type: TaskType): string {
+    return type === "bulk_generate" ? "Prepare Design" : "Custom Task";
+  }
+}
@@ -6,21 +6,53 @@
  * - System initialisation (StateManager, JobQueue, StorageMonitor)
  * - Message routing between side-panel, content scripts and core
  * - Job management (start, pause, resume, cancel, status)
+ * - Job execution via the OrchestrationEngine
  * - Configuration persistence
+ * - Adapter pack installation
+ * - Workflow recording by demonstration
+ * - Adapter selector audits
+ * - Scheduled Google Sheets syncs
  * - Interrupted-job recovery on startup
  */
 
+import { stringify } from "yaml";
 import type { Message, MessageResponse, Job, UserConfig } from "~types";
 import { DEFAULT_CONFIG } from "~types/config";
+import { AGENT_STREAM_PORT } from "~types/orchestration";
+import type { JobBudget, JobConfig } from "~types/orchestration";
+import type { AdapterPack } from "~types/adapter";
+import type { DataRow, FieldMappings, SheetSync } from "~types/data";
+import type { RecordedEvent } from "~types/recorder";
+import type { SelectorOverride } from "~types/browser";
+import type { MCPServerConfig, MCPTransport } from "~types/mcp";
 import { StateManager } from "./core/StateManager";
 import { JobQueue } from "./core/JobQueue";
 import { StorageMonitor } from "./core/StorageMonitor";
+import { OrchestrationEngine } from "./core/OrchestrationEngine";
+import { BrowserAgent } from "~core/browser/BrowserAgent";
+import { MCPRouter } from "~core/browser/MCPRouter";
+import { MCPIpcTransport } from "~core/browser/MCPIpcTransport";
+import type { MCPDesktopBridge } from "~core/browser/MCPIpcTransport";
+import { ActionExecutor } from "~core/browser/ActionExecutor";
+import { SelectorAudit } from "~core/browser/SelectorAudit";
+import type { SelectorAuditOptions } from "~core/browser/SelectorAudit";
+import { CostCalculator } from "~core/llm/CostCalculator";
+import { AdapterRegistry } from "../adapters/AdapterRegistry";
+import { AdapterLoader } from "../adapters/AdapterLoader";
+import { PackAdapter } from "../adapters/PackAdapter";
+import { WorkflowRecorder } from "../adapters/WorkflowRecorder";
+import { DataMapper, GoogleSheetsConnector, SHEET_SYNC_ALARM_PREFIX } from "../data";
 
 // ── Singleton instances ────────────────────────────────────────────────────────
 
 let stateManager: StateManager;
 let jobQueue: JobQueue;
 let storageMonitor: StorageMonitor;
+let orchestrationEngine: OrchestrationEngine;
+let mcpRouter: MCPRouter;
+let adapterRegistry: AdapterRegistry;
+let actionExecutor: ActionExecutor;
+let selectorAudit: SelectorAudit;
 let systemsInitialised = false;
 
 // ── Initialisation ─────────────────────────────────────────────────────────────
@@ -37,6 +69,32 @@ async function initializeSystems(): Promise<void> {
     jobQueue = new JobQueue(stateManager);
     storageMonitor = new StorageMonitor(stateManager);
     storageMonitor.startMonitoring();
+    mcpRouter = new MCPRouter({ createTransport: createDesktopTransport });
+    adapterRegistry = new AdapterRegistry();
+    const browserAgent = new BrowserAgent(mcpRouter, {
+      overrides: stateManager,
+      adapterFor: (url) =>
+        adapterRegistry.hasAdapterFor(url) ? adapterRegistry.getAdapter(url).name : undefined,
+    });
+    actionExecutor = new ActionExecutor(browserAgent);
+    selectorAudit = new SelectorAudit(browserAgent);
+    orchestrationEngine = new OrchestrationEngine({
+      stateManager,
+      browserAgent,
+      adapterRegistry,
+      actionExecutor,
+      onStream: (event) => broadcastToPorts(AGENT_STREAM_PORT, event),
+    });
+    await registerAdapterPacks();
+    restoreSheetSyncs().catch((error) =>
+      console.warn("[Background] Failed to restore sheet syncs:", error)
+    );
+
+    // MCP servers are optional; connect in the background so a missing
+    // server never blocks start-up.
+    mcpRouter
+      .connectAll()
+      .catch((error) => console.warn("[Background] MCP servers unavailable:", error));
 
     systemsInitialised = true;
     console.info("[Background] Systems initialised");
@@ -48,6 +106,28 @@ async function initializeSystems(): Promise<void> {
   }
 }
 
+/**
+ * Start the queue's processing loop if it is idle. Jobs are executed one at
+ * a time by the orchestration engine.
+ */
+function processQueue(): void {
+  if (jobQueue.isProcessing()) return;
+
+  jobQueue
+    .startProcessing((job) => orchestrationEngine.executeJob(job))
+    .catch((error) => console.error("[Background] Job processing loop failed:", error));
+}
+
+/**
+ * Transport for a stdio MCP server. Only the desktop app can run those; it
+ * exposes them through its `electron` bridge, which is absent in Chrome.
+ */
+function createDesktopTransport(config: MCPServerConfig): MCPTransport | undefined {
+  const bridge = (globalThis as { electron?: MCPDesktopBridge }).electron;
+  if (config.transport !== "stdio" || !config.name || !bridge) return undefined;
+  return new MCPIpcTransport(config.name, bridge);
+}
+
 /**
  * Ensure systems are ready before handling any message.
  */
@@ -82,9 +162,9 @@ chrome.action.onClicked.addListener(async (tab) => {
 // ── Message Handling ───────────────────────────────────────────────────────────
 
 chrome.runtime.onMessage.addListener(
-  (message: Message, _sender, sendResponse: (response: MessageResponse) => void) => {
+  (message: Message, sender, sendResponse: (response: MessageResponse) => void) => {
     ensureInitialised()
-      .then(() => handleMessage(message))
+      .then(() => handleMessage(message, sender))
       .then((response) => sendResponse(response))
       .catch((error) => sendResponse({ success: false, error: String(error) }));
 
@@ -94,18 +174,22 @@ chrome.runtime.onMessage.addListener(
 );
 
 /**
- * Route an incoming message to the appropriate handler.
+ * Route an incoming message to the appropriate handler. `sender` is set for
+ * one-shot messages, e.g. recorder events from a content script.
  */
-async function handleMessage(message: Message): Promise<MessageResponse> {
+async function handleMessage(
+  message: Message,
+  sender?: chrome.runtime.MessageSender
+): Promise<MessageResponse> {
   switch (message.type) {
     case "START_JOB":
-      return handleStartJob(message.payload as { prompt: string });
+      return handleStartJob(message.payload as Parameters<typeof handleStartJob>[0]);
 
     case "PAUSE_JOB":
       return handlePauseJob(message.payload as { jobId: string });
 
     case "RESUME_JOB":
-      return handleResumeJob(message.payload as { jobId: string });
+      return handleResumeJob(message.payload as { jobId: string; budget?: JobBudget });
 
     case "CANCEL_JOB":
       return handleCancelJob(message.payload as { jobId: string });
@@ -125,6 +209,48 @@ async function handleMessage(message: Message): Promise<MessageResponse> {
     case "TEST_LLM_CONNECTION":
       return handleTestLLMConnection();
 
+    case "IMPORT_ADAPTER_PACK":
+      return handleImportAdapterPack(message.payload as { files: Record<string, string> });
+
+    case "GET_ADAPTER_PACKS":
+      return handleGetAdapterPacks();
+
+    case "REMOVE_ADAPTER_PACK":
+      return handleRemoveAdapterPack(message.payload as { name: string });
+
+    case "START_RECORDING":
+      return handleStartRecording();
+
+    case "RECORDER_EVENT":
+      return handleRecorderEvent(message.payload as RecordedEvent, sender);
+
+    case "STOP_RECORDING":
+      return handleStopRecording(message.payload as { name?: string; dataRows?: DataRow[] });
+
+    case "AUDIT_ADAPTER":
+      return handleAuditAdapter(message.payload as { adapter: string } & SelectorAuditOptions);
+
+    case "GET_SELECTOR_OVERRIDES":
+      return handleGetSelectorOverrides();
+
+    case "PROMOTE_SELECTOR_OVERRIDE":
+      return handlePromoteSelectorOverride(message.payload as SelectorOverrideKey);
+
+    case "REMOVE_SELECTOR_OVERRIDE":
+      return handleRemoveSelectorOverride(message.payload as SelectorOverrideKey);
+
+    case "SAVE_SHEET_SYNC":
+      return handleSaveSheetSync(message.payload as SheetSyncInput);
+
+    case "GET_SHEET_SYNCS":
+      return handleGetSheetSyncs();
+
+    case "REMOVE_SHEET_SYNC":
+      return handleRemoveSheetSync(message.payload as { id: string });
+
+    case "RUN_SHEET_SYNC":
+      return handleRunSheetSync(message.payload as { id: string });
+
     default:
       return { success: false, error: `Unknown message type: ${message.type}` };
   }
@@ -132,8 +258,15 @@ async function handleMessage(message: Message): Promise<MessageResponse> {
 
 // ── Job Handlers ───────────────────────────────────────────────────────────────
 
-async function handleStartJob(payload: { prompt: string }): Promise<MessageResponse> {
-  const { prompt } = payload;
+async function handleStartJob(payload: {
+  prompt: string;
+  budget?: JobBudget;
+  /** Rows and variables for bulk jobs; they fill adapter workflow placeholders */
+  context?: Job["context"];
+  /** Design fields computed from each row, saved with the job */
+  fieldMappings?: FieldMappings;
+}): Promise<MessageResponse> {
+  const { prompt, budget, context, fieldMappings } = payload;
 
   if (!prompt?.trim()) {
     return { success: false, error: "Prompt is required" };
@@ -141,14 +274,34 @@ async function handleStartJob(payload: { prompt: string }): Promise<MessageRespo
 
   console.info("[Background] Starting job with prompt:", prompt);
 
+  const job = await createJob(prompt, { budget, fieldMappings }, context);
+  await jobQueue.enqueue(job);
+  processQueue();
+
+  return {
+    success: true,
+    data: { jobId: job.id, status: job.status, message: "Job created successfully" },
+  };
+}
+
+/**
+ * Build a queued job that uses the default LLM provider, template mode and
+ * export format from the saved config.
+ */
+async function createJob(
+  prompt: string,
+  options: Pick<JobConfig, "budget" | "fieldMappings"> = {},
+  context?: Job["context"]
+): Promise<Job> {
   const config = await stateManager.getConfig();
-  const job: Job = {
+  return {
     id: crypto.randomUUID(),
     prompt,
     config: {
       llmProvider: config.llm.providers[config.llm.defaultProvider],
       templateMode: config.defaults?.templateMode ?? "same",
       exportFormat: config.defaults?.exportFormat ?? "png",
+      ...options,
     },
     tasks: [],
     status: "queued",
@@ -157,13 +310,7 @@ async function handleStartJob(payload: { prompt: string }): Promise<MessageRespo
     createdAt: new Date().toISOString(),
     results: [],
     errors: [],
-  };
-
-  await jobQueue.enqueue(job);
-
-  return {
-    success: true,
-    data: { jobId: job.id, status: job.status, message: "Job created successfully" },
+    context,
   };
 }
 
@@ -173,26 +320,51 @@ async function handlePauseJob(payload: { jobId: string }): Promise<MessageRespon
 
   console.info("[Background] Pausing job:", jobId);
   await stateManager.pauseJob(jobId);
+  orchestrationEngine.abortJob(jobId);
 
   return { success: true, data: { jobId, status: "paused" } };
 }
 
-async function handleResumeJob(payload: { jobId: string }): Promise<MessageResponse> {
-  const { jobId } = payload;
+async function handleResumeJob(payload: {
+  jobId: string;
+  budget?: JobBudget;
+}): Promise<MessageResponse> {
+  const { jobId, budget } = payload;
   if (!jobId) return { success: false, error: "Job ID is required" };
 
   console.info("[Background] Resuming job:", jobId);
-  await stateManager.resumeJob(jobId);
+  try {
+    await stateManager.resumeJob(jobId, budget);
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : String(error) };
+  }
+  await requeueJob(jobId);
 
   return { success: true, data: { jobId, status: "running" } };
 }
 
+/**
+ * Put a resumed job back on the queue so the engine continues from its
+ * saved task index. A job the engine has not stopped yet, or that is still
+ * queued, carries on where it is instead of being queued twice.
+ */
+async function requeueJob(jobId: string): Promise<void> {
+  if (orchestrationEngine.isRunning(jobId) || jobQueue.getQueuePosition(jobId) !== -1) return;
+
+  const job = await stateManager.getJobState(jobId);
+  if (!job) return;
+
+  await jobQueue.enqueue(job);
+  processQueue();
+}
+
 async function handleCancelJob(payload: { jobId: string }): Promise<MessageResponse> {
   const { jobId } = payload;
   if (!jobId) return { success: false, error: "Job ID is required" };
 
   console.info("[Background] Cancelling job:", jobId);
   await stateManager.cancelJob(jobId);
+  orchestrationEngine.abortJob(jobId);
 
   return { success: true, data: { jobId, status: "cancelled" } };
 }
@@ -205,7 +377,10 @@ async function handleGetJobStatus(payload: { jobId: string }): Promise<MessageRe
   const job = await stateManager.getJobState(jobId);
 
   if (!job) return { success: false, error: `Job ${jobId} not found` };
-  return { success: true, data: job };
+
+  // Running jobs report usage as of their latest LLM request.
+  const usage = orchestrationEngine.getUsage(jobId) ?? job.usage ?? CostCalculator.empty();
+  return { success: true, data: { ...job, usage } };
 }
 
 // ── Config Handlers ────────────────────────────────────────────────────────────
@@ -273,11 +448,405 @@ async function handleTestLLMConnection(): Promise<MessageResponse> {
   }
 }
 
+// ── Adapter Pack Handlers ──────────────────────────────────────────────────────
+
+/** Names of the built-in adapters, which packs may not replace. */
+const BUILT_IN_ADAPTERS = ["Canva", "Figma", "Generic Web"];
+
+/**
+ * Build the adapter for an installed pack. Custom action scripts get the
+ * action executor and nothing else.
+ */
+function createPackAdapter(pack: AdapterPack): PackAdapter {
+  return new PackAdapter(pack, actionExecutor);
+}
+
+/**
+ * Register every installed adapter pack. A pack that no longer loads is
+ * skipped so it cannot block start-up.
+ */
+async function registerAdapterPacks(): Promise<void> {
+  for (const pack of await stateManager.getAdapterPacks()) {
+    try {
+      adapterRegistry.registerAdapter(createPackAdapter(pack));
+    } catch (error) {
+      console.warn("[Background] Skipping adapter pack", pack.manifest.name, "—", error);
+    }
+  }
+}
+
+async function handleImportAdapterPack(payload: {
+  files: Record<string, string>;
+}): Promise<MessageResponse> {
+  try {
+    const { manifest } = AdapterLoader.loadPack(payload?.files ?? {});
+    if (BUILT_IN_ADAPTERS.includes(manifest.name)) {
+      return { success: false, error: `"${manifest.name}" is a built-in adapter` };
+    }
+
+    const pack: AdapterPack = {
+      manifest,
+      files: payload.files,
+      installedAt: new Date().toISOString(),
+    };
+    const adapter = createPackAdapter(pack);
+    adapterRegistry.unregisterAdapter(manifest.name);
+    adapterRegistry.registerAdapter(adapter);
+    await stateManager.saveAdapterPack(pack);
+
+    console.info("[Background] Installed adapter pack", manifest.name, manifest.version);
+    return { success: true, data: { manifest } };
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+async function handleGetAdapterPacks(): Promise<MessageResponse> {
+  // Summaries only; the pack files stay in the background.
+  const packs = await stateManager.getAdapterPacks();
+  return {
+    success: true,
+    data: { packs: packs.map(({ manifest, installedAt }) => ({ manifest, installedAt })) },
+  };
+}
+
+async function handleRemoveAdapterPack(payload: { name: string }): Promise<MessageResponse> {
+  const { name } = payload;
+  if (!(await stateManager.removeAdapterPack(name))) {
+    return { success: false, error: `Adapter pack "${name}" is not installed` };
+  }
+  adapterRegistry.unregisterAdapter(name);
+  console.info("[Background] Removed adapter pack", name);
+  return { success: true };
+}
+
+/**
+ * Check an adapter's selectors on its live site. The report lists broken,
+ * healed and ambiguous selectors; `selectorsYaml` is the adapter's
+ * `selectors.yaml` with the healed replacements applied.
+ */
+async function handleAuditAdapter(
+  payload: { adapter: string } & SelectorAuditOptions
+): Promise<MessageResponse> {
+  const adapter = adapterRegistry.getAllAdapters().find((a) => a.name === payload?.adapter);
+  if (!adapter) return { success: false, error: `Unknown adapter "${payload?.adapter}"` };
+
+  try {
+    const { screens, timeout } = payload;
+    const report = await selectorAudit.run(adapter, { screens, timeout });
+    return { success: true, data: { report, selectorsYaml: stringify(report.proposedSelectors) } };
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+// ── Selector Override Handlers ───────────────────────────────────────────────
+
+type SelectorOverrideKey = Pick<SelectorOverride, "adapter" | "domain" | "original">;
+
+async function handleGetSelectorOverrides(): Promise<MessageResponse> {
+  return { success: true, data: { overrides: await stateManager.getSelectorOverrides() } };
+}
+
+/**
+ * Mark a learned override as reviewed, so failures lower its confidence
+ * but never revoke it.
+ */
+async function handlePromoteSelectorOverride(key: SelectorOverrideKey): Promise<MessageResponse> {
+  const override = (await stateManager.getSelectorOverrides()).find(
+    (o) => o.adapter === key?.adapter && o.domain === key.domain && o.original === key.original
+  );
+  if (!override) return { success: false, error: `No override for "${key?.original}"` };
+
+  await stateManager.saveSelectorOverride({ ...override, promoted: true });
+  console.info("[Background] Promoted selector override", override.original, "on", override.domain);
+  return { success: true };
+}
+
+async function handleRemoveSelectorOverride(key: SelectorOverrideKey): Promise<MessageResponse> {
+  if (!(await stateManager.removeSelectorOverride(key))) {
+    return { success: false, error: `No override for "${key?.original}"` };
+  }
+  return { success: true };
+}
+
+// ── Sheet Sync Handlers ────────────────────────────────────────────────────────
+
+/** Minutes between polls when a sync names no interval. */
+const DEFAULT_SYNC_INTERVAL_MINUTES = 5;
+
+/** A sync as sent by the side panel; `id` is set when editing one. */
+type SheetSyncInput = Omit<SheetSync, "id" | "createdAt" | "lastSyncedAt" | "intervalMinutes"> &
+  Partial<Pick<SheetSync, "id" | "intervalMinutes">>;
+
+/** Polls every synced sheet; syncs share the stored OAuth token. */
+const sheetsConnector = new GoogleSheetsConnector();
+
+chrome.alarms.onAlarm.addListener((alarm) => {
+  const syncId = GoogleSheetsConnector.syncIdFromAlarm(alarm.name);
+  if (!syncId) return;
+
+  ensureInitialised()
+    .then(() => runSheetSync(syncId))
+    .catch((error) => console.error("[Background] Sheet sync", syncId, "failed:", error));
+});
+
+/**
+ * Re-create the alarms of enabled syncs. Chrome may drop alarms when the
+ * browser restarts.
+ */
+async function restoreSheetSyncs(): Promise<void> {
+  for (const sync of await stateManager.getSheetSyncs()) {
+    if (sync.enabled && !(await chrome.alarms.get(`${SHEET_SYNC_ALARM_PREFIX}${sync.id}`))) {
+      await sheetsConnector.scheduleSync(sync);
+    }
+  }
+}
+
+/** Runs in progress per sync id; a run started meanwhile waits its turn. */
+const sheetSyncRuns = new Map<string, Promise<unknown>>();
+
+/**
+ * Poll a synced sheet and queue a job for each new or changed row. Runs
+ * of the same sync, e.g. an alarm and a manual run, happen one after the
+ * other so both never queue the same rows.
+ */
+function runSheetSync(syncId: string): Promise<{ jobIds: string[]; duplicates: number }> {
+  const previous = sheetSyncRuns.get(syncId) ?? Promise.resolve();
+  const run = previous.catch(() => undefined).then(() => pollSheetSync(syncId));
+  sheetSyncRuns.set(syncId, run);
+  run
+    .finally(() => {
+      if (sheetSyncRuns.get(syncId) === run) sheetSyncRuns.delete(syncId);
+    })
+    .catch(() => {
+      // The caller handles the failure
+    });
+  return run;
+}
+
+/**
+ * One run of {@link runSheetSync}. The row carries the sheet's columns
+ * plus the sync's mapped design fields. Each row's fingerprint is saved as
+ * soon as its job is queued, so a poll that fails part-way only repeats
+ * the rows it had not queued yet.
+ */
+async function pollSheetSync(syncId: string): Promise<{ jobIds: string[]; duplicates: number }> {
+  const sync = (await stateManager.getSheetSyncs()).find((s) => s.id === syncId);
+  if (!sync) {
+    await sheetsConnector.cancelSync(syncId);
+    throw new Error(`Sheet sync "${syncId}" not found`);
+  }
+
+  // Chrome renews the cached token once it expires; a rejected one is
+  // replaced by the connector's retry.
+  await sheetsConnector.restoreToken();
+  const known = await stateManager.getSyncFingerprints(syncId);
+  const poll = await sheetsConnector.pollSync(sync, known);
+
+  const mapper = new DataMapper();
+  const queued = [...(known ?? [])];
+  const jobIds: string[] = [];
+  try {
+    for (const { row, fingerprint } of poll.changed) {
+      const dataRow = sync.dataMapping
+        ? { ...row, ...mapper.applyFieldMappings(row, sync.dataMapping) }
+        : row;
+      const job = await createJob(sync.prompt, { budget: sync.budget }, { dataRows: [dataRow] });
+      await jobQueue.enqueue(job);
+      jobIds.push(job.id);
+      queued.push(fingerprint);
+      await stateManager.saveSyncFingerprints(syncId, queued);
+    }
+  } finally {
+    if (jobIds.length > 0) processQueue();
+  }
+
+  await stateManager.saveSyncFingerprints(syncId, poll.fingerprints);
+  await stateManager.saveSheetSync({ ...sync, lastSyncedAt: new Date().toISOString() });
+  console.info("[Background] Sheet sync", syncId, "queued", jobIds.length, "job(s)");
+
+  return { jobIds, duplicates: poll.duplicates };
+}
+
+/**
+ * Save a sync and (re)schedule its alarm, or clear the alarm when the sync
+ * is disabled.
+ */
+async function handleSaveSheetSync(payload: SheetSyncInput): Promise<MessageResponse> {
+  if (!payload?.prompt?.trim()) {
+    return { success: false, error: "Prompt is required" };
+  }
+  try {
+    sheetsConnector.extractSpreadsheetId(payload.sheetUrl ?? "");
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : String(error) };
+  }
+
+  const existing = payload.id
+    ? (await stateManager.getSheetSyncs()).find((s) => s.id === payload.id)
+    : undefined;
+  const sync: SheetSync = {
+    ...payload,
+    id: existing?.id ?? crypto.randomUUID(),
+    intervalMinutes: payload.intervalMinutes ?? DEFAULT_SYNC_INTERVAL_MINUTES,
+    createdAt: existing?.createdAt ?? new Date().toISOString(),
+    lastSyncedAt: existing?.lastSyncedAt,
+  };
+
+  await stateManager.saveSheetSync(sync);
+  if (sync.enabled) {
+    await sheetsConnector.scheduleSync(sync);
+  } else {
+    await sheetsConnector.cancelSync(sync.id);
+  }
+  return { success: true, data: { sync } };
+}
+
+async function handleGetSheetSyncs(): Promise<MessageResponse> {
+  return { success: true, data: { syncs: await stateManager.getSheetSyncs() } };
+}
+
+async function handleRemoveSheetSync(payload: { id: string }): Promise<MessageResponse> {
+  await sheetsConnector.cancelSync(payload?.id);
+  if (!(await stateManager.removeSheetSync(payload?.id))) {
+    return { success: false, error: `Sheet sync "${payload?.id}" not found` };
+  }
+  return { success: true };
+}
+
+/** Poll a sync now instead of waiting for its alarm. */
+async function handleRunSheetSync(payload: { id: string }): Promise<MessageResponse> {
+  try {
+    return { success: true, data: await runSheetSync(payload?.id) };
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+// ── Recorder Handlers ──────────────────────────────────────────────────────────
+
+/**
+ * The tab being recorded; one recording runs at a time. It is mirrored to
+ * session storage and rebuilt from there when the worker wakes.
+ */
+let recording: { tabId: number; recorder: WorkflowRecorder } | null = null;
+
+/** The recording in progress, restored from session storage after a restart. */
+async function activeRecording(): Promise<typeof recording> {
+  if (!recording) {
+    const session = await stateManager.getRecording();
+    if (session) {
+      recording ??= {
+        tabId: session.tabId,
+        recorder: new WorkflowRecorder(session.startUrl, session.events),
+      };
+    }
+  }
+  return recording;
+}
+
+async function saveRecording(active: NonNullable<typeof recording>): Promise<void> {
+  await stateManager.saveRecording({
+    tabId: active.tabId,
+    startUrl: active.recorder.startUrl,
+    events: [...active.recorder.events],
+  });
+}
+
+/**
+ * Follow the recorded tab across page loads: record each navigation and
+ * re-arm the new page's content script once it has loaded. Registered at
+ * startup so a suspended worker is woken for it.
+ */
+chrome.tabs.onUpdated.addListener((tabId, changeInfo) => {
+  if (!changeInfo.url && changeInfo.status !== "complete") return;
+
+  ensureInitialised()
+    .then(() => onRecordedTabUpdated(tabId, changeInfo))
+    .catch((error) => console.error("[Background] Recorded tab update failed:", error));
+});
+
+async function onRecordedTabUpdated(
+  tabId: number,
+  changeInfo: chrome.tabs.TabChangeInfo
+): Promise<void> {
+  const active = await activeRecording();
+  if (!active || tabId !== active.tabId) return;
+
+  if (changeInfo.url) {
+    active.recorder.add({ type: "navigate", url: changeInfo.url, timestamp: Date.now() });
+    await saveRecording(active);
+  }
+  if (changeInfo.status === "complete") {
+    chrome.tabs
+      .sendMessage(tabId, { type: "START_RECORDING" })
+      .catch((error) => console.warn("[Background] Could not resume recording:", error));
+  }
+}
+
+async function handleStartRecording(): Promise<MessageResponse> {
+  const [tab] = await chrome.tabs.query({ active: true, currentWindow: true });
+  if (tab?.id === undefined || !tab.url?.startsWith("http")) {
+    return { success: false, error: "Open the page to record in the active tab" };
+  }
+  if (await activeRecording()) await handleStopRecording({});
+
+  try {
+    await chrome.tabs.sendMessage(tab.id, { type: "START_RECORDING" });
+  } catch (error) {
+    const msg = error instanceof Error ? error.message : String(error);
+    return { success: false, error: `Could not start recording: ${msg}` };
+  }
+
+  recording = { tabId: tab.id, recorder: new WorkflowRecorder(tab.url) };
+  await saveRecording(recording);
+  console.info("[Background] Recording started on", tab.url);
+  return { success: true, data: { url: tab.url } };
+}
+
+async function handleRecorderEvent(
+  event: RecordedEvent,
+  sender?: chrome.runtime.MessageSender
+): Promise<MessageResponse> {
+  const active = await activeRecording();
+  if (!active || sender?.tab?.id !== active.tabId) {
+    return { success: false, error: "This tab is not being recorded" };
+  }
+  active.recorder.add(event);
+  await saveRecording(active);
+  return { success: true };
+}
+
+/**
+ * End the recording and return the draft workflow with its adapter pack
+ * files. Typed text matching a cell of `dataRows` becomes a placeholder.
+ */
+async function handleStopRecording(payload: {
+  name?: string;
+  dataRows?: DataRow[];
+}): Promise<MessageResponse> {
+  const active = await activeRecording();
+  if (!active) return { success: false, error: "No recording in progress" };
+
+  const { tabId, recorder } = active;
+  recording = null;
+  await stateManager.clearRecording();
+  await chrome.tabs.sendMessage(tabId, { type: "STOP_RECORDING" }).catch(() => {
+    // The tab may have been closed
+  });
+
+  if (recorder.events.length === 0) return { success: false, error: "Nothing was recorded" };
+  const draft = recorder.buildDraft(payload?.name?.trim() || "recordedFlow", payload?.dataRows);
+  console.info("[Background] Recording stopped:", draft.workflow.steps.length, "steps");
+  return { success: true, data: { draft, files: WorkflowRecorder.toPackFiles(draft) } };
+}
+
 // ── Port-based Connections ─────────────────────────────────────────────────────
 
 /**
- * Handle long-lived port connections from content scripts and popup.
- * Ports allow persistent bidirectional communication.
+ * Handle long-lived port connections from content scripts, the popup and
+ * the side panel. Ports allow persistent bidirectional communication.
  */
 const activePorts = new Map<string, chrome.runtime.Port>();
 
@@ -304,12 +873,12 @@ chrome.runtime.onConnect.addListener((port) => {
 });
 
 /**
- * Broadcast a message to all connected ports matching a given name.
- * Reserved for future use by job status updates and real-time notifications.
+ * Broadcast a message to all connected ports matching a given name, e.g.
+ * live agent progress to every open side panel.
  */
-function broadcastToContentScripts(message: unknown): void {
+function broadcastToPorts(name: string, message: unknown): void {
   for (const [, p] of activePorts) {
-    if (p.name === "content-script") {
+    if (p.name === name) {
       try {
         p.postMessage(message);
       } catch {
@@ -318,8 +887,6 @@ function broadcastToContentScripts(message: unknown): void {
     }
   }
 }
-// Exported for future use and testing
-void broadcastToContentScripts;
 
 // ── Interrupted Job Recovery ───────────────────────────────────────────────────
 
@@ -332,8 +899,9 @@ async function resumeInterruptedJobs(): Promise<void> {
     const activeJob = await stateManager.getActiveJob();
     if (activeJob && activeJob.status === "running") {
       console.info("[Background] Resuming interrupted job:", activeJob.id);
-      await stateManager.resumeJob(activeJob.id);
+      await requeueJob(activeJob.id);
     }
+    processQueue();
   } catch (error) {
     console.error("[Background] Failed to resume interrupted jobs:", error);
   }
@@ -3,10 +3,17 @@
  * Platform-specific helpers for automating the Canva design editor.
  *
  * Injected into canva.com pages alongside the generic universal injector.
- * Provides Canva-aware DOM queries, text element selection, and
- * canvas element introspection.
+ * Provides Canva-aware DOM queries, text element selection, canvas
+ * element introspection and the Canva custom actions run by the
+ * CanvaAdapter.
  */
 
+import type {
+  CanvaActionName,
+  CanvaActionParams,
+  CanvaExportFormat,
+  CanvaMessage,
+} from "~types/canva";
 import type { ActionResult } from "~types/common";
 
 // ---------------------------------------------------------------------------
@@ -30,17 +37,27 @@ const CANVA_SELECTORS = {
   modalClose: '[data-testid="modal-close"]',
   loadingSpinner: '[data-testid="loading-spinner"]',
   designSurface: '[data-testid="design-surface"]',
+  imageElement: '[data-image-element="true"]',
+  selectedLayer: '[aria-selected="true"]',
+  replaceButton: '[data-testid="replace-button"]',
+  uploadItem: '[data-testid="upload-item"]',
+  page: '[data-testid="page"]',
+  duplicatePageButton: '[data-testid="duplicate-page-button"]',
+  shareButton: '[data-testid="share-button"]',
+  formatSelector: '[data-testid="format-selector"]',
+  formatOption: '[role="option"]',
 } as const;
 
-// ---------------------------------------------------------------------------
-// Message types
-// ---------------------------------------------------------------------------
+/** How long to wait for panels and menus to open. */
+const UI_TIMEOUT = 10_000;
 
-interface CanvaMessage {
-  platform: "canva";
-  customAction: string;
-  index?: number;
-}
+/** Labels of the download panel's file types. */
+const FORMAT_LABELS: Record<CanvaExportFormat, string> = {
+  png: "PNG",
+  jpg: "JPG",
+  pdf: "PDF",
+  mp4: "MP4",
+};
 
 // ---------------------------------------------------------------------------
 // Message listener
@@ -71,8 +88,28 @@ chrome.runtime.onMessage.addListener(
 
 async function handleCanvaMessage(message: CanvaMessage): Promise<ActionResult> {
   const startTime = Date.now();
+  // Parameters are validated by the CanvaAdapter before they are sent.
+  const params = <N extends CanvaActionName>() => (message.params ?? {}) as CanvaActionParams[N];
 
   switch (message.customAction) {
+    case "selectTextLayer":
+      return selectTextElement(params<"selectTextLayer">().index, startTime);
+
+    case "replaceText":
+      return replaceText(params<"replaceText">(), startTime);
+
+    case "replaceImageFromAsset":
+      return replaceImageFromAsset(params<"replaceImageFromAsset">(), startTime);
+
+    case "duplicatePage":
+      return duplicatePage(params<"duplicatePage">(), startTime);
+
+    case "setExportFormat":
+      return setExportFormat(params<"setExportFormat">(), startTime);
+
+    case "downloadDesign":
+      return downloadDesign(params<"downloadDesign">(), startTime);
+
     case "selectTextElement":
       return selectTextElement(message.index ?? 0, startTime);
 
@@ -194,6 +231,213 @@ async function waitForCanvas(startTime: number): Promise<ActionResult> {
   };
 }
 
+// ---------------------------------------------------------------------------
+// Custom actions
+// ---------------------------------------------------------------------------
+
+/**
+ * Replace the text of the layer at `index`, or of the selected text layer.
+ */
+function replaceText(
+  { text, index }: CanvaActionParams["replaceText"],
+  startTime: number
+): ActionResult {
+  const layer = findLayer(CANVA_SELECTORS.textElement, index);
+  if (!layer) return failed(describeMissingLayer("Text", index), startTime);
+
+  layer.click();
+  layer.dispatchEvent(new MouseEvent("dblclick", { bubbles: true }));
+  const editable = layer.isContentEditable
+    ? layer
+    : layer.querySelector<HTMLElement>('[contenteditable="true"]');
+  if (!editable) return failed("The text layer did not enter editing mode", startTime);
+
+  editable.focus();
+  // execCommand keeps Canva's editor state in sync; fall back to the DOM.
+  const inserted =
+    typeof document.execCommand === "function" &&
+    document.execCommand("selectAll") &&
+    document.execCommand("insertText", false, text);
+  if (!inserted) {
+    editable.textContent = text;
+    editable.dispatchEvent(new InputEvent("input", { bubbles: true }));
+  }
+
+  return done(startTime, { index, text });
+}
+
+/**
+ * Replace the image layer at `index` (or the selected image) with an
+ * uploaded asset whose name contains `asset`.
+ */
+async function replaceImageFromAsset(
+  { asset, index }: CanvaActionParams["replaceImageFromAsset"],
+  startTime: number
+): Promise<ActionResult> {
+  const image = findLayer(CANVA_SELECTORS.imageElement, index);
+  if (!image) return failed(describeMissingLayer("Image", index), startTime);
+  image.click();
+
+  const opener =
+    document.querySelector<HTMLElement>(CANVA_SELECTORS.replaceButton) ??
+    document.querySelector<HTMLElement>(CANVA_SELECTORS.uploadButton);
+  if (!opener) return failed("Neither the Replace nor the Uploads button is available", startTime);
+  opener.click();
+
+  const name = asset.toLowerCase();
+  const item = await waitFor(() =>
+    Array.from(document.querySelectorAll<HTMLElement>(CANVA_SELECTORS.uploadItem)).find((el) =>
+      [el.getAttribute("aria-label"), el.getAttribute("title"), el.textContent].some((label) =>
+        label?.toLowerCase().includes(name)
+      )
+    )
+  );
+  if (!item) return failed(`Asset "${asset}" not found in uploads`, startTime);
+  item.click();
+
+  return done(startTime, { asset, index });
+}
+
+/**
+ * Duplicate the page at `page`, or the current page, and wait for the copy.
+ */
+async function duplicatePage(
+  { page }: CanvaActionParams["duplicatePage"],
+  startTime: number
+): Promise<ActionResult> {
+  const pages = document.querySelectorAll<HTMLElement>(CANVA_SELECTORS.page);
+  const before = pages.length;
+
+  let scope: ParentNode = document;
+  if (page !== undefined) {
+    const target = pages[page];
+    if (!target) {
+      return failed(`Page ${page} not found (${before} available)`, startTime);
+    }
+    target.click();
+    scope = target;
+  }
+
+  const button =
+    scope.querySelector<HTMLElement>(CANVA_SELECTORS.duplicatePageButton) ??
+    document.querySelector<HTMLElement>(CANVA_SELECTORS.duplicatePageButton);
+  if (!button) return failed("Duplicate page button not found", startTime);
+  button.click();
+
+  const duplicated = await waitFor(
+    () => document.querySelectorAll(CANVA_SELECTORS.page).length > before || null
+  );
+  if (!duplicated) return failed("The page was not duplicated", startTime);
+
+  return done(startTime, { page, pages: document.querySelectorAll(CANVA_SELECTORS.page).length });
+}
+
+/**
+ * Pick a file type in the open download panel.
+ */
+async function setExportFormat(
+  { format }: CanvaActionParams["setExportFormat"],
+  startTime: number
+): Promise<ActionResult> {
+  const selector = document.querySelector<HTMLElement>(CANVA_SELECTORS.formatSelector);
+  if (!selector) return failed("The download panel is not open", startTime);
+  selector.click();
+
+  const label = FORMAT_LABELS[format];
+  const option = await waitFor(() =>
+    Array.from(document.querySelectorAll<HTMLElement>(CANVA_SELECTORS.formatOption)).find((el) =>
+      el.textContent?.trim().toUpperCase().startsWith(label)
+    )
+  );
+  if (!option) return failed(`File type ${label} is not offered for this design`, startTime);
+  option.click();
+
+  return done(startTime, { format });
+}
+
+/**
+ * Open Share → Download, pick a file type if given, and start the download.
+ */
+async function downloadDesign(
+  { format }: CanvaActionParams["downloadDesign"],
+  startTime: number
+): Promise<ActionResult> {
+  if (!document.querySelector(CANVA_SELECTORS.downloadButton)) {
+    const share = document.querySelector<HTMLElement>(CANVA_SELECTORS.shareButton);
+    if (!share) return failed("Share button not found", startTime);
+    share.click();
+  }
+
+  const download = await waitFor(() =>
+    document.querySelector<HTMLElement>(CANVA_SELECTORS.downloadButton)
+  );
+  if (!download) return failed("Download option not found in the Share menu", startTime);
+  download.click();
+
+  if (format) {
+    await waitFor(() => document.querySelector(CANVA_SELECTORS.formatSelector));
+    const picked = await setExportFormat({ format }, startTime);
+    if (!picked.success) return picked;
+  }
+
+  const exportButton = await waitFor(() =>
+    document.querySelector<HTMLElement>(CANVA_SELECTORS.exportButton)
+  );
+  if (!exportButton) return failed("Download button not found in the download panel", startTime);
+  exportButton.click();
+
+  return done(startTime, { format });
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/** The layer at `index`, or the selected layer when no index is given. */
+function findLayer(selector: string, index?: number): HTMLElement | null {
+  if (index !== undefined) {
+    return document.querySelectorAll<HTMLElement>(selector)[index] ?? null;
+  }
+  return document.querySelector<HTMLElement>(`${selector}${CANVA_SELECTORS.selectedLayer}`);
+}
+
+function describeMissingLayer(kind: string, index?: number): string {
+  if (index === undefined) return `No ${kind.toLowerCase()} layer is selected`;
+  return `${kind} layer at index ${index} not found`;
+}
+
+/** Poll `find` until it returns a value, or give up after `timeout` ms. */
+async function waitFor<T>(
+  find: () => T | null | undefined,
+  timeout = UI_TIMEOUT
+): Promise<T | null> {
+  const deadline = Date.now() + timeout;
+  for (;;) {
+    const found = find();
+    if (found) return found;
+    if (Date.now() >= deadline) return null;
+    await new Promise((r) => setTimeout(r, 250));
+  }
+}
+
+function done(startTime: number, data?: unknown): ActionResult {
+  return {
+    success: true,
+    data,
+    timestamp: new Date().toISOString(),
+    duration: Date.now() - startTime,
+  };
+}
+
+function failed(error: string, startTime: number): ActionResult {
+  return {
+    success: false,
+    error,
+    timestamp: new Date().toISOString(),
+    duration: Date.now() - startTime,
+  };
+}
+
 // ---------------------------------------------------------------------------
 // Initialisation
 // ---------------------------------------------------------------------------
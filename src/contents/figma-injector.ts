@@ -3,11 +3,20 @@
  * Platform-specific helpers for automating the Figma design editor.
  *
  * Injected into figma.com pages alongside the generic universal injector.
- * Provides Figma-aware DOM queries, layer/frame selection, and
- * design surface introspection.
+ * Provides Figma-aware DOM queries, layer/frame selection, design surface
+ * introspection, and relays custom actions to the companion Figma plugin
+ * (`figma-plugin/`) over `postMessage`.
  */
 
 import type { ActionResult } from "~types/common";
+import { FIGMA_BRIDGE_SOURCE } from "~types/figma";
+import type {
+  FigmaActionName,
+  FigmaBridgeRequest,
+  FigmaBridgeResponse,
+  FigmaExportData,
+  FigmaExportFormat,
+} from "~types/figma";
 
 // ---------------------------------------------------------------------------
 // Figma-specific selectors
@@ -28,6 +37,34 @@ const FIGMA_SELECTORS = {
   loadingOverlay: '[class*="loading"]',
 } as const;
 
+// ---------------------------------------------------------------------------
+// Plugin bridge
+// ---------------------------------------------------------------------------
+
+/** Actions answered by the Figma plugin rather than the DOM. */
+const BRIDGE_ACTIONS = new Set<string>([
+  "ping",
+  "getNodeTree",
+  "setText",
+  "setImageFill",
+  "cloneFrame",
+  "exportFrame",
+] satisfies FigmaActionName[]);
+
+/** How long to wait for the plugin; cloning and exporting get longer. */
+const BRIDGE_TIMEOUT = 15_000;
+const SLOW_BRIDGE_TIMEOUT = 120_000;
+
+const EXPORT_MIME_TYPES: Record<FigmaExportFormat, string> = {
+  png: "image/png",
+  jpg: "image/jpeg",
+  svg: "image/svg+xml",
+  pdf: "application/pdf",
+};
+
+/** Requests waiting for the plugin, by id. */
+const pendingRequests = new Map<string, (response: FigmaBridgeResponse) => void>();
+
 // ---------------------------------------------------------------------------
 // Message types
 // ---------------------------------------------------------------------------
@@ -36,6 +73,7 @@ interface FigmaMessage {
   platform: "figma";
   customAction: string;
   index?: number;
+  params?: Record<string, unknown>;
 }
 
 // ---------------------------------------------------------------------------
@@ -61,6 +99,12 @@ chrome.runtime.onMessage.addListener(
   }
 );
 
+window.addEventListener("message", (event: MessageEvent) => {
+  const data = event.data as Partial<FigmaBridgeResponse> | null;
+  if (data?.source !== FIGMA_BRIDGE_SOURCE || data.direction !== "response" || !data.id) return;
+  pendingRequests.get(data.id)?.(data as FigmaBridgeResponse);
+});
+
 // ---------------------------------------------------------------------------
 // Message handler
 // ---------------------------------------------------------------------------
@@ -82,6 +126,9 @@ async function handleFigmaMessage(message: FigmaMessage): Promise<ActionResult>
       return waitForCanvas(startTime);
 
     default:
+      if (BRIDGE_ACTIONS.has(message.customAction)) {
+        return callPlugin(message.customAction as FigmaActionName, message.params ?? {}, startTime);
+      }
       return {
         success: false,
         error: `Unknown Figma action: ${message.customAction}`,
@@ -193,6 +240,103 @@ async function waitForCanvas(startTime: number): Promise<ActionResult> {
   };
 }
 
+// ---------------------------------------------------------------------------
+// Plugin actions
+// ---------------------------------------------------------------------------
+
+/**
+ * Send an action to the Figma plugin and wait for its answer. The plugin's
+ * UI runs in a nested iframe, so the request is posted to every frame and
+ * only the plugin (which checks the `source` tag) replies.
+ */
+async function callPlugin(
+  action: FigmaActionName,
+  params: Record<string, unknown>,
+  startTime: number
+): Promise<ActionResult> {
+  const id = crypto.randomUUID();
+  const request: FigmaBridgeRequest = {
+    source: FIGMA_BRIDGE_SOURCE,
+    direction: "request",
+    id,
+    action,
+    params,
+  };
+  const timeout =
+    action === "cloneFrame" || action === "exportFrame" ? SLOW_BRIDGE_TIMEOUT : BRIDGE_TIMEOUT;
+
+  const response = await new Promise<FigmaBridgeResponse | null>((resolve) => {
+    const timer = setTimeout(() => {
+      pendingRequests.delete(id);
+      resolve(null);
+    }, timeout);
+    pendingRequests.set(id, (answer) => {
+      clearTimeout(timer);
+      pendingRequests.delete(id);
+      resolve(answer);
+    });
+    postToFrames(window, request);
+  });
+
+  if (!response) {
+    return failed(
+      `The Figma plugin did not answer within ${timeout}ms — ` +
+        "run Plugins → Development → BrowserAI Craft Bridge in this file",
+      startTime
+    );
+  }
+  if (!response.success) return failed(response.error ?? `${action} failed`, startTime);
+  if (action === "exportFrame") return downloadExport(response.data as FigmaExportData, startTime);
+
+  return {
+    success: true,
+    data: response.data,
+    timestamp: new Date().toISOString(),
+    duration: Date.now() - startTime,
+  };
+}
+
+/** Post `message` to every frame nested in `target`. */
+function postToFrames(target: Window, message: FigmaBridgeRequest): void {
+  for (let i = 0; i < target.frames.length; i++) {
+    const frame = target.frames[i];
+    frame.postMessage(message, "*");
+    postToFrames(frame, message);
+  }
+}
+
+/** Save an exported frame as a download. */
+function downloadExport(
+  { name, format, base64 }: FigmaExportData,
+  startTime: number
+): ActionResult {
+  const bytes = Uint8Array.from(atob(base64), (c) => c.charCodeAt(0));
+  const url = URL.createObjectURL(new Blob([bytes], { type: EXPORT_MIME_TYPES[format] }));
+  const fileName = `${name}.${format}`;
+
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 10_000);
+
+  return {
+    success: true,
+    data: { frame: name, format, fileName, bytes: bytes.length },
+    timestamp: new Date().toISOString(),
+    duration: Date.now() - startTime,
+  };
+}
+
+function failed(error: string, startTime: number): ActionResult {
+  return {
+    success: false,
+    error,
+    timestamp: new Date().toISOString(),
+    duration: Date.now() - startTime,
+  };
+}
+
 // ---------------------------------------------------------------------------
 // Initialisation
 // ---------------------------------------------------------------------------
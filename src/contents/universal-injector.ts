@@ -4,11 +4,14 @@
  *
  * Implements the full set of actions from PROMPT 4.1:
  *  - getDOMState, click, type, wait, scroll, navigate, hover,
- *    evaluate, getComputedStyle, isVisible
- * Also supports port-based persistent connections.
+ *    evaluate, getComputedStyle, isVisible, countElements, elementAtPoint
+ * Also supports port-based persistent connections, and a record mode that
+ * reports the user's clicks, typing and scrolls to the background.
  */
 
 import type { ActionResult, BrowserAction, BoundingBox, WaitAction } from "~types";
+import type { RecordedEvent } from "~types/recorder";
+import { getUniqueSelector } from "~core/browser/DOMQuery";
 
 // ── Message Types ──────────────────────────────────────────────────────────────
 
@@ -18,7 +21,11 @@ type ContentMessage =
   | { type: "TAKE_SCREENSHOT"; payload?: { selector?: string } }
   | { type: "EVALUATE"; payload: { script: string } }
   | { type: "GET_COMPUTED_STYLE"; payload: { selector: string } }
-  | { type: "IS_VISIBLE"; payload: { selector: string } };
+  | { type: "IS_VISIBLE"; payload: { selector: string } }
+  | { type: "COUNT_ELEMENTS"; payload: { selector: string } }
+  | { type: "ELEMENT_AT_POINT"; payload: { x: number; y: number } }
+  | { type: "START_RECORDING" }
+  | { type: "STOP_RECORDING" };
 
 // ── Port Connection ────────────────────────────────────────────────────────────
 
@@ -58,8 +65,40 @@ function ensurePort(): chrome.runtime.Port | null {
 
 // ── One-shot Message Handler ───────────────────────────────────────────────────
 
+/** Message types answered by this script. */
+const HANDLED_MESSAGES = new Set<string>([
+  "EXECUTE_ACTION",
+  "GET_DOM_STATE",
+  "TAKE_SCREENSHOT",
+  "EVALUATE",
+  "GET_COMPUTED_STYLE",
+  "IS_VISIBLE",
+  "COUNT_ELEMENTS",
+  "ELEMENT_AT_POINT",
+  "START_RECORDING",
+  "STOP_RECORDING",
+]);
+
+/**
+ * Whether a message is for this script. Messages with a `platform` belong
+ * to the Canva and Figma scripts, which run on the same pages; answering
+ * them here would race their replies.
+ */
+function isContentMessage(message: {
+  type?: unknown;
+  platform?: unknown;
+}): message is ContentMessage {
+  return message.platform === undefined && HANDLED_MESSAGES.has(String(message.type));
+}
+
 chrome.runtime.onMessage.addListener(
-  (message: ContentMessage, _sender, sendResponse: (response: ActionResult) => void) => {
+  (
+    message: { type?: unknown; platform?: unknown },
+    _sender,
+    sendResponse: (response: ActionResult) => void
+  ) => {
+    if (!isContentMessage(message)) return false;
+
     handleMessage(message)
       .then((result) => sendResponse(result))
       .catch((error) =>
@@ -108,6 +147,18 @@ async function handleMessage(message: ContentMessage): Promise<ActionResult> {
       case "IS_VISIBLE":
         return executeIsVisible(message.payload.selector, startTime);
 
+      case "COUNT_ELEMENTS":
+        return executeCountElements(message.payload.selector, startTime);
+
+      case "ELEMENT_AT_POINT":
+        return executeElementAtPoint(message.payload, startTime);
+
+      case "START_RECORDING":
+        return startRecording(startTime);
+
+      case "STOP_RECORDING":
+        return stopRecording(startTime);
+
       default:
         return {
           success: false,
@@ -439,6 +490,39 @@ function executeIsVisible(selector: string, startTime: number): ActionResult {
   return ok({ visible }, startTime);
 }
 
+// ── countElements ──────────────────────────────────────────────────────────────
+
+function executeCountElements(selector: string, startTime: number): ActionResult {
+  if (!selector) return fail("Selector not provided", startTime);
+
+  try {
+    return ok({ count: document.querySelectorAll(selector).length }, startTime);
+  } catch {
+    return ok({ count: 0, reason: "Invalid selector" }, startTime);
+  }
+}
+
+/**
+ * Selector of the element at a viewport point, found by vision healing.
+ * Canvases and the page itself have no selector worth returning; the
+ * caller uses the point instead.
+ */
+function executeElementAtPoint(point: { x: number; y: number }, startTime: number): ActionResult {
+  const element = document.elementFromPoint(point.x, point.y);
+  if (
+    !element ||
+    element === document.body ||
+    element === document.documentElement ||
+    element instanceof HTMLCanvasElement
+  ) {
+    return ok({ selector: null, tagName: element?.tagName.toLowerCase() }, startTime);
+  }
+
+  const selector = getStableSelector(element);
+  const tagName = element.tagName.toLowerCase();
+  return ok({ selector: isUniqueSelector(selector) ? selector : null, tagName }, startTime);
+}
+
 // ── DOM State Extraction ───────────────────────────────────────────────────────
 
 function getDOMState(startTime: number): ActionResult {
@@ -449,6 +533,7 @@ function getDOMState(startTime: number): ActionResult {
     forms: getForms(),
     canvasElements: getCanvasElements(),
     iframes: getIframes(),
+    viewport: { width: window.innerWidth, height: window.innerHeight },
     timestamp: new Date().toISOString(),
   };
 
@@ -612,6 +697,154 @@ function getIframes(): Array<{ selector: string; src: string; sandboxed: boolean
   return iframes;
 }
 
+// ── Recorder ───────────────────────────────────────────────────────────────────
+
+/**
+ * Elements a click is attributed to, so clicking the icon inside a button
+ * records the button.
+ */
+const RECORDABLE_TARGETS =
+  'a, button, input, select, textarea, label, summary, [role="button"], [role="link"], ' +
+  '[role="menuitem"], [role="tab"], [role="option"], [role="checkbox"], [data-testid]';
+
+/** Input types whose values are recorded; passwords and files never are. */
+const RECORDABLE_INPUT_TYPES = new Set(["text", "search", "email", "url", "tel", "number"]);
+
+/** Scrolls are reported once the page has been still this long. */
+const SCROLL_SETTLE_MS = 250;
+
+let recording = false;
+let scrollTimer: ReturnType<typeof setTimeout> | undefined;
+
+function startRecording(startTime: number): ActionResult {
+  if (!recording) {
+    recording = true;
+    document.addEventListener("click", recordClick, true);
+    document.addEventListener("input", recordInput, true);
+    window.addEventListener("scroll", recordScroll, { passive: true });
+  }
+  return ok({ url: window.location.href }, startTime);
+}
+
+function stopRecording(startTime: number): ActionResult {
+  recording = false;
+  clearTimeout(scrollTimer);
+  document.removeEventListener("click", recordClick, true);
+  document.removeEventListener("input", recordInput, true);
+  window.removeEventListener("scroll", recordScroll);
+  return ok(undefined, startTime);
+}
+
+function recordClick(event: MouseEvent): void {
+  const origin = event.target instanceof Element ? event.target : null;
+  const element = origin?.closest(RECORDABLE_TARGETS) ?? origin;
+  if (!element) return;
+
+  sendRecordedEvent({
+    type: "click",
+    selector: getStableSelector(element),
+    label: describeElement(element),
+    url: window.location.href,
+    timestamp: Date.now(),
+  });
+}
+
+function recordInput(event: Event): void {
+  const field = event.target;
+  if (!(field instanceof HTMLInputElement || field instanceof HTMLTextAreaElement)) return;
+  if (field instanceof HTMLInputElement && !RECORDABLE_INPUT_TYPES.has(field.type)) return;
+
+  sendRecordedEvent({
+    type: "type",
+    selector: getStableSelector(field),
+    label: describeElement(field),
+    value: field.value,
+    url: window.location.href,
+    timestamp: Date.now(),
+  });
+}
+
+function recordScroll(): void {
+  clearTimeout(scrollTimer);
+  scrollTimer = setTimeout(() => {
+    sendRecordedEvent({
+      type: "scroll",
+      x: Math.round(window.scrollX),
+      y: Math.round(window.scrollY),
+      url: window.location.href,
+      timestamp: Date.now(),
+    });
+  }, SCROLL_SETTLE_MS);
+}
+
+function sendRecordedEvent(event: RecordedEvent): void {
+  chrome.runtime.sendMessage({ type: "RECORDER_EVENT", payload: event }).catch(() => {
+    // The background ends the session if it stops listening
+  });
+}
+
+/**
+ * A selector matching only `element`. Test ids and aria labels are
+ * preferred over ids and classes; when the element's own selector is
+ * ambiguous it is scoped by the nearest ancestor that makes it unique.
+ */
+function getStableSelector(element: Element): string {
+  const own = stableSelectorPart(element);
+  if (isUniqueSelector(own)) return own;
+
+  let ancestor = element.parentElement;
+  for (let depth = 0; ancestor && ancestor !== document.body && depth < 5; depth++) {
+    const scoped = `${stableSelectorPart(ancestor)} ${own}`;
+    if (isUniqueSelector(scoped)) return scoped;
+    ancestor = ancestor.parentElement;
+  }
+  return own;
+}
+
+function stableSelectorPart(element: Element): string {
+  const attributes: Record<string, string> = {};
+  for (const name of ["data-testid", "aria-label", "name"]) {
+    const value = element.getAttribute(name);
+    if (value && !value.includes('"')) attributes[name] = value;
+  }
+
+  // Generated ids (`:r3:`, `ember123`) and hashed classes change between
+  // sessions, so they are left out.
+  const hasStableAttribute = "data-testid" in attributes || "aria-label" in attributes;
+  const stableId = /^[A-Za-z][\w-]*$/.test(element.id) && !/\d{3,}/.test(element.id);
+  return getUniqueSelector({
+    tagName: element.tagName,
+    id: stableId && !hasStableAttribute ? element.id : undefined,
+    className: Array.from(element.classList)
+      .filter((c) => /^[A-Za-z][A-Za-z-]*$/.test(c))
+      .join(" "),
+    attributes,
+  });
+}
+
+function isUniqueSelector(selector: string): boolean {
+  try {
+    return document.querySelectorAll(selector).length === 1;
+  } catch {
+    return false;
+  }
+}
+
+/** A short human-readable name for an element, used to name its selector. */
+function describeElement(element: Element): string {
+  const field = element as HTMLInputElement;
+  const isField = element instanceof HTMLInputElement || element instanceof HTMLTextAreaElement;
+  const label =
+    element.getAttribute("aria-label") ||
+    field.placeholder ||
+    field.labels?.[0]?.textContent ||
+    (isField ? "" : element.textContent) ||
+    element.getAttribute("title") ||
+    element.getAttribute("name") ||
+    element.tagName.toLowerCase();
+  return label.replace(/\s+/g, " ").trim().slice(0, 40);
+}
+
 // ── Helpers ────────────────────────────────────────────────────────────────────
 
 function generateSelector(el: Element, index: number): string {
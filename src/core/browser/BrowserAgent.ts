@@ -10,9 +10,12 @@ import type {
   ActionOptions,
   WaitCondition,
   DOMState,
+  SelectorOverride,
+  SelectorOverrideStore,
 } from "~types/browser";
 import type { Screenshot, ScreenshotOptions, ElementLocation, DetectedElement, VerificationResult } from "~types/vision";
-import type { MCPIntegration } from "./MCPIntegration";
+import type { MCPToolSource } from "~types/mcp";
+import { SelfHealing } from "./SelfHealing";
 
 /** Options specific to the `type` action. */
 interface TypeOptions {
@@ -42,26 +45,53 @@ interface BrowserAgentConfig {
   defaultTimeout?: number;
   retryAttempts?: number;
   slowMode?: boolean;
+  /** Where learned selector overrides are kept; none are learned without it */
+  overrides?: SelectorOverrideStore;
+  /** Name of the adapter handling `url`, to scope overrides by */
+  adapterFor?: (url: string) => string | undefined;
 }
 
+/** Confidence of an override learned by self-healing. */
+const LEARNED_CONFIDENCE = 0.6;
+
+/** Confidence added by each successful use of an override. */
+const CONFIDENCE_GAIN = 0.1;
+
+/** Overrides whose confidence falls below this are revoked, unless promoted. */
+const MIN_CONFIDENCE = 0.2;
+
 /**
  * Central façade for driving the browser.
  *
  * All page-level interactions go through Chrome extension APIs
  * (`chrome.tabs.*`, `chrome.tabs.sendMessage`) while MCP actions
- * are delegated to the supplied {@link MCPIntegration} instance.
+ * are delegated to the supplied {@link MCPToolSource} (a single
+ * `MCPIntegration` or an `MCPRouter` spanning several servers).
  */
 export class BrowserAgent {
-  readonly mcp: MCPIntegration;
-  private config: Required<BrowserAgentConfig>;
+  readonly mcp: MCPToolSource;
+  private config: Required<Omit<BrowserAgentConfig, "overrides" | "adapterFor">>;
+  private readonly overrides?: SelectorOverrideStore;
+  private readonly adapterFor: (url: string) => string | undefined;
+  private vision: IVisionAgent | null = null;
 
-  constructor(mcp: MCPIntegration, config?: BrowserAgentConfig) {
+  constructor(mcp: MCPToolSource, config?: BrowserAgentConfig) {
     this.mcp = mcp;
     this.config = {
       defaultTimeout: config?.defaultTimeout ?? 30_000,
       retryAttempts: config?.retryAttempts ?? 3,
       slowMode: config?.slowMode ?? false,
     };
+    this.overrides = config?.overrides;
+    this.adapterFor = config?.adapterFor ?? (() => undefined);
+  }
+
+  /**
+   * Set the VisionAgent used to find a described element whose selector
+   * broke when the DOM heuristics find no replacement. `null` unsets it.
+   */
+  setVisionAgent(vision: IVisionAgent | null): void {
+    this.vision = vision;
   }
 
   // ─── Tab helpers ──────────────────────────────────────────────────
@@ -159,10 +189,7 @@ export class BrowserAgent {
         ? { type: "click", target: { type: "css", selector: target }, options }
         : { type: "click", target: { type: "coordinates", x: target.x, y: target.y }, options };
 
-      await this.sendToContentScript(tab.id!, {
-        type: "EXECUTE_ACTION",
-        payload: action,
-      });
+      await this.executeInPage(tab.id!, action);
 
       if (options?.waitAfter) {
         await this.delay(options.waitAfter);
@@ -197,10 +224,7 @@ export class BrowserAgent {
         (action as any).clearFirst = true;
       }
 
-      await this.sendToContentScript(tab.id!, {
-        type: "EXECUTE_ACTION",
-        payload: action,
-      });
+      await this.executeInPage(tab.id!, action);
 
       if (options?.waitAfter) {
         await this.delay(options.waitAfter);
@@ -248,10 +272,7 @@ export class BrowserAgent {
         target: { type: "css", selector },
         value: filePath,
       };
-      await this.sendToContentScript(tab.id!, {
-        type: "EXECUTE_ACTION",
-        payload: action,
-      });
+      await this.executeInPage(tab.id!, action);
       return this.ok(start);
     } catch (error) {
       return this.fail(error, start);
@@ -348,10 +369,7 @@ export class BrowserAgent {
         ? { type: "hover", target: { type: "css", selector: target } }
         : { type: "hover", target: { type: "coordinates", x: target.x, y: target.y } };
 
-      await this.sendToContentScript(tab.id!, {
-        type: "EXECUTE_ACTION",
-        payload: action,
-      });
+      await this.executeInPage(tab.id!, action);
 
       return this.ok(start);
     } catch (error) {
@@ -417,7 +435,11 @@ export class BrowserAgent {
       case "click": {
         const target = action.target;
         if (!target) return this.fail(new Error("Click action requires a target"), Date.now());
-        if (target.type === "css") return this.click(target.selector, action.options);
+        if (target.type === "css") {
+          return this.withOverride(target.selector, action.description, (sel) =>
+            this.click(sel, action.options)
+          );
+        }
         if (target.type === "coordinates") return this.click({ x: target.x, y: target.y }, action.options);
         if (target.type === "semantic") {
           return this.fail(
@@ -428,14 +450,23 @@ export class BrowserAgent {
             Date.now(),
           );
         }
+        if (target.type === "named") {
+          return this.fail(this.unresolvedNamed(target.name), Date.now());
+        }
         return this.fail(new Error("Unknown target type"), Date.now());
       }
 
       case "type": {
         const typed = action as any;
-        const selector =
-          action.target?.type === "css" ? action.target.selector : String(action.target ?? "");
-        return this.type(selector, typed.text ?? String(action.value ?? ""), action.options);
+        const text = typed.text ?? String(action.value ?? "");
+        if (action.target?.type === "css") {
+          return this.withOverride(action.target.selector, action.description, (sel) =>
+            typeof sel === "string"
+              ? this.type(sel, text, action.options)
+              : this.typeAtCoordinates(sel, text)
+          );
+        }
+        return this.type(String(action.target ?? ""), text, action.options);
       }
 
       case "navigate": {
@@ -456,7 +487,9 @@ export class BrowserAgent {
       case "hover": {
         const target = action.target;
         if (!target) return this.fail(new Error("Hover action requires a target"), Date.now());
-        if (target.type === "css") return this.hover(target.selector);
+        if (target.type === "css") {
+          return this.withOverride(target.selector, action.description, (sel) => this.hover(sel));
+        }
         if (target.type === "coordinates") return this.hover({ x: target.x, y: target.y });
         if (target.type === "semantic") {
           return this.fail(
@@ -467,6 +500,9 @@ export class BrowserAgent {
             Date.now(),
           );
         }
+        if (target.type === "named") {
+          return this.fail(this.unresolvedNamed(target.name), Date.now());
+        }
         return this.fail(new Error("Unknown target type"), Date.now());
       }
 
@@ -477,8 +513,15 @@ export class BrowserAgent {
 
       case "upload": {
         const u = action as any;
-        const sel = action.target?.type === "css" ? action.target.selector : "";
-        return this.uploadFile(sel, u.filePath ?? String(action.value ?? ""));
+        const filePath = u.filePath ?? String(action.value ?? "");
+        if (action.target?.type === "css") {
+          return this.withOverride(action.target.selector, action.description, async (sel) =>
+            typeof sel === "string"
+              ? this.uploadFile(sel, filePath)
+              : this.fail(new Error("Upload requires a file input selector"), Date.now())
+          );
+        }
+        return this.uploadFile("", filePath);
       }
 
       case "screenshot": {
@@ -513,7 +556,11 @@ export class BrowserAgent {
    * Attempt multiple strategies to find an element:
    * 1. CSS selector
    * 2. Attribute variations (data-testid, aria-label)
-   * 3. Vision-based location via the supplied VisionAgent
+   * 3. {@link SelfHealing} against the current DOM
+   * 4. Vision-based location via the supplied VisionAgent, mapped back to
+   *    the DOM element at that point when there is one
+   *
+   * Selectors found by strategies 2-4 are learned as overrides.
    */
   async findElementWithHealing(
     selector: string,
@@ -537,6 +584,7 @@ export class BrowserAgent {
         const visible = await this.isElementVisible(alt);
         if (visible) {
           console.info("[BrowserAgent] Healed selector:", selector, "→", alt);
+          await this.learnOverride(selector, alt);
           return { type: "css", selector: alt };
         }
       } catch {
@@ -544,20 +592,20 @@ export class BrowserAgent {
       }
     }
 
-    // Strategy 3 — vision-based
-    try {
-      const screenshot = await this.captureScreenshot();
-      const location = await visionAgent.locateElement(screenshot.data, description);
-      if (location.found && location.bbox) {
-        const coords: Coordinates = {
-          x: location.bbox.x + location.bbox.width / 2,
-          y: location.bbox.y + location.bbox.height / 2,
-        };
-        console.info("[BrowserAgent] Found element visually at:", coords);
-        return { type: "coordinates", ...coords };
-      }
-    } catch (error) {
-      console.debug("[BrowserAgent] Vision fallback failed:", error);
+    // Strategy 3 — DOM-based healing
+    if (selector) {
+      const healed = await this.healSelector(selector);
+      if (healed) return healed;
+    }
+
+    // Strategy 4 — vision-based
+    const located = await new SelfHealing(this, visionAgent).healWithVision({
+      selector,
+      description,
+    });
+    if (located) {
+      if (located.type === "css") await this.learnOverride(selector, located.selector);
+      return located;
     }
 
     throw new Error(
@@ -582,6 +630,8 @@ export class BrowserAgent {
       return this.fail(new Error("Failed to resolve semantic target"), Date.now());
     }
 
+    if (target.type === "named") return this.fail(this.unresolvedNamed(target.name), Date.now());
+
     // First attempt for CSS/coordinate targets
     const firstResult =
       target.type === "css"
@@ -628,6 +678,141 @@ export class BrowserAgent {
     return this.fail(new Error("Failed to heal selector for type action"), Date.now());
   }
 
+  // ─── Learned selector overrides ───────────────────────────────────
+
+  /**
+   * Run `action` with the learned override for `selector`, falling back to
+   * `selector` itself when there is none or it fails. When both fail, a
+   * replacement found by {@link SelfHealing} is tried and learned, taking
+   * the place of a failed override; with a `description` of the element,
+   * that includes looking for it by vision.
+   *
+   * Each use of an override updates its confidence; an override that falls
+   * below {@link MIN_CONFIDENCE} is revoked unless the user promoted it.
+   */
+  private async withOverride(
+    selector: string,
+    description: string | undefined,
+    action: (target: string | Coordinates) => Promise<ActionResult>
+  ): Promise<ActionResult> {
+    if (!this.overrides) return action(selector);
+
+    const override = await this.findOverride(selector);
+    if (override) {
+      const result = await action(override.replacement);
+      await this.recordOverrideUse(override, result.success);
+      if (result.success) return result;
+    }
+
+    const result = await action(selector);
+    if (result.success) return result;
+
+    const healed = await this.healSelector(selector, description);
+    if (healed?.type === "coordinates") return action({ x: healed.x, y: healed.y });
+    return healed?.type === "css" && healed.selector !== override?.replacement
+      ? action(healed.selector)
+      : result;
+  }
+
+  /**
+   * Ask {@link SelfHealing} for a replacement of `selector` and learn it.
+   * Given a `description`, the element is also looked for by the VisionAgent
+   * set with {@link setVisionAgent}, which can yield coordinates instead.
+   */
+  private async healSelector(
+    selector: string,
+    description?: string
+  ): Promise<ElementSelector | null> {
+    try {
+      const healing = new SelfHealing(this, this.vision ?? undefined);
+      const dom = await this.getDOMState();
+      const healed = description
+        ? await healing.healElement({ selector, description }, dom)
+        : await healing.healSelector(selector, dom);
+      const found: ElementSelector | null =
+        typeof healed === "string" ? { type: "css", selector: healed } : healed;
+
+      if (found?.type === "css" && found.selector !== selector) {
+        await this.learnOverride(selector, found.selector);
+        return found;
+      }
+      if (found?.type === "coordinates") return found;
+    } catch (error) {
+      console.debug("[BrowserAgent] DOM healing failed:", error);
+    }
+    return null;
+  }
+
+  /** The override for `selector` on the active tab's adapter and domain. */
+  private async findOverride(selector: string): Promise<SelectorOverride | undefined> {
+    const scope = await this.overrideScope();
+    if (!scope || !this.overrides) return undefined;
+
+    const overrides = await this.overrides.getSelectorOverrides();
+    return overrides.find(
+      (o) => o.adapter === scope.adapter && o.domain === scope.domain && o.original === selector
+    );
+  }
+
+  /**
+   * Store `replacement` as the override for `original`. An existing
+   * override with another replacement has gone stale: it is replaced and
+   * starts over at the learned confidence, unpromoted.
+   */
+  private async learnOverride(original: string, replacement: string): Promise<void> {
+    if (!this.overrides || !original) return;
+    try {
+      const scope = await this.overrideScope();
+      const existing = await this.findOverride(original);
+      if (!scope || existing?.replacement === replacement) return;
+
+      await this.overrides.saveSelectorOverride({
+        ...scope,
+        original,
+        replacement,
+        confidence: LEARNED_CONFIDENCE,
+        successes: 0,
+        failures: 0,
+        learnedAt: new Date().toISOString(),
+      });
+      const verb = existing ? "Replaced" : "Learned";
+      console.info(`[BrowserAgent] ${verb} selector override:`, original, "→", replacement);
+    } catch (error) {
+      console.debug("[BrowserAgent] Could not store selector override:", error);
+    }
+  }
+
+  /** Raise or halve an override's confidence, revoking it when it gets too low. */
+  private async recordOverrideUse(override: SelectorOverride, success: boolean): Promise<void> {
+    if (!this.overrides) return;
+    const updated: SelectorOverride = {
+      ...override,
+      confidence: success
+        ? Math.min(1, override.confidence + CONFIDENCE_GAIN)
+        : override.confidence / 2,
+      successes: override.successes + (success ? 1 : 0),
+      failures: override.failures + (success ? 0 : 1),
+      lastUsedAt: new Date().toISOString(),
+    };
+
+    if (!success && !updated.promoted && updated.confidence < MIN_CONFIDENCE) {
+      console.info("[BrowserAgent] Revoking selector override:", override.original);
+      await this.overrides.removeSelectorOverride(override);
+    } else {
+      await this.overrides.saveSelectorOverride(updated);
+    }
+  }
+
+  /** Adapter and domain of the active tab, or `null` without one. */
+  private async overrideScope(): Promise<Pick<SelectorOverride, "adapter" | "domain"> | null> {
+    try {
+      const url = await this.getCurrentPageUrl();
+      return { adapter: this.adapterFor(url) ?? "", domain: new URL(url).hostname };
+    } catch {
+      return null;
+    }
+  }
+
   // ─── Utilities ────────────────────────────────────────────────────
 
   /** Wait for the active tab to finish loading. */
@@ -677,6 +862,34 @@ export class BrowserAgent {
     }
   }
 
+  /**
+   * Count the elements matching a CSS selector in the page. Returns 0 for
+   * an invalid selector.
+   */
+  async countElements(selector: string): Promise<number> {
+    const { id } = await this.getCurrentTab();
+    if (id === undefined) return 0;
+    const response = await this.sendToContentScript(id, {
+      type: "COUNT_ELEMENTS",
+      payload: { selector },
+    });
+    return typeof response?.data?.count === "number" ? response.data.count : 0;
+  }
+
+  /**
+   * Selector of the element at a point of the viewport (CSS pixels), or
+   * `null` when nothing addressable is there, e.g. a canvas.
+   */
+  async elementAtPoint(point: Coordinates): Promise<string | null> {
+    const { id } = await this.getCurrentTab();
+    if (id === undefined) return null;
+    const response = await this.sendToContentScript(id, {
+      type: "ELEMENT_AT_POINT",
+      payload: point,
+    });
+    return typeof response?.data?.selector === "string" ? response.data.selector : null;
+  }
+
   /**
    * Wait until an element matching {@link selector} appears, or timeout.
    */
@@ -709,6 +922,20 @@ export class BrowserAgent {
     }
   }
 
+  /**
+   * Run an element action in the page, throwing when the content script
+   * reports it failed (e.g. the selector matched nothing).
+   */
+  private async executeInPage(tabId: number, action: BrowserAction): Promise<void> {
+    const response = await this.sendToContentScript(tabId, {
+      type: "EXECUTE_ACTION",
+      payload: action,
+    });
+    if (response?.success === false) {
+      throw new Error(response.error ?? `${action.type} failed`);
+    }
+  }
+
   /** Generate CSS selector variations for healing attempts. */
   private generateSelectorVariations(selector: string): string[] {
     const variations: string[] = [];
@@ -740,6 +967,13 @@ export class BrowserAgent {
     return new Promise((resolve) => setTimeout(resolve, ms));
   }
 
+  /** Error for a `named` target that reached the agent without being resolved. */
+  private unresolvedNamed(name: string): Error {
+    return new Error(
+      `Named target "${name}" must be resolved against the adapter's SelectorMap before execution`
+    );
+  }
+
   /** Build a successful {@link ActionResult}. */
   private ok(start: number): ActionResult {
     return {
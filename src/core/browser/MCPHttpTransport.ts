@@ -0,0 +1,326 @@
+/**
+ * HTTP transports for MCP servers that run as network endpoints.
+ *
+ * Two wire formats are supported:
+ * - Streamable HTTP (`transport: "http"`): every message is POSTed to the
+ *   server URL; replies come back as JSON or as an SSE stream. The server
+ *   assigns an `Mcp-Session-Id` during `initialize` which is echoed on all
+ *   later requests.
+ * - HTTP+SSE (`transport: "sse"`): a long-lived GET stream delivers server
+ *   messages and announces, via an `endpoint` event, the URL that client
+ *   messages must be POSTed to.
+ *
+ * Dropped event streams are re-opened with exponential back-off.
+ */
+
+import type { MCPHttpServerConfig, MCPMessage, MCPTransport } from "~types/mcp";
+
+// ─── Constants ────────────────────────────────────────────────────
+
+const SESSION_HEADER = "mcp-session-id";
+const INITIAL_RECONNECT_DELAY_MS = 1000;
+const MAX_RECONNECT_DELAY_MS = 30_000;
+const DEFAULT_MAX_RECONNECT_ATTEMPTS = 5;
+
+// ─── Types ────────────────────────────────────────────────────────
+
+/** Tuning options for {@link MCPHttpTransport}. */
+export interface MCPHttpTransportOptions {
+  /** Give up re-opening a dropped event stream after this many attempts */
+  maxReconnectAttempts?: number;
+  /** Base delay for reconnection back-off */
+  reconnectDelayMs?: number;
+}
+
+/** A single parsed Server-Sent Event. */
+interface SSEEvent {
+  event: string;
+  data: string;
+  id?: string;
+}
+
+/**
+ * Raised when the server no longer recognises the session. The client
+ * must run the `initialize` handshake again before retrying.
+ */
+export class MCPSessionExpiredError extends Error {
+  constructor(url: string) {
+    super(`MCP session expired for ${url}`);
+    this.name = "MCPSessionExpiredError";
+  }
+}
+
+// ─── Transport ────────────────────────────────────────────────────
+
+/**
+ * {@link MCPTransport} implementation for `http` (streamable) and `sse`
+ * MCP server configs.
+ */
+export class MCPHttpTransport implements MCPTransport {
+  onmessage?: (message: MCPMessage) => void;
+  onclose?: (error?: Error) => void;
+
+  private readonly config: MCPHttpServerConfig;
+  private readonly maxReconnectAttempts: number;
+  private readonly reconnectDelayMs: number;
+
+  private sessionId: string | null = null;
+  private postEndpoint: string | null = null;
+  private lastEventId: string | null = null;
+  private streamAbort: AbortController | null = null;
+  private sessionReset = false;
+  private started = false;
+  private closed = false;
+
+  constructor(config: MCPHttpServerConfig, options?: MCPHttpTransportOptions) {
+    this.config = config;
+    this.maxReconnectAttempts = options?.maxReconnectAttempts ?? DEFAULT_MAX_RECONNECT_ATTEMPTS;
+    this.reconnectDelayMs = options?.reconnectDelayMs ?? INITIAL_RECONNECT_DELAY_MS;
+  }
+
+  /** Session id assigned by a streamable-HTTP server, if any. */
+  getSessionId(): string | null {
+    return this.sessionId;
+  }
+
+  /**
+   * Prepare the transport. For `sse` servers this opens the event stream
+   * and waits for the server to announce its POST endpoint.
+   */
+  async start(): Promise<void> {
+    if (this.started) throw new Error("MCPHttpTransport: already started");
+    this.started = true;
+    this.closed = false;
+
+    if (this.config.transport === "sse") {
+      await this.openEventStream();
+    }
+  }
+
+  /**
+   * POST a JSON-RPC message. Replies delivered in the response body (JSON
+   * or SSE) are dispatched through `onmessage`.
+   */
+  async send(message: MCPMessage): Promise<void> {
+    if (this.closed) throw new Error("MCPHttpTransport: transport is closed");
+
+    const url = this.config.transport === "sse" ? this.postEndpoint : this.config.url;
+    if (!url) throw new Error("MCPHttpTransport: server endpoint not yet known");
+
+    if (this.sessionReset) {
+      // The event stream reconnected under a new session.
+      this.sessionReset = false;
+      throw new MCPSessionExpiredError(this.config.url);
+    }
+
+    const response = await fetch(url, {
+      method: "POST",
+      headers: this.buildHeaders({
+        "Content-Type": "application/json",
+        Accept: "application/json, text/event-stream",
+      }),
+      body: JSON.stringify(message),
+    });
+
+    if (response.status === 404 && this.sessionId) {
+      // The server dropped our session; a fresh handshake is required.
+      this.sessionId = null;
+      throw new MCPSessionExpiredError(this.config.url);
+    }
+    if (!response.ok) {
+      throw new Error(`MCPHttpTransport: HTTP ${response.status} from ${url}`);
+    }
+
+    const sessionId = response.headers.get(SESSION_HEADER);
+    if (sessionId) {
+      this.sessionId = sessionId;
+    }
+
+    if (response.status === 202 || !response.body) return;
+
+    const contentType = response.headers.get("content-type") ?? "";
+    if (contentType.includes("text/event-stream")) {
+      await this.readEventStream(response.body, (event) => this.dispatchEvent(event));
+    } else if (contentType.includes("application/json")) {
+      const payload = (await response.json()) as MCPMessage | MCPMessage[];
+      for (const item of Array.isArray(payload) ? payload : [payload]) {
+        this.onmessage?.(item);
+      }
+    }
+  }
+
+  /**
+   * Close the event stream and, for streamable servers, end the session.
+   */
+  async close(): Promise<void> {
+    if (this.closed) return;
+    this.closed = true;
+    this.streamAbort?.abort();
+    this.streamAbort = null;
+
+    if (this.config.transport === "http" && this.sessionId) {
+      await fetch(this.config.url, {
+        method: "DELETE",
+        headers: this.buildHeaders({}),
+      }).catch(() => {
+        /* best effort */
+      });
+    }
+
+    this.sessionId = null;
+    this.postEndpoint = null;
+    this.onclose?.();
+  }
+
+  // ─── Event stream (sse) ────────────────────────────────────────────
+
+  /**
+   * Open the GET event stream and resolve once the `endpoint` event has
+   * arrived. The stream keeps being consumed (and re-opened) in the
+   * background.
+   */
+  private openEventStream(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      let announced = false;
+
+      const run = async (reconnects: number): Promise<void> => {
+        const abort = new AbortController();
+        this.streamAbort = abort;
+
+        try {
+          const headers: Record<string, string> = { Accept: "text/event-stream" };
+          if (this.lastEventId) headers["Last-Event-ID"] = this.lastEventId;
+
+          const response = await fetch(this.config.url, {
+            method: "GET",
+            headers: this.buildHeaders(headers),
+            signal: abort.signal,
+          });
+          if (!response.ok || !response.body) {
+            throw new Error(`MCPHttpTransport: HTTP ${response.status} opening event stream`);
+          }
+
+          await this.readEventStream(response.body, (event) => {
+            if (event.event === "endpoint") {
+              const endpoint = new URL(event.data, this.config.url).toString();
+              if (announced && endpoint !== this.postEndpoint) this.sessionReset = true;
+              this.postEndpoint = endpoint;
+              if (!announced) {
+                announced = true;
+                resolve();
+              }
+              return;
+            }
+            this.dispatchEvent(event);
+          });
+
+          // Stream ended cleanly; treat like a drop unless we closed it.
+          if (!this.closed) await this.reconnect(run, 1, reject, announced);
+        } catch (error) {
+          if (this.closed) return;
+          const err = error instanceof Error ? error : new Error(String(error));
+          console.warn("[MCPHttpTransport] Event stream error:", err.message);
+          await this.reconnect(run, reconnects + 1, reject, announced, err);
+        }
+      };
+
+      void run(0);
+    });
+  }
+
+  /** Schedule another stream attempt or give up and report the failure. */
+  private async reconnect(
+    run: (attempt: number) => Promise<void>,
+    attempt: number,
+    reject: (error: Error) => void,
+    announced: boolean,
+    error?: Error
+  ): Promise<void> {
+    if (attempt > this.maxReconnectAttempts) {
+      const failure = error ?? new Error("MCPHttpTransport: event stream closed");
+      if (!announced) reject(failure);
+      this.closed = true;
+      this.onclose?.(failure);
+      return;
+    }
+
+    const delay = Math.min(this.reconnectDelayMs * 2 ** (attempt - 1), MAX_RECONNECT_DELAY_MS);
+    console.info(`[MCPHttpTransport] Reconnecting event stream in ${delay}ms (attempt ${attempt})`);
+    await new Promise((r) => setTimeout(r, delay));
+    if (!this.closed) await run(attempt);
+  }
+
+  // ─── Helpers ──────────────────────────────────────────────────────
+
+  private dispatchEvent(event: SSEEvent): void {
+    if (event.id) this.lastEventId = event.id;
+    if (event.event !== "message" || !event.data) return;
+
+    try {
+      this.onmessage?.(JSON.parse(event.data) as MCPMessage);
+    } catch {
+      console.warn("[MCPHttpTransport] Ignoring malformed event data:", event.data);
+    }
+  }
+
+  private buildHeaders(extra: Record<string, string>): Record<string, string> {
+    return {
+      ...this.config.headers,
+      ...extra,
+      ...(this.sessionId ? { "Mcp-Session-Id": this.sessionId } : {}),
+    };
+  }
+
+  /**
+   * Parse a `text/event-stream` body, invoking `onEvent` for each event.
+   * Resolves when the stream ends.
+   */
+  private async readEventStream(
+    body: ReadableStream<Uint8Array>,
+    onEvent: (event: SSEEvent) => void
+  ): Promise<void> {
+    const reader = body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = "";
+    let event: SSEEvent = { event: "message", data: "" };
+    let hasData = false;
+
+    const flushLine = (line: string) => {
+      if (line === "") {
+        if (hasData) onEvent(event);
+        event = { event: "message", data: "" };
+        hasData = false;
+        return;
+      }
+      if (line.startsWith(":")) return; // comment / keep-alive
+
+      const colon = line.indexOf(":");
+      const field = colon === -1 ? line : line.slice(0, colon);
+      const value = colon === -1 ? "" : line.slice(colon + 1).replace(/^ /, "");
+
+      if (field === "event") event.event = value;
+      else if (field === "id") event.id = value;
+      else if (field === "data") {
+        event.data = hasData ? `${event.data}\n${value}` : value;
+        hasData = true;
+      }
+    };
+
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+
+      let newline = buffer.search(/\r?\n/);
+      while (newline !== -1) {
+        const line = buffer.slice(0, newline);
+        buffer = buffer.slice(buffer[newline] === "\r" ? newline + 2 : newline + 1);
+        flushLine(line);
+        newline = buffer.search(/\r?\n/);
+      }
+    }
+
+    if (buffer) flushLine(buffer);
+    flushLine("");
+  }
+}
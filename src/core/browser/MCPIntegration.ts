@@ -1,59 +1,142 @@
 /**
  * MCP (Model Context Protocol) integration for browser automation.
  * Manages MCP server lifecycle and translates browser actions to MCP tool calls.
+ *
+ * Messages travel over an {@link MCPTransport}; this class owns the JSON-RPC
+ * layer on top of it — the `initialize` handshake, tool discovery and
+ * id-correlated requests with timeouts. HTTP servers get an
+ * {@link MCPHttpTransport} automatically; stdio servers need a transport
+ * supplied by the host (the desktop app), since an extension cannot spawn
+ * processes.
  */
 
 import type { ActionResult } from "~types/common";
 import type { MCPAction } from "~types/browser";
 import type {
+  MCPError,
+  MCPMessage,
+  MCPNotification,
+  MCPServerInfo,
   MCPToolDefinition,
   MCPToolResult,
+  MCPToolSource,
   MCPServerConfig,
   MCPRequest,
+  MCPResponse,
+  MCPTransport,
 } from "~types/mcp";
+import { MCPErrorCodes } from "~types/mcp";
+import { MCPHttpTransport, MCPSessionExpiredError } from "./MCPHttpTransport";
 
-/** Standard MCP tool names for browser automation */
-const TOOL_MAPPINGS = {
-  browser_navigate: "browser_navigate",
-  browser_click: "browser_click",
-  browser_type: "browser_type",
-  browser_screenshot: "browser_screenshot",
-  browser_wait: "browser_wait",
-  browser_upload: "browser_upload",
-  browser_evaluate: "browser_evaluate",
-} as const;
+/** MCP protocol revision requested during the handshake */
+const PROTOCOL_VERSION = "2024-11-05";
+
+/** Client identity reported to servers */
+const CLIENT_INFO = { name: "browserai-craft", version: "0.1.0" };
+
+/** Default timeout for a single JSON-RPC request */
+const DEFAULT_REQUEST_TIMEOUT_MS = 30_000;
+
+/** Options accepted by {@link MCPIntegration.initialize} */
+export interface MCPConnectOptions {
+  /** Per-request timeout in milliseconds */
+  requestTimeoutMs?: number;
+}
+
+/** A request awaiting its response */
+interface PendingRequest {
+  method: string;
+  resolve: (result: unknown) => void;
+  reject: (error: Error) => void;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+/** Shape of a `tools/call` result as defined by the MCP spec */
+interface MCPCallToolResult {
+  content?: Array<{ type: string; text?: string; data?: string; mimeType?: string }>;
+  isError?: boolean;
+  structuredContent?: unknown;
+}
+
+/**
+ * Error raised when an MCP server answers a request with a JSON-RPC error
+ * (or the request times out / the connection drops).
+ */
+export class MCPRequestError extends Error {
+  readonly code: number;
+  readonly data?: unknown;
+
+  constructor(method: string, error: MCPError) {
+    super(`MCP ${method} failed: ${describeMCPError(error)}`);
+    this.name = "MCPRequestError";
+    this.code = error.code;
+    this.data = error.data;
+  }
+}
+
+/**
+ * Human-readable description of a JSON-RPC error, naming the standard
+ * {@link MCPErrorCodes} entry when the code is a known one.
+ */
+export function describeMCPError(error: MCPError): string {
+  const known = Object.entries(MCPErrorCodes).find(([, code]) => code === error.code);
+  const isServerError = error.code <= -32000 && error.code >= -32099;
+  const label = known ? known[0] : isServerError ? "SERVER_ERROR" : "ERROR";
+  return `${label} (${error.code}): ${error.message}`;
+}
+
+/** Internal error codes used for client-side failures */
+const TIMEOUT_ERROR_CODE = -32001;
+const CONNECTION_CLOSED_CODE = -32000;
 
 /**
  * Manages MCP server connections and provides a bridge between
  * browser actions and MCP tool invocations.
  */
-export class MCPIntegration {
+export class MCPIntegration implements MCPToolSource {
   public serverConfig: MCPServerConfig | null = null;
   private availableTools: MCPToolDefinition[] = [];
   private initialized = false;
   private requestId = 0;
+  private transport: MCPTransport | null = null;
+  private pending = new Map<string | number, PendingRequest>();
+  private requestTimeoutMs = DEFAULT_REQUEST_TIMEOUT_MS;
+  private serverInfo: MCPServerInfo | null = null;
 
   /**
    * Initialize the MCP integration with the given server config.
-   * In a browser-extension context MCP servers run externally;
-   * this stores config and marks the integration as ready.
+   *
+   * When a transport is supplied (or the config describes an HTTP server)
+   * the client connects, performs the `initialize` handshake and loads the
+   * server's tools via `tools/list`. Without a transport there is no server
+   * to talk to and no tools are available.
    */
-  async initialize(config?: MCPServerConfig): Promise<void> {
+  async initialize(
+    config?: MCPServerConfig,
+    transport?: MCPTransport,
+    options?: MCPConnectOptions
+  ): Promise<void> {
     try {
       if (config) {
         this.serverConfig = config;
       }
+      this.requestTimeoutMs = options?.requestTimeoutMs ?? DEFAULT_REQUEST_TIMEOUT_MS;
 
-      // Pre-populate available tools with the standard browser tool set
-      this.availableTools = Object.values(TOOL_MAPPINGS).map((name) => ({
-        name,
-        description: `MCP tool: ${name}`,
-        inputSchema: { type: "object" as const },
-      }));
+      if (!transport && config && config.transport !== "stdio") {
+        transport = new MCPHttpTransport(config);
+      }
+
+      if (transport) {
+        await this.connect(transport);
+      } else {
+        console.warn("[MCPIntegration] No transport supplied — no MCP tools available");
+        this.availableTools = [];
+      }
 
       this.initialized = true;
       console.info("[MCPIntegration] Initialized successfully");
     } catch (error) {
+      await this.closeTransport();
       const message =
         error instanceof Error ? error.message : String(error);
       console.error("[MCPIntegration] Initialization failed:", message);
@@ -69,6 +152,8 @@ export class MCPIntegration {
       this.initialized = false;
       this.availableTools = [];
       this.serverConfig = null;
+      this.serverInfo = null;
+      await this.closeTransport();
       console.info("[MCPIntegration] Shut down successfully");
     } catch (error) {
       const message =
@@ -150,31 +235,42 @@ export class MCPIntegration {
       }
     }
 
-    const request: MCPRequest = {
-      jsonrpc: "2.0",
-      id: ++this.requestId,
-      method: "tools/call",
-      params: { name: toolName, arguments: args },
-    };
+    if (!this.transport) {
+      return {
+        content: "",
+        isError: true,
+        metadata: { error: "No MCP transport connected" },
+      };
+    }
+
+    const params = { name: toolName, arguments: args };
 
     try {
       console.debug("[MCPIntegration] Calling tool:", toolName, args);
+      let result: MCPCallToolResult;
+      try {
+        result = (await this.request("tools/call", params)) as MCPCallToolResult;
+      } catch (error) {
+        if (!(error instanceof MCPSessionExpiredError)) throw error;
+        console.info("[MCPIntegration] Session expired — re-initializing");
+        await this.handshake();
+        result = (await this.request("tools/call", params)) as MCPCallToolResult;
+      }
 
-      // In a real implementation this would send `request` over the
-      // configured transport (stdio / SSE). For now we return a
-      // placeholder success so consumers can integrate seamlessly.
-      const result: MCPToolResult = {
-        content: JSON.stringify({ tool: toolName, args, requestId: request.id }),
-        isError: false,
-        metadata: { toolName, requestId: request.id },
-      };
-
-      return result;
+      return this.toToolResult(toolName, result);
     } catch (error) {
       const message =
         error instanceof Error ? error.message : String(error);
       console.error("[MCPIntegration] Tool call failed:", message);
-      return { content: "", isError: true, metadata: { error: message } };
+      return {
+        content: "",
+        isError: true,
+        metadata: {
+          error: message,
+          toolName,
+          code: error instanceof MCPRequestError ? error.code : undefined,
+        },
+      };
     }
   }
 
@@ -197,4 +293,206 @@ export class MCPIntegration {
   isInitialized(): boolean {
     return this.initialized;
   }
+
+  /** Server identity reported during the handshake, if connected. */
+  getServerInfo(): MCPServerInfo | null {
+    return this.serverInfo;
+  }
+
+  // ─── Protocol ─────────────────────────────────────────────────────
+
+  /**
+   * Open the transport, perform the MCP handshake and discover tools.
+   */
+  private async connect(transport: MCPTransport): Promise<void> {
+    this.transport = transport;
+    transport.onmessage = (message) => this.handleMessage(message);
+    transport.onclose = (error) => this.handleClose(error);
+
+    await transport.start();
+    await this.handshake();
+  }
+
+  /**
+   * Run the `initialize` / `notifications/initialized` exchange and load
+   * the tool list. Repeated when a server session expires.
+   */
+  private async handshake(): Promise<void> {
+    const init = (await this.request("initialize", {
+      protocolVersion: PROTOCOL_VERSION,
+      capabilities: {},
+      clientInfo: CLIENT_INFO,
+    })) as {
+      protocolVersion?: string;
+      capabilities?: Record<string, unknown>;
+      serverInfo?: { name?: string; version?: string };
+    };
+
+    this.serverInfo = {
+      name: init.serverInfo?.name ?? "unknown",
+      version: init.serverInfo?.version ?? "unknown",
+      capabilities: Object.keys(init.capabilities ?? {}),
+    };
+    await this.notify("notifications/initialized");
+
+    this.availableTools = await this.listTools();
+    console.info(
+      `[MCPIntegration] Connected to ${this.serverInfo.name} ${this.serverInfo.version}`,
+      `(${this.availableTools.length} tools)`
+    );
+  }
+
+  /** Fetch every page of `tools/list`. */
+  private async listTools(): Promise<MCPToolDefinition[]> {
+    const tools: MCPToolDefinition[] = [];
+    let cursor: string | undefined;
+
+    do {
+      const page = (await this.request("tools/list", cursor ? { cursor } : undefined)) as {
+        tools?: Array<Partial<MCPToolDefinition> & { name: string }>;
+        nextCursor?: string;
+      };
+
+      for (const tool of page.tools ?? []) {
+        tools.push({
+          name: tool.name,
+          description: tool.description ?? "",
+          inputSchema: tool.inputSchema ?? { type: "object" },
+        });
+      }
+      cursor = page.nextCursor;
+    } while (cursor);
+
+    return tools;
+  }
+
+  /**
+   * Send a JSON-RPC request and resolve with its `result`, rejecting with
+   * an {@link MCPRequestError} on error responses or timeout.
+   */
+  private request(method: string, params?: Record<string, unknown>): Promise<unknown> {
+    const transport = this.transport;
+    if (!transport) {
+      return Promise.reject(new Error("No MCP transport connected"));
+    }
+
+    const request: MCPRequest = {
+      jsonrpc: "2.0",
+      id: ++this.requestId,
+      method,
+      ...(params ? { params } : {}),
+    };
+
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.pending.delete(request.id);
+        reject(
+          new MCPRequestError(method, {
+            code: TIMEOUT_ERROR_CODE,
+            message: `Request timed out after ${this.requestTimeoutMs}ms`,
+          })
+        );
+      }, this.requestTimeoutMs);
+
+      this.pending.set(request.id, { method, resolve, reject, timer });
+
+      transport.send(request).catch((error) => {
+        clearTimeout(timer);
+        this.pending.delete(request.id);
+        reject(error instanceof Error ? error : new Error(String(error)));
+      });
+    });
+  }
+
+  /** Send a JSON-RPC notification. */
+  private async notify(method: string, params?: Record<string, unknown>): Promise<void> {
+    const notification: MCPNotification = {
+      jsonrpc: "2.0",
+      method,
+      ...(params ? { params } : {}),
+    };
+    await this.transport?.send(notification);
+  }
+
+  /** Route an incoming message to its pending request. */
+  private handleMessage(message: MCPMessage): void {
+    if (!("id" in message) || "method" in message) {
+      // Server-initiated notifications and requests are not used yet.
+      const { method } = message as MCPNotification;
+      console.debug("[MCPIntegration] Ignoring server message:", method);
+      return;
+    }
+
+    const response = message as MCPResponse;
+    const pending = this.pending.get(response.id);
+    if (!pending) {
+      console.debug("[MCPIntegration] Response for unknown request id:", response.id);
+      return;
+    }
+
+    clearTimeout(pending.timer);
+    this.pending.delete(response.id);
+
+    if (response.error) {
+      pending.reject(new MCPRequestError(pending.method, response.error));
+    } else {
+      pending.resolve(response.result);
+    }
+  }
+
+  /** Fail all in-flight requests when the connection drops. */
+  private handleClose(error?: Error): void {
+    for (const [id, pending] of this.pending) {
+      clearTimeout(pending.timer);
+      pending.reject(
+        new MCPRequestError(pending.method, {
+          code: CONNECTION_CLOSED_CODE,
+          message: error?.message ?? "Connection closed",
+        })
+      );
+      this.pending.delete(id);
+    }
+
+    if (this.transport) {
+      console.warn("[MCPIntegration] Transport closed", error?.message ?? "");
+      this.transport = null;
+      this.initialized = false;
+    }
+  }
+
+  private async closeTransport(): Promise<void> {
+    const transport = this.transport;
+    this.transport = null;
+    if (transport) {
+      await transport.close().catch(() => {
+        /* already closed */
+      });
+    }
+    this.handleClose();
+  }
+
+  /** Flatten an MCP `tools/call` result into an {@link MCPToolResult}. */
+  private toToolResult(toolName: string, result: MCPCallToolResult): MCPToolResult {
+    const parts = result.content ?? [];
+    const text = parts
+      .filter((p) => p.type === "text" && typeof p.text === "string")
+      .map((p) => p.text)
+      .join("\n");
+    const images = parts
+      .filter((p) => p.type === "image" && p.data)
+      .map((p) => ({ data: p.data, mimeType: p.mimeType }));
+
+    return {
+      content: text,
+      isError: result.isError === true,
+      metadata: {
+        toolName,
+        ...(images.length ? { images } : {}),
+        ...(result.structuredContent !== undefined
+          ? { structuredContent: result.structuredContent }
+          : {}),
+        ...(result.isError ? { error: text || `Tool ${toolName} reported an error` } : {}),
+      },
+    };
+  }
 }
@@ -0,0 +1,86 @@
+/**
+ * IPC transport for stdio MCP servers run by the desktop app.
+ *
+ * The extension cannot spawn processes, so the desktop app launches the
+ * stdio servers configured in `desktop/assets/mcp-servers/` and relays
+ * their JSON-RPC messages over IPC (the `window.electron` bridge from the
+ * desktop preload). This transport talks to one of those servers by name;
+ * the app owns the server process, so closing the transport only detaches
+ * from it.
+ */
+
+import type { MCPMessage, MCPTransport } from "~types/mcp";
+
+// ─── Types ────────────────────────────────────────────────────────
+
+/** The MCP part of the desktop app's `window.electron` bridge. */
+export interface MCPDesktopBridge {
+  listMCPServers(): Promise<string[]>;
+  sendMCPMessage(server: string, message: object): Promise<{ success: boolean; error?: string }>;
+  onMCPMessage(callback: (data: { server: string; message: object }) => void): void;
+  onMCPStatus(callback: (data: { server: string; running: boolean; error?: string }) => void): void;
+}
+
+// ─── Transport ────────────────────────────────────────────────────
+
+/**
+ * {@link MCPTransport} implementation for `stdio` MCP server configs when
+ * running inside the desktop app.
+ */
+export class MCPIpcTransport implements MCPTransport {
+  onmessage?: (message: MCPMessage) => void;
+  onclose?: (error?: Error) => void;
+
+  private readonly server: string;
+  private readonly bridge: MCPDesktopBridge;
+
+  private listening = false;
+  private started = false;
+
+  constructor(server: string, bridge: MCPDesktopBridge) {
+    this.server = server;
+    this.bridge = bridge;
+  }
+
+  /** Attach to the server. Rejects if the desktop app is not running it. */
+  async start(): Promise<void> {
+    if (this.started) throw new Error("MCPIpcTransport: already started");
+
+    const running = await this.bridge.listMCPServers();
+    if (!running.includes(this.server)) {
+      throw new Error(`MCP server "${this.server}" is not running in the desktop app`);
+    }
+
+    // The bridge has no way to remove listeners, so they are added once
+    // and ignore traffic while the transport is not started.
+    if (!this.listening) {
+      this.listening = true;
+      this.bridge.onMCPMessage(({ server, message }) => {
+        if (this.started && server === this.server) this.onmessage?.(message as MCPMessage);
+      });
+      this.bridge.onMCPStatus(({ server, running: up, error }) => {
+        if (!this.started || server !== this.server || up) return;
+        this.started = false;
+        this.onclose?.(error ? new Error(error) : undefined);
+      });
+    }
+    this.started = true;
+  }
+
+  /** Relay a JSON-RPC message to the server through the desktop app. */
+  async send(message: MCPMessage): Promise<void> {
+    if (!this.started) throw new Error("MCPIpcTransport: transport is not started");
+
+    const result = await this.bridge.sendMCPMessage(this.server, message);
+    if (!result.success) {
+      throw new Error(result.error ?? `MCP server "${this.server}" did not accept the message`);
+    }
+  }
+
+  /** Detach from the server; the desktop app keeps it running. */
+  async close(): Promise<void> {
+    if (!this.started) return;
+    this.started = false;
+    this.onclose?.();
+  }
+}
@@ -0,0 +1,229 @@
+/**
+ * Routes MCP tool calls across several connected MCP servers.
+ *
+ * Each server's tools are exposed under a namespace derived from the
+ * server name (`playwright.browser_click`, `filesystem.write_file`), so
+ * servers can be combined without their tool names clashing. Bare tool
+ * names are still accepted and resolve to the highest-priority server
+ * that provides them.
+ */
+
+import type { MCPAction } from "~types/browser";
+import type {
+  MCPServerConfig,
+  MCPToolDefinition,
+  MCPToolResult,
+  MCPToolSource,
+  MCPTransport,
+} from "~types/mcp";
+import { MCP_SERVER_CONFIGS } from "../../mcp-servers";
+import { MCPIntegration } from "./MCPIntegration";
+import type { MCPConnectOptions } from "./MCPIntegration";
+
+// ─── Constants ────────────────────────────────────────────────────
+
+/** Separator between namespace and tool name */
+const NAMESPACE_SEPARATOR = ".";
+
+// ─── Types ────────────────────────────────────────────────────────
+
+/** Options accepted by the {@link MCPRouter} constructor. */
+export interface MCPRouterOptions extends MCPConnectOptions {
+  /**
+   * Build a transport for a server config. Required for stdio servers,
+   * which only the desktop app can launch. Returning `undefined` falls
+   * back to the default (HTTP servers connect on their own).
+   */
+  createTransport?: (config: MCPServerConfig) => MCPTransport | undefined;
+}
+
+/** Outcome of {@link MCPRouter.connectAll}. */
+export interface MCPConnectReport {
+  connected: string[];
+  failed: Array<{ server: string; error: string }>;
+}
+
+/** A connected server and its namespace. */
+interface ServerEntry {
+  namespace: string;
+  client: MCPIntegration;
+  tools: MCPToolDefinition[];
+}
+
+// ─── Router ───────────────────────────────────────────────────────
+
+/**
+ * Connects to multiple MCP servers and presents their tools as one merged,
+ * namespaced tool set.
+ */
+export class MCPRouter implements MCPToolSource {
+  private readonly options: MCPRouterOptions;
+  /** Connected servers in priority order (first = highest). */
+  private servers: ServerEntry[] = [];
+
+  constructor(options?: MCPRouterOptions) {
+    this.options = options ?? {};
+  }
+
+  // ─── Connections ──────────────────────────────────────────────────
+
+  /**
+   * Connect to every config (defaults to the bundled `src/mcp-servers`
+   * configs). Servers that fail to connect are reported, not thrown.
+   */
+  async connectAll(configs: MCPServerConfig[] = MCP_SERVER_CONFIGS): Promise<MCPConnectReport> {
+    const report: MCPConnectReport = { connected: [], failed: [] };
+
+    for (const config of configs) {
+      const label = config.name ?? this.describe(config);
+      try {
+        report.connected.push(await this.addServer(config));
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        console.warn(`[MCPRouter] Could not connect to ${label}:`, message);
+        report.failed.push({ server: label, error: message });
+      }
+    }
+
+    console.info(
+      `[MCPRouter] Connected ${report.connected.length}/${configs.length} servers`,
+      report.connected
+    );
+    return report;
+  }
+
+  /**
+   * Connect a single server and register its tools. Returns the namespace
+   * its tools are exposed under.
+   */
+  async addServer(config: MCPServerConfig, transport?: MCPTransport): Promise<string> {
+    const resolved = transport ?? this.options.createTransport?.(config);
+    if (config.transport === "stdio" && !resolved) {
+      throw new Error("stdio MCP servers must be launched by the desktop app");
+    }
+
+    const client = new MCPIntegration();
+    await client.initialize(config, resolved, {
+      requestTimeoutMs: this.options.requestTimeoutMs,
+    });
+
+    const namespace = this.uniqueNamespace(config);
+    const tools = await client.getAvailableTools();
+    this.servers.push({ namespace, client, tools });
+
+    console.info(`[MCPRouter] Registered ${tools.length} tools under "${namespace}"`);
+    return namespace;
+  }
+
+  /** Disconnect one server by namespace. */
+  async removeServer(namespace: string): Promise<void> {
+    const entry = this.servers.find((s) => s.namespace === namespace);
+    if (!entry) return;
+
+    this.servers = this.servers.filter((s) => s !== entry);
+    await entry.client.shutdown();
+  }
+
+  /** Disconnect every server. */
+  async shutdown(): Promise<void> {
+    const servers = this.servers;
+    this.servers = [];
+    await Promise.all(servers.map((s) => s.client.shutdown()));
+  }
+
+  /** Namespaces of the connected servers, in priority order. */
+  getNamespaces(): string[] {
+    return this.servers.map((s) => s.namespace);
+  }
+
+  /** Whether at least one server is connected. */
+  isInitialized(): boolean {
+    return this.servers.some((s) => s.client.isInitialized());
+  }
+
+  // ─── Tools ────────────────────────────────────────────────────────
+
+  /**
+   * All tools from all connected servers, with namespaced names.
+   */
+  async getAvailableTools(): Promise<MCPToolDefinition[]> {
+    return this.servers.flatMap((server) =>
+      server.tools.map((tool) => ({
+        ...tool,
+        name: `${server.namespace}${NAMESPACE_SEPARATOR}${tool.name}`,
+        description: tool.description || `MCP tool: ${tool.name}`,
+      }))
+    );
+  }
+
+  /**
+   * Invoke a tool. Accepts a namespaced name (`playwright.browser_click`)
+   * or a bare name, which resolves to the first server offering it.
+   */
+  async callTool(name: string, args: Record<string, unknown>): Promise<MCPToolResult> {
+    const route = this.resolve(name);
+    if (!route) {
+      return { content: "", isError: true, metadata: { error: `Unknown tool: ${name}` } };
+    }
+
+    const result = await route.server.client.callTool(route.toolName, args);
+    return {
+      ...result,
+      metadata: { ...result.metadata, server: route.server.namespace },
+    };
+  }
+
+  /** Execute an {@link MCPAction} through the matching server. */
+  async executeAction(action: MCPAction): Promise<MCPToolResult> {
+    return this.callTool(action.tool, action.args);
+  }
+
+  // ─── Helpers ──────────────────────────────────────────────────────
+
+  /** Map an exposed tool name to its server and server-local name. */
+  private resolve(name: string): { server: ServerEntry; toolName: string } | null {
+    // Namespaced: the namespace may itself not contain the separator.
+    const sep = name.indexOf(NAMESPACE_SEPARATOR);
+    if (sep !== -1) {
+      const namespace = name.slice(0, sep);
+      const toolName = name.slice(sep + 1);
+      const server = this.servers.find((s) => s.namespace === namespace);
+      if (server && server.tools.some((t) => t.name === toolName)) {
+        return { server, toolName };
+      }
+    }
+
+    // Bare name: highest-priority server that has it.
+    const matches = this.servers.filter((s) => s.tools.some((t) => t.name === name));
+    if (matches.length > 1) {
+      console.debug(
+        `[MCPRouter] "${name}" is provided by ${matches.map((m) => m.namespace).join(", ")};`,
+        `using ${matches[0].namespace}`
+      );
+    }
+    return matches.length ? { server: matches[0], toolName: name } : null;
+  }
+
+  /**
+   * Derive a namespace from the server name (`playwright-mcp` → `playwright`),
+   * suffixing a counter if it is already taken.
+   */
+  private uniqueNamespace(config: MCPServerConfig): string {
+    const base =
+      (config.name ?? this.describe(config))
+        .toLowerCase()
+        .replace(/[-_]?mcp$/, "")
+        .replace(/[^a-z0-9_-]+/g, "-")
+        .replace(/^-+|-+$/g, "") || "server";
+
+    let namespace = base;
+    for (let n = 2; this.servers.some((s) => s.namespace === namespace); n++) {
+      namespace = `${base}-${n}`;
+    }
+    return namespace;
+  }
+
+  private describe(config: MCPServerConfig): string {
+    return config.transport === "stdio" ? config.command : new URL(config.url).hostname;
+  }
+}
@@ -0,0 +1,203 @@
+/**
+ * Selector audit — checks an adapter's selectors against the live site.
+ *
+ * Opens each screen of the adapter's site, looks for every selector in its
+ * knowledge and asks {@link SelfHealing} for a replacement when one is
+ * missing, so a UI change is found before a job runs into it.
+ */
+
+import type { BaseAdapter, SelectorMap } from "~types/adapter";
+import type { BrowserAgent } from "./BrowserAgent";
+import { SelfHealing } from "./SelfHealing";
+
+/** Outcome of checking one selector. */
+export type SelectorAuditStatus = "ok" | "healed" | "ambiguous" | "broken";
+
+/** A page of the site and the selectors expected on it. */
+export interface AuditScreen {
+  name: string;
+  url: string;
+  /** Selector names to check here; all of them when omitted */
+  selectors?: string[];
+}
+
+/** Options for {@link SelectorAudit.run}. */
+export interface SelectorAuditOptions {
+  /** Screens to visit; the adapter's first supported domain by default */
+  screens?: AuditScreen[];
+  /** How long to wait for each selector on each screen (ms) */
+  timeout?: number;
+}
+
+/** Result for one selector of the adapter. */
+export interface SelectorAuditEntry {
+  name: string;
+  selector: string;
+  status: SelectorAuditStatus;
+  /** Screen the selector was found on, or last looked for on */
+  screen?: string;
+  /** Elements the selector (or its replacement) matches */
+  matches: number;
+  /** Replacement to apply to the adapter knowledge */
+  proposed?: string;
+  /** Confidence in the replacement (0-1) */
+  confidence?: number;
+  description: string;
+}
+
+/** Report produced by {@link SelectorAudit.run}. */
+export interface SelectorAuditReport {
+  adapter: string;
+  checkedAt: string;
+  entries: SelectorAuditEntry[];
+  summary: Record<SelectorAuditStatus, number>;
+  /** The adapter's selectors with the healed replacements applied */
+  proposedSelectors: SelectorMap;
+}
+
+/** Default wait per selector and screen. */
+const DEFAULT_TIMEOUT = 2000;
+
+/**
+ * Audits adapter selectors.
+ *
+ * A selector is **ok** when it matches exactly one element on some screen
+ * and **ambiguous** when it only matches several. A missing selector is
+ * **healed** when {@link SelfHealing.detectUIChange} suggests a replacement
+ * that matches exactly one element, and **broken** otherwise.
+ */
+export class SelectorAudit {
+  private readonly agent: BrowserAgent;
+  private readonly healing: SelfHealing;
+
+  constructor(agent: BrowserAgent, healing?: SelfHealing) {
+    this.agent = agent;
+    this.healing = healing ?? new SelfHealing(agent);
+  }
+
+  /**
+   * Check every selector in `adapter.getKnowledge().selectors`.
+   * Navigates the active tab to each screen in turn.
+   */
+  async run(
+    adapter: BaseAdapter,
+    options: SelectorAuditOptions = {}
+  ): Promise<SelectorAuditReport> {
+    const selectors = adapter.getKnowledge().selectors;
+    const screens = options.screens ?? [
+      { name: "home", url: `https://${adapter.supportedDomains[0]}/` },
+    ];
+    const timeout = options.timeout ?? DEFAULT_TIMEOUT;
+    const entries = new Map<string, SelectorAuditEntry>();
+
+    console.info("[SelectorAudit] Auditing", adapter.name, "on", screens.length, "screen(s)");
+
+    for (const screen of screens) {
+      const navigation = await this.agent.navigate(screen.url);
+      if (!navigation.success) {
+        console.warn("[SelectorAudit] Could not open", screen.url, "—", navigation.error);
+        continue;
+      }
+
+      for (const name of screen.selectors ?? Object.keys(selectors)) {
+        const selector = selectors[name];
+        if (selector === undefined || entries.get(name)?.status === "ok") continue;
+
+        const entry = await this.check(name, selector, screen.name, timeout);
+        // A screen where the selector is found beats one where it is not.
+        const previous = entries.get(name);
+        if (!previous || SelectorAudit.rank(entry) < SelectorAudit.rank(previous)) {
+          entries.set(name, entry);
+        }
+      }
+    }
+
+    const ordered = Object.entries(selectors).map(
+      ([name, selector]) =>
+        entries.get(name) ?? {
+          name,
+          selector,
+          status: "broken" as const,
+          matches: 0,
+          description: "Not checked: no screen could be opened for it",
+        }
+    );
+
+    const summary = { ok: 0, healed: 0, ambiguous: 0, broken: 0 };
+    const proposedSelectors: SelectorMap = { ...selectors };
+    for (const entry of ordered) {
+      summary[entry.status]++;
+      if (entry.status === "healed" && entry.proposed) {
+        proposedSelectors[entry.name] = entry.proposed;
+      }
+    }
+
+    console.info("[SelectorAudit] Done:", summary);
+    return {
+      adapter: adapter.name,
+      checkedAt: new Date().toISOString(),
+      entries: ordered,
+      summary,
+      proposedSelectors,
+    };
+  }
+
+  // ─── Private helpers ─────────────────────────────────────────────
+
+  private async check(
+    name: string,
+    selector: string,
+    screen: string,
+    timeout: number
+  ): Promise<SelectorAuditEntry> {
+    if (await this.agent.waitForSelector(selector, timeout)) {
+      const matches = await this.agent.countElements(selector);
+      return matches === 1
+        ? { name, selector, status: "ok", screen, matches, description: "Matches one element" }
+        : {
+            name,
+            selector,
+            status: "ambiguous",
+            screen,
+            matches,
+            description: `Matches ${matches} elements`,
+          };
+    }
+
+    const report = await this.healing.detectUIChange(selector);
+    if (!report.suggestedSelector) {
+      return {
+        name,
+        selector,
+        status: "broken",
+        screen,
+        matches: 0,
+        description: report.description,
+      };
+    }
+
+    const matches = await this.agent.countElements(report.suggestedSelector);
+    if (matches === 0) {
+      const description = `${report.description}, but the suggestion matches nothing`;
+      return { name, selector, status: "broken", screen, matches, description };
+    }
+    return {
+      name,
+      selector,
+      status: matches === 1 ? "healed" : "ambiguous",
+      screen,
+      matches,
+      proposed: report.suggestedSelector,
+      confidence: matches === 1 ? report.confidence : report.confidence / 2,
+      description:
+        matches === 1
+          ? report.description
+          : `${report.description} (matches ${matches} elements; review before applying)`,
+    };
+  }
+
+  /** Lower is better: found beats healed beats ambiguous beats broken. */
+  private static rank(entry: SelectorAuditEntry): number {
+    return ["ok", "healed", "ambiguous", "broken"].indexOf(entry.status);
+  }
+}
@@ -5,6 +5,10 @@
  */
 
 import type { DOMState, VisibleElement } from "~types/browser";
+import type { SelectorMetadata } from "~types/adapter";
+import type { ElementSelector } from "~types/common";
+import type { VisionAgent } from "../vision/VisionAgent";
+import { annotateScreenshot } from "../vision/ScreenshotCapture";
 import type { BrowserAgent } from "./BrowserAgent";
 
 /** Report produced by {@link SelfHealing.detectUIChange}. */
@@ -16,6 +20,12 @@ export interface UIChangeReport {
   description: string;
 }
 
+/** Vision locations below this confidence (0-1) are ignored. */
+const MIN_VISION_CONFIDENCE = 0.5;
+
+/** Most interactive elements numbered on the screenshot sent to vision. */
+const MAX_ANNOTATIONS = 50;
+
 /**
  * Adaptive element location when selectors break.
  *
@@ -24,12 +34,91 @@ export interface UIChangeReport {
  * 2. **Structural Navigation** – parent→child path
  * 3. **Text Content Matching** – visible text similarity
  * 4. **Tag + partial class matching** – fuzzy class comparison
+ * 5. **Vision** – locate the element on a screenshot from its description
+ *    (needs a vision agent; see {@link healWithVision})
  */
 export class SelfHealing {
   private readonly agent: BrowserAgent;
+  private readonly vision?: Pick<VisionAgent, "locateElement">;
 
-  constructor(agent: BrowserAgent) {
+  constructor(agent: BrowserAgent, vision?: Pick<VisionAgent, "locateElement">) {
     this.agent = agent;
+    this.vision = vision;
+  }
+
+  /**
+   * Find the element described by `metadata`: its alternatives first, then
+   * the DOM heuristics of {@link healSelector} (skipped when the element
+   * requires vision), then {@link healWithVision}.
+   *
+   * @returns The element's selector or coordinates, or `null`.
+   */
+  async healElement(
+    metadata: SelectorMetadata,
+    domState: DOMState
+  ): Promise<ElementSelector | null> {
+    if (!metadata.requiresVision) {
+      for (const alternative of metadata.alternatives ?? []) {
+        if (await this.agent.isElementVisible(alternative)) {
+          console.info("[SelfHealing] Healed via alternative:", alternative);
+          return { type: "css", selector: alternative };
+        }
+      }
+
+      const healed = await this.healSelector(metadata.selector, domState);
+      if (healed) return { type: "css", selector: healed };
+    }
+
+    return this.healWithVision(metadata, domState);
+  }
+
+  /**
+   * Locate an element on a screenshot when the DOM heuristics fail, e.g.
+   * inside a canvas. The screenshot is annotated with the page's
+   * interactive elements and the vision agent looks for
+   * `metadata.description` on it; the centre of the box it finds is mapped
+   * back to the DOM element under it.
+   *
+   * @returns A selector for that element, the point's coordinates when no
+   *   element there can be addressed (a canvas, say), or `null`.
+   */
+  async healWithVision(
+    metadata: Pick<SelectorMetadata, "selector" | "description">,
+    domState?: DOMState
+  ): Promise<ElementSelector | null> {
+    if (!this.vision) return null;
+    console.info("[SelfHealing] Attempting vision healing for:", metadata.description);
+
+    try {
+      const dom = domState ?? (await this.agent.getDOMState());
+      const screenshot = await this.agent.captureScreenshot();
+      // The screenshot is in device pixels, the DOM in CSS pixels.
+      const scale =
+        dom.viewport?.width && screenshot.width ? screenshot.width / dom.viewport.width : 1;
+
+      const image = await this.annotate(screenshot.data, dom, scale);
+      const location = await this.vision.locateElement(image, metadata.description);
+      if (!location.found || !location.bbox || location.confidence < MIN_VISION_CONFIDENCE) {
+        console.info("[SelfHealing] Vision could not locate:", metadata.description);
+        return null;
+      }
+
+      const point = {
+        x: Math.round((location.bbox.x + location.bbox.width / 2) / scale),
+        y: Math.round((location.bbox.y + location.bbox.height / 2) / scale),
+      };
+      const selector = await this.agent.elementAtPoint(point);
+      if (selector) {
+        console.info("[SelfHealing] Healed via vision:", selector);
+        return { type: "css", selector };
+      }
+
+      console.info("[SelfHealing] Healed via vision at coordinates:", point);
+      return { type: "coordinates", ...point };
+    } catch (error) {
+      console.debug("[SelfHealing] Vision healing failed:", error);
+      return null;
+    }
   }
 
   /**
@@ -171,6 +260,33 @@ export class SelfHealing {
 
   // ─── Private helpers ─────────────────────────────────────────────
 
+  /**
+   * Number the page's interactive elements on the screenshot, to help the
+   * vision model tell controls apart. Falls back to the plain screenshot
+   * when the image cannot be decoded or drawn.
+   */
+  private async annotate(screenshot: string, dom: DOMState, scale: number): Promise<string> {
+    const annotations = dom.visibleElements
+      .filter((el) => el.isInteractive)
+      .slice(0, MAX_ANNOTATIONS)
+      .map((el, i) => ({
+        label: String(i + 1),
+        bbox: {
+          x: el.bbox.x * scale,
+          y: el.bbox.y * scale,
+          width: el.bbox.width * scale,
+          height: el.bbox.height * scale,
+        },
+      }));
+
+    try {
+      return await annotateScreenshot(screenshot, annotations);
+    } catch (error) {
+      console.debug("[SelfHealing] Could not annotate screenshot:", error);
+      return screenshot;
+    }
+  }
+
   /** Hints extracted from a CSS selector for fuzzy matching. */
   private extractSelectorHints(selector: string): SelectorHints {
     const hints: SelectorHints = { classes: [] };
@@ -0,0 +1,312 @@
+/**
+ * Deterministic execution of adapter {@link Workflow}s.
+ * Runs each step through the {@link ActionExecutor} without consulting the
+ * LLM: named targets are resolved through the adapter's selector map and
+ * `{{placeholders}}` are filled from the current data row and variables.
+ */
+
+import type { SelectorMap, Workflow, WorkflowStep } from "~types/adapter";
+import type { BrowserAction } from "~types/browser";
+import type { ActionResult, ElementSelector } from "~types/common";
+import type { DataRow } from "~types/data";
+import type { DataMapping } from "~types/orchestration";
+import type { ActionExecutor } from "./ActionExecutor";
+import type { BrowserAgent } from "./BrowserAgent";
+
+/** `{{name}}` placeholders in workflow strings. */
+const PLACEHOLDER = /\{\{\s*([A-Za-z][A-Za-z0-9_]*)\s*\}\}/g;
+
+/** Prefixes of requirements that can be checked against the page. */
+const URL_REQUIREMENT = "url:";
+const VISIBLE_REQUIREMENT = "visible:";
+
+/** Default upper bound on steps (including fallbacks) per run. */
+const DEFAULT_MAX_STEPS = 100;
+
+/** Inputs for a single {@link WorkflowRunner.run}. */
+export interface WorkflowRunOptions {
+  /** The adapter's selector map, used to resolve `named` targets. */
+  selectors: SelectorMap;
+  /** Job-wide values, e.g. `ExecutionContext.variables`. */
+  variables?: Record<string, unknown>;
+  /** The data row the run operates on; takes precedence over `variables`. */
+  row?: DataRow;
+  /** Placeholder → row column, e.g. a task template's `dataMapping`. */
+  dataMapping?: DataMapping;
+  /**
+   * Resolves `semantic` targets, e.g. with the VisionAgent. Without it,
+   * steps with semantic targets fail (and can fall back).
+   */
+  locate?: (description: string) => Promise<ElementSelector | null>;
+  /** Runs `custom` steps, e.g. through the adapter's `executeCustomAction`. */
+  runCustom?: (action: BrowserAction) => Promise<ActionResult>;
+  /** Called with each prepared action before it runs; throw to refuse it. */
+  beforeAction?: (action: BrowserAction) => void;
+  /** Upper bound on steps run, including fallbacks. */
+  maxSteps?: number;
+  signal?: AbortSignal;
+}
+
+/** What happened to one workflow step. */
+export interface WorkflowStepOutcome {
+  description: string;
+  /** `recovered`: the step failed but its fallback steps succeeded. */
+  status: "completed" | "recovered" | "skipped" | "failed";
+  result?: ActionResult;
+}
+
+/** Result of a {@link WorkflowRunner.run}. */
+export interface WorkflowRunResult {
+  workflow: string;
+  success: boolean;
+  /** Outcomes of the top-level steps, in order. */
+  steps: WorkflowStepOutcome[];
+  /** Actions that were executed, with targets and values resolved. */
+  actions: BrowserAction[];
+  lastResult?: ActionResult;
+  error?: string;
+  duration: number;
+}
+
+/** Shared state of one run. */
+interface RunState {
+  options: WorkflowRunOptions;
+  stepsLeft: number;
+  actions: BrowserAction[];
+  lastResult?: ActionResult;
+}
+
+/**
+ * Runs adapter workflows step by step.
+ *
+ * - `optional` steps may fail without failing the workflow.
+ * - A failing step with `fallback` steps succeeds if they all do.
+ * - `requirements` of the form `url: <text>` or `visible: <selector name |
+ *   css>` are checked before the first step; other requirements are
+ *   descriptive only.
+ */
+export class WorkflowRunner {
+  private readonly executor: Pick<ActionExecutor, "executeSequence">;
+  private readonly agent?: Pick<BrowserAgent, "getCurrentPageUrl" | "isElementVisible">;
+
+  /**
+   * @param executor - Executes the workflow's browser actions.
+   * @param agent - Checks page requirements; without it they are skipped.
+   */
+  constructor(
+    executor: Pick<ActionExecutor, "executeSequence">,
+    agent?: Pick<BrowserAgent, "getCurrentPageUrl" | "isElementVisible">
+  ) {
+    this.executor = executor;
+    this.agent = agent;
+  }
+
+  /**
+   * Placeholders used by the workflow's required steps that have no value
+   * in `options`. A workflow with missing values cannot run.
+   */
+  static missingVariables(workflow: Workflow, options: WorkflowRunOptions): string[] {
+    const names = new Set<string>();
+    for (const step of workflow.steps) {
+      if (step.optional) continue;
+      for (const name of WorkflowRunner.placeholders(step.action)) {
+        if (WorkflowRunner.lookup(name, options) === undefined) names.add(name);
+      }
+    }
+    return [...names];
+  }
+
+  /**
+   * Run `workflow` to completion or to its first unrecoverable failure.
+   * Never throws; failures are reported in the result.
+   */
+  async run(workflow: Workflow, options: WorkflowRunOptions): Promise<WorkflowRunResult> {
+    const start = Date.now();
+    const state: RunState = {
+      options,
+      stepsLeft: options.maxSteps ?? DEFAULT_MAX_STEPS,
+      actions: [],
+    };
+    const steps: WorkflowStepOutcome[] = [];
+    const finish = (error?: string): WorkflowRunResult => ({
+      workflow: workflow.name,
+      success: !error,
+      steps,
+      actions: state.actions,
+      lastResult: state.lastResult,
+      error,
+      duration: Date.now() - start,
+    });
+
+    const missing = WorkflowRunner.missingVariables(workflow, options);
+    if (missing.length > 0) {
+      return finish(`No value for ${missing.map((n) => `{{${n}}}`).join(", ")}`);
+    }
+
+    const unmet = await this.unmetRequirement(workflow, options.selectors);
+    if (unmet) return finish(`Requirement not met: ${unmet}`);
+
+    console.info(`[WorkflowRunner] Running "${workflow.name}" (${workflow.steps.length} steps)`);
+    for (const step of workflow.steps) {
+      if (options.signal?.aborted) return finish("Workflow cancelled");
+
+      const outcome = await this.runStep(step, state);
+      steps.push(outcome);
+      if (outcome.status === "failed") {
+        return finish(`${step.description}: ${outcome.result?.error ?? "failed"}`);
+      }
+    }
+
+    console.info(`[WorkflowRunner] "${workflow.name}" completed in ${Date.now() - start}ms`);
+    return finish();
+  }
+
+  // ─── Private helpers ──────────────────────────────────────────────
+
+  private async runStep(step: WorkflowStep, state: RunState): Promise<WorkflowStepOutcome> {
+    const { description } = step;
+    let result: ActionResult;
+
+    if (--state.stepsLeft < 0) {
+      result = this.fail(`Workflow exceeded ${state.options.maxSteps ?? DEFAULT_MAX_STEPS} steps`);
+      return { description, status: "failed", result };
+    }
+
+    try {
+      const action = await this.prepare(step.action, state.options, description);
+      state.options.beforeAction?.(action);
+      result = await this.execute(action, state.options);
+      state.actions.push(action);
+    } catch (error) {
+      result = this.fail(error instanceof Error ? error.message : String(error));
+    }
+    state.lastResult = result;
+
+    if (result.success) return { description, status: "completed", result };
+
+    if (step.fallback?.length) {
+      console.info(`[WorkflowRunner] "${description}" failed, trying fallback steps`);
+      const recovered = await this.runFallback(step.fallback, state);
+      if (recovered) return { description, status: "recovered", result: state.lastResult };
+    }
+
+    if (step.optional) {
+      console.debug(`[WorkflowRunner] Skipping optional step "${description}":`, result.error);
+      return { description, status: "skipped", result };
+    }
+    return { description, status: "failed", result };
+  }
+
+  /** Run fallback steps in order; true if none of them failed. */
+  private async runFallback(fallback: WorkflowStep[], state: RunState): Promise<boolean> {
+    for (const step of fallback) {
+      const outcome = await this.runStep(step, state);
+      if (outcome.status === "failed") return false;
+    }
+    return true;
+  }
+
+  private async execute(action: BrowserAction, options: WorkflowRunOptions): Promise<ActionResult> {
+    if (action.type === "custom") {
+      if (!options.runCustom) throw new Error("Custom actions are not available here");
+      return options.runCustom(action);
+    }
+    const [result] = await this.executor.executeSequence([action]);
+    return result ?? this.fail("Action produced no result");
+  }
+
+  /**
+   * Fill placeholders and resolve the target to something executable. A
+   * named target keeps the step's description, so the element can still be
+   * found by vision when its selector breaks.
+   */
+  private async prepare(
+    action: BrowserAction,
+    options: WorkflowRunOptions,
+    description: string
+  ): Promise<BrowserAction> {
+    const filled = WorkflowRunner.substitute(action, options) as BrowserAction;
+    const target = filled.target;
+    if (!target) return filled;
+
+    if (target.type === "named") {
+      const selector = options.selectors[target.name];
+      if (!selector) throw new Error(`Unknown selector "${target.name}"`);
+      return {
+        ...filled,
+        target: { type: "css", selector },
+        description: filled.description ?? String(WorkflowRunner.substitute(description, options)),
+      };
+    }
+
+    if (target.type === "semantic") {
+      const located = options.locate ? await options.locate(target.description) : null;
+      if (!located) throw new Error(`Could not locate "${target.description}"`);
+      return { ...filled, target: located };
+    }
+
+    return filled;
+  }
+
+  /** The first checkable requirement the page does not meet, if any. */
+  private async unmetRequirement(
+    workflow: Workflow,
+    selectors: SelectorMap
+  ): Promise<string | null> {
+    if (!this.agent) return null;
+
+    for (const requirement of workflow.requirements ?? []) {
+      const lower = requirement.toLowerCase();
+      if (lower.startsWith(URL_REQUIREMENT)) {
+        const expected = requirement.slice(URL_REQUIREMENT.length).trim();
+        const url = await this.agent.getCurrentPageUrl().catch(() => "");
+        if (!url.includes(expected)) return requirement;
+      } else if (lower.startsWith(VISIBLE_REQUIREMENT)) {
+        const name = requirement.slice(VISIBLE_REQUIREMENT.length).trim();
+        if (!(await this.agent.isElementVisible(selectors[name] ?? name))) return requirement;
+      }
+    }
+    return null;
+  }
+
+  /** Value for a placeholder: mapped row column, row field, then variable. */
+  private static lookup(name: string, options: WorkflowRunOptions): unknown {
+    const column = options.dataMapping?.[name];
+    const { row, variables } = options;
+    if (row && column !== undefined && row[column] !== undefined) return row[column];
+    if (row && row[name] !== undefined) return row[name];
+    return variables?.[name];
+  }
+
+  /** Names of all placeholders in a value. */
+  private static placeholders(value: unknown): string[] {
+    if (typeof value === "string") return [...value.matchAll(PLACEHOLDER)].map((m) => m[1]);
+    if (Array.isArray(value)) return value.flatMap((v) => WorkflowRunner.placeholders(v));
+    if (value && typeof value === "object") {
+      return Object.values(value).flatMap((v) => WorkflowRunner.placeholders(v));
+    }
+    return [];
+  }
+
+  /** Fill `{{name}}` placeholders in every string inside `value`. */
+  private static substitute(value: unknown, options: WorkflowRunOptions): unknown {
+    if (typeof value === "string") {
+      return value.replace(PLACEHOLDER, (match, name: string) => {
+        const resolved = WorkflowRunner.lookup(name, options);
+        return resolved === undefined ? match : String(resolved);
+      });
+    }
+    if (Array.isArray(value)) return value.map((v) => WorkflowRunner.substitute(v, options));
+    if (value && typeof value === "object") {
+      return Object.fromEntries(
+        Object.entries(value).map(([k, v]) => [k, WorkflowRunner.substitute(v, options)])
+      );
+    }
+    return value;
+  }
+
+  /** Build a failed {@link ActionResult}. */
+  private fail(error: string): ActionResult {
+    return { success: false, error, timestamp: new Date().toISOString(), duration: 0 };
+  }
+}
@@ -0,0 +1,134 @@
+/**
+ * CostCalculator — Token and cost accounting for LLM usage.
+ *
+ * Prices come from the pricing table in the user's config
+ * (`UserConfig.llm.pricing`), keyed by provider and model. Providers that
+ * report no usage (or models without a price) are counted at zero cost.
+ */
+
+import type { ModelPricing, PricingTable } from "~types/config";
+import type { LLMProvider, TokenUsage } from "~types/llm";
+import type { JobBudget, UsageTotals } from "~types/orchestration";
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+/** Model key that applies to every model of a provider. */
+const ANY_MODEL = "*";
+
+/**
+ * Rough per-task token usage used for up-front estimates, based on the
+ * size of the think prompt and a typical JSON action reply.
+ */
+const ESTIMATED_TOKENS_PER_TASK: TokenUsage = {
+  promptTokens: 1_500,
+  completionTokens: 300,
+  totalTokens: 1_800,
+};
+
+// ---------------------------------------------------------------------------
+// CostCalculator
+// ---------------------------------------------------------------------------
+
+/**
+ * Static helpers for pricing token usage and aggregating it per task and
+ * per job.
+ */
+export class CostCalculator {
+  /** Zeroed usage totals. */
+  static empty(): UsageTotals {
+    return { promptTokens: 0, completionTokens: 0, totalTokens: 0, costUSD: 0, requests: 0 };
+  }
+
+  /**
+   * Price for a provider / model. Falls back to the provider's `"*"`
+   * entry, then to `null` when the model is not priced.
+   */
+  static getPricing(
+    table: PricingTable,
+    provider: LLMProvider,
+    model?: string
+  ): ModelPricing | null {
+    const models = table[provider];
+    if (!models) return null;
+    return (model !== undefined ? models[model] : undefined) ?? models[ANY_MODEL] ?? null;
+  }
+
+  /** Cost in US dollars of a single response's usage. */
+  static cost(usage: TokenUsage, pricing: ModelPricing | null): number {
+    if (!pricing) return 0;
+    return (
+      (usage.promptTokens * pricing.inputPerMillion +
+        usage.completionTokens * pricing.outputPerMillion) /
+      1_000_000
+    );
+  }
+
+  /** Turn one response's usage into totals, priced from the table. */
+  static fromUsage(
+    usage: TokenUsage | undefined,
+    table: PricingTable,
+    provider: LLMProvider,
+    model?: string
+  ): UsageTotals {
+    if (!usage) return { ...CostCalculator.empty(), requests: 1 };
+    return {
+      promptTokens: usage.promptTokens,
+      completionTokens: usage.completionTokens,
+      totalTokens: usage.totalTokens || usage.promptTokens + usage.completionTokens,
+      costUSD: CostCalculator.cost(usage, CostCalculator.getPricing(table, provider, model)),
+      requests: 1,
+    };
+  }
+
+  /** Sum two usage totals. Either side may be missing. */
+  static add(a: UsageTotals | undefined, b: UsageTotals | undefined): UsageTotals {
+    const left = a ?? CostCalculator.empty();
+    const right = b ?? CostCalculator.empty();
+    return {
+      promptTokens: left.promptTokens + right.promptTokens,
+      completionTokens: left.completionTokens + right.completionTokens,
+      totalTokens: left.totalTokens + right.totalTokens,
+      costUSD: left.costUSD + right.costUSD,
+      requests: left.requests + right.requests,
+    };
+  }
+
+  /** Projected usage for `taskCount` tasks on the given provider / model. */
+  static estimate(
+    taskCount: number,
+    table: PricingTable,
+    provider: LLMProvider,
+    model?: string
+  ): UsageTotals {
+    const usage: TokenUsage = {
+      promptTokens: ESTIMATED_TOKENS_PER_TASK.promptTokens * taskCount,
+      completionTokens: ESTIMATED_TOKENS_PER_TASK.completionTokens * taskCount,
+      totalTokens: ESTIMATED_TOKENS_PER_TASK.totalTokens * taskCount,
+    };
+    return {
+      ...usage,
+      costUSD: CostCalculator.cost(usage, CostCalculator.getPricing(table, provider, model)),
+      requests: taskCount,
+    };
+  }
+
+  /**
+   * Describe which budget limit `usage` exceeds, or `null` if it is within
+   * budget (or there is no budget).
+   */
+  static exceededBudget(usage: UsageTotals | undefined, budget?: JobBudget): string | null {
+    if (!usage || !budget) return null;
+    if (budget.maxTokens !== undefined && usage.totalTokens > budget.maxTokens) {
+      return `token budget exceeded (${usage.totalTokens} / ${budget.maxTokens} tokens)`;
+    }
+    if (budget.maxCostUSD !== undefined && usage.costUSD > budget.maxCostUSD) {
+      return (
+        `cost budget exceeded ($${usage.costUSD.toFixed(4)} / ` +
+        `$${budget.maxCostUSD.toFixed(2)})`
+      );
+    }
+    return null;
+  }
+}
@@ -0,0 +1,372 @@
+/**
+ * FallbackProvider — Fails over across a chain of LLM providers.
+ *
+ * Wraps several providers (the primary followed by the user's
+ * `fallbackChain`) behind a single {@link LLMProviderInterface}. Requests go
+ * to the first healthy provider; rate limits, auth errors, connection
+ * failures and repeated malformed JSON put a provider into a cool-down
+ * window and the request moves on to the next one.
+ */
+
+import type { GenerateOptions, LLMConfig, LLMMessage, LLMProvider, LLMResponse } from "~types/llm";
+import { createProvider } from "./ProviderFactory";
+import type { LLMProviderInterface } from "./ProviderFactory";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** Why a provider request failed. */
+export type ProviderFailureKind =
+  "rate_limit" | "auth" | "connection" | "server" | "malformed_json" | "other";
+
+/** Health snapshot for a single provider. */
+export interface ProviderHealth {
+  provider: LLMProvider;
+  /** False while the provider is cooling down */
+  healthy: boolean;
+  /** Consecutive failures since the last success */
+  consecutiveFailures: number;
+  /** Consecutive JSON-mode replies that could not be parsed */
+  malformedJSONCount: number;
+  /** Epoch ms at which the provider may be tried again */
+  cooldownUntil?: number;
+  lastFailure?: { kind: ProviderFailureKind; message: string; at: number };
+}
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+/** Cool-down per failure kind. `other` errors fail over without a cool-down. */
+const COOLDOWN_MS: Record<ProviderFailureKind, number> = {
+  rate_limit: 60_000,
+  auth: 10 * 60_000,
+  connection: 30_000,
+  server: 30_000,
+  malformed_json: 60_000,
+  other: 0,
+};
+
+/** Malformed JSON replies in a row before a provider is benched. */
+const MALFORMED_JSON_THRESHOLD = 2;
+
+// ---------------------------------------------------------------------------
+// Health tracking
+// ---------------------------------------------------------------------------
+
+/**
+ * Per-provider health shared across adapters, so a provider that is rate
+ * limited during one job is skipped by the next one as well.
+ */
+export class ProviderHealthTracker {
+  private readonly health = new Map<LLMProvider, ProviderHealth>();
+  private readonly now: () => number;
+
+  constructor(now: () => number = Date.now) {
+    this.now = now;
+  }
+
+  /** Current health for a provider. */
+  get(provider: LLMProvider): ProviderHealth {
+    let entry = this.health.get(provider);
+    if (!entry) {
+      entry = { provider, healthy: true, consecutiveFailures: 0, malformedJSONCount: 0 };
+      this.health.set(provider, entry);
+    }
+    if (entry.cooldownUntil !== undefined && entry.cooldownUntil <= this.now()) {
+      entry.healthy = true;
+      entry.cooldownUntil = undefined;
+    }
+    return { ...entry };
+  }
+
+  /** Whether the provider is outside its cool-down window. */
+  isAvailable(provider: LLMProvider): boolean {
+    return this.get(provider).healthy;
+  }
+
+  recordSuccess(provider: LLMProvider): void {
+    this.health.set(provider, {
+      provider,
+      healthy: true,
+      consecutiveFailures: 0,
+      malformedJSONCount: 0,
+    });
+  }
+
+  recordFailure(provider: LLMProvider, kind: ProviderFailureKind, message: string): void {
+    const entry = this.get(provider);
+    const cooldown = COOLDOWN_MS[kind];
+    const now = this.now();
+
+    this.health.set(provider, {
+      ...entry,
+      consecutiveFailures: entry.consecutiveFailures + 1,
+      malformedJSONCount: kind === "malformed_json" ? entry.malformedJSONCount : 0,
+      healthy: cooldown === 0 && entry.healthy,
+      cooldownUntil: cooldown > 0 ? now + cooldown : entry.cooldownUntil,
+      lastFailure: { kind, message, at: now },
+    });
+
+    if (cooldown > 0) {
+      console.warn(
+        `[FallbackProvider] ${provider} cooling down for ${cooldown / 1000}s (${kind}): ${message}`
+      );
+    }
+  }
+
+  /**
+   * Count a JSON-mode reply that could not be parsed. Returns true once the
+   * provider has crossed the threshold and been put into cool-down.
+   */
+  recordMalformedJSON(provider: LLMProvider): boolean {
+    const entry = this.get(provider);
+    const count = entry.malformedJSONCount + 1;
+    this.health.set(provider, { ...entry, malformedJSONCount: count });
+
+    if (count < MALFORMED_JSON_THRESHOLD) return false;
+    this.recordFailure(provider, "malformed_json", `${count} malformed JSON replies in a row`);
+    return true;
+  }
+
+  /** Health snapshots for every provider seen so far. */
+  snapshot(): ProviderHealth[] {
+    return [...this.health.keys()].map((p) => this.get(p));
+  }
+
+  /** Forget all recorded health. */
+  reset(): void {
+    this.health.clear();
+  }
+}
+
+/** Tracker shared by every {@link FallbackProvider} by default. */
+export const providerHealth = new ProviderHealthTracker();
+
+/**
+ * Classify a provider error by HTTP status (parsed from the provider's
+ * message) or by the shape of network failures.
+ */
+export function classifyProviderError(error: unknown): ProviderFailureKind {
+  const message = error instanceof Error ? error.message : String(error);
+  const status = Number(/\b([45]\d\d)\b/.exec(message)?.[1]);
+
+  if (status === 429 || /rate limit/i.test(message)) return "rate_limit";
+  if (status === 401 || status === 403 || /unauthori[sz]ed|api key/i.test(message)) {
+    return "auth";
+  }
+  if (status >= 500) return "server";
+  if (
+    error instanceof TypeError ||
+    /failed to fetch|fetch failed|ECONNREFUSED|network|not reachable/i.test(message)
+  ) {
+    return "connection";
+  }
+  return "other";
+}
+
+// ---------------------------------------------------------------------------
+// FallbackProvider
+// ---------------------------------------------------------------------------
+
+interface ChainEntry {
+  config: LLMConfig;
+  provider?: LLMProviderInterface;
+}
+
+type VisionCapable = LLMProviderInterface & {
+  completeWithVision?: (messages: LLMMessage[], options?: GenerateOptions) => Promise<LLMResponse>;
+};
+
+/**
+ * {@link LLMProviderInterface} that tries each provider in the chain in
+ * turn. Every response carries the `provider` that served it.
+ */
+export class FallbackProvider implements LLMProviderInterface {
+  private readonly chain: ChainEntry[];
+  private readonly health: ProviderHealthTracker;
+
+  constructor(configs: LLMConfig[], health: ProviderHealthTracker = providerHealth) {
+    if (configs.length === 0) {
+      throw new Error("FallbackProvider: at least one provider config is required");
+    }
+    // One entry per provider type; the first occurrence wins.
+    this.chain = configs
+      .filter((c, i) => configs.findIndex((other) => other.type === c.type) === i)
+      .map((config) => ({ config }));
+    this.health = health;
+  }
+
+  // -----------------------------------------------------------------------
+  // Public API
+  // -----------------------------------------------------------------------
+
+  async complete(messages: LLMMessage[], options?: GenerateOptions): Promise<LLMResponse> {
+    return this.run((provider) => provider.complete(messages, options), options);
+  }
+
+  /**
+   * Stream from the first healthy provider. Failover only happens before
+   * the first chunk has been delivered.
+   */
+  async completeStreaming(
+    messages: LLMMessage[],
+    onChunk: (chunk: string) => void,
+    options?: GenerateOptions
+  ): Promise<LLMResponse> {
+    let started = false;
+    return this.run(
+      (provider) =>
+        provider.completeStreaming(
+          messages,
+          (chunk) => {
+            started = true;
+            onChunk(chunk);
+          },
+          options
+        ),
+      options,
+      () => started
+    );
+  }
+
+  /** Vision requests only go to providers with a vision endpoint. */
+  async completeWithVision(
+    messages: LLMMessage[],
+    options?: GenerateOptions
+  ): Promise<LLMResponse> {
+    return this.run((provider) => {
+      const vision = provider as VisionCapable;
+      if (typeof vision.completeWithVision !== "function") {
+        throw new Error("provider does not support vision");
+      }
+      return vision.completeWithVision(messages, options);
+    }, options);
+  }
+
+  /** True if any provider in the chain is reachable. */
+  async testConnection(): Promise<boolean> {
+    for (const entry of this.chain) {
+      const provider = this.instantiate(entry);
+      if (provider && (await provider.testConnection().catch(() => false))) return true;
+    }
+    return false;
+  }
+
+  /** Models of the first provider that can list them. */
+  async listModels(): Promise<string[]> {
+    for (const entry of this.ordered()) {
+      const provider = this.instantiate(entry);
+      if (!provider) continue;
+      try {
+        return await provider.listModels();
+      } catch {
+        // Try the next provider.
+      }
+    }
+    return [];
+  }
+
+  /** Provider types in chain order. */
+  getChain(): LLMProvider[] {
+    return this.chain.map((e) => e.config.type);
+  }
+
+  // -----------------------------------------------------------------------
+  // Private helpers
+  // -----------------------------------------------------------------------
+
+  /**
+   * Try `call` against each provider until one succeeds. Healthy providers
+   * go first; ones in cool-down are only tried once everything else failed.
+   */
+  private async run(
+    call: (provider: LLMProviderInterface) => Promise<LLMResponse>,
+    options?: GenerateOptions,
+    committed: () => boolean = () => false
+  ): Promise<LLMResponse> {
+    const failures: string[] = [];
+
+    for (const entry of this.ordered()) {
+      const type = entry.config.type;
+      const provider = this.instantiate(entry);
+      if (!provider) {
+        failures.push(`${type}: not configured`);
+        continue;
+      }
+
+      try {
+        const response = await call(provider);
+
+        if (options?.responseFormat === "json" && !this.looksLikeJSON(response.content)) {
+          if (this.health.recordMalformedJSON(type)) {
+            failures.push(`${type}: repeated malformed JSON`);
+            continue;
+          }
+        } else {
+          this.health.recordSuccess(type);
+        }
+
+        if (failures.length > 0) {
+          console.info(`[FallbackProvider] Served by ${type} after: ${failures.join("; ")}`);
+        }
+        return { ...response, provider: type };
+      } catch (error) {
+        // A cancelled request says nothing about the provider's health.
+        if (options?.signal?.aborted) throw error;
+        const message = error instanceof Error ? error.message : String(error);
+        this.health.recordFailure(type, classifyProviderError(error), message);
+        failures.push(`${type}: ${message}`);
+        if (committed()) throw error;
+      }
+    }
+
+    throw new Error(`FallbackProvider: all providers failed — ${failures.join("; ")}`);
+  }
+
+  /** Chain entries with available providers first, preserving chain order. */
+  private ordered(): ChainEntry[] {
+    const available = this.chain.filter((e) => this.health.isAvailable(e.config.type));
+    const cooling = this.chain.filter((e) => !available.includes(e));
+    return [...available, ...cooling];
+  }
+
+  /**
+   * Create the provider on first use. Providers that cannot be constructed
+   * (e.g. a cloud provider without an API key) are marked as auth failures.
+   */
+  private instantiate(entry: ChainEntry): LLMProviderInterface | null {
+    if (entry.provider) return entry.provider;
+    try {
+      entry.provider = createProvider(entry.config);
+      return entry.provider;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      this.health.recordFailure(entry.config.type, "auth", message);
+      return null;
+    }
+  }
+
+  /** Cheap check that a JSON-mode reply contains a JSON value. */
+  private looksLikeJSON(content: string): boolean {
+    const cleaned = content
+      .trim()
+      .replace(/^```(?:json)?\s*/i, "")
+      .replace(/\s*```$/i, "");
+    try {
+      JSON.parse(cleaned);
+      return true;
+    } catch {
+      const start = cleaned.search(/[[{]/);
+      const end = Math.max(cleaned.lastIndexOf("}"), cleaned.lastIndexOf("]"));
+      if (start === -1 || end <= start) return false;
+      try {
+        JSON.parse(cleaned.slice(start, end + 1));
+        return true;
+      } catch {
+        return false;
+      }
+    }
+  }
+}
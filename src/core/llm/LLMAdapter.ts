@@ -13,9 +13,15 @@ import type {
   LLMConfig,
   LLMMessage,
   LLMResponse,
+  ToolLoopResponse,
+  ToolResult,
 } from "~types/llm";
+import type { MCPToolSource } from "~types/mcp";
+import { FallbackProvider } from "./FallbackProvider";
+import type { ProviderHealthTracker } from "./FallbackProvider";
 import { createProvider } from "./ProviderFactory";
 import type { LLMProviderInterface } from "./ProviderFactory";
+import { ToolCallFormat } from "./ToolCallFormat";
 
 // ---------------------------------------------------------------------------
 // Constants
@@ -25,6 +31,7 @@ const DEFAULT_SYSTEM_PROMPT =
   "You are a helpful AI assistant specialized in web design automation.";
 const DEFAULT_MAX_RETRY_ATTEMPTS = 3;
 const RETRY_BASE_DELAY_MS = 1000;
+const DEFAULT_MAX_TOOL_ITERATIONS = 10;
 
 // ---------------------------------------------------------------------------
 // Vision-capable providers
@@ -33,6 +40,18 @@ const RETRY_BASE_DELAY_MS = 1000;
 /** Provider types known to support vision / multimodal input. */
 const VISION_PROVIDERS = new Set(["groq", "deepseek"]);
 
+// ---------------------------------------------------------------------------
+// Options
+// ---------------------------------------------------------------------------
+
+/** Options accepted by the {@link LLMAdapter} constructor. */
+export interface LLMAdapterOptions {
+  /** Providers to fail over to, in order, when the primary one fails */
+  fallbacks?: LLMConfig[];
+  /** Health tracker for failover (defaults to the shared tracker) */
+  health?: ProviderHealthTracker;
+}
+
 // ---------------------------------------------------------------------------
 // LLMAdapter
 // ---------------------------------------------------------------------------
@@ -49,10 +68,15 @@ export class LLMAdapter {
   private readonly config: LLMConfig;
   private conversationHistory: LLMMessage[] = [];
   private systemPrompt: string = DEFAULT_SYSTEM_PROMPT;
+  private usageListeners = new Set<(response: LLMResponse) => void>();
 
-  constructor(config: LLMConfig) {
+  constructor(config: LLMConfig, options?: LLMAdapterOptions) {
     this.config = config;
-    this.provider = createProvider(config);
+    const fallbacks = (options?.fallbacks ?? []).filter((f) => f.type !== config.type);
+    this.provider =
+      fallbacks.length > 0
+        ? new FallbackProvider([config, ...fallbacks], options?.health)
+        : createProvider(config);
     this.supportsVision = VISION_PROVIDERS.has(config.type);
   }
 
@@ -73,7 +97,7 @@ export class LLMAdapter {
     const messages = this.buildMessages(prompt);
 
     console.debug("[LLMAdapter] generate – sending", messages.length, "messages");
-    const response = await this.provider.complete(messages, options);
+    const response = this.track(await this.provider.complete(messages, options));
 
     this.conversationHistory.push(
       { role: "user", content: prompt },
@@ -112,10 +136,11 @@ export class LLMAdapter {
     const providerWithVision = this.provider as LLMProviderInterface & {
       completeWithVision?: (messages: LLMMessage[], options?: GenerateOptions) => Promise<LLMResponse>;
     };
-    const response =
+    const response = this.track(
       typeof providerWithVision.completeWithVision === "function"
         ? await providerWithVision.completeWithVision(messages, options)
-        : await this.provider.complete(messages, options);
+        : await this.provider.complete(messages, options)
+    );
 
     // Keep vision turns in the conversation history.
     this.conversationHistory.push(
@@ -138,11 +163,7 @@ export class LLMAdapter {
     const messages = this.buildMessages(prompt);
 
     console.debug("[LLMAdapter] generateStreaming – starting stream");
-    const response = await this.provider.completeStreaming(
-      messages,
-      onChunk,
-      options,
-    );
+    const response = this.track(await this.provider.completeStreaming(messages, onChunk, options));
 
     this.conversationHistory.push(
       { role: "user", content: prompt },
@@ -152,6 +173,101 @@ export class LLMAdapter {
     return response;
   }
 
+  /**
+   * Generate a response in JSON mode and parse it into `T`.
+   *
+   * If the first reply cannot be parsed, the model is asked once more with
+   * an explicit reminder to return only JSON before giving up.
+   */
+  async generateJSON<T>(prompt: string, options?: GenerateOptions): Promise<T> {
+    const jsonOptions: GenerateOptions = { ...options, responseFormat: "json" };
+    const response = await this.generate(prompt, jsonOptions);
+
+    try {
+      return this.parseJSON<T>(response.content);
+    } catch {
+      console.info("[LLMAdapter] generateJSON – reply was not valid JSON, retrying");
+      const retry = await this.generate(
+        "Your previous reply was not valid JSON. Respond again with only the JSON value, no prose or code fences.",
+        jsonOptions
+      );
+      return this.parseJSON<T>(retry.content);
+    }
+  }
+
+  /**
+   * Let the model drive a set of MCP tools until it produces a final answer.
+   *
+   * The source's tools are offered as native function calls. Each tool call
+   * in a reply is executed through `source.callTool` and its result is fed
+   * back as a `tool` message, and the model is asked again — up to
+   * `maxIterations` rounds.
+   *
+   * @throws If the model is still calling tools after `maxIterations` rounds.
+   */
+  async generateWithTools(
+    prompt: string,
+    source: MCPToolSource,
+    options?: GenerateOptions & { maxIterations?: number }
+  ): Promise<ToolLoopResponse> {
+    const { maxIterations = DEFAULT_MAX_TOOL_ITERATIONS, ...generateOptions } = options ?? {};
+    const tools = ToolCallFormat.fromMCPTools(await source.getAvailableTools());
+    const messages = this.buildMessages(prompt);
+    const turnStart = messages.length - 1;
+    const toolResults: ToolResult[] = [];
+
+    for (let iteration = 1; iteration <= maxIterations; iteration++) {
+      console.debug(
+        `[LLMAdapter] generateWithTools – round ${iteration}, ${tools.length} tools offered`
+      );
+      const response = this.track(
+        await this.provider.complete(messages, { ...generateOptions, tools })
+      );
+
+      if (!response.toolCalls?.length) {
+        messages.push({ role: "assistant", content: response.content });
+        this.conversationHistory.push(...messages.slice(turnStart));
+        return { ...response, toolResults };
+      }
+
+      messages.push({
+        role: "assistant",
+        content: response.content,
+        toolCalls: response.toolCalls,
+      });
+
+      for (const [index, call] of response.toolCalls.entries()) {
+        const toolCallId = call.id ?? `call_${iteration}_${index}`;
+        let result: ToolResult;
+        try {
+          const output = await source.callTool(call.toolName, call.arguments);
+          const error = output.isError ? output.metadata?.error : undefined;
+          result = {
+            toolCallId,
+            result: typeof error === "string" && !output.content ? error : output.content,
+            isError: output.isError,
+          };
+        } catch (err) {
+          result = {
+            toolCallId,
+            result: err instanceof Error ? err.message : String(err),
+            isError: true,
+          };
+        }
+
+        toolResults.push(result);
+        messages.push({
+          role: "tool",
+          name: call.toolName,
+          toolCallId,
+          content: result.isError ? `Error: ${String(result.result)}` : String(result.result),
+        });
+      }
+    }
+
+    throw new Error(`LLMAdapter: model was still calling tools after ${maxIterations} iterations`);
+  }
+
   /**
    * Generate a response with automatic retry and exponential back-off.
    */
@@ -167,6 +283,7 @@ export class LLMAdapter {
         return await this.generate(prompt, options);
       } catch (err) {
         lastError = err instanceof Error ? err : new Error(String(err));
+        if (options?.signal?.aborted) throw lastError;
         console.info(
           `[LLMAdapter] attempt ${attempt}/${maxAttempts} failed: ${lastError.message}`,
         );
@@ -216,6 +333,15 @@ export class LLMAdapter {
     return [...this.conversationHistory];
   }
 
+  /**
+   * Subscribe to every provider response, e.g. to account for token usage.
+   * Returns an unsubscribe function.
+   */
+  onUsage(listener: (response: LLMResponse) => void): () => void {
+    this.usageListeners.add(listener);
+    return () => this.usageListeners.delete(listener);
+  }
+
   /** Update the system prompt used for new conversations. */
   setSystemPrompt(prompt: string): void {
     this.systemPrompt = prompt;
@@ -234,6 +360,22 @@ export class LLMAdapter {
     ];
   }
 
+  /**
+   * Record the serving provider (single providers do not set it themselves)
+   * and report the response's token usage to listeners.
+   */
+  private track(response: LLMResponse): LLMResponse {
+    const tracked = response.provider ? response : { ...response, provider: this.config.type };
+    for (const listener of this.usageListeners) {
+      try {
+        listener(tracked);
+      } catch (err) {
+        console.warn("[LLMAdapter] usage listener failed:", err);
+      }
+    }
+    return tracked;
+  }
+
   /** Promise-based sleep helper for retry back-off. */
   private sleep(ms: number): Promise<void> {
     return new Promise((resolve) => setTimeout(resolve, ms));
@@ -15,6 +15,7 @@ import type {
 import { LMStudioProvider } from "./providers/LMStudioProvider";
 import { OllamaProvider } from "./providers/OllamaProvider";
 import { OpenAIProvider } from "./providers/OpenAIProvider";
+import { WebLLMProvider } from "./providers/WebLLMProvider";
 
 // ---------------------------------------------------------------------------
 // Provider interface
@@ -80,9 +81,7 @@ export function createProvider(config: LLMConfig): LLMProviderInterface {
       });
 
     case "webllm":
-      throw new Error(
-        "WebLLM provider is not yet implemented. Use a local or cloud provider instead.",
-      );
+      return new WebLLMProvider(config);
 
     default: {
       const exhaustive: never = config.type;
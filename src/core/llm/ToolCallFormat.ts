@@ -0,0 +1,195 @@
+/**
+ * ToolCallFormat — Converts tools and tool calls to and from the
+ * function-calling wire formats used by the supported providers.
+ *
+ * OpenAI-compatible backends (OpenAI, Groq, DeepSeek, LM Studio) and
+ * Ollama share the same `tools` request shape but differ in how tool
+ * calls and tool results are carried in messages.
+ */
+
+import type { MCPToolDefinition } from "~types/mcp";
+import type { LLMMessage, Tool, ToolCall } from "~types/llm";
+
+// ---------------------------------------------------------------------------
+// Wire types
+// ---------------------------------------------------------------------------
+
+/** A tool call as returned by OpenAI-compatible APIs. */
+export interface OpenAIToolCall {
+  id: string;
+  type: "function";
+  function: { name: string; arguments: string };
+}
+
+/** A tool call as returned by Ollama's `/api/chat`. */
+export interface OllamaToolCall {
+  function: { name: string; arguments: Record<string, unknown> | string };
+}
+
+/** Longest function name accepted by OpenAI-compatible APIs. */
+const MAX_FUNCTION_NAME_LENGTH = 64;
+
+// ---------------------------------------------------------------------------
+// ToolCallFormat
+// ---------------------------------------------------------------------------
+
+/**
+ * Static helpers shared by the providers for serializing {@link Tool}
+ * definitions and parsing tool calls back into {@link ToolCall} objects.
+ */
+export class ToolCallFormat {
+  /**
+   * Map a tool name to a valid function name (`[a-zA-Z0-9_-]{1,64}`).
+   * Namespace dots become `__`, e.g. `playwright.browser_click` →
+   * `playwright__browser_click`.
+   */
+  static toFunctionName(name: string): string {
+    return name
+      .replace(/\./g, "__")
+      .replace(/[^a-zA-Z0-9_-]/g, "_")
+      .slice(0, MAX_FUNCTION_NAME_LENGTH);
+  }
+
+  /**
+   * Map a function name from a model reply back to the original tool name.
+   * Unknown names are returned unchanged.
+   */
+  static resolveToolName(functionName: string, tools: Tool[] = []): string {
+    const match = tools.find((t) => ToolCallFormat.toFunctionName(t.name) === functionName);
+    return match?.name ?? functionName;
+  }
+
+  /** Convert MCP tool definitions into LLM {@link Tool}s. */
+  static fromMCPTools(definitions: MCPToolDefinition[]): Tool[] {
+    return definitions.map((def) => ({
+      name: def.name,
+      description: def.description,
+      parameters: def.inputSchema,
+    }));
+  }
+
+  /** Serialize tools into the `tools` request field (OpenAI and Ollama). */
+  static toRequestTools(tools: Tool[]): Array<Record<string, unknown>> {
+    return tools.map((tool) => ({
+      type: "function",
+      function: {
+        name: ToolCallFormat.toFunctionName(tool.name),
+        description: tool.description,
+        parameters: tool.parameters,
+      },
+    }));
+  }
+
+  // -----------------------------------------------------------------------
+  // OpenAI-compatible
+  // -----------------------------------------------------------------------
+
+  /** Serialize messages, including tool calls and results, for OpenAI. */
+  static toOpenAIMessages(messages: LLMMessage[]): Array<Record<string, unknown>> {
+    return messages.map((m) => {
+      if (m.role === "tool") {
+        return { role: "tool", tool_call_id: m.toolCallId, content: m.content };
+      }
+      if (m.toolCalls?.length) {
+        return {
+          role: m.role,
+          content: m.content || null,
+          tool_calls: m.toolCalls.map((call) => ({
+            id: call.id,
+            type: "function",
+            function: {
+              name: ToolCallFormat.toFunctionName(call.toolName),
+              arguments: JSON.stringify(call.arguments),
+            },
+          })),
+        };
+      }
+      return { role: m.role, content: m.content };
+    });
+  }
+
+  /** Parse OpenAI `tool_calls` into {@link ToolCall}s. */
+  static parseOpenAIToolCalls(
+    calls: OpenAIToolCall[] | undefined,
+    tools?: Tool[]
+  ): ToolCall[] | undefined {
+    if (!calls?.length) return undefined;
+
+    return calls.map((call) => ({
+      id: call.id,
+      toolName: ToolCallFormat.resolveToolName(call.function.name, tools),
+      arguments: ToolCallFormat.parseArguments(call.function.arguments),
+    }));
+  }
+
+  // -----------------------------------------------------------------------
+  // Ollama
+  // -----------------------------------------------------------------------
+
+  /** Serialize messages, including tool calls and results, for Ollama. */
+  static toOllamaMessages(messages: LLMMessage[]): Array<Record<string, unknown>> {
+    return messages.map((m) => {
+      if (m.role === "tool") {
+        return {
+          role: "tool",
+          content: m.content,
+          ...(m.name && { tool_name: ToolCallFormat.toFunctionName(m.name) }),
+        };
+      }
+      if (m.toolCalls?.length) {
+        return {
+          role: m.role,
+          content: m.content,
+          tool_calls: m.toolCalls.map((call) => ({
+            function: {
+              name: ToolCallFormat.toFunctionName(call.toolName),
+              arguments: call.arguments,
+            },
+          })),
+        };
+      }
+      return { role: m.role, content: m.content };
+    });
+  }
+
+  /**
+   * Parse Ollama `tool_calls` into {@link ToolCall}s. Ollama does not
+   * assign call ids, so positional ids are generated.
+   */
+  static parseOllamaToolCalls(
+    calls: OllamaToolCall[] | undefined,
+    tools?: Tool[]
+  ): ToolCall[] | undefined {
+    if (!calls?.length) return undefined;
+
+    return calls.map((call, index) => ({
+      id: `call_${index}`,
+      toolName: ToolCallFormat.resolveToolName(call.function.name, tools),
+      arguments:
+        typeof call.function.arguments === "string"
+          ? ToolCallFormat.parseArguments(call.function.arguments)
+          : (call.function.arguments ?? {}),
+    }));
+  }
+
+  // -----------------------------------------------------------------------
+  // Private helpers
+  // -----------------------------------------------------------------------
+
+  /**
+   * Parse a JSON arguments string. Malformed arguments become an empty
+   * object so the tool reports the missing parameters back to the model.
+   */
+  private static parseArguments(raw: string): Record<string, unknown> {
+    if (!raw) return {};
+    try {
+      const parsed: unknown = JSON.parse(raw);
+      return parsed && typeof parsed === "object" && !Array.isArray(parsed)
+        ? (parsed as Record<string, unknown>)
+        : {};
+    } catch {
+      console.warn("[ToolCallFormat] Ignoring malformed tool arguments:", raw);
+      return {};
+    }
+  }
+}
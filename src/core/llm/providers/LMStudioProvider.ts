@@ -12,6 +12,8 @@ import type {
   LLMResponse,
 } from "~types/llm";
 import type { LLMProviderInterface } from "../ProviderFactory";
+import { ToolCallFormat } from "../ToolCallFormat";
+import type { OpenAIToolCall } from "../ToolCallFormat";
 
 // ---------------------------------------------------------------------------
 // Types for LM Studio (OpenAI-compatible) responses
@@ -19,7 +21,7 @@ import type { LLMProviderInterface } from "../ProviderFactory";
 
 interface LMStudioChatChoice {
   index: number;
-  message: { role: string; content: string | null };
+  message: { role: string; content: string | null; tool_calls?: OpenAIToolCall[] };
   finish_reason: string | null;
 }
 
@@ -77,7 +79,7 @@ export class LMStudioProvider implements LLMProviderInterface {
     options?: GenerateOptions,
   ): Promise<LLMResponse> {
     const body = this.buildRequestBody(messages, options);
-    const data = await this.post<LMStudioChatResponse>("/chat/completions", body);
+    const data = await this.post<LMStudioChatResponse>("/chat/completions", body, options?.signal);
 
     const choice = data.choices[0];
     return {
@@ -91,6 +93,7 @@ export class LMStudioProvider implements LLMProviderInterface {
           }
         : undefined,
       finishReason: this.mapFinishReason(choice?.finish_reason),
+      toolCalls: ToolCallFormat.parseOpenAIToolCalls(choice?.message?.tool_calls, options?.tools),
     };
   }
 
@@ -108,6 +111,7 @@ export class LMStudioProvider implements LLMProviderInterface {
       method: "POST",
       headers: { "Content-Type": "application/json" },
       body: JSON.stringify(body),
+      signal: options?.signal,
     });
 
     if (!response.ok) {
@@ -190,7 +194,7 @@ export class LMStudioProvider implements LLMProviderInterface {
   ): Record<string, unknown> {
     const body: Record<string, unknown> = {
       model: this.model,
-      messages: messages.map((m) => ({ role: m.role, content: m.content })),
+      messages: ToolCallFormat.toOpenAIMessages(messages),
     };
 
     if (options?.temperature !== undefined) body.temperature = options.temperature;
@@ -201,16 +205,20 @@ export class LMStudioProvider implements LLMProviderInterface {
     if (options?.responseFormat === "json") {
       body.response_format = { type: "json_object" };
     }
+    if (options?.tools?.length) {
+      body.tools = ToolCallFormat.toRequestTools(options.tools);
+    }
 
     return body;
   }
 
   /** POST to a sub-path and return parsed JSON. */
-  private async post<T>(path: string, body: unknown): Promise<T> {
+  private async post<T>(path: string, body: unknown, signal?: AbortSignal): Promise<T> {
     const response = await fetch(`${this.baseURL}${path}`, {
       method: "POST",
       headers: { "Content-Type": "application/json" },
       body: JSON.stringify(body),
+      signal,
     });
     if (!response.ok) {
       throw new Error(`LMStudioProvider: request failed with status ${response.status}`);
@@ -12,6 +12,8 @@ import type {
   LLMResponse,
 } from "~types/llm";
 import type { LLMProviderInterface } from "../ProviderFactory";
+import { ToolCallFormat } from "../ToolCallFormat";
+import type { OllamaToolCall } from "../ToolCallFormat";
 
 // ---------------------------------------------------------------------------
 // Types for Ollama API responses
@@ -20,6 +22,7 @@ import type { LLMProviderInterface } from "../ProviderFactory";
 interface OllamaChatMessage {
   role: string;
   content: string;
+  tool_calls?: OllamaToolCall[];
 }
 
 interface OllamaChatResponse {
@@ -79,6 +82,7 @@ export class OllamaProvider implements LLMProviderInterface {
       method: "POST",
       headers: { "Content-Type": "application/json" },
       body: JSON.stringify(body),
+      signal: options?.signal,
     });
 
     if (!response.ok) {
@@ -86,6 +90,7 @@ export class OllamaProvider implements LLMProviderInterface {
     }
 
     const data = (await response.json()) as OllamaChatResponse;
+    const toolCalls = ToolCallFormat.parseOllamaToolCalls(data.message?.tool_calls, options?.tools);
 
     return {
       content: data.message?.content ?? "",
@@ -98,7 +103,8 @@ export class OllamaProvider implements LLMProviderInterface {
               totalTokens: data.prompt_eval_count + data.eval_count,
             }
           : undefined,
-      finishReason: data.done ? "stop" : undefined,
+      finishReason: toolCalls ? "tool_calls" : data.done ? "stop" : undefined,
+      toolCalls,
     };
   }
 
@@ -116,6 +122,7 @@ export class OllamaProvider implements LLMProviderInterface {
       method: "POST",
       headers: { "Content-Type": "application/json" },
       body: JSON.stringify(body),
+      signal: options?.signal,
     });
 
     if (!response.ok) {
@@ -227,7 +234,7 @@ export class OllamaProvider implements LLMProviderInterface {
   ): Record<string, unknown> {
     const body: Record<string, unknown> = {
       model: this.model,
-      messages: messages.map((m) => ({ role: m.role, content: m.content })),
+      messages: ToolCallFormat.toOllamaMessages(messages),
       stream,
     };
 
@@ -246,6 +253,9 @@ export class OllamaProvider implements LLMProviderInterface {
     if (options?.responseFormat === "json") {
       body.format = "json";
     }
+    if (options?.tools?.length) {
+      body.tools = ToolCallFormat.toRequestTools(options.tools);
+    }
 
     return body;
   }
@@ -12,6 +12,8 @@ import type {
   LLMResponse,
 } from "~types/llm";
 import type { LLMProviderInterface } from "../ProviderFactory";
+import { ToolCallFormat } from "../ToolCallFormat";
+import type { OpenAIToolCall } from "../ToolCallFormat";
 
 // ---------------------------------------------------------------------------
 // Types for OpenAI API responses
@@ -19,7 +21,7 @@ import type { LLMProviderInterface } from "../ProviderFactory";
 
 interface OpenAIChatChoice {
   index: number;
-  message: { role: string; content: string | null };
+  message: { role: string; content: string | null; tool_calls?: OpenAIToolCall[] };
   finish_reason: string | null;
 }
 
@@ -83,7 +85,7 @@ export class OpenAIProvider implements LLMProviderInterface {
     options?: GenerateOptions,
   ): Promise<LLMResponse> {
     const body = this.buildRequestBody(messages, options);
-    const data = await this.post<OpenAIChatResponse>("/chat/completions", body);
+    const data = await this.post<OpenAIChatResponse>("/chat/completions", body, options?.signal);
 
     const choice = data.choices[0];
     return {
@@ -97,6 +99,7 @@ export class OpenAIProvider implements LLMProviderInterface {
           }
         : undefined,
       finishReason: this.mapFinishReason(choice?.finish_reason),
+      toolCalls: ToolCallFormat.parseOpenAIToolCalls(choice?.message?.tool_calls, options?.tools),
     };
   }
 
@@ -114,6 +117,7 @@ export class OpenAIProvider implements LLMProviderInterface {
       method: "POST",
       headers: this.headers(),
       body: JSON.stringify(body),
+      signal: options?.signal,
     });
 
     this.assertResponse(response);
@@ -189,7 +193,7 @@ export class OpenAIProvider implements LLMProviderInterface {
       ...(options?.temperature !== undefined && { temperature: options.temperature }),
     };
 
-    const data = await this.post<OpenAIChatResponse>("/chat/completions", body);
+    const data = await this.post<OpenAIChatResponse>("/chat/completions", body, options?.signal);
 
     const choice = data.choices[0];
     return {
@@ -245,11 +249,12 @@ export class OpenAIProvider implements LLMProviderInterface {
   }
 
   /** POST to a sub-path and return parsed JSON. */
-  private async post<T>(path: string, body: unknown): Promise<T> {
+  private async post<T>(path: string, body: unknown, signal?: AbortSignal): Promise<T> {
     const response = await fetch(`${this.baseURL}${path}`, {
       method: "POST",
       headers: this.headers(),
       body: JSON.stringify(body),
+      signal,
     });
     this.assertResponse(response);
     return (await response.json()) as T;
@@ -262,7 +267,7 @@ export class OpenAIProvider implements LLMProviderInterface {
   ): Record<string, unknown> {
     const body: Record<string, unknown> = {
       model: this.model,
-      messages: messages.map((m) => ({ role: m.role, content: m.content })),
+      messages: ToolCallFormat.toOpenAIMessages(messages),
     };
 
     if (options?.temperature !== undefined) body.temperature = options.temperature;
@@ -275,6 +280,9 @@ export class OpenAIProvider implements LLMProviderInterface {
     if (options?.responseFormat === "json") {
       body.response_format = { type: "json_object" };
     }
+    if (options?.tools?.length) {
+      body.tools = ToolCallFormat.toRequestTools(options.tools);
+    }
 
     return body;
   }
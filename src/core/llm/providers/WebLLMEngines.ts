@@ -0,0 +1,216 @@
+/**
+ * WebLLMEngines — In-browser inference runtimes used by WebLLMProvider.
+ *
+ * Two runtimes are supported, both loaded lazily so they only enter the
+ * bundle graph when the `webllm` provider is actually used:
+ * - `webgpu`: MLC WebLLM (`@mlc-ai/web-llm`), fast but needs a GPU.
+ * - `wasm`:   llama.cpp compiled to WebAssembly (`@wllama/wllama`), runs
+ *             on the CPU anywhere WebAssembly is available.
+ *
+ * Both expose an OpenAI-compatible chat API, so they are wrapped in the
+ * same small {@link WebLLMEngine} interface.
+ */
+
+// The bundler copies the runtime's binary into the build and resolves this
+// to its extension URL; it is fetched only when the WASM backend loads.
+import wllamaWasmUrl from "url:@wllama/wllama/esm/wasm/wllama.wasm";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** Which runtime executes the model. */
+export type WebLLMBackend = "webgpu" | "wasm";
+
+/** Progress of a model download / load. */
+export interface WebLLMLoadProgress {
+  backend: WebLLMBackend;
+  /** Fraction complete, 0–1 */
+  progress: number;
+  /** Human-readable status from the runtime */
+  text: string;
+  /** Whether the weights were served from the local cache */
+  cached: boolean;
+}
+
+/** OpenAI-style chat message accepted by both runtimes. */
+export interface WebLLMChatMessage {
+  role: "system" | "user" | "assistant";
+  content: string;
+}
+
+/** OpenAI-style chat completion request (the subset we use). */
+export interface WebLLMChatRequest {
+  messages: WebLLMChatMessage[];
+  temperature?: number;
+  max_tokens?: number;
+  top_p?: number;
+  stop?: string[];
+  response_format?: { type: "text" | "json_object" };
+}
+
+interface WebLLMUsage {
+  prompt_tokens: number;
+  completion_tokens: number;
+  total_tokens: number;
+}
+
+/** OpenAI-style chat completion response. */
+export interface WebLLMChatResponse {
+  model: string;
+  choices: Array<{ message: { content: string | null }; finish_reason: string | null }>;
+  usage?: WebLLMUsage | null;
+}
+
+/** OpenAI-style streaming chunk. */
+export interface WebLLMChatChunk {
+  model: string;
+  choices: Array<{ delta: { content?: string | null }; finish_reason: string | null }>;
+  usage?: WebLLMUsage | null;
+}
+
+/** A loaded model, ready to serve chat completions. */
+export interface WebLLMEngine {
+  readonly backend: WebLLMBackend;
+  readonly modelId: string;
+  complete(request: WebLLMChatRequest): Promise<WebLLMChatResponse>;
+  stream(request: WebLLMChatRequest): Promise<AsyncIterable<WebLLMChatChunk>>;
+  /** Free the model's memory. */
+  unload(): Promise<void>;
+}
+
+/** Loads `model` on `backend`, reporting download progress. */
+export type WebLLMEngineLoader = (
+  backend: WebLLMBackend,
+  model: string,
+  onProgress: (progress: WebLLMLoadProgress) => void
+) => Promise<WebLLMEngine>;
+
+// ---------------------------------------------------------------------------
+// Backend detection
+// ---------------------------------------------------------------------------
+
+/** Minimal shape of `navigator.gpu`, which is not in the DOM typings. */
+interface GPULike {
+  requestAdapter(): Promise<unknown>;
+}
+
+/**
+ * Pick the best available backend: WebGPU if an adapter can be obtained,
+ * otherwise WebAssembly. Returns `null` if neither is available.
+ */
+export async function detectWebLLMBackend(): Promise<WebLLMBackend | null> {
+  const gpu = (globalThis.navigator as (Navigator & { gpu?: GPULike }) | undefined)?.gpu;
+  if (gpu) {
+    try {
+      if (await gpu.requestAdapter()) return "webgpu";
+    } catch {
+      // Fall through to the CPU path.
+    }
+  }
+  return typeof WebAssembly === "object" ? "wasm" : null;
+}
+
+// ---------------------------------------------------------------------------
+// Model ids
+// ---------------------------------------------------------------------------
+
+/** Quantisation used when the configured model is a bare name. */
+const MLC_DEFAULT_QUANT = "q4f16_1";
+const GGUF_DEFAULT_QUANT = "Q4_K_M";
+
+/**
+ * Map a configured model name to an MLC prebuilt model id, e.g.
+ * `Llama-3.2-1B-Instruct` → `Llama-3.2-1B-Instruct-q4f16_1-MLC`.
+ */
+export function toMLCModelId(model: string): string {
+  return model.endsWith("-MLC") ? model : `${model}-${MLC_DEFAULT_QUANT}-MLC`;
+}
+
+/**
+ * Map a configured model name to a GGUF source for the WASM runtime.
+ * Full `.gguf` URLs are used as-is; bare names resolve to the matching
+ * community GGUF repository on Hugging Face.
+ */
+export function toGGUFSource(model: string): { url: string } | { repo: string; quant: string } {
+  if (/^https?:\/\//.test(model)) return { url: model };
+  const base = model.replace(/-q\w+-MLC$/, "");
+  return { repo: `bartowski/${base}-GGUF`, quant: GGUF_DEFAULT_QUANT };
+}
+
+// ---------------------------------------------------------------------------
+// Loaders
+// ---------------------------------------------------------------------------
+
+/** Load a model through MLC WebLLM on WebGPU. */
+async function loadMLCEngine(
+  model: string,
+  onProgress: (progress: WebLLMLoadProgress) => void
+): Promise<WebLLMEngine> {
+  const webllm = await import("@mlc-ai/web-llm");
+  const modelId = toMLCModelId(model);
+  const cached = await webllm.hasModelInCache(modelId).catch(() => false);
+
+  const engine = await webllm.CreateMLCEngine(modelId, {
+    initProgressCallback: (report) =>
+      onProgress({ backend: "webgpu", progress: report.progress, text: report.text, cached }),
+  });
+
+  return {
+    backend: "webgpu",
+    modelId,
+    complete: (request) => engine.chat.completions.create({ ...request, stream: false }),
+    stream: (request) =>
+      engine.chat.completions.create({
+        ...request,
+        stream: true,
+        stream_options: { include_usage: true },
+      }),
+    unload: () => engine.unload(),
+  };
+}
+
+/** Load a GGUF model through wllama on the CPU. */
+async function loadWasmEngine(
+  model: string,
+  onProgress: (progress: WebLLMLoadProgress) => void
+): Promise<WebLLMEngine> {
+  const { Wllama } = await import("@wllama/wllama/esm/index.js");
+  const wllama = new Wllama({ default: wllamaWasmUrl }, { suppressNativeLog: true });
+
+  const source = toGGUFSource(model);
+  const mb = (bytes: number) => Math.round(bytes / 1_048_576);
+  const params = {
+    progressCallback: ({ loaded, total }: { loaded: number; total: number }) =>
+      onProgress({
+        backend: "wasm",
+        progress: total > 0 ? loaded / total : 0,
+        text: `Downloading model (${mb(loaded)} / ${mb(total)} MB)`,
+        cached: false,
+      }),
+  };
+
+  if ("url" in source) {
+    await wllama.loadModelFromUrl(source.url, params);
+  } else {
+    await wllama.loadModelFromHF(source, params);
+  }
+  onProgress({ backend: "wasm", progress: 1, text: "Model loaded", cached: false });
+
+  return {
+    backend: "wasm",
+    modelId: "url" in source ? source.url : source.repo,
+    complete: async (request) =>
+      (await wllama.createChatCompletion({ ...request, stream: false })) as WebLLMChatResponse,
+    stream: async (request) =>
+      (await wllama.createChatCompletion({
+        ...request,
+        stream: true,
+      })) as AsyncIterable<WebLLMChatChunk>,
+    unload: () => wllama.exit(),
+  };
+}
+
+/** Default {@link WebLLMEngineLoader}: dispatches to the runtime for `backend`. */
+export const loadWebLLMEngine: WebLLMEngineLoader = (backend, model, onProgress) =>
+  backend === "webgpu" ? loadMLCEngine(model, onProgress) : loadWasmEngine(model, onProgress);
@@ -0,0 +1,254 @@
+/**
+ * WebLLMProvider — Fully in-extension inference, no server or API key.
+ *
+ * Runs the model inside the extension using WebGPU where available and
+ * falls back to a WebAssembly (CPU) runtime otherwise. Model weights are
+ * downloaded on first use and cached by the browser for later sessions.
+ */
+
+import type { GenerateOptions, LLMConfig, LLMMessage, LLMResponse } from "~types/llm";
+import type { LLMProviderInterface } from "../ProviderFactory";
+import { detectWebLLMBackend, loadWebLLMEngine, toMLCModelId } from "./WebLLMEngines";
+import type {
+  WebLLMBackend,
+  WebLLMChatMessage,
+  WebLLMChatRequest,
+  WebLLMEngine,
+  WebLLMEngineLoader,
+  WebLLMLoadProgress,
+} from "./WebLLMEngines";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** Options for {@link WebLLMProvider} beyond the shared {@link LLMConfig}. */
+export interface WebLLMProviderOptions {
+  /** Force a backend instead of auto-detecting one */
+  backend?: WebLLMBackend;
+  /** Override how engines are loaded (e.g. in tests) */
+  loadEngine?: WebLLMEngineLoader;
+}
+
+// ---------------------------------------------------------------------------
+// WebLLMProvider
+// ---------------------------------------------------------------------------
+
+/**
+ * Provider that runs an open-weights model locally in the browser.
+ *
+ * The model is loaded lazily on the first request; call {@link load}
+ * up front to start the download early and {@link onProgress} to show
+ * download / caching progress.
+ */
+export class WebLLMProvider implements LLMProviderInterface {
+  private readonly model: string;
+  private readonly forcedBackend?: WebLLMBackend;
+  private readonly loadEngine: WebLLMEngineLoader;
+  private enginePromise: Promise<WebLLMEngine> | null = null;
+  private progressListeners = new Set<(progress: WebLLMLoadProgress) => void>();
+  private lastProgress: WebLLMLoadProgress | null = null;
+
+  constructor(config: LLMConfig, options?: WebLLMProviderOptions) {
+    this.model = config.model ?? "Llama-3.2-1B-Instruct";
+    this.forcedBackend = options?.backend;
+    this.loadEngine = options?.loadEngine ?? loadWebLLMEngine;
+  }
+
+  // -----------------------------------------------------------------------
+  // Public API
+  // -----------------------------------------------------------------------
+
+  /**
+   * Generate a chat completion with the local model.
+   */
+  async complete(messages: LLMMessage[], options?: GenerateOptions): Promise<LLMResponse> {
+    const engine = await this.load();
+    options?.signal?.throwIfAborted();
+    const data = await engine.complete(this.buildRequest(messages, options));
+
+    const choice = data.choices[0];
+    return {
+      content: choice?.message?.content ?? "",
+      model: data.model || engine.modelId,
+      usage: data.usage
+        ? {
+            promptTokens: data.usage.prompt_tokens,
+            completionTokens: data.usage.completion_tokens,
+            totalTokens: data.usage.total_tokens,
+          }
+        : undefined,
+      finishReason: this.mapFinishReason(choice?.finish_reason),
+    };
+  }
+
+  /**
+   * Stream a chat completion, invoking `onChunk` for each token batch.
+   */
+  async completeStreaming(
+    messages: LLMMessage[],
+    onChunk: (chunk: string) => void,
+    options?: GenerateOptions
+  ): Promise<LLMResponse> {
+    const engine = await this.load();
+    const chunks = await engine.stream(this.buildRequest(messages, options));
+
+    let accumulated = "";
+    let response: LLMResponse = { content: "", model: engine.modelId };
+
+    for await (const chunk of chunks) {
+      // Leaving the loop stops generation in both runtimes.
+      options?.signal?.throwIfAborted();
+      const content = chunk.choices[0]?.delta?.content;
+      if (content) {
+        accumulated += content;
+        onChunk(content);
+      }
+      response = {
+        ...response,
+        model: chunk.model || response.model,
+        finishReason:
+          this.mapFinishReason(chunk.choices[0]?.finish_reason) ?? response.finishReason,
+        usage: chunk.usage
+          ? {
+              promptTokens: chunk.usage.prompt_tokens,
+              completionTokens: chunk.usage.completion_tokens,
+              totalTokens: chunk.usage.total_tokens,
+            }
+          : response.usage,
+      };
+    }
+
+    return { ...response, content: accumulated };
+  }
+
+  /**
+   * Whether the browser can run a local model at all (WebGPU or
+   * WebAssembly). Does not download the model.
+   */
+  async testConnection(): Promise<boolean> {
+    return (await this.resolveBackend()) !== null;
+  }
+
+  /**
+   * Models this provider can run: the MLC prebuilt catalogue on WebGPU,
+   * or the configured model on the WASM path.
+   */
+  async listModels(): Promise<string[]> {
+    if ((await this.resolveBackend()) !== "webgpu") return [this.model];
+
+    const { prebuiltAppConfig } = await import("@mlc-ai/web-llm");
+    return prebuiltAppConfig.model_list.map((m) => m.model_id);
+  }
+
+  /**
+   * Download (or load from cache) and initialise the model. Safe to call
+   * repeatedly; concurrent callers share one load.
+   */
+  load(): Promise<WebLLMEngine> {
+    if (!this.enginePromise) {
+      this.enginePromise = this.createEngine().catch((err: unknown) => {
+        this.enginePromise = null;
+        throw err;
+      });
+    }
+    return this.enginePromise;
+  }
+
+  /** Free the model's memory. The next request reloads it. */
+  async unload(): Promise<void> {
+    const pending = this.enginePromise;
+    this.enginePromise = null;
+    if (pending) {
+      await (await pending.catch(() => null))?.unload();
+    }
+  }
+
+  /**
+   * Subscribe to download / load progress. Returns an unsubscribe function.
+   * The most recent progress report is replayed immediately.
+   */
+  onProgress(listener: (progress: WebLLMLoadProgress) => void): () => void {
+    this.progressListeners.add(listener);
+    if (this.lastProgress) listener(this.lastProgress);
+    return () => this.progressListeners.delete(listener);
+  }
+
+  // -----------------------------------------------------------------------
+  // Private helpers
+  // -----------------------------------------------------------------------
+
+  private async resolveBackend(): Promise<WebLLMBackend | null> {
+    return this.forcedBackend ?? detectWebLLMBackend();
+  }
+
+  private async createEngine(): Promise<WebLLMEngine> {
+    const backend = await this.resolveBackend();
+    if (!backend) {
+      throw new Error("WebLLMProvider: this browser supports neither WebGPU nor WebAssembly");
+    }
+
+    let engine: WebLLMEngine;
+    try {
+      engine = await this.loadOn(backend);
+    } catch (err) {
+      // A GPU adapter does not guarantee the model runs on it (unsupported
+      // shaders, too little GPU memory); the CPU runtime still can.
+      if (backend !== "webgpu" || this.forcedBackend) throw err;
+      console.warn("[WebLLMProvider] WebGPU load failed, falling back to WebAssembly:", err);
+      engine = await this.loadOn("wasm");
+    }
+
+    console.info(`[WebLLMProvider] ${engine.modelId} ready on ${engine.backend}`);
+    return engine;
+  }
+
+  /** Load the model on `backend`, relaying its progress to listeners. */
+  private loadOn(backend: WebLLMBackend): Promise<WebLLMEngine> {
+    const model = backend === "webgpu" ? toMLCModelId(this.model) : this.model;
+    console.info(`[WebLLMProvider] Loading ${model} on ${backend}`);
+
+    return this.loadEngine(backend, model, (progress) => {
+      this.lastProgress = progress;
+      for (const listener of this.progressListeners) listener(progress);
+    });
+  }
+
+  /** Build an OpenAI-compatible request for the engine. */
+  private buildRequest(messages: LLMMessage[], options?: GenerateOptions): WebLLMChatRequest {
+    const request: WebLLMChatRequest = {
+      messages: messages.map((m) => this.toChatMessage(m)),
+    };
+
+    if (options?.temperature !== undefined) request.temperature = options.temperature;
+    if (options?.maxTokens) request.max_tokens = options.maxTokens;
+    if (options?.topP !== undefined) request.top_p = options.topP;
+    if (options?.stop) request.stop = options.stop;
+    if (options?.responseFormat === "json") {
+      request.response_format = { type: "json_object" };
+    }
+
+    return request;
+  }
+
+  /**
+   * Local chat templates only know system / user / assistant, so tool
+   * results are passed back as user turns.
+   */
+  private toChatMessage(message: LLMMessage): WebLLMChatMessage {
+    if (message.role === "tool") {
+      return { role: "user", content: `Result of ${message.name ?? "tool"}:\n${message.content}` };
+    }
+    return { role: message.role, content: message.content };
+  }
+
+  /** Map finish_reason to our typed union. */
+  private mapFinishReason(
+    reason: string | null | undefined
+  ): "stop" | "length" | "tool_calls" | undefined {
+    if (reason === "stop") return "stop";
+    if (reason === "length") return "length";
+    if (reason === "tool_calls") return "tool_calls";
+    return undefined;
+  }
+}
@@ -3,7 +3,7 @@
  */
 
 import type { ActionResult } from "./common";
-import type { BrowserAction, DOMState } from "./browser";
+import type { ActionType, BrowserAction, DOMState } from "./browser";
 import type { Screenshot } from "./vision";
 import type { Task, TaskType, TaskStatus, Observation, DataMapping } from "./orchestration";
 
@@ -52,6 +52,8 @@ export interface AdapterKnowledge {
   commonTasks: TaskTemplateMap;
   /** Tips for working with this site */
   tips?: string[];
+  /** Prompt templates keyed by name (from `prompts/*.txt`) */
+  prompts?: Record<string, string>;
 }
 
 /**
@@ -132,6 +134,8 @@ export interface CanvasInteractionRule {
   fallback?: "vision" | "coordinate";
   /** Wait time after interaction (ms) */
   waitAfter?: number;
+  /** Guidance for the agent when using this interaction */
+  notes?: string[];
 }
 
 /**
@@ -155,8 +159,81 @@ export type TaskTemplateMap = Record<string, TaskTemplate>;
  * Condition for task execution
  */
 export interface TaskCondition {
-  /** Condition expression to evaluate */
+  /**
+   * Expression over `row`, `vars` and `page` (see `ConditionEvaluator`),
+   * e.g. `row.status == 'done'`
+   */
   check: string;
-  /** Action to take if condition fails */
+  /** Action to take when `check` is true */
   action: "skip" | "fail" | "warn";
 }
+
+/**
+ * What the custom action scripts of an adapter pack are allowed to do.
+ * A pack declares its capabilities in its manifest; every script step is
+ * checked against them before it runs.
+ */
+export type AdapterCapability = "interact" | "input" | "navigate" | "capture" | "evaluate";
+
+/**
+ * Capability each action type requires inside a custom action script.
+ * `null` means the action is always allowed.
+ */
+export const ACTION_CAPABILITIES: Record<ActionType, AdapterCapability | null> = {
+  click: "interact",
+  hover: "interact",
+  scroll: "interact",
+  press_key: "interact",
+  type: "input",
+  upload: "input",
+  navigate: "navigate",
+  screenshot: "capture",
+  evaluate: "evaluate",
+  wait: null,
+  custom: null,
+};
+
+/**
+ * `manifest.yaml` of a user-installable adapter pack
+ */
+export interface AdapterPackManifest {
+  /** Adapter name, unique among installed adapters */
+  name: string;
+  version: string;
+  description?: string;
+  /** Domains this adapter supports (e.g., ["express.adobe.com"]) */
+  supportedDomains: string[];
+  /** Capabilities granted to the pack's custom action scripts */
+  capabilities: AdapterCapability[];
+  /** Paths of the knowledge files within the pack */
+  knowledge: {
+    selectors: string;
+    workflows?: string;
+    canvasRules?: string;
+    prompts?: string[];
+  };
+  /** Custom action names mapped to script paths within the pack */
+  actions?: Record<string, string>;
+  tips?: string[];
+}
+
+/**
+ * An installed adapter pack: its manifest and the raw contents of every
+ * file in the pack, keyed by path
+ */
+export interface AdapterPack {
+  manifest: AdapterPackManifest;
+  files: Record<string, string>;
+  installedAt: string;
+}
+
+/**
+ * A custom action script from an adapter pack
+ */
+export interface CustomActionScript {
+  name: string;
+  description: string;
+  /** Parameter names accepted as `{{param}}` placeholders */
+  params: string[];
+  steps: WorkflowStep[];
+}
@@ -17,7 +17,8 @@ export type ActionType =
   | "scroll"
   | "hover"
   | "press_key"
-  | "evaluate";
+  | "evaluate"
+  | "custom";
 
 /**
  * Base interface for all browser actions
@@ -27,6 +28,8 @@ export interface BrowserAction {
   target?: ElementSelector;
   value?: unknown;
   options?: ActionOptions;
+  /** What the target is, to find it by vision if its selector breaks */
+  description?: string;
 }
 
 /**
@@ -105,6 +108,18 @@ export interface ScrollAction extends BrowserAction {
   toElement?: boolean;
 }
 
+/**
+ * Adapter-specific action, run by the active adapter's
+ * `executeCustomAction` instead of the BrowserAgent
+ */
+export interface CustomAction extends BrowserAction {
+  type: "custom";
+  /** Name of the custom action, e.g. `publish` */
+  name: string;
+  /** Arguments, substituted into the action's `{{param}}` placeholders */
+  params?: Record<string, unknown>;
+}
+
 /**
  * Current state of the DOM
  */
@@ -115,6 +130,8 @@ export interface DOMState {
   forms: FormElement[];
   canvasElements: CanvasElement[];
   iframes: IFrameInfo[];
+  /** Viewport size in CSS pixels */
+  viewport?: { width: number; height: number };
   timestamp: string;
 }
 
@@ -164,6 +181,40 @@ export interface IFrameInfo {
   sandboxed: boolean;
 }
 
+/**
+ * A replacement for a broken selector, learned by self-healing and applied
+ * before the original on later actions
+ */
+export interface SelectorOverride {
+  /** Adapter handling the page, or "" when none matched */
+  adapter: string;
+  /** Host name the override was learned on */
+  domain: string;
+  /** The selector that stopped matching */
+  original: string;
+  replacement: string;
+  /** 0-1; rises with each success, halves with each failure */
+  confidence: number;
+  successes: number;
+  failures: number;
+  learnedAt: string;
+  lastUsedAt?: string;
+  /** Reviewed and promoted by the user; never revoked automatically */
+  promoted?: boolean;
+}
+
+/**
+ * Where learned {@link SelectorOverride}s are kept (the background's
+ * `StateManager`)
+ */
+export interface SelectorOverrideStore {
+  getSelectorOverrides(): Promise<SelectorOverride[]>;
+  saveSelectorOverride(override: SelectorOverride): Promise<void>;
+  removeSelectorOverride(
+    key: Pick<SelectorOverride, "adapter" | "domain" | "original">
+  ): Promise<boolean>;
+}
+
 /**
  * MCP action to execute via MCP server
  */
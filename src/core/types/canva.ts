@@ -0,0 +1,55 @@
+/**
+ * Canva custom action types, shared by the Canva adapter and the Canva
+ * content script
+ */
+
+import type { CustomAction } from "./browser";
+import type { JobConfig } from "./orchestration";
+
+/**
+ * File types offered by Canva's download panel
+ */
+export type CanvaExportFormat = JobConfig["exportFormat"];
+
+/**
+ * Parameters of each Canva custom action. Layer and page indexes are
+ * 0-based, in document order.
+ */
+export interface CanvaActionParams {
+  /** Click the text layer at `index` */
+  selectTextLayer: { index: number };
+  /** Replace the text of the layer at `index`, or of the selected text layer */
+  replaceText: { text: string; index?: number };
+  /** Replace the image layer at `index` (or the selected image) with an uploaded asset */
+  replaceImageFromAsset: { asset: string; index?: number };
+  /** Duplicate the page at `page`, or the current page */
+  duplicatePage: { page?: number };
+  /** Pick the file type in the open download panel */
+  setExportFormat: { format: CanvaExportFormat };
+  /** Open Share → Download, optionally pick a file type, and download */
+  downloadDesign: { format?: CanvaExportFormat };
+}
+
+/**
+ * Names of the Canva custom actions
+ */
+export type CanvaActionName = keyof CanvaActionParams;
+
+/**
+ * A custom action the Canva adapter can run
+ */
+export type CanvaCustomAction<N extends CanvaActionName = CanvaActionName> = CustomAction & {
+  name: N;
+  params: CanvaActionParams[N];
+};
+
+/**
+ * Message the background sends to the Canva content script
+ */
+export interface CanvaMessage {
+  platform: "canva";
+  customAction: string;
+  /** Legacy parameter of `selectTextElement` */
+  index?: number;
+  params?: Record<string, unknown>;
+}
@@ -30,7 +30,9 @@ export interface BoundingBox {
 export type ElementSelector =
   | { type: "css"; selector: string }
   | { type: "coordinates"; x: number; y: number }
-  | { type: "semantic"; description: string };
+  | { type: "semantic"; description: string }
+  /** Name of an entry in the active adapter's SelectorMap */
+  | { type: "named"; name: string };
 
 /**
  * Represents an element on the page with location information
@@ -25,8 +25,26 @@ export interface LLMPreferences {
   providers: Record<LLMProvider, LLMConfig>;
   /** Fallback chain when primary provider fails */
   fallbackChain: LLMProvider[];
+  /**
+   * Price per provider and model, used for cost accounting. The `"*"`
+   * model key applies to any model of that provider without its own entry.
+   */
+  pricing: PricingTable;
 }
 
+/**
+ * Price of a model in US dollars per million tokens
+ */
+export interface ModelPricing {
+  inputPerMillion: number;
+  outputPerMillion: number;
+}
+
+/**
+ * Pricing table keyed by provider, then model
+ */
+export type PricingTable = Partial<Record<LLMProvider, Record<string, ModelPricing>>>;
+
 /**
  * Vision model preferences
  */
@@ -93,6 +111,20 @@ export const DEFAULT_CONFIG: UserConfig = {
       webllm: { type: "webllm", model: "Llama-3.2-1B-Instruct" },
     },
     fallbackChain: ["groq", "ollama"],
+    pricing: {
+      groq: {
+        "llama-3.3-70b-versatile": { inputPerMillion: 0.59, outputPerMillion: 0.79 },
+        "llama-3.1-8b-instant": { inputPerMillion: 0.05, outputPerMillion: 0.08 },
+      },
+      deepseek: {
+        "deepseek-chat": { inputPerMillion: 0.27, outputPerMillion: 1.1 },
+        "deepseek-reasoner": { inputPerMillion: 0.55, outputPerMillion: 2.19 },
+      },
+      // Local providers run on the user's hardware.
+      ollama: { "*": { inputPerMillion: 0, outputPerMillion: 0 } },
+      lmstudio: { "*": { inputPerMillion: 0, outputPerMillion: 0 } },
+      webllm: { "*": { inputPerMillion: 0, outputPerMillion: 0 } },
+    },
   },
   vision: {
     preferLocal: true,
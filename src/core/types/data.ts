@@ -2,10 +2,12 @@
  * Data source and parsing types
  */
 
+import type { JobBudget } from "./orchestration";
+
 /**
  * Types of data sources supported
  */
-export type DataSourceType = "csv" | "sheets" | "json" | "manual";
+export type DataSourceType = "csv" | "sheets" | "json" | "manual" | "xlsx" | "ods";
 
 /**
  * A data source configuration
@@ -25,9 +27,9 @@ export interface DataSourceConfig {
   delimiter?: string;
   /** Whether CSV has header row */
   hasHeader?: boolean;
-  /** Google Sheets sheet name */
+  /** Google Sheets or workbook sheet name */
   sheetName?: string;
-  /** Google Sheets range (e.g., "A1:Z100") */
+  /** Google Sheets or workbook range (e.g., "A1:Z100") */
   range?: string;
 }
 
@@ -46,6 +48,112 @@ export interface ParsedData {
   parsedAt: string;
 }
 
+/**
+ * Steps of a field's transformation pipeline
+ */
+export type TransformationType =
+  | "uppercase"
+  | "lowercase"
+  | "trim"
+  | "titleCase"
+  | "truncate"
+  | "dateFormat"
+  | "number"
+  | "currency"
+  | "urlEncode"
+  | "template"
+  | "lookup"
+  | "default"
+  | "conditional";
+
+/**
+ * One transformation step. Steps are plain JSON so mappings can be saved
+ * with a job; text options may use `{{column}}` placeholders, and
+ * `{{value}}` is the value so far.
+ */
+export interface Transformation {
+  type: TransformationType;
+  /** Maximum length for `truncate` */
+  maxLength?: number;
+  /** `truncate`: cut at a word boundary and append this (e.g., "…") */
+  ellipsis?: string;
+  /** Pattern for `dateFormat` (e.g., "DD MMM YYYY"); ISO `YYYY-MM-DD` when unset */
+  dateFormat?: string;
+  /** BCP 47 locale for `number`, `currency` and `dateFormat` names (e.g., "de-DE") */
+  locale?: string;
+  /** ISO 4217 code for `currency` (e.g., "EUR") */
+  currency?: string;
+  /** Fraction digits for `number` and `currency` */
+  decimals?: number;
+  /** Text for `template` */
+  template?: string;
+  /** `lookup`: value → replacement */
+  table?: Record<string, string>;
+  /** `lookup`: used for values missing from the table */
+  fallback?: string;
+  /** `default`: used when the value is empty */
+  value?: string;
+  /** `conditional`: the test */
+  when?: TransformCondition;
+  /** `conditional`: used when the test passes */
+  then?: string;
+  /** `conditional`: used when the test fails; the value is kept when unset */
+  otherwise?: string;
+}
+
+/**
+ * Test of a `conditional` transformation; every check given must pass
+ */
+export interface TransformCondition {
+  /** Column to test; the value so far by default */
+  column?: string;
+  equals?: string;
+  notEquals?: string;
+  contains?: string;
+  /** Regular expression source */
+  matches?: string;
+  /** Whether the tested value is empty (blank) */
+  empty?: boolean;
+}
+
+/**
+ * How a design field is filled: a source column, transformed by each step
+ * in order. Without a column the pipeline starts from an empty value,
+ * e.g. for a `template` combining several columns.
+ */
+export interface FieldMapping {
+  column?: string;
+  transforms?: Transformation[];
+}
+
+/**
+ * Design field → column name or {@link FieldMapping}
+ */
+export type FieldMappings = Record<string, string | FieldMapping>;
+
+/**
+ * A Google Sheet polled on a schedule; every new or changed row becomes a
+ * job built from a saved prompt and mapping
+ */
+export interface SheetSync {
+  id: string;
+  sheetUrl: string;
+  /** A1 range, optionally with a sheet name (e.g., "Leads!A:F") */
+  range?: string;
+  prompt: string;
+  /** Design fields added to each row, from a sheet column or transformed */
+  dataMapping?: FieldMappings;
+  /** Columns that identify a row; rows repeating a key are skipped */
+  keyColumns?: string[];
+  intervalMinutes: number;
+  enabled: boolean;
+  /** Queue jobs for the rows already in the sheet on the first poll */
+  includeExisting?: boolean;
+  budget?: JobBudget;
+  createdAt: string;
+  lastSyncedAt?: string;
+}
+
 /**
  * Collection of assets (images, fonts, etc.)
  */
@@ -0,0 +1,101 @@
+/**
+ * Figma plugin bridge types, shared by the Figma adapter, the Figma content
+ * script and the companion plugin in `figma-plugin/`
+ */
+
+import type { CustomAction } from "./browser";
+import type { DataRow } from "./data";
+
+/**
+ * Tag on every bridge message, in both directions
+ */
+export const FIGMA_BRIDGE_SOURCE = "browserai-craft-bridge";
+
+/**
+ * File types the plugin can export
+ */
+export type FigmaExportFormat = "png" | "jpg" | "svg" | "pdf";
+
+/**
+ * Parameters of each Figma custom action. Layers and frames are addressed
+ * by name; `frame` limits the search to one top-level frame.
+ */
+export interface FigmaActionParams {
+  /** Check that the plugin bridge is running */
+  ping: Record<string, never>;
+  /** Read the current page's node tree, `depth` levels deep */
+  getNodeTree: { depth?: number };
+  /** Set the characters of a text layer, loading its fonts first */
+  setText: { layer: string; text: string; frame?: string };
+  /** Replace the image fill of a layer with the image at `imageUrl` */
+  setImageFill: { layer: string; imageUrl: string; frame?: string };
+  /**
+   * Clone `frame` once per row and fill each copy: text layers named after
+   * a column get its value, other layers named after a column with an
+   * image fill get the image at its URL
+   */
+  cloneFrame: { frame: string; rows: DataRow[]; nameColumn?: string };
+  /** Export a frame and download it */
+  exportFrame: { frame: string; format: FigmaExportFormat; scale?: number };
+}
+
+/**
+ * Names of the Figma custom actions
+ */
+export type FigmaActionName = keyof FigmaActionParams;
+
+/**
+ * A custom action the Figma adapter can run
+ */
+export type FigmaCustomAction<N extends FigmaActionName = FigmaActionName> = CustomAction & {
+  name: N;
+  params: FigmaActionParams[N];
+};
+
+/**
+ * A node in the tree returned by `getNodeTree`
+ */
+export interface FigmaNodeSummary {
+  id: string;
+  name: string;
+  type: string;
+  /** Text of TEXT nodes */
+  characters?: string;
+  /** Whether the node has an image fill */
+  hasImageFill?: boolean;
+  children?: FigmaNodeSummary[];
+}
+
+/**
+ * What the plugin returns for `exportFrame`; the content script turns it
+ * into a download
+ */
+export interface FigmaExportData {
+  name: string;
+  format: FigmaExportFormat;
+  /** The exported file, base64-encoded */
+  base64: string;
+}
+
+/**
+ * Request sent from the content script to the plugin
+ */
+export interface FigmaBridgeRequest {
+  source: typeof FIGMA_BRIDGE_SOURCE;
+  direction: "request";
+  id: string;
+  action: FigmaActionName;
+  params: Record<string, unknown>;
+}
+
+/**
+ * The plugin's answer to a {@link FigmaBridgeRequest}
+ */
+export interface FigmaBridgeResponse {
+  source: typeof FIGMA_BRIDGE_SOURCE;
+  direction: "response";
+  id: string;
+  success: boolean;
+  data?: unknown;
+  error?: string;
+}
@@ -29,3 +29,12 @@ export * from "./mcp";
 
 // Configuration types
 export * from "./config";
+
+// Canva custom action types
+export * from "./canva";
+
+// Figma plugin bridge types
+export * from "./figma";
+
+// Recorder types
+export * from "./recorder";
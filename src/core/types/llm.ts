@@ -39,6 +39,10 @@ export interface LLMMessage {
   name?: string;
   /** Image URL for vision models (base64 or URL) */
   imageUrl?: string;
+  /** Id of the tool call this message answers, if role is 'tool' */
+  toolCallId?: string;
+  /** Tool calls requested by the model, if role is 'assistant' */
+  toolCalls?: ToolCall[];
 }
 
 /**
@@ -50,6 +54,8 @@ export interface LLMResponse {
   usage?: TokenUsage;
   finishReason?: "stop" | "length" | "tool_calls";
   toolCalls?: ToolCall[];
+  /** Provider that served the request (differs from the configured one after failover) */
+  provider?: LLMProvider;
 }
 
 /**
@@ -89,6 +95,14 @@ export interface ToolResult {
   isError: boolean;
 }
 
+/**
+ * Response from a tool-calling loop: the model's final answer plus the
+ * results of every tool it invoked along the way
+ */
+export interface ToolLoopResponse extends LLMResponse {
+  toolResults: ToolResult[];
+}
+
 /**
  * JSON Schema type definition for tool parameters
  */
@@ -120,6 +134,8 @@ export interface GenerateOptions {
   stop?: string[];
   /** Enable streaming */
   stream?: boolean;
+  /** Aborts the in-flight provider request */
+  signal?: AbortSignal;
   /** Response format */
   responseFormat?: "text" | "json";
   /** Tools available for the LLM to call */
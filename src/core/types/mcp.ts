@@ -20,6 +20,17 @@ export interface MCPClient {
   getServerInfo(): Promise<MCPServerInfo>;
 }
 
+/**
+ * Anything that can list and invoke MCP tools — a single server
+ * connection or a router spanning several servers
+ */
+export interface MCPToolSource {
+  /** Tools currently available for calling */
+  getAvailableTools(): Promise<MCPToolDefinition[]>;
+  /** Invoke a tool by name */
+  callTool(name: string, args: Record<string, unknown>): Promise<MCPToolResult>;
+}
+
 /**
  * Information about an MCP server
  */
@@ -48,9 +59,12 @@ export interface MCPToolResult {
 }
 
 /**
- * Configuration for connecting to an MCP server
+ * Configuration for an MCP server launched as a local process (stdio)
  */
-export interface MCPServerConfig {
+export interface MCPStdioServerConfig {
+  transport: "stdio";
+  /** Server name, used to namespace its tools */
+  name?: string;
   /** Command to run (e.g., "npx") */
   command: string;
   /** Command arguments */
@@ -59,6 +73,25 @@ export interface MCPServerConfig {
   env?: Record<string, string>;
 }
 
+/**
+ * Configuration for an MCP server reachable over HTTP.
+ * `http` is the streamable-HTTP transport, `sse` the older HTTP+SSE one.
+ */
+export interface MCPHttpServerConfig {
+  transport: "http" | "sse";
+  /** Server name, used to namespace its tools */
+  name?: string;
+  /** Endpoint URL (e.g., "http://localhost:8931/mcp") */
+  url: string;
+  /** Extra headers sent with every request (e.g., Authorization) */
+  headers?: Record<string, string>;
+}
+
+/**
+ * Configuration for connecting to an MCP server
+ */
+export type MCPServerConfig = MCPStdioServerConfig | MCPHttpServerConfig;
+
 /**
  * MCP JSON-RPC request
  */
@@ -79,6 +112,38 @@ export interface MCPResponse {
   error?: MCPError;
 }
 
+/**
+ * MCP JSON-RPC notification (no response expected)
+ */
+export interface MCPNotification {
+  jsonrpc: "2.0";
+  method: string;
+  params?: Record<string, unknown>;
+}
+
+/**
+ * Any JSON-RPC message exchanged with an MCP server
+ */
+export type MCPMessage = MCPRequest | MCPResponse | MCPNotification;
+
+/**
+ * Message channel to an MCP server (stdio, HTTP, ...).
+ * The transport only moves JSON-RPC messages; request/response
+ * correlation is handled by the client.
+ */
+export interface MCPTransport {
+  /** Open the underlying connection (spawn the process, connect the stream, ...) */
+  start(): Promise<void>;
+  /** Send a single JSON-RPC message */
+  send(message: MCPMessage): Promise<void>;
+  /** Close the connection and release resources */
+  close(): Promise<void>;
+  /** Called for every message received from the server */
+  onmessage?: (message: MCPMessage) => void;
+  /** Called when the connection closes unexpectedly or is closed */
+  onclose?: (error?: Error) => void;
+}
+
 /**
  * MCP error object
  */
@@ -3,10 +3,10 @@
  */
 
 import type { ActionResult } from "./common";
-import type { LLMConfig } from "./llm";
+import type { LLMConfig, LLMProvider, TokenUsage } from "./llm";
 import type { Screenshot } from "./vision";
 import type { BrowserAction, DOMState } from "./browser";
-import type { AssetCollection, DataRow, DataSource } from "./data";
+import type { AssetCollection, DataRow, DataSource, FieldMappings } from "./data";
 
 /**
  * Mapping between design fields and data columns
@@ -34,6 +34,16 @@ export interface Job {
   completedAt?: string;
   results: DesignResult[];
   errors: JobError[];
+  /** Structured interpretation of the prompt, set when the job is planned */
+  parsedPrompt?: ParsedPrompt;
+  /** LLM usage so far, including planning */
+  usage?: UsageTotals;
+  /** Projected usage for the whole job, computed when it is planned */
+  estimatedUsage?: UsageTotals;
+  /** Why the job was paused by the system (e.g. budget exceeded) */
+  pausedReason?: string;
+  /** Data rows and variables that fill adapter workflow placeholders */
+  context?: Pick<ExecutionContext, "dataRows" | "variables">;
 }
 
 /**
@@ -54,6 +64,29 @@ export interface JobConfig {
   /** Enable parallel task execution */
   parallel?: boolean;
   maxConcurrent?: number;
+  /** Pause the job once LLM usage passes these limits */
+  budget?: JobBudget;
+  /** Fields added to each data row before planning, e.g. formatted prices */
+  fieldMappings?: FieldMappings;
+}
+
+/**
+ * Usage limits for a job
+ */
+export interface JobBudget {
+  maxTokens?: number;
+  /** Maximum LLM spend in US dollars */
+  maxCostUSD?: number;
+}
+
+/**
+ * Aggregated LLM usage and its cost
+ */
+export interface UsageTotals extends TokenUsage {
+  /** Number of LLM requests */
+  requests: number;
+  /** Cost in US dollars according to the pricing table */
+  costUSD: number;
 }
 
 /**
@@ -73,6 +106,16 @@ export interface Task {
   attempts: number;
   result?: ActionResult;
   error?: string;
+  /** Key of the adapter `commonTasks` template this task was built from */
+  template?: string;
+  /** Name of the adapter that template belongs to */
+  adapter?: string;
+  /** Index of the data row this task operates on (bulk jobs) */
+  dataRowIndex?: number;
+  /** Template condition (`TaskCondition.check`) that skipped or failed this task */
+  condition?: string;
+  /** LLM usage spent on this task */
+  usage?: UsageTotals;
 }
 
 /**
@@ -155,6 +198,8 @@ export interface ParsedPrompt {
   exportFormat: "png" | "pdf" | "jpg" | "mp4";
   dataMapping?: DataMapping;
   additionalInstructions?: string;
+  /** Target platform named in the prompt (e.g. "canva", "figma") */
+  platform?: string;
 }
 
 /**
@@ -168,6 +213,8 @@ export interface JobError {
   timestamp: string;
   recoveryAttempted: boolean;
   recoverySucceeded?: boolean;
+  /** LLM provider in use when the task failed */
+  provider?: LLMProvider;
 }
 
 /**
@@ -208,7 +255,21 @@ export type MessageType =
   | "GET_ALL_JOBS"
   | "UPDATE_CONFIG"
   | "GET_CONFIG"
-  | "TEST_LLM_CONNECTION";
+  | "TEST_LLM_CONNECTION"
+  | "IMPORT_ADAPTER_PACK"
+  | "GET_ADAPTER_PACKS"
+  | "REMOVE_ADAPTER_PACK"
+  | "START_RECORDING"
+  | "RECORDER_EVENT"
+  | "STOP_RECORDING"
+  | "AUDIT_ADAPTER"
+  | "GET_SELECTOR_OVERRIDES"
+  | "PROMOTE_SELECTOR_OVERRIDE"
+  | "REMOVE_SELECTOR_OVERRIDE"
+  | "SAVE_SHEET_SYNC"
+  | "GET_SHEET_SYNCS"
+  | "REMOVE_SHEET_SYNC"
+  | "RUN_SHEET_SYNC";
 
 /**
  * Message payload structure
@@ -226,3 +287,19 @@ export interface MessageResponse<T = unknown> {
   data?: T;
   error?: string;
 }
+
+/**
+ * Name of the long-lived `chrome.runtime` port the side panel opens to
+ * receive {@link AgentStreamEvent}s
+ */
+export const AGENT_STREAM_PORT = "agent-stream";
+
+/**
+ * Live progress from a running job, streamed to the side panel
+ */
+export type AgentStreamEvent =
+  | { type: "think_start"; jobId: string; taskId: string; taskName: string; step: number }
+  | { type: "think_chunk"; jobId: string; taskId: string; chunk: string }
+  | { type: "think_end"; jobId: string; taskId: string; actions: BrowserAction[] }
+  | { type: "task_end"; jobId: string; taskId: string; status: TaskStatus; error?: string }
+  | { type: "job_end"; jobId: string; status: JobStatus };
@@ -0,0 +1,69 @@
+/**
+ * Recorder types: user interactions captured by the universal content script
+ * while a flow is demonstrated, and the draft adapter built from them
+ */
+
+import type { SelectorMap, Workflow } from "./adapter";
+
+/**
+ * A user interaction captured in record mode
+ */
+export type RecordedEvent =
+  | {
+      type: "click";
+      /** Stable CSS selector of the clicked element */
+      selector: string;
+      /** Human-readable name of the element (aria-label, text, placeholder…) */
+      label: string;
+      url: string;
+      timestamp: number;
+    }
+  | {
+      type: "type";
+      selector: string;
+      label: string;
+      /** The field's value after typing */
+      value: string;
+      url: string;
+      timestamp: number;
+    }
+  | {
+      type: "scroll";
+      /** Window scroll position after scrolling */
+      x: number;
+      y: number;
+      url: string;
+      timestamp: number;
+    }
+  | {
+      type: "navigate";
+      url: string;
+      timestamp: number;
+    };
+
+/**
+ * Adapter knowledge drafted from a recording, for review before export
+ */
+export interface RecordedDraft {
+  /** Workflow name, e.g. `createPost` */
+  name: string;
+  /** Domain the recording started on */
+  domain: string;
+  selectors: SelectorMap;
+  workflow: Workflow;
+  /** Placeholders inferred from data row columns, e.g. `headline` */
+  variables: string[];
+}
+
+/**
+ * A recording in progress, kept in session storage so it survives the
+ * service worker being suspended
+ */
+export interface RecordingSession {
+  /** Tab being recorded */
+  tabId: number;
+  /** URL of the page the recording started on */
+  startUrl: string;
+  /** Events recorded so far, after merging */
+  events: RecordedEvent[];
+}
@@ -4,7 +4,7 @@
  *
  * NOTE: Canvas operations currently use `document.createElement('canvas')`.
  * In a service-worker context, replace with `OffscreenCanvas` for
- * compatibility.
+ * compatibility, as {@link annotateScreenshot} already does.
  */
 
 import type { BoundingBox } from "~types/common";
@@ -41,6 +41,27 @@ function stripDataUrlPrefix(dataUrl: string): string {
   return idx >= 0 ? dataUrl.substring(idx + 1) : dataUrl;
 }
 
+/**
+ * Decode a base64 screenshot or data URL into an ImageBitmap. Unlike
+ * {@link loadImage}, this works in the background service worker.
+ */
+async function loadBitmap(screenshot: string): Promise<ImageBitmap> {
+  const type = screenshot.match(/^data:([^;,]+)/)?.[1] ?? "image/png";
+  const bytes = Uint8Array.from(atob(stripDataUrlPrefix(screenshot)), (c) => c.charCodeAt(0));
+  return createImageBitmap(new Blob([bytes], { type }));
+}
+
+/** Encode a blob as base64, without a data-URL prefix. */
+async function blobToBase64(blob: Blob): Promise<string> {
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  let binary = "";
+  // Chunked, as spreading a whole screenshot overflows the call stack.
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
 /** Get a 2D context from a canvas, throwing on failure. */
 function getContext(canvas: HTMLCanvasElement): CanvasRenderingContext2D {
   const ctx = canvas.getContext("2d");
@@ -261,7 +282,8 @@ export async function compressScreenshot(
 }
 
 /**
- * Annotate a screenshot with bounding boxes and labels.
+ * Annotate a screenshot with bounding boxes and labels. Draws on an
+ * `OffscreenCanvas`, so it also runs in the background service worker.
  */
 export async function annotateScreenshot(
   screenshot: string,
@@ -273,15 +295,12 @@ export async function annotateScreenshot(
     "annotations",
   );
 
-  const img = await loadImage(
-    screenshot.startsWith("data:") ? screenshot : `data:image/png;base64,${screenshot}`,
-  );
-
-  const canvas = document.createElement("canvas");
-  canvas.width = img.width;
-  canvas.height = img.height;
-  const ctx = getContext(canvas);
+  const img = await loadBitmap(screenshot);
+  const canvas = new OffscreenCanvas(img.width, img.height);
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("Failed to obtain 2D canvas context.");
   ctx.drawImage(img, 0, 0);
+  img.close();
 
   for (const ann of annotations) {
     const color = ann.color ?? "#FF0000";
@@ -308,5 +327,5 @@ export async function annotateScreenshot(
     ctx.fillText(ann.label, ann.bbox.x + 3, ann.bbox.y - 4);
   }
 
-  return stripDataUrlPrefix(canvas.toDataURL("image/png"));
+  return blobToBase64(await canvas.convertToBlob({ type: "image/png" }));
 }
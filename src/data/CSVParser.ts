@@ -2,7 +2,8 @@
  * CSVParser — Parse and validate CSV files for bulk automation.
  *
  * Handles delimiter detection, encoding, structure validation, and
- * converts raw CSV data into the internal {@link DataRow} format.
+ * converts raw CSV data into the internal {@link DataRow} format. Large
+ * files can be streamed in row batches with {@link CSVParser.parseStream}.
  */
 
 import type { DataRow, ValidationResult } from "~types/data";
@@ -13,6 +14,12 @@ const MAX_FILE_SIZE_BYTES = 10 * 1024 * 1024; // 10 MB
 /** Common delimiters ordered by popularity. */
 const DELIMITERS = [",", ";", "\t", "|"] as const;
 
+/** Bytes read from the file per chunk when streaming. */
+const STREAM_CHUNK_BYTES = 256 * 1024;
+
+/** Rows per batch yielded when streaming. */
+const STREAM_BATCH_SIZE = 500;
+
 /**
  * Internal row wrapper that augments each {@link DataRow} with metadata.
  */
@@ -22,6 +29,38 @@ export interface IndexedDataRow {
   status: "pending" | "processing" | "done" | "error";
 }
 
+/**
+ * How far {@link CSVParser.parseStream} has got.
+ */
+export interface CSVStreamProgress {
+  bytesRead: number;
+  totalBytes: number;
+  /** Data rows parsed so far, including ones not yet yielded */
+  rowsParsed: number;
+}
+
+/**
+ * A batch of rows yielded by {@link CSVParser.parseStream}.
+ */
+export interface CSVRowBatch {
+  rows: DataRow[];
+  /** Index of the batch's first row among all data rows */
+  startIndex: number;
+  progress: CSVStreamProgress;
+}
+
+/**
+ * Options for {@link CSVParser.parseStream}.
+ */
+export interface CSVStreamOptions {
+  /** Rows per batch (default 500). */
+  batchSize?: number;
+  /** Bytes read per chunk (default 256 KB). */
+  chunkSize?: number;
+  /** Called after each chunk is parsed. */
+  onProgress?: (progress: CSVStreamProgress) => void;
+}
+
 /**
  * CSVParser provides methods for parsing, validating, and previewing CSV data.
  */
@@ -50,6 +89,82 @@ export class CSVParser {
     return this.parseFromText(text);
   }
 
+  /**
+   * Parse a {@link File} in chunks, yielding rows in batches as soon as
+   * they are parsed, so processing can start before the whole file is read.
+   * Quoted fields may span lines and chunk boundaries.
+   *
+   * @throws If the file is empty or has no data rows.
+   */
+  async *parseStream(file: File, options: CSVStreamOptions = {}): AsyncGenerator<CSVRowBatch> {
+    if (file.size === 0) {
+      throw new Error("CSV file is empty");
+    }
+
+    const batchSize = Math.max(1, options.batchSize ?? STREAM_BATCH_SIZE);
+    const chunkSize = Math.max(1, options.chunkSize ?? STREAM_CHUNK_BYTES);
+    // Decodes characters split across chunks and drops a UTF-8 BOM.
+    const decoder = new TextDecoder("utf-8");
+    let tokenizer: RecordTokenizer | null = null;
+    let headers: string[] | null = null;
+    let pending: DataRow[] = [];
+    let rowsParsed = 0;
+    let startIndex = 0;
+    let bytesRead = 0;
+
+    const addRecords = (records: string[][]) => {
+      for (const record of records) {
+        if (record.length === 1 && record[0].trim() === "") continue; // skip blank lines
+        if (!headers) {
+          headers = record.map((h) => h.trim());
+          continue;
+        }
+        const row: DataRow = {};
+        headers.forEach((header, idx) => {
+          row[header] = record[idx]?.trim() ?? "";
+        });
+        pending.push(row);
+        rowsParsed++;
+      }
+    };
+    const takeBatch = (size: number): CSVRowBatch => {
+      const rows = pending.slice(0, size);
+      pending = pending.slice(size);
+      const batch = {
+        rows,
+        startIndex,
+        progress: { bytesRead, totalBytes: file.size, rowsParsed },
+      };
+      startIndex += rows.length;
+      return batch;
+    };
+
+    for (let offset = 0; offset < file.size; offset += chunkSize) {
+      const bytes = await file.slice(offset, offset + chunkSize).arrayBuffer();
+      bytesRead = Math.min(offset + chunkSize, file.size);
+      const text = decoder.decode(bytes, { stream: true });
+
+      if (!tokenizer) {
+        // Detect the delimiter on complete lines only.
+        const lastBreak = text.lastIndexOf("\n");
+        tokenizer = new RecordTokenizer(
+          this.detectDelimiter(lastBreak > 0 ? text.slice(0, lastBreak) : text)
+        );
+      }
+      addRecords(tokenizer.push(text));
+      options.onProgress?.({ bytesRead, totalBytes: file.size, rowsParsed });
+
+      while (pending.length >= batchSize) yield takeBatch(batchSize);
+    }
+
+    if (tokenizer) addRecords([...tokenizer.push(decoder.decode()), ...tokenizer.end()]);
+    if (pending.length > 0) yield takeBatch(pending.length);
+
+    if (rowsParsed === 0) {
+      throw new Error("CSV must contain a header row and at least one data row");
+    }
+  }
+
   /**
    * Parse CSV content supplied as a plain string.
    */
@@ -281,3 +396,76 @@ export class CSVParser {
     return count;
   }
 }
+
+/**
+ * Splits streamed CSV text into records. Keeps its state between chunks, so
+ * quoted fields, escaped quotes and `\r\n` may be split across them.
+ */
+class RecordTokenizer {
+  private field = "";
+  private record: string[] = [];
+  private inQuotes = false;
+  /** A quote was seen inside a quoted field; the next character decides. */
+  private quoteSeen = false;
+  /** The last character was `\r`; a following `\n` belongs to it. */
+  private afterCR = false;
+
+  constructor(private readonly delimiter: string) {}
+
+  /** Add text and return the records it completes. */
+  push(text: string): string[][] {
+    const records: string[][] = [];
+
+    for (let i = 0; i < text.length; i++) {
+      const ch = text[i];
+
+      if (this.afterCR) {
+        this.afterCR = false;
+        if (ch === "\n") continue;
+      }
+
+      if (this.inQuotes) {
+        if (this.quoteSeen) {
+          this.quoteSeen = false;
+          if (ch === '"') {
+            this.field += '"'; // escaped quote
+            continue;
+          }
+          this.inQuotes = false; // closing quote; handle `ch` below
+        } else {
+          if (ch === '"') this.quoteSeen = true;
+          else this.field += ch;
+          continue;
+        }
+      }
+
+      if (ch === '"') {
+        this.inQuotes = true;
+      } else if (ch === this.delimiter) {
+        this.record.push(this.field);
+        this.field = "";
+      } else if (ch === "\n" || ch === "\r") {
+        records.push(this.endRecord());
+        this.afterCR = ch === "\r";
+      } else {
+        this.field += ch;
+      }
+    }
+
+    return records;
+  }
+
+  /** Finish the input and return the last record, if any. */
+  end(): string[][] {
+    return this.field !== "" || this.record.length > 0 ? [this.endRecord()] : [];
+  }
+
+  private endRecord(): string[] {
+    const record = [...this.record, this.field];
+    this.record = [];
+    this.field = "";
+    this.inQuotes = false;
+    this.quoteSeen = false;
+    return record;
+  }
+}
@@ -1,11 +1,22 @@
 /**
  * DataMapper — Map data columns to design fields intelligently.
  *
- * Provides auto-suggestion of column-to-field mappings, value
+ * Provides auto-suggestion of column-to-field mappings, chained value
  * transformations, and column type detection.
  */
 
-import type { DataRow } from "~types/data";
+import type { DataRow, FieldMappings, TransformCondition, Transformation } from "~types/data";
+
+export type {
+  FieldMapping,
+  FieldMappings,
+  TransformCondition,
+  Transformation,
+  TransformationType,
+} from "~types/data";
+
+/** A `{{column}}` placeholder in a transformation's text. */
+const PLACEHOLDER = /\{\{\s*([^}]+?)\s*\}\}/g;
 
 /**
  * A mapping from design field names to data column names.
@@ -17,28 +28,6 @@ export type ColumnMapping = Record<string, string>;
  */
 export type MappedData = Record<string, string | number>;
 
-/**
- * Supported transformation identifiers.
- */
-export type TransformationType =
-  | "uppercase"
-  | "lowercase"
-  | "trim"
-  | "truncate"
-  | "dateFormat"
-  | "urlEncode";
-
-/**
- * Transformation descriptor applied to a field value.
- */
-export interface Transformation {
-  type: TransformationType;
-  /** Maximum length for the `truncate` transformation. */
-  maxLength?: number;
-  /** Date format string for the `dateFormat` transformation. */
-  dateFormat?: string;
-}
-
 /**
  * Detected data type for a column.
  */
@@ -90,6 +79,49 @@ export class DataMapper {
     return mapped;
   }
 
+  /**
+   * Fill design fields from a row, running each field's transformations
+   * in order. Fields mapped to a bare column keep the raw value.
+   */
+  applyFieldMappings(dataRow: DataRow, mappings: FieldMappings): MappedData {
+    const mapped: MappedData = {};
+    for (const [field, mapping] of Object.entries(mappings)) {
+      if (typeof mapping === "string") {
+        mapped[field] = dataRow[mapping] ?? "";
+        continue;
+      }
+      const value = mapping.column !== undefined ? (dataRow[mapping.column] ?? "") : "";
+      mapped[field] = mapping.transforms?.length
+        ? this.applyTransformations(value, mapping.transforms, dataRow)
+        : value;
+    }
+    return mapped;
+  }
+
+  /**
+   * The columns a mapping reads: mapped columns, tested columns and
+   * `{{column}}` placeholders in text options.
+   */
+  static sourceColumns(mappings: FieldMappings): string[] {
+    const columns = new Set<string>();
+    for (const mapping of Object.values(mappings)) {
+      if (typeof mapping === "string") {
+        columns.add(mapping);
+        continue;
+      }
+      if (mapping.column !== undefined) columns.add(mapping.column);
+      for (const t of mapping.transforms ?? []) {
+        if (t.when?.column !== undefined) columns.add(t.when.column);
+        for (const text of [t.template, t.value, t.then, t.otherwise]) {
+          for (const [, name] of (text ?? "").matchAll(PLACEHOLDER)) {
+            if (name !== "value") columns.add(name);
+          }
+        }
+      }
+    }
+    return [...columns];
+  }
+
   /**
    * Check that every required field is present in the mapping.
    */
@@ -102,9 +134,25 @@ export class DataMapper {
   // -----------------------------------------------------------------------
 
   /**
-   * Apply a transformation to a string value.
+   * Run transformations one after another, each on the previous result.
+   * `row` fills `{{column}}` placeholders.
    */
-  transformValue(value: string, transformation: Transformation): string {
+  applyTransformations(
+    value: string | number,
+    transformations: Transformation[],
+    row: DataRow = {}
+  ): string {
+    return transformations.reduce((v, t) => this.transformValue(v, t, row), String(value));
+  }
+
+  /**
+   * Apply a transformation to a string value. Values that cannot be read
+   * as a number or date are returned unchanged by those transformations,
+   * as are values formatted for an unknown locale or currency.
+   */
+  transformValue(value: string, transformation: Transformation, row: DataRow = {}): string {
+    const fill = (text: string) => this.fillTemplate(text, value, row);
+
     switch (transformation.type) {
       case "uppercase":
         return value.toUpperCase();
@@ -112,12 +160,32 @@ export class DataMapper {
         return value.toLowerCase();
       case "trim":
         return value.trim();
+      case "titleCase":
+        return value
+          .toLowerCase()
+          .replace(/(^|[\s-])(\p{L})/gu, (_, sep: string, ch: string) => sep + ch.toUpperCase());
       case "truncate":
-        return value.substring(0, transformation.maxLength ?? value.length);
+        return this.truncate(value, transformation.maxLength, transformation.ellipsis);
       case "dateFormat":
-        return this.formatDate(value);
+        return transformation.dateFormat
+          ? this.formatDatePattern(value, transformation.dateFormat, transformation.locale)
+          : this.formatDate(value);
+      case "number":
+      case "currency":
+        return this.formatNumber(value, transformation);
       case "urlEncode":
         return encodeURIComponent(value);
+      case "template":
+        return fill(transformation.template ?? "");
+      case "lookup":
+        return transformation.table?.[value] ?? transformation.fallback ?? value;
+      case "default":
+        return value.trim() === "" ? fill(transformation.value ?? "") : value;
+      case "conditional":
+        if (this.testCondition(transformation.when ?? {}, value, row)) {
+          return fill(transformation.then ?? value);
+        }
+        return transformation.otherwise !== undefined ? fill(transformation.otherwise) : value;
       default:
         return value;
     }
@@ -230,4 +298,148 @@ export class DataMapper {
     if (isNaN(d.getTime())) return value;
     return d.toISOString().split("T")[0]; // YYYY-MM-DD
   }
+
+  /**
+   * Format a date with a pattern of `YYYY YY MMMM MMM MM M DD D dddd ddd
+   * HH H hh h mm ss A` tokens; text in `[brackets]` is kept as is. A plain
+   * `YYYY-MM-DD` date is read as a local date, not UTC midnight.
+   */
+  private formatDatePattern(value: string, pattern: string, locale?: string): string {
+    const ymd = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value.trim());
+    const d = ymd ? new Date(+ymd[1], +ymd[2] - 1, +ymd[3]) : new Date(value);
+    if (isNaN(d.getTime())) return value;
+
+    if (!this.isLocale(locale)) return value;
+
+    const pad = (n: number) => String(n).padStart(2, "0");
+    const name = (options: Intl.DateTimeFormatOptions) =>
+      new Intl.DateTimeFormat(locale, options).format(d);
+    const hours12 = d.getHours() % 12 || 12;
+    const tokens: Record<string, () => string> = {
+      YYYY: () => String(d.getFullYear()),
+      YY: () => String(d.getFullYear()).slice(-2),
+      MMMM: () => name({ month: "long" }),
+      MMM: () => name({ month: "short" }),
+      MM: () => pad(d.getMonth() + 1),
+      M: () => String(d.getMonth() + 1),
+      DD: () => pad(d.getDate()),
+      D: () => String(d.getDate()),
+      dddd: () => name({ weekday: "long" }),
+      ddd: () => name({ weekday: "short" }),
+      HH: () => pad(d.getHours()),
+      H: () => String(d.getHours()),
+      hh: () => pad(hours12),
+      h: () => String(hours12),
+      mm: () => pad(d.getMinutes()),
+      ss: () => pad(d.getSeconds()),
+      A: () => (d.getHours() < 12 ? "AM" : "PM"),
+    };
+
+    return pattern.replace(
+      /\[([^\]]*)\]|YYYY|YY|MMMM|MMM|MM|M|DD|D|dddd|ddd|HH|H|hh|h|mm|ss|A/g,
+      (token, literal?: string) => literal ?? tokens[token]()
+    );
+  }
+
+  /**
+   * Format a number or currency amount for a locale. The input may use
+   * either `,` or `.` as the decimal separator and carry a currency sign.
+   */
+  private formatNumber(value: string, transformation: Transformation): string {
+    const amount = this.parseNumber(value);
+    if (amount === null) return value;
+
+    try {
+      return new Intl.NumberFormat(transformation.locale, {
+        style: transformation.type === "currency" ? "currency" : "decimal",
+        currency: transformation.currency ?? "USD",
+        minimumFractionDigits: transformation.decimals,
+        maximumFractionDigits: transformation.decimals,
+      }).format(amount);
+    } catch (error) {
+      // Unknown locale or currency code, or out-of-range decimals
+      if (error instanceof RangeError) return value;
+      throw error;
+    }
+  }
+
+  /** Whether `locale` is unset or a locale tag `Intl` accepts. */
+  private isLocale(locale?: string): boolean {
+    try {
+      Intl.getCanonicalLocales(locale);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Read `"$1,234.50"`, `"1.234,5 €"` or `"12,5"` as a number. A lone
+   * comma before groups of three digits, or repeated dots, separate
+   * thousands; otherwise the last separator is the decimal one.
+   */
+  private parseNumber(value: string): number | null {
+    const text = value.replace(/[^\d.,-]/g, "");
+    if (!/\d/.test(text)) return null;
+
+    const comma = text.lastIndexOf(",");
+    const dot = text.lastIndexOf(".");
+    let decimal: "," | "." | null;
+    if (comma >= 0 && dot >= 0) {
+      decimal = comma > dot ? "," : ".";
+    } else if (comma >= 0) {
+      decimal = /^-?\d{1,3}(,\d{3})+$/.test(text) ? null : ",";
+    } else {
+      decimal = dot >= 0 && text.indexOf(".") === dot ? "." : null;
+    }
+
+    const digits = text.replace(decimal === "," ? /\./g : decimal === "." ? /,/g : /[.,]/g, "");
+    const amount = Number(decimal === "," ? digits.replace(",", ".") : digits);
+    return Number.isFinite(amount) ? amount : null;
+  }
+
+  /**
+   * Cut `value` to `maxLength`. With an `ellipsis` the cut falls on the
+   * last word boundary and the ellipsis fits within `maxLength`.
+   */
+  private truncate(value: string, maxLength?: number, ellipsis?: string): string {
+    if (maxLength === undefined || value.length <= maxLength) return value;
+    if (ellipsis === undefined) return value.substring(0, maxLength);
+
+    const room = Math.max(0, maxLength - ellipsis.length);
+    const head = value.substring(0, room + 1);
+    const boundary = head.search(/\s\S*$/);
+    const cut = boundary > 0 ? head.substring(0, boundary) : value.substring(0, room);
+    return cut.replace(/[\s,;:.-]+$/, "") + ellipsis;
+  }
+
+  /** Replace `{{column}}` placeholders from the row and `{{value}}` with `value`. */
+  private fillTemplate(template: string, value: string, row: DataRow): string {
+    return template.replace(PLACEHOLDER, (_, name: string) =>
+      name === "value" ? value : String(row[name] ?? "")
+    );
+  }
+
+  /**
+   * Whether the tested value passes every check of `when`. A `matches`
+   * pattern that is not a valid regular expression never matches.
+   */
+  private testCondition(when: TransformCondition, value: string, row: DataRow): boolean {
+    const subject = when.column !== undefined ? String(row[when.column] ?? "") : value;
+
+    if (when.equals !== undefined && subject !== when.equals) return false;
+    if (when.notEquals !== undefined && subject === when.notEquals) return false;
+    if (when.contains !== undefined && !subject.includes(when.contains)) return false;
+    if (when.matches !== undefined && !this.matches(subject, when.matches)) return false;
+    if (when.empty !== undefined && (subject.trim() === "") !== when.empty) return false;
+    return true;
+  }
+
+  private matches(subject: string, pattern: string): boolean {
+    try {
+      return new RegExp(pattern).test(subject);
+    } catch {
+      return false;
+    }
+  }
 }
@@ -7,7 +7,9 @@
 
 import type { DataRow, DataSourceType } from "~types/data";
 import { CSVParser } from "./CSVParser";
+import type { CSVRowBatch, CSVStreamOptions } from "./CSVParser";
 import { GoogleSheetsConnector } from "./GoogleSheetsConnector";
+import { WorkbookParser } from "./WorkbookParser";
 
 // ---------------------------------------------------------------------------
 // Unified DataSource interface returned by the factory
@@ -18,11 +20,13 @@ import { GoogleSheetsConnector } from "./GoogleSheetsConnector";
  */
 export interface DataSourceConfig {
   type: DataSourceType;
-  /** CSV file (when type === 'csv'). */
+  /** CSV or workbook file (when type === 'csv', 'xlsx' or 'ods'). */
   file?: File;
   /** Google Sheets URL (when type === 'sheets'). */
   sheetUrl?: string;
-  /** A1 range for Google Sheets. */
+  /** Sheet to read from a workbook; the first sheet by default. */
+  sheetName?: string;
+  /** A1 range for Google Sheets or a workbook. */
   range?: string;
   /** Inline JSON data (when type === 'json'). */
   data?: string;
@@ -37,6 +41,8 @@ export interface DataSourceHandle {
   type: DataSourceType;
   /** Load and return all rows from the data source. */
   load(): Promise<DataRow[]>;
+  /** Yield rows in batches while the source is still being read (CSV only). */
+  stream?(options?: CSVStreamOptions): AsyncIterable<CSVRowBatch>;
 }
 
 // ---------------------------------------------------------------------------
@@ -58,6 +64,9 @@ export function createDataSource(config: DataSourceConfig): DataSourceHandle {
       return createJSONSource(config);
     case "manual":
       return createManualSource(config);
+    case "xlsx":
+    case "ods":
+      return createWorkbookSource(config);
     default:
       throw new Error(`Unknown data source type: "${config.type as string}"`);
   }
@@ -74,6 +83,12 @@ export function detectDataSourceType(input: string): DataSourceType | "unknown"
   if (input.endsWith(".csv")) {
     return "csv";
   }
+  if (input.endsWith(".xlsx")) {
+    return "xlsx";
+  }
+  if (input.endsWith(".ods")) {
+    return "ods";
+  }
   if (input.startsWith("{") || input.startsWith("[")) {
     return "json";
   }
@@ -95,6 +110,9 @@ function createCSVSource(config: DataSourceConfig): DataSourceHandle {
     async load() {
       return parser.parse(file);
     },
+    stream(options) {
+      return parser.parseStream(file, options);
+    },
   };
 }
 
@@ -113,6 +131,21 @@ function createSheetsSource(config: DataSourceConfig): DataSourceHandle {
   };
 }
 
+function createWorkbookSource(config: DataSourceConfig): DataSourceHandle {
+  if (!config.file) {
+    throw new Error("Workbook data source requires a file");
+  }
+  const parser = new WorkbookParser();
+  const file = config.file;
+  const options = { sheetName: config.sheetName, range: config.range };
+  return {
+    type: config.type,
+    async load() {
+      return parser.parse(file, options);
+    },
+  };
+}
+
 function createJSONSource(config: DataSourceConfig): DataSourceHandle {
   if (!config.data) {
     throw new Error("JSON data source requires data");
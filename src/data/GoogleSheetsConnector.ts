@@ -2,10 +2,14 @@
  * GoogleSheetsConnector — Connect to Google Sheets and fetch data.
  *
  * Provides OAuth authentication (via `chrome.identity`), sheet data fetching,
- * metadata retrieval, and token management for the Chrome extension context.
+ * metadata retrieval, write-back of job results, scheduled change polling,
+ * and token management for the Chrome extension context.
  */
 
-import type { DataRow } from "~types/data";
+import type { DataRow, SheetSync } from "~types/data";
+import type { Job } from "~types/orchestration";
+import { DataMapper } from "./DataMapper";
+import { DataValidator } from "./DataValidator";
 
 /** Base URL for the Google Sheets v4 API. */
 const SHEETS_API_BASE = "https://sheets.googleapis.com/v4/spreadsheets";
@@ -13,6 +17,21 @@ const SHEETS_API_BASE = "https://sheets.googleapis.com/v4/spreadsheets";
 /** Key used to persist the OAuth access token in `chrome.storage.local`. */
 const TOKEN_STORAGE_KEY = "google_sheets_access_token";
 
+/** Most cell ranges sent in one `values:batchUpdate` request. */
+const MAX_RANGES_PER_BATCH = 500;
+
+/** Result fields written back, in column order. */
+const RESULT_FIELDS = ["designId", "exportUrl", "status", "error"] as const;
+
+/** Range a sync polls when it names none. */
+const DEFAULT_SYNC_RANGE = "A:ZZZ";
+
+/** Chrome fires repeating alarms at most once a minute. */
+const MIN_SYNC_INTERVAL_MINUTES = 1;
+
+/** Name prefix of the `chrome.alarms` alarms that drive sheet syncs. */
+export const SHEET_SYNC_ALARM_PREFIX = "sheet-sync:";
+
 /**
  * Shape of the Google Sheets API `GET /spreadsheets/{id}` response
  * (only the fields we use).
@@ -32,6 +51,7 @@ interface SpreadsheetResource {
  */
 interface ChromeIdentityLike {
   getAuthToken(options: { interactive: boolean }, callback: (token: string) => void): void;
+  removeCachedAuthToken(details: { token: string }, callback: () => void): void;
 }
 
 /**
@@ -51,6 +71,67 @@ export interface SheetInfo {
   url: string;
 }
 
+/**
+ * A result field written back to the sheet.
+ */
+export type SheetResultField = (typeof RESULT_FIELDS)[number];
+
+/**
+ * The results of one source row. The row is addressed by `rowIndex` (its
+ * index among the rows returned by `fetchSheetData`) or, when writing with
+ * a `keyColumn`, by `key`.
+ */
+export interface SheetRowResult extends Partial<Record<SheetResultField, string>> {
+  rowIndex?: number;
+  key?: string;
+}
+
+/**
+ * Options for {@link GoogleSheetsConnector.writeResults}.
+ */
+export interface SheetWriteBackOptions {
+  /** Sheet (tab) to write to; the first sheet by default. */
+  sheetName?: string;
+  /** Header of a column whose values identify rows, e.g. `"SKU"`. */
+  keyColumn?: string;
+  /** Header to use for each result column; defaults to the field name. */
+  columns?: Partial<Record<SheetResultField, string>>;
+}
+
+/**
+ * Outcome of {@link GoogleSheetsConnector.writeResults}.
+ */
+export interface SheetWriteBackSummary {
+  updatedRows: number;
+  updatedCells: number;
+  /** Result columns that did not exist and were added after the last column */
+  addedColumns: string[];
+  /** Results whose row could not be found */
+  unmatched: SheetRowResult[];
+}
+
+/**
+ * A row found by {@link GoogleSheetsConnector.pollSync}.
+ */
+export interface SheetSyncRow {
+  /** Index among the rows returned by `fetchSheetData` */
+  rowIndex: number;
+  row: DataRow;
+  fingerprint: string;
+}
+
+/**
+ * Outcome of {@link GoogleSheetsConnector.pollSync}.
+ */
+export interface SheetSyncPoll {
+  /** Rows that are new or changed since the previous poll */
+  changed: SheetSyncRow[];
+  /** Fingerprints of every row now in the sheet, to keep for the next poll */
+  fingerprints: string[];
+  /** Rows skipped because they repeat the key of an earlier row */
+  duplicates: number;
+}
+
 /**
  * GoogleSheetsConnector handles authentication and data fetching from the
  * Google Sheets API.
@@ -58,7 +139,15 @@ export interface SheetInfo {
 export class GoogleSheetsConnector {
   private accessToken: string | null = null;
 
-  constructor(private apiKey?: string) {}
+  /**
+   * @param apiKey  - API key sent with read requests.
+   * @param apiBase - Spreadsheets endpoint; override to test against a
+   *   local mock server.
+   */
+  constructor(
+    private apiKey?: string,
+    private apiBase = SHEETS_API_BASE
+  ) {}
 
   // -----------------------------------------------------------------------
   // Authentication
@@ -70,38 +159,42 @@ export class GoogleSheetsConnector {
    * Stores the resulting access token in `chrome.storage.local`.
    */
   async authenticate(): Promise<void> {
-    // In a real Chrome extension this would use chrome.identity
-    // Here we provide a pluggable implementation.
-    if (typeof chrome !== "undefined" && chrome.identity) {
-      const identity = chrome.identity as unknown as ChromeIdentityLike;
-      const token = await new Promise<string>((resolve, reject) => {
-        identity.getAuthToken({ interactive: true }, (tok: string) => {
-          if (chrome.runtime.lastError) {
-            reject(new Error(chrome.runtime.lastError.message));
-          } else if (!tok) {
-            reject(new Error("Authentication cancelled or token unavailable"));
-          } else {
-            resolve(tok);
-          }
-        });
-      });
-      this.accessToken = token;
-      await chrome.storage.local.set({ [TOKEN_STORAGE_KEY]: token });
-    } else {
+    const identity = this.getIdentity();
+    if (!identity) {
       throw new Error("Google authentication requires a Chrome extension environment");
     }
+    await this.storeToken(await this.requestToken(identity, true));
   }
 
   /**
-   * Refresh / restore the access token from storage.
+   * Restore the access token without prompting the user: Chrome's cached
+   * token when the identity API is available, else the stored one.
    */
-  async refreshToken(): Promise<void> {
-    if (typeof chrome !== "undefined" && chrome.storage) {
+  async restoreToken(): Promise<void> {
+    const identity = this.getIdentity();
+    if (identity) {
+      await this.storeToken(await this.requestToken(identity, false));
+    } else if (typeof chrome !== "undefined" && chrome.storage) {
       const result = await chrome.storage.local.get(TOKEN_STORAGE_KEY);
       this.accessToken = (result[TOKEN_STORAGE_KEY] as string) || null;
     }
   }
 
+  /**
+   * Replace an expired access token. The current token is dropped from
+   * Chrome's token cache so that a new one is issued without prompting.
+   */
+  async refreshToken(): Promise<void> {
+    const identity = this.getIdentity();
+    const stale = this.accessToken;
+    if (identity && stale) {
+      await new Promise<void>((resolve) =>
+        identity.removeCachedAuthToken({ token: stale }, resolve)
+      );
+    }
+    await this.restoreToken();
+  }
+
   /**
    * Set the access token directly (useful for testing or non-extension contexts).
    */
@@ -121,35 +214,10 @@ export class GoogleSheetsConnector {
    * @returns Parsed rows as {@link DataRow}[].
    */
   async fetchSheetData(sheetUrl: string, range = "A1:Z1000"): Promise<DataRow[]> {
-    const spreadsheetId = this.extractSpreadsheetId(sheetUrl);
-    const url = this.buildApiUrl(spreadsheetId, range);
-
-    const response = await fetch(url, {
-      headers: this.buildHeaders(),
-    });
-
-    if (!response.ok) {
-      await this.handleApiError(response, sheetUrl);
-    }
-
-    const json = (await response.json()) as { values?: string[][] };
-    const values = json.values;
-
-    if (!values || values.length < 2) {
+    const rows = await this.readRows(sheetUrl, range);
+    if (rows.length === 0) {
       throw new Error("Sheet contains no data or only a header row");
     }
-
-    const headers = values[0].map((h) => h.trim());
-    const rows: DataRow[] = [];
-
-    for (let i = 1; i < values.length; i++) {
-      const row: DataRow = {};
-      headers.forEach((header, idx) => {
-        row[header] = values[i][idx]?.trim() ?? "";
-      });
-      rows.push(row);
-    }
-
     return rows;
   }
 
@@ -159,7 +227,7 @@ export class GoogleSheetsConnector {
    */
   async getSheetMetadata(sheetUrl: string): Promise<SheetMetadata> {
     const spreadsheetId = this.extractSpreadsheetId(sheetUrl);
-    const url = `${SHEETS_API_BASE}/${encodeURIComponent(spreadsheetId)}`;
+    const url = `${this.apiBase}/${encodeURIComponent(spreadsheetId)}`;
 
     const response = await fetch(url, {
       headers: this.buildHeaders(),
@@ -181,6 +249,196 @@ export class GoogleSheetsConnector {
     };
   }
 
+  // -----------------------------------------------------------------------
+  // Write-back
+  // -----------------------------------------------------------------------
+
+  /**
+   * Write job results next to their source rows. Result columns are found
+   * by header and added after the last column when missing; only the
+   * fields set in each result are written. All cells go out in
+   * `values:batchUpdate` requests of up to 500 ranges.
+   *
+   * @throws On API errors; an expired token is refreshed once via
+   *   {@link refreshToken} before giving up.
+   */
+  async writeResults(
+    sheetUrl: string,
+    results: SheetRowResult[],
+    options: SheetWriteBackOptions = {}
+  ): Promise<SheetWriteBackSummary> {
+    const spreadsheetId = this.extractSpreadsheetId(sheetUrl);
+    const prefix = options.sheetName ? `'${options.sheetName.replace(/'/g, "''")}'!` : "";
+
+    const read = await this.send(sheetUrl, this.buildApiUrl(spreadsheetId, `${prefix}A:ZZZ`));
+    const values = ((await read.json()) as { values?: string[][] }).values ?? [];
+    const headers = (values[0] ?? []).map((h) => String(h).trim());
+    if (headers.length === 0) {
+      throw new Error("Sheet has no header row to match result columns against");
+    }
+
+    let keyIndex = -1;
+    if (options.keyColumn) {
+      keyIndex = headers.indexOf(options.keyColumn);
+      if (keyIndex < 0) throw new Error(`Key column "${options.keyColumn}" not found`);
+    }
+
+    const data: { range: string; values: string[][] }[] = [];
+    const addedColumns: string[] = [];
+    const columnOf = (field: SheetResultField): string => {
+      const header = options.columns?.[field] ?? field;
+      let index = headers.indexOf(header);
+      if (index < 0) {
+        index = headers.push(header) - 1;
+        addedColumns.push(header);
+        data.push({ range: `${prefix}${columnLetter(index)}1`, values: [[header]] });
+      }
+      return columnLetter(index);
+    };
+
+    const unmatched: SheetRowResult[] = [];
+    const updatedRows = new Set<number>();
+    for (const result of results) {
+      const sheetRow = this.findSheetRow(result, values, keyIndex);
+      if (sheetRow === null) {
+        unmatched.push(result);
+        continue;
+      }
+      for (const field of RESULT_FIELDS) {
+        const value = result[field];
+        if (value === undefined) continue;
+        data.push({ range: `${prefix}${columnOf(field)}${sheetRow}`, values: [[value]] });
+        updatedRows.add(sheetRow);
+      }
+    }
+
+    let updatedCells = 0;
+    const url = this.withApiKey(
+      `${this.apiBase}/${encodeURIComponent(spreadsheetId)}/values:batchUpdate`
+    );
+    for (let i = 0; i < data.length; i += MAX_RANGES_PER_BATCH) {
+      const response = await this.send(sheetUrl, url, {
+        method: "POST",
+        body: JSON.stringify({
+          valueInputOption: "RAW",
+          data: data.slice(i, i + MAX_RANGES_PER_BATCH),
+        }),
+      });
+      const json = (await response.json()) as { totalUpdatedCells?: number };
+      updatedCells += json.totalUpdatedCells ?? 0;
+    }
+
+    return { updatedRows: updatedRows.size, updatedCells, addedColumns, unmatched };
+  }
+
+  /**
+   * Collect a bulk job's results per source row: the design and export of
+   * the row's tasks, `"done"` or `"error"` once they have all finished
+   * (`"pending"` before), and the first error.
+   */
+  static resultsFromJob(job: Job): SheetRowResult[] {
+    const byRow = new Map<number, SheetRowResult & { open: boolean }>();
+
+    for (const task of job.tasks) {
+      if (task.dataRowIndex === undefined) continue;
+      const row = byRow.get(task.dataRowIndex) ?? { rowIndex: task.dataRowIndex, open: false };
+      byRow.set(task.dataRowIndex, row);
+
+      const design = job.results.find((r) => r.taskId === task.id);
+      if (design?.designId) row.designId = design.designId;
+      if (design?.exportUrl) row.exportUrl = design.exportUrl;
+
+      if (task.status === "failed") {
+        row.error ??= job.errors.find((e) => e.taskId === task.id)?.error ?? task.error ?? "Failed";
+      } else if (task.status === "pending" || task.status === "running") {
+        row.open = true;
+      }
+    }
+
+    return [...byRow.values()]
+      .sort((a, b) => (a.rowIndex ?? 0) - (b.rowIndex ?? 0))
+      .map(({ open, ...row }) => ({
+        ...row,
+        status: row.error ? "error" : open ? "pending" : "done",
+      }));
+  }
+
+  // -----------------------------------------------------------------------
+  // Sync
+  // -----------------------------------------------------------------------
+
+  /**
+   * Poll a sheet every `intervalMinutes` (at least one minute) with a
+   * repeating `chrome.alarms` alarm. Rescheduling replaces the alarm.
+   */
+  async scheduleSync(sync: SheetSync): Promise<void> {
+    const periodInMinutes = Math.max(sync.intervalMinutes, MIN_SYNC_INTERVAL_MINUTES);
+    await chrome.alarms.create(`${SHEET_SYNC_ALARM_PREFIX}${sync.id}`, {
+      delayInMinutes: periodInMinutes,
+      periodInMinutes,
+    });
+  }
+
+  /**
+   * Stop polling a sheet. Returns `false` if it was not scheduled.
+   */
+  async cancelSync(syncId: string): Promise<boolean> {
+    return chrome.alarms.clear(`${SHEET_SYNC_ALARM_PREFIX}${syncId}`);
+  }
+
+  /**
+   * The sync an alarm belongs to, or `null` for other alarms.
+   */
+  static syncIdFromAlarm(alarmName: string): string | null {
+    return alarmName.startsWith(SHEET_SYNC_ALARM_PREFIX)
+      ? alarmName.slice(SHEET_SYNC_ALARM_PREFIX.length)
+      : null;
+  }
+
+  /**
+   * Read a synced sheet and diff it against the row fingerprints kept from
+   * the previous poll. Blank rows are ignored and rows repeating the key
+   * columns of an earlier row are dropped (see
+   * {@link DataValidator.detectDuplicates}).
+   *
+   * A fingerprint covers the key columns and the columns the mapping reads
+   * (see {@link DataMapper.sourceColumns}), or every column but the result
+   * columns of {@link writeResults} (`designId`, `exportUrl`, `status`,
+   * `error`) when the sync has no mapping. Empty cells are ignored, so an
+   * added column or written-back results do not make old rows look changed.
+   *
+   * @param known - Fingerprints from the previous poll, or `null` on the
+   *   first one; the first poll only records the rows already in the sheet
+   *   unless the sync sets `includeExisting`.
+   */
+  async pollSync(sync: SheetSync, known: string[] | null): Promise<SheetSyncPoll> {
+    const entries = (await this.readRows(sync.sheetUrl, sync.range ?? DEFAULT_SYNC_RANGE))
+      .map((row, rowIndex) => ({ row, rowIndex }))
+      .filter(({ row }) => Object.values(row).some((v) => v !== ""));
+    const rows = entries.map((e) => e.row);
+
+    const headers = Object.keys(rows[0] ?? {});
+    const keyFields = sync.keyColumns?.length ? sync.keyColumns : headers;
+    const duplicates = new Set(new DataValidator().detectDuplicates(rows, keyFields));
+    const columns = sync.dataMapping
+      ? [...new Set([...(sync.keyColumns ?? []), ...DataMapper.sourceColumns(sync.dataMapping)])]
+      : headers.filter((h) => !(RESULT_FIELDS as readonly string[]).includes(h));
+
+    const seen = new Set(known ?? []);
+    const baseline = known === null && !sync.includeExisting;
+    const changed: SheetSyncRow[] = [];
+    const fingerprints: string[] = [];
+
+    for (const [idx, { row, rowIndex }] of entries.entries()) {
+      if (duplicates.has(idx)) continue;
+      const fingerprint = await rowFingerprint(row, columns);
+      fingerprints.push(fingerprint);
+      if (!baseline && !seen.has(fingerprint)) changed.push({ rowIndex, row, fingerprint });
+    }
+
+    return { changed, fingerprints, duplicates: duplicates.size };
+  }
+
   /**
    * Check whether the current user can access a sheet.
    *
@@ -216,14 +474,91 @@ export class GoogleSheetsConnector {
   // Helpers
   // -----------------------------------------------------------------------
 
+  private getIdentity(): ChromeIdentityLike | null {
+    return typeof chrome !== "undefined" && chrome.identity
+      ? (chrome.identity as unknown as ChromeIdentityLike)
+      : null;
+  }
+
+  private requestToken(identity: ChromeIdentityLike, interactive: boolean): Promise<string> {
+    return new Promise<string>((resolve, reject) => {
+      identity.getAuthToken({ interactive }, (tok: string) => {
+        if (chrome.runtime.lastError) {
+          reject(new Error(chrome.runtime.lastError.message));
+        } else if (!tok) {
+          reject(new Error("Authentication cancelled or token unavailable"));
+        } else {
+          resolve(tok);
+        }
+      });
+    });
+  }
+
+  private async storeToken(token: string): Promise<void> {
+    this.accessToken = token;
+    await chrome.storage.local.set({ [TOKEN_STORAGE_KEY]: token });
+  }
+
   private buildApiUrl(spreadsheetId: string, range: string): string {
-    const base = `${SHEETS_API_BASE}/${encodeURIComponent(spreadsheetId)}/values/${encodeURIComponent(range)}`;
+    const base = `${this.apiBase}/${encodeURIComponent(spreadsheetId)}/values/${encodeURIComponent(range)}`;
     if (this.apiKey) {
       return `${base}?key=${encodeURIComponent(this.apiKey)}`;
     }
     return base;
   }
 
+  /** Rows below the header row of a range; header cells name the columns. */
+  private async readRows(sheetUrl: string, range: string): Promise<DataRow[]> {
+    const spreadsheetId = this.extractSpreadsheetId(sheetUrl);
+    const response = await this.send(sheetUrl, this.buildApiUrl(spreadsheetId, range));
+    const values = ((await response.json()) as { values?: string[][] }).values ?? [];
+
+    const headers = (values[0] ?? []).map((h) => h.trim());
+    return values.slice(1).map((cells) => {
+      const row: DataRow = {};
+      headers.forEach((header, idx) => {
+        row[header] = cells[idx]?.trim() ?? "";
+      });
+      return row;
+    });
+  }
+
+  private withApiKey(url: string): string {
+    return this.apiKey ? `${url}?key=${encodeURIComponent(this.apiKey)}` : url;
+  }
+
+  /**
+   * Send an API request. A 401 means the token expired: it is refreshed
+   * once and the request retried.
+   */
+  private async send(sheetUrl: string, url: string, init: RequestInit = {}): Promise<Response> {
+    let response = await fetch(url, { ...init, headers: this.buildHeaders() });
+    if (response.status === 401) {
+      await this.refreshToken();
+      response = await fetch(url, { ...init, headers: this.buildHeaders() });
+    }
+    if (!response.ok) {
+      await this.handleApiError(response, sheetUrl);
+    }
+    return response;
+  }
+
+  /** 1-based sheet row of a result (row 1 is the header), or `null`. */
+  private findSheetRow(
+    result: SheetRowResult,
+    values: string[][],
+    keyIndex: number
+  ): number | null {
+    if (keyIndex >= 0) {
+      if (result.key === undefined) return null;
+      const key = result.key.trim();
+      const idx = values.findIndex((row, i) => i > 0 && String(row[keyIndex] ?? "").trim() === key);
+      return idx > 0 ? idx + 1 : null;
+    }
+    if (result.rowIndex === undefined || result.rowIndex < 0) return null;
+    return result.rowIndex + 2;
+  }
+
   private buildHeaders(): Record<string, string> {
     const headers: Record<string, string> = { "Content-Type": "application/json" };
     if (this.accessToken) {
@@ -234,6 +569,9 @@ export class GoogleSheetsConnector {
 
   private async handleApiError(response: Response, sheetUrl: string): Promise<never> {
     const status = response.status;
+    if (status === 401) {
+      throw new Error(`401: Google authorization expired for "${sheetUrl}". Please sign in again.`);
+    }
     if (status === 403) {
       throw new Error(`403: No permission to access sheet "${sheetUrl}". Please grant access.`);
     }
@@ -244,3 +582,29 @@ export class GoogleSheetsConnector {
     throw new Error(`Google Sheets API error (${status}): ${body}`);
   }
 }
+
+/** Column letter for a 0-based index: 0 → A, 26 → AA. */
+function columnLetter(index: number): string {
+  let letters = "";
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    letters = String.fromCharCode(65 + ((n - 1) % 26)) + letters;
+  }
+  return letters;
+}
+
+/**
+ * Short SHA-256 fingerprint of a row's non-empty cells in `columns`, in
+ * any column order.
+ */
+async function rowFingerprint(row: DataRow, columns: string[]): Promise<string> {
+  const cells = Object.entries(row)
+    .filter(([column, value]) => value !== "" && columns.includes(column))
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+  const digest = await crypto.subtle.digest(
+    "SHA-256",
+    new TextEncoder().encode(JSON.stringify(cells))
+  );
+  return [...new Uint8Array(digest).slice(0, 8)]
+    .map((b) => b.toString(16).padStart(2, "0"))
+    .join("");
+}
@@ -0,0 +1,265 @@
+/**
+ * WorkbookParser — Read Excel (.xlsx) and OpenDocument (.ods) workbooks.
+ *
+ * Workbooks are read in the browser with SheetJS. Releases before 0.20.2
+ * are open to prototype pollution and ReDoS from crafted files, and newer
+ * ones are not on npm, so `xlsx` aliases the `@e965/xlsx` republish.
+ *
+ * Rows are returned in the same {@link DataRow} format as the CSV path,
+ * but numeric cells stay numbers and date cells become ISO dates instead
+ * of their display text. Headers merged across columns or rows are
+ * flattened into one name per column.
+ */
+
+import { read, utils } from "xlsx";
+import type { CellObject, Range, WorkBook, WorkSheet } from "xlsx";
+import type { DataRow } from "~types/data";
+import type { SheetMetadata } from "./GoogleSheetsConnector";
+
+/** Maximum file size (bytes) before a performance warning is issued. */
+const MAX_FILE_SIZE_BYTES = 10 * 1024 * 1024; // 10 MB
+
+/** Most rows a merged header may span. */
+const MAX_HEADER_ROWS = 3;
+
+/**
+ * Which part of a workbook to read.
+ */
+export interface WorkbookReadOptions {
+  /** Sheet to read; the first sheet by default. */
+  sheetName?: string;
+  /** A1 range, e.g. `"A1:D50"` or `"Leads!A3:F"`; the used range by default. */
+  range?: string;
+}
+
+/**
+ * WorkbookParser parses spreadsheet workbooks into {@link DataRow}s.
+ */
+export class WorkbookParser {
+  // -----------------------------------------------------------------------
+  // Public API
+  // -----------------------------------------------------------------------
+
+  /**
+   * Parse a workbook {@link File} into an array of {@link DataRow}.
+   *
+   * @throws If the file is empty, not a workbook, or the sheet or range
+   *   holds no data rows.
+   */
+  async parse(file: File, options: WorkbookReadOptions = {}): Promise<DataRow[]> {
+    return this.parseFromBuffer(await this.readFile(file), options);
+  }
+
+  /**
+   * Parse workbook content supplied as an `ArrayBuffer`.
+   */
+  parseFromBuffer(data: ArrayBuffer, options: WorkbookReadOptions = {}): DataRow[] {
+    const workbook = this.readWorkbook(data);
+    const { sheetName, range } = this.resolveTarget(options);
+    const sheet = this.getSheet(workbook, sheetName);
+
+    const bounds = this.resolveRange(sheet, range);
+    if (!bounds) {
+      throw new Error(`Sheet "${sheetName ?? workbook.SheetNames[0]}" is empty`);
+    }
+
+    const headerRows = this.countHeaderRows(sheet, bounds);
+    const headers = this.buildHeaders(sheet, bounds, headerRows);
+    const rows: DataRow[] = [];
+
+    for (let r = bounds.s.r + headerRows; r <= bounds.e.r; r++) {
+      const row: DataRow = {};
+      let hasValue = false;
+
+      headers.forEach((header, idx) => {
+        const value = this.cellValue(sheet[utils.encode_cell({ r, c: bounds.s.c + idx })]);
+        if (value !== "") hasValue = true;
+        row[header] = value;
+      });
+
+      if (hasValue) rows.push(row); // skip blank rows
+    }
+
+    if (rows.length === 0) {
+      throw new Error("Workbook must contain a header row and at least one data row");
+    }
+
+    return rows;
+  }
+
+  /**
+   * List the sheets of a workbook with their row and column counts, in the
+   * same shape as `GoogleSheetsConnector.getSheetMetadata`.
+   */
+  async getSheetMetadata(file: File): Promise<SheetMetadata> {
+    const workbook = this.readWorkbook(await this.readFile(file));
+
+    return {
+      title: workbook.Props?.Title || file.name.replace(/\.[^.]+$/, ""),
+      sheets: workbook.SheetNames.map((name) => {
+        const ref = workbook.Sheets[name]["!ref"];
+        const used = ref ? utils.decode_range(ref) : undefined;
+        return {
+          name,
+          rowCount: used ? used.e.r + 1 : 0,
+          columnCount: used ? used.e.c + 1 : 0,
+        };
+      }),
+    };
+  }
+
+  // -----------------------------------------------------------------------
+  // Private helpers
+  // -----------------------------------------------------------------------
+
+  private async readFile(file: File): Promise<ArrayBuffer> {
+    if (file.size === 0) {
+      throw new Error("Workbook file is empty");
+    }
+    if (file.size > MAX_FILE_SIZE_BYTES) {
+      // eslint-disable-next-line no-console
+      console.warn(
+        `Workbook is ${(file.size / 1024 / 1024).toFixed(1)} MB — performance may be affected`
+      );
+    }
+    return file.arrayBuffer();
+  }
+
+  private readWorkbook(data: ArrayBuffer): WorkBook {
+    try {
+      // `cellDates` keeps date cells as dates instead of serial numbers.
+      return read(data, { type: "array", cellDates: true });
+    } catch (error) {
+      const msg = error instanceof Error ? error.message : String(error);
+      throw new Error(`Could not read workbook: ${msg}`);
+    }
+  }
+
+  /** Split a `Sheet!A1:B2` range into its sheet name and cell range. */
+  private resolveTarget(options: WorkbookReadOptions): WorkbookReadOptions {
+    const range = options.range?.trim();
+    const bang = range?.lastIndexOf("!") ?? -1;
+    if (!range || bang < 0) return { sheetName: options.sheetName, range: range || undefined };
+
+    return {
+      sheetName: options.sheetName ?? range.slice(0, bang).replace(/^'(.*)'$/, "$1"),
+      range: range.slice(bang + 1),
+    };
+  }
+
+  private getSheet(workbook: WorkBook, sheetName?: string): WorkSheet {
+    const name = sheetName ?? workbook.SheetNames[0];
+    const sheet = name === undefined ? undefined : workbook.Sheets[name];
+    if (!sheet) {
+      throw new Error(
+        `Sheet "${name}" not found; the workbook has: ${workbook.SheetNames.join(", ")}`
+      );
+    }
+    return sheet;
+  }
+
+  /**
+   * The cells to read: `range` clipped to the sheet's used range. An open
+   * range such as `A3:F` runs to the last used row.
+   */
+  private resolveRange(sheet: WorkSheet, range?: string): Range | null {
+    const ref = sheet["!ref"];
+    if (!ref) return null;
+    const used = utils.decode_range(ref);
+    if (!range) return used;
+
+    if (!/^[A-Z]+\d*(:[A-Z]+\d*)?$/i.test(range)) {
+      throw new Error(`Invalid range "${range}"; expected A1 notation such as "A1:D50"`);
+    }
+    const [start, end = start] = range.toUpperCase().split(":");
+    const from = utils.decode_cell(/\d/.test(start) ? start : `${start}1`);
+    const to = utils.decode_cell(/\d/.test(end) ? end : `${end}${used.e.r + 1}`);
+
+    const bounds: Range = {
+      s: { r: Math.max(from.r, used.s.r), c: Math.max(from.c, used.s.c) },
+      e: { r: Math.min(to.r, used.e.r), c: Math.min(to.c, used.e.c) },
+    };
+    return bounds.s.r <= bounds.e.r && bounds.s.c <= bounds.e.c ? bounds : null;
+  }
+
+  /**
+   * Rows taken by the header. A header cell merged across columns is a
+   * group title with the column names in the row below it, and a header
+   * cell merged down covers the rows it spans.
+   */
+  private countHeaderRows(sheet: WorkSheet, bounds: Range): number {
+    const merges = sheet["!merges"] ?? [];
+    let rows = 1;
+
+    for (let r = bounds.s.r; r < bounds.s.r + rows && rows < MAX_HEADER_ROWS; r++) {
+      for (const m of merges) {
+        if (m.s.r !== r || m.e.c < bounds.s.c || m.s.c > bounds.e.c) continue;
+        const spanned = m.e.r - bounds.s.r + 1;
+        const grouped = m.e.c > m.s.c ? spanned + 1 : spanned;
+        rows = Math.min(Math.max(rows, grouped), MAX_HEADER_ROWS);
+      }
+    }
+    return Math.min(rows, bounds.e.r - bounds.s.r + 1);
+  }
+
+  /**
+   * One name per column: the header rows' texts top to bottom, with merged
+   * cells repeated across their span, e.g. `"Contact Email"`. Unnamed
+   * columns are called after their letter and repeated names are numbered.
+   */
+  private buildHeaders(sheet: WorkSheet, bounds: Range, headerRows: number): string[] {
+    const merges = sheet["!merges"] ?? [];
+    const text = (r: number, c: number): string => {
+      const merge = merges.find((m) => r >= m.s.r && r <= m.e.r && c >= m.s.c && c <= m.e.c);
+      const cell = merge ? sheet[utils.encode_cell(merge.s)] : sheet[utils.encode_cell({ r, c })];
+      return String(this.cellValue(cell)).trim();
+    };
+
+    const seen = new Map<string, number>();
+    const headers: string[] = [];
+    for (let c = bounds.s.c; c <= bounds.e.c; c++) {
+      const parts: string[] = [];
+      for (let r = bounds.s.r; r < bounds.s.r + headerRows; r++) {
+        const part = text(r, c);
+        if (part && part !== parts[parts.length - 1]) parts.push(part);
+      }
+
+      const base = parts.join(" ") || `Column ${utils.encode_col(c)}`;
+      const count = (seen.get(base) ?? 0) + 1;
+      seen.set(base, count);
+      headers.push(count === 1 ? base : `${base} ${count}`);
+    }
+    return headers;
+  }
+
+  /**
+   * A cell's value: numbers stay numbers, dates become `YYYY-MM-DD` (with
+   * the time when there is one) and anything else its text.
+   */
+  private cellValue(cell: CellObject | undefined): string | number {
+    if (!cell || cell.v === undefined || cell.v === null) return "";
+
+    switch (cell.t) {
+      case "n":
+        return cell.v as number;
+      case "d":
+        return cell.v instanceof Date ? this.formatDate(cell.v) : String(cell.v);
+      case "s":
+        return String(cell.v).trim();
+      default:
+        // Booleans and errors keep the text the spreadsheet shows (TRUE, #N/A).
+        return cell.w ?? String(cell.v);
+    }
+  }
+
+  /**
+   * Date as `YYYY-MM-DD` or `YYYY-MM-DDTHH:mm:ss`. SheetJS gives the cell's
+   * wall-clock time as a UTC date, so it is read with the UTC getters.
+   */
+  private formatDate(date: Date): string {
+    const pad = (n: number) => String(n).padStart(2, "0");
+    const day = `${date.getUTCFullYear()}-${pad(date.getUTCMonth() + 1)}-${pad(date.getUTCDate())}`;
+    const time = `${pad(date.getUTCHours())}:${pad(date.getUTCMinutes())}:${pad(date.getUTCSeconds())}`;
+    return time === "00:00:00" ? day : `${day}T${time}`;
+  }
+}
@@ -3,10 +3,22 @@
  */
 
 export { CSVParser } from "./CSVParser";
-export type { IndexedDataRow } from "./CSVParser";
+export type { IndexedDataRow, CSVRowBatch, CSVStreamOptions, CSVStreamProgress } from "./CSVParser";
 
-export { GoogleSheetsConnector } from "./GoogleSheetsConnector";
-export type { SheetMetadata, SheetInfo } from "./GoogleSheetsConnector";
+export { WorkbookParser } from "./WorkbookParser";
+export type { WorkbookReadOptions } from "./WorkbookParser";
+
+export { GoogleSheetsConnector, SHEET_SYNC_ALARM_PREFIX } from "./GoogleSheetsConnector";
+export type {
+  SheetMetadata,
+  SheetInfo,
+  SheetResultField,
+  SheetRowResult,
+  SheetSyncPoll,
+  SheetSyncRow,
+  SheetWriteBackOptions,
+  SheetWriteBackSummary,
+} from "./GoogleSheetsConnector";
 
 export { DataMapper } from "./DataMapper";
 export type {
@@ -14,6 +26,9 @@ export type {
   MappedData,
   TransformationType,
   Transformation,
+  TransformCondition,
+  FieldMapping,
+  FieldMappings,
   FieldType,
   FieldTypes,
 } from "./DataMapper";
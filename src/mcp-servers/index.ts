@@ -0,0 +1,17 @@
+/**
+ * MCP server configurations bundled with the extension.
+ *
+ * Each JSON file in this directory describes one server. Add new servers
+ * here so the MCP router connects to them.
+ */
+
+import type { MCPServerConfig } from "~types/mcp";
+import browserMcp from "./browser-mcp.json";
+import playwrightMcp from "./playwright-mcp.json";
+import playwrightSharedMcp from "./playwright-shared-mcp.json";
+
+export const MCP_SERVER_CONFIGS: MCPServerConfig[] = [
+  playwrightMcp as MCPServerConfig,
+  playwrightSharedMcp as MCPServerConfig,
+  browserMcp as MCPServerConfig,
+];
@@ -0,0 +1,120 @@
+import { useEffect, useRef, useState } from "react";
+import type { AdapterPackManifest } from "~types/adapter";
+
+interface InstalledPack {
+  manifest: AdapterPackManifest;
+  installedAt: string;
+}
+
+/**
+ * Read a picked pack folder into files keyed by path within the pack,
+ * e.g. `express/actions/publish.yaml` → `actions/publish.yaml`.
+ */
+async function readPackFolder(fileList: FileList): Promise<Record<string, string>> {
+  const files: Record<string, string> = {};
+  for (const file of Array.from(fileList)) {
+    const path = file.webkitRelativePath || file.name;
+    files[path.slice(path.indexOf("/") + 1)] = await file.text();
+  }
+  return files;
+}
+
+/**
+ * Installed adapter packs, with import from a local folder and removal.
+ */
+export function AdapterPacks() {
+  const [packs, setPacks] = useState<InstalledPack[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const refresh = async () => {
+    const response = await chrome.runtime.sendMessage({ type: "GET_ADAPTER_PACKS" });
+    if (response?.success) setPacks(response.data.packs);
+  };
+
+  useEffect(() => {
+    refresh().catch((err) => console.error("Failed to load adapter packs:", err));
+  }, []);
+
+  const handleImport = async (fileList: FileList | null) => {
+    if (!fileList?.length) return;
+    setBusy(true);
+    setError(null);
+    try {
+      const files = await readPackFolder(fileList);
+      const response = await chrome.runtime.sendMessage({
+        type: "IMPORT_ADAPTER_PACK",
+        payload: { files },
+      });
+      if (!response?.success) setError(response?.error ?? "Import failed");
+      await refresh();
+    } catch (err) {
+      setError(String(err));
+    } finally {
+      setBusy(false);
+      if (inputRef.current) inputRef.current.value = "";
+    }
+  };
+
+  const handleRemove = async (name: string) => {
+    try {
+      await chrome.runtime.sendMessage({ type: "REMOVE_ADAPTER_PACK", payload: { name } });
+      await refresh();
+    } catch (err) {
+      console.error("Failed to remove adapter pack:", err);
+    }
+  };
+
+  return (
+    <section className="mt-6 space-y-3">
+      <div className="flex items-center justify-between">
+        <h2 className="text-sm font-semibold text-neutral-700 dark:text-neutral-300">
+          Adapter packs
+        </h2>
+        <button onClick={() => inputRef.current?.click()} disabled={busy} className="btn-secondary">
+          {busy ? "Importing..." : "Import folder"}
+        </button>
+        <input
+          ref={inputRef}
+          type="file"
+          className="hidden"
+          multiple
+          {...{ webkitdirectory: "" }}
+          onChange={(e) => handleImport(e.target.files)}
+        />
+      </div>
+
+      {error && (
+        <pre className="whitespace-pre-wrap break-words rounded bg-red-50 p-2 text-xs text-red-700 dark:bg-red-900/20 dark:text-red-400">
+          {error}
+        </pre>
+      )}
+
+      {packs.length === 0 && (
+        <p className="text-sm text-neutral-500 dark:text-neutral-400">
+          No packs installed. A pack is a folder with a manifest.yaml.
+        </p>
+      )}
+
+      {packs.map(({ manifest }) => (
+        <div key={manifest.name} className="card">
+          <div className="flex items-center justify-between">
+            <h3 className="text-sm font-medium text-neutral-900 dark:text-white">
+              {manifest.name} <span className="text-xs text-neutral-500">v{manifest.version}</span>
+            </h3>
+            <button onClick={() => handleRemove(manifest.name)} className="btn-secondary">
+              Remove
+            </button>
+          </div>
+          <p className="mt-1 text-xs text-neutral-500 dark:text-neutral-400">
+            {manifest.supportedDomains.join(", ")}
+          </p>
+          <p className="mt-1 text-xs text-neutral-500 dark:text-neutral-400">
+            Scripts may: {manifest.capabilities.join(", ") || "wait only"}
+          </p>
+        </div>
+      ))}
+    </section>
+  );
+}
@@ -0,0 +1,47 @@
+import { useState } from "react";
+import { useAgentStream } from "../hooks/useAgentStream";
+import { TaskStreamCard } from "./TaskStreamCard";
+
+/**
+ * Live activity for a running job: the agent's streamed reasoning and
+ * planned actions per task, with a button to cancel the job.
+ */
+export function AgentActivity({ jobId }: { jobId: string }) {
+  const { tasks, jobStatus } = useAgentStream(jobId);
+  const [cancelling, setCancelling] = useState(false);
+
+  const handleCancel = async () => {
+    setCancelling(true);
+    try {
+      // The background aborts the in-flight LLM request as well.
+      await chrome.runtime.sendMessage({ type: "CANCEL_JOB", payload: { jobId } });
+    } catch (error) {
+      console.error("Failed to cancel job:", error);
+    } finally {
+      setCancelling(false);
+    }
+  };
+
+  return (
+    <section className="mt-6 space-y-3">
+      <div className="flex items-center justify-between">
+        <h2 className="text-sm font-semibold text-neutral-700 dark:text-neutral-300">
+          {jobStatus ? `Job ${jobStatus}` : "Agent activity"}
+        </h2>
+        {!jobStatus && (
+          <button onClick={handleCancel} disabled={cancelling} className="btn-secondary">
+            {cancelling ? "Cancelling..." : "Cancel"}
+          </button>
+        )}
+      </div>
+
+      {tasks.length === 0 && !jobStatus && (
+        <p className="text-sm text-neutral-500 dark:text-neutral-400">Planning…</p>
+      )}
+
+      {tasks.map((task) => (
+        <TaskStreamCard key={task.taskId} task={task} />
+      ))}
+    </section>
+  );
+}
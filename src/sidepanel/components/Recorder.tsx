@@ -0,0 +1,137 @@
+import { useState } from "react";
+import type { DataRow } from "~types/data";
+import type { RecordedDraft } from "~types/recorder";
+import { CSVParser } from "../../data/CSVParser";
+
+/**
+ * Save `content` as a file through a temporary link.
+ */
+function download(fileName: string, content: string) {
+  const url = URL.createObjectURL(new Blob([content], { type: "text/yaml" }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Record a flow in the active tab and review the drafted adapter YAML
+ * before installing it as a pack or downloading it.
+ */
+export function Recorder() {
+  const [recording, setRecording] = useState(false);
+  const [name, setName] = useState("");
+  const [rows, setRows] = useState<DataRow[]>([]);
+  const [draft, setDraft] = useState<RecordedDraft | null>(null);
+  const [files, setFiles] = useState<Record<string, string>>({});
+  const [message, setMessage] = useState<string | null>(null);
+
+  const handleStart = async () => {
+    setMessage(null);
+    setDraft(null);
+    const response = await chrome.runtime.sendMessage({ type: "START_RECORDING" });
+    if (response?.success) setRecording(true);
+    else setMessage(response?.error ?? "Could not start recording");
+  };
+
+  const handleStop = async () => {
+    const response = await chrome.runtime.sendMessage({
+      type: "STOP_RECORDING",
+      payload: { name, dataRows: rows },
+    });
+    setRecording(false);
+    if (!response?.success) {
+      setMessage(response?.error ?? "Recording failed");
+      return;
+    }
+    setDraft(response.data.draft);
+    setFiles(response.data.files);
+  };
+
+  const handleRows = async (fileList: FileList | null) => {
+    const file = fileList?.[0];
+    if (!file) return;
+    try {
+      setRows(await new CSVParser().parse(file));
+    } catch (err) {
+      setMessage(String(err));
+    }
+  };
+
+  const handleInstall = async () => {
+    const response = await chrome.runtime.sendMessage({
+      type: "IMPORT_ADAPTER_PACK",
+      payload: { files },
+    });
+    setMessage(response?.success ? "Installed as an adapter pack" : (response?.error ?? "Failed"));
+  };
+
+  return (
+    <section className="mt-6 space-y-3">
+      <div className="flex items-center justify-between">
+        <h2 className="text-sm font-semibold text-neutral-700 dark:text-neutral-300">
+          Record a workflow
+        </h2>
+        <button onClick={recording ? handleStop : handleStart} className="btn-secondary">
+          {recording ? "Stop" : "Record"}
+        </button>
+      </div>
+
+      {!recording && !draft && (
+        <div className="space-y-2 text-xs text-neutral-500 dark:text-neutral-400">
+          <input
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="Workflow name, e.g. createPost"
+            className="w-full rounded border border-neutral-300 p-1.5 dark:border-neutral-600 dark:bg-neutral-800"
+          />
+          <label className="block">
+            Data rows (optional, CSV) — typed values that match a column become placeholders
+            <input type="file" accept=".csv" onChange={(e) => handleRows(e.target.files)} />
+          </label>
+          {rows.length > 0 && <p>{rows.length} rows loaded</p>}
+        </div>
+      )}
+
+      {recording && (
+        <p className="text-sm text-neutral-500 dark:text-neutral-400">
+          Recording clicks, typing and scrolling in the active tab…
+        </p>
+      )}
+
+      {message && <p className="text-xs text-neutral-600 dark:text-neutral-300">{message}</p>}
+
+      {draft && (
+        <div className="card space-y-2">
+          <p className="text-xs text-neutral-500 dark:text-neutral-400">
+            {draft.workflow.steps.length} steps on {draft.domain}
+            {draft.variables.length > 0 &&
+              ` — placeholders: ${draft.variables.map((v) => `{{${v}}}`).join(", ")}`}
+          </p>
+          {Object.entries(files).map(([fileName, content]) => (
+            <label key={fileName} className="block text-xs font-medium">
+              {fileName}
+              <textarea
+                value={content}
+                onChange={(e) => setFiles({ ...files, [fileName]: e.target.value })}
+                className="mt-1 h-32 w-full rounded border border-neutral-300 p-2 font-mono text-xs dark:border-neutral-600 dark:bg-neutral-800"
+              />
+            </label>
+          ))}
+          <div className="flex gap-2">
+            <button onClick={handleInstall} className="btn-secondary">
+              Install as pack
+            </button>
+            <button
+              onClick={() => Object.entries(files).forEach(([f, c]) => download(f, c))}
+              className="btn-secondary"
+            >
+              Download YAML
+            </button>
+          </div>
+        </div>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,74 @@
+import { useEffect, useState } from "react";
+import type { SelectorOverride } from "~types/browser";
+
+/**
+ * Selectors learned by self-healing, for review: promoting one keeps it
+ * even when it later fails, removing it goes back to the adapter's own.
+ */
+export function SelectorOverrides() {
+  const [overrides, setOverrides] = useState<SelectorOverride[]>([]);
+
+  const refresh = async () => {
+    const response = await chrome.runtime.sendMessage({ type: "GET_SELECTOR_OVERRIDES" });
+    if (response?.success) setOverrides(response.data.overrides);
+  };
+
+  useEffect(() => {
+    refresh().catch((err) => console.error("Failed to load selector overrides:", err));
+  }, []);
+
+  const handle = async (
+    type: "PROMOTE_SELECTOR_OVERRIDE" | "REMOVE_SELECTOR_OVERRIDE",
+    { adapter, domain, original }: SelectorOverride
+  ) => {
+    try {
+      await chrome.runtime.sendMessage({ type, payload: { adapter, domain, original } });
+      await refresh();
+    } catch (err) {
+      console.error("Failed to update selector override:", err);
+    }
+  };
+
+  return (
+    <section className="mt-6 space-y-3">
+      <h2 className="text-sm font-semibold text-neutral-700 dark:text-neutral-300">
+        Learned selectors
+      </h2>
+
+      {overrides.length === 0 && (
+        <p className="text-sm text-neutral-500 dark:text-neutral-400">
+          None yet. Selectors healed during a job are listed here.
+        </p>
+      )}
+
+      {overrides.map((override) => (
+        <div key={`${override.adapter}|${override.domain}|${override.original}`} className="card">
+          <p className="text-xs text-neutral-500 dark:text-neutral-400">
+            {override.adapter || "no adapter"} · {override.domain} ·{" "}
+            {Math.round(override.confidence * 100)}% ({override.successes} ok, {override.failures}{" "}
+            failed){override.promoted && " · promoted"}
+          </p>
+          <p className="mt-1 break-all font-mono text-xs text-neutral-900 dark:text-white">
+            {override.original} → {override.replacement}
+          </p>
+          <div className="mt-2 flex gap-2">
+            {!override.promoted && (
+              <button
+                onClick={() => handle("PROMOTE_SELECTOR_OVERRIDE", override)}
+                className="btn-secondary"
+              >
+                Promote
+              </button>
+            )}
+            <button
+              onClick={() => handle("REMOVE_SELECTOR_OVERRIDE", override)}
+              className="btn-secondary"
+            >
+              Remove
+            </button>
+          </div>
+        </div>
+      ))}
+    </section>
+  );
+}
@@ -0,0 +1,62 @@
+import type { BrowserAction } from "~types/browser";
+import type { TaskStream } from "../hooks/useAgentStream";
+
+const STATUS_LABELS: Record<TaskStream["status"], string> = {
+  thinking: "Thinking…",
+  acting: "Acting",
+  pending: "Pending",
+  running: "Running",
+  completed: "Done",
+  failed: "Failed",
+  skipped: "Skipped",
+};
+
+/** One-line summary of a planned action, e.g. `click .heading`. */
+function describeAction(action: BrowserAction): string {
+  const target = action.target;
+  const where = !target
+    ? ""
+    : target.type === "css"
+      ? target.selector
+      : target.type === "coordinates"
+        ? `(${target.x}, ${target.y})`
+        : target.type === "named"
+          ? target.name
+          : target.description;
+  const value = typeof action.value === "string" ? ` "${action.value}"` : "";
+  return `${action.type} ${where}${value}`.trim();
+}
+
+/**
+ * Live reasoning and planned actions for a single task.
+ */
+export function TaskStreamCard({ task }: { task: TaskStream }) {
+  return (
+    <div className="card">
+      <div className="mb-2 flex items-center justify-between">
+        <h3 className="text-sm font-medium text-neutral-900 dark:text-white">{task.taskName}</h3>
+        <span className="text-xs text-neutral-500 dark:text-neutral-400">
+          Step {task.step} · {STATUS_LABELS[task.status]}
+        </span>
+      </div>
+
+      {task.reasoning && (
+        <pre className="scrollbar-thin max-h-40 overflow-y-auto whitespace-pre-wrap break-words rounded bg-neutral-100 p-2 text-xs text-neutral-700 dark:bg-neutral-900 dark:text-neutral-300">
+          {task.reasoning}
+        </pre>
+      )}
+
+      {task.actions.length > 0 && (
+        <ul className="mt-2 space-y-1">
+          {task.actions.map((action, i) => (
+            <li key={i} className="font-mono text-xs text-primary-600 dark:text-primary-400">
+              → {describeAction(action)}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {task.error && <p className="mt-2 text-xs text-red-600 dark:text-red-400">{task.error}</p>}
+    </div>
+  );
+}
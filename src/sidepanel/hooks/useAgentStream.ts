@@ -0,0 +1,96 @@
+import { useEffect, useReducer } from "react";
+import type { BrowserAction } from "~types/browser";
+import { AGENT_STREAM_PORT } from "~types/orchestration";
+import type { AgentStreamEvent, JobStatus, TaskStatus } from "~types/orchestration";
+
+/**
+ * Live view of one task: the reasoning streamed during its latest Think
+ * step and the actions the agent planned from it.
+ */
+export interface TaskStream {
+  taskId: string;
+  taskName: string;
+  step: number;
+  reasoning: string;
+  actions: BrowserAction[];
+  status: "thinking" | "acting" | TaskStatus;
+  error?: string;
+}
+
+/** Live view of a job. */
+export interface AgentStreamState {
+  tasks: TaskStream[];
+  jobStatus?: JobStatus;
+}
+
+export const INITIAL_STREAM_STATE: AgentStreamState = { tasks: [] };
+
+/**
+ * Fold a stream event into the job's live view. Reasoning is reset at the
+ * start of every Think step so only the latest one is shown.
+ */
+export function applyStreamEvent(
+  state: AgentStreamState,
+  event: AgentStreamEvent
+): AgentStreamState {
+  const update = (taskId: string, patch: (task: TaskStream) => Partial<TaskStream>) => ({
+    ...state,
+    tasks: state.tasks.map((t) => (t.taskId === taskId ? { ...t, ...patch(t) } : t)),
+  });
+
+  switch (event.type) {
+    case "think_start": {
+      const task: TaskStream = {
+        taskId: event.taskId,
+        taskName: event.taskName,
+        step: event.step,
+        reasoning: "",
+        actions: [],
+        status: "thinking",
+      };
+      // A new Think step also means a resumed job is running again.
+      const exists = state.tasks.some((t) => t.taskId === event.taskId);
+      return exists
+        ? { ...update(event.taskId, () => task), jobStatus: undefined }
+        : { tasks: [...state.tasks, task] };
+    }
+    case "think_chunk":
+      return update(event.taskId, (t) => ({ reasoning: t.reasoning + event.chunk }));
+    case "think_end":
+      return update(event.taskId, () => ({ actions: event.actions, status: "acting" }));
+    case "task_end":
+      return update(event.taskId, () => ({ status: event.status, error: event.error }));
+    case "job_end":
+      return { ...state, jobStatus: event.status };
+  }
+}
+
+/**
+ * Subscribe to live progress for `jobId` over a long-lived port to the
+ * background service worker. The view resets when `jobId` changes.
+ */
+export function useAgentStream(jobId: string | null): AgentStreamState {
+  const [state, dispatch] = useReducer(
+    (current: AgentStreamState, action: AgentStreamEvent | null) =>
+      action ? applyStreamEvent(current, action) : INITIAL_STREAM_STATE,
+    INITIAL_STREAM_STATE
+  );
+
+  useEffect(() => {
+    dispatch(null);
+    if (!jobId) return;
+
+    const port = chrome.runtime.connect({ name: AGENT_STREAM_PORT });
+    const onMessage = (message: AgentStreamEvent) => {
+      if (message?.jobId === jobId) dispatch(message);
+    };
+    port.onMessage.addListener(onMessage);
+
+    return () => {
+      port.onMessage.removeListener(onMessage);
+      port.disconnect();
+    };
+  }, [jobId]);
+
+  return state;
+}
@@ -1,4 +1,8 @@
 import { useState } from "react";
+import { AdapterPacks } from "./components/AdapterPacks";
+import { AgentActivity } from "./components/AgentActivity";
+import { Recorder } from "./components/Recorder";
+import { SelectorOverrides } from "./components/SelectorOverrides";
 import "./styles/globals.css";
 
 /**
@@ -8,6 +12,7 @@ import "./styles/globals.css";
 function SidePanel() {
   const [prompt, setPrompt] = useState("");
   const [isProcessing, setIsProcessing] = useState(false);
+  const [jobId, setJobId] = useState<string | null>(null);
 
   const handleSubmit = async () => {
     if (!prompt.trim()) return;
@@ -15,10 +20,11 @@ function SidePanel() {
     setIsProcessing(true);
     try {
       // Send message to background script to start job
-      await chrome.runtime.sendMessage({
+      const response = await chrome.runtime.sendMessage({
         type: "START_JOB",
         payload: { prompt },
       });
+      if (response?.success) setJobId(response.data.jobId);
     } catch (error) {
       console.error("Failed to start job:", error);
     } finally {
@@ -66,12 +72,22 @@ function SidePanel() {
           {isProcessing ? "Processing..." : "Generate"}
         </button>
 
-        {/* Placeholder for future components */}
-        <div className="mt-6 rounded-lg border border-dashed border-neutral-300 p-4 text-center dark:border-neutral-600">
-          <p className="text-sm text-neutral-500 dark:text-neutral-400">
-            Job queue and progress will appear here
-          </p>
-        </div>
+        {/* Live agent activity */}
+        {jobId ? (
+          <AgentActivity jobId={jobId} />
+        ) : (
+          <div className="mt-6 rounded-lg border border-dashed border-neutral-300 p-4 text-center dark:border-neutral-600">
+            <p className="text-sm text-neutral-500 dark:text-neutral-400">
+              Job progress will appear here
+            </p>
+          </div>
+        )}
+
+        <Recorder />
+
+        <AdapterPacks />
+
+        <SelectorOverrides />
       </main>
 
       {/* Footer */}
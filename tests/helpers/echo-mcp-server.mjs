@@ -0,0 +1,82 @@
+#!/usr/bin/env node
+/**
+ * Minimal stdio MCP server used by the MCP transport tests.
+ *
+ * Tools:
+ * - echo  — returns its `text` argument
+ * - fail  — returns a tool-level error result
+ * - slow  — never answers (exercises request timeouts)
+ *
+ * Any other method is answered with METHOD_NOT_FOUND.
+ */
+
+import { createInterface } from "node:readline";
+
+const TOOLS = [
+  {
+    name: "echo",
+    description: "Echo the provided text",
+    inputSchema: {
+      type: "object",
+      properties: { text: { type: "string" } },
+      required: ["text"],
+    },
+  },
+  { name: "fail", description: "Always fails", inputSchema: { type: "object" } },
+  { name: "slow", description: "Never responds", inputSchema: { type: "object" } },
+];
+
+const send = (message) => process.stdout.write(`${JSON.stringify({ jsonrpc: "2.0", ...message })}\n`);
+
+// Stray log output must be ignored by the client.
+process.stdout.write("echo-mcp-server starting\n");
+
+createInterface({ input: process.stdin }).on("line", (line) => {
+  let message;
+  try {
+    message = JSON.parse(line);
+  } catch {
+    send({ id: null, error: { code: -32700, message: "Parse error" } });
+    return;
+  }
+
+  const { id, method, params } = message;
+  if (id === undefined) return; // notification
+
+  switch (method) {
+    case "initialize":
+      send({
+        id,
+        result: {
+          protocolVersion: params.protocolVersion,
+          capabilities: { tools: {} },
+          serverInfo: { name: "echo-server", version: "1.0.0" },
+        },
+      });
+      break;
+
+    case "tools/list":
+      // Two pages to exercise cursor handling.
+      if (params?.cursor === "page-2") {
+        send({ id, result: { tools: TOOLS.slice(2) } });
+      } else {
+        send({ id, result: { tools: TOOLS.slice(0, 2), nextCursor: "page-2" } });
+      }
+      break;
+
+    case "tools/call":
+      if (params.name === "echo") {
+        send({ id, result: { content: [{ type: "text", text: params.arguments.text }] } });
+      } else if (params.name === "fail") {
+        send({ id, result: { content: [{ type: "text", text: "boom" }], isError: true } });
+      } else if (params.name === "slow") {
+        // Intentionally no response.
+      } else {
+        send({ id, error: { code: -32602, message: `Unknown tool: ${params.name}` } });
+      }
+      break;
+
+    default:
+      send({ id, error: { code: -32601, message: `Method not found: ${method}` } });
+  }
+});
@@ -19,6 +19,11 @@ const mockChrome = {
       clear: vi.fn().mockResolvedValue(undefined),
       getBytesInUse: vi.fn().mockResolvedValue(0),
     },
+    session: {
+      get: vi.fn().mockResolvedValue({}),
+      set: vi.fn().mockResolvedValue(undefined),
+      remove: vi.fn().mockResolvedValue(undefined),
+    },
     onChanged: {
       addListener: vi.fn(),
       removeListener: vi.fn(),
@@ -47,6 +52,10 @@ const mockChrome = {
     captureVisibleTab: vi.fn().mockResolvedValue("data:image/png;base64,mock"),
     create: vi.fn().mockResolvedValue({ id: 1 }),
     update: vi.fn().mockResolvedValue({}),
+    onUpdated: {
+      addListener: vi.fn(),
+      removeListener: vi.fn(),
+    },
   },
   sidePanel: {
     open: vi.fn().mockResolvedValue(undefined),
@@ -60,6 +69,15 @@ const mockChrome = {
   scripting: {
     executeScript: vi.fn().mockResolvedValue([]),
   },
+  alarms: {
+    create: vi.fn().mockResolvedValue(undefined),
+    clear: vi.fn().mockResolvedValue(true),
+    get: vi.fn().mockResolvedValue(undefined),
+    onAlarm: {
+      addListener: vi.fn(),
+      removeListener: vi.fn(),
+    },
+  },
   identity: undefined as unknown,
 };
 
@@ -1,12 +1,15 @@
 import { describe, it, expect, vi, beforeEach } from "vitest";
-import { CanvaAdapter } from "../../src/adapters/CanvaAdapter";
+import { CANVA_ADAPTER_FILES, CanvaAdapter } from "../../src/adapters/CanvaAdapter";
+import { AdapterLoadError, AdapterLoader } from "../../src/adapters/AdapterLoader";
 import { FigmaAdapter } from "../../src/adapters/FigmaAdapter";
 import { GenericWebAdapter } from "../../src/adapters/GenericWebAdapter";
 import { AdapterRegistry } from "../../src/adapters/AdapterRegistry";
+import { PackAdapter } from "../../src/adapters/PackAdapter";
 import { createAdapter, getAvailableAdapters } from "../../src/adapters/AdapterFactory";
 import type { Observation } from "~types/orchestration";
 import type { ActionResult } from "~types/common";
-import type { BrowserAction } from "~types/browser";
+import type { BrowserAction, CustomAction } from "~types/browser";
+import type { AdapterPack } from "~types/adapter";
 
 // ---------------------------------------------------------------------------
 // Helpers
@@ -98,12 +101,304 @@ describe("CanvaAdapter", () => {
     expect(prompt).toContain("success");
   });
 
-  it("executeCustomAction returns success ActionResult", async () => {
-    const result = await adapter.executeCustomAction(makeMockAction());
+  it("runs custom actions in the Canva content script of the active tab", async () => {
+    vi.mocked(chrome.tabs.query).mockResolvedValueOnce([{ id: 7 } as chrome.tabs.Tab]);
+    vi.mocked(chrome.tabs.sendMessage).mockResolvedValueOnce({
+      ...makeMockResult(),
+      data: { index: 2, total: 4 },
+    });
+
+    const result = await adapter.executeCustomAction({
+      type: "custom",
+      name: "selectTextLayer",
+      params: { index: "2" },
+    } as CustomAction);
+
+    expect(chrome.tabs.sendMessage).toHaveBeenCalledWith(7, {
+      platform: "canva",
+      customAction: "selectTextLayer",
+      params: { index: 2 },
+    });
     expect(result.success).toBe(true);
-    expect(result.timestamp).toBeDefined();
+    expect(result.data).toEqual({ index: 2, total: 4 });
     expect(typeof result.duration).toBe("number");
   });
+
+  it("rejects unknown actions and invalid params without messaging the tab", async () => {
+    const unknown = await adapter.executeCustomAction(makeMockAction());
+    const invalid = await adapter.executeCustomAction({
+      type: "custom",
+      name: "setExportFormat",
+      params: { format: "gif" },
+    } as CustomAction);
+
+    expect(unknown.error).toBe('Unknown Canva custom action of type "click"');
+    expect(invalid.success).toBe(false);
+    expect(invalid.error).toContain("Invalid params for setExportFormat: format:");
+    expect(chrome.tabs.sendMessage).not.toHaveBeenCalled();
+  });
+
+  it("reports when the Canva content script cannot be reached", async () => {
+    vi.mocked(chrome.tabs.query).mockResolvedValue([{ id: 7 } as chrome.tabs.Tab]);
+    const download: CustomAction = { type: "custom", name: "downloadDesign" };
+
+    vi.mocked(chrome.tabs.sendMessage).mockResolvedValueOnce(undefined);
+    const silent = await adapter.executeCustomAction(download);
+    vi.mocked(chrome.tabs.sendMessage).mockRejectedValueOnce(new Error("No receiving end"));
+    const missing = await adapter.executeCustomAction(download);
+
+    expect(silent.error).toContain("did not respond");
+    expect(missing.error).toBe("Content script communication failed: No receiving end");
+    vi.mocked(chrome.tabs.query).mockResolvedValue([]);
+  });
+});
+
+// ===========================================================================
+// AdapterLoader
+// ===========================================================================
+
+describe("AdapterLoader", () => {
+  const SELECTORS = ["searchBox: '#search'", "exportButton: '#export'"].join("\n");
+
+  function loadError(files: Record<string, string>): AdapterLoadError {
+    try {
+      AdapterLoader.load("Test", { "selectors.yaml": SELECTORS, ...files });
+    } catch (error) {
+      expect(error).toBeInstanceOf(AdapterLoadError);
+      return error as AdapterLoadError;
+    }
+    throw new Error("expected AdapterLoadError");
+  }
+
+  it("loads the bundled Canva files into typed knowledge", () => {
+    const definition = AdapterLoader.load("Canva", CANVA_ADAPTER_FILES);
+
+    expect(definition.selectors.editorCanvas).toBe('[data-testid="design-surface"]');
+    expect(definition.workflows.exportDesign.steps[0].action.target).toEqual({
+      type: "named",
+      name: "shareButton",
+    });
+    expect(definition.workflows.duplicateDesign.steps[0].action.target).toEqual({
+      type: "css",
+      selector: '[data-testid="more-options"]',
+    });
+    expect(definition.workflows.editTextLayer.steps[1].action).toMatchObject({
+      type: "wait",
+      condition: { type: "timeout", duration: 500 },
+    });
+    expect(definition.canvasRules?.interactions.text.notes?.length).toBeGreaterThan(0);
+    expect(Object.keys(definition.prompts ?? {})).toEqual(["template-search", "text-edit"]);
+  });
+
+  it("builds Canva task templates from the YAML workflows", () => {
+    const knowledge = new CanvaAdapter().getKnowledge();
+    expect(knowledge.commonTasks.export.workflow.name).toBe("exportDesign");
+    expect(knowledge.commonTasks.createFromTemplate.workflow.name).toBe("searchAndSelectTemplate");
+  });
+
+  it("reports unknown selector names with file, line and column", () => {
+    const error = loadError({
+      "workflows.yaml": [
+        "exportDesign:",
+        "  description: Export",
+        "  steps:",
+        "    - action: click",
+        "      target: shareButton",
+        "      description: Open share",
+      ].join("\n"),
+    });
+
+    expect(error.issues).toEqual([
+      {
+        file: "workflows.yaml",
+        line: 5,
+        column: 15,
+        path: "exportDesign.steps[0].target",
+        message: 'unknown selector "shareButton" (not defined in selectors.yaml)',
+      },
+    ]);
+    expect(error.message).toContain("workflows.yaml:5:15 exportDesign.steps[0].target");
+  });
+
+  it("reports misspelled keys and invalid values at their location", () => {
+    const error = loadError({
+      "workflows.yaml": [
+        "exportDesign:",
+        "  description: Export",
+        "  steps:",
+        "    - action: tap",
+        "      tagret: exportButton",
+        "      description: Export",
+      ].join("\n"),
+    });
+
+    const locations = error.issues.map((i) => `${i.line}:${i.column} ${i.path}`);
+    expect(locations).toContain("4:15 exportDesign.steps[0].action");
+    expect(locations).toContain("5:7 exportDesign.steps[0].tagret");
+  });
+
+  it("reports YAML syntax errors", () => {
+    const error = loadError({
+      "canvas-rules.yaml": "canvas:\n  editorSelector: '#a'\n  editorSelector: '#b'",
+    });
+
+    expect(error.issues[0]).toMatchObject({ file: "canvas-rules.yaml", line: 3, column: 3 });
+    expect(error.issues[0].message).toBe("Map keys must be unique");
+  });
+
+  it("requires selectors.yaml", () => {
+    expect(() => AdapterLoader.load("Empty", {})).toThrow(/selectors\.yaml file is missing/);
+  });
+});
+
+// ===========================================================================
+// PackAdapter
+// ===========================================================================
+
+describe("PackAdapter", () => {
+  const MANIFEST = [
+    "name: Internal CMS",
+    "version: 1.2.0",
+    "supportedDomains: [cms.example.com]",
+    "capabilities: [interact, input]",
+    "knowledge:",
+    "  selectors: selectors.yaml",
+    "actions:",
+    "  publish: actions/publish.yaml",
+  ].join("\n");
+
+  const PUBLISH = [
+    "description: Publish the page",
+    "params: [title]",
+    "steps:",
+    "  - action: type",
+    "    target: titleInput",
+    '    value: "{{title}}"',
+    "    description: Set the title",
+    "  - action: click",
+    "    target: publishButton",
+    "    description: Publish",
+  ].join("\n");
+
+  function makePack(files: Record<string, string> = {}): AdapterPack {
+    return {
+      manifest: {} as AdapterPack["manifest"],
+      files: {
+        "manifest.yaml": MANIFEST,
+        "selectors.yaml": "titleInput: '#title'\npublishButton: '#publish'",
+        "actions/publish.yaml": PUBLISH,
+        ...files,
+      },
+      installedAt: new Date().toISOString(),
+    };
+  }
+
+  function mockExecutor(result: () => ActionResult = makeMockResult) {
+    return { executeSequence: vi.fn(async (actions: BrowserAction[]) => actions.map(result)) };
+  }
+
+  const executed = (executor: ReturnType<typeof mockExecutor>) =>
+    executor.executeSequence.mock.calls.flatMap(([actions]) => actions);
+
+  const publish: CustomAction = { type: "custom", name: "publish", params: { title: "Q3" } };
+
+  it("takes its name, domains and knowledge from the manifest", () => {
+    const adapter = new PackAdapter(makePack(), mockExecutor());
+
+    expect(adapter.name).toBe("Internal CMS");
+    expect(adapter.supportedDomains).toEqual(["cms.example.com"]);
+    expect(adapter.getKnowledge().selectors.publishButton).toBe("#publish");
+    expect(adapter.getCustomActions().map((a) => a.name)).toEqual(["publish"]);
+  });
+
+  it("runs a custom action script with params and resolved selectors", async () => {
+    const executor = mockExecutor();
+    const result = await new PackAdapter(makePack(), executor).executeCustomAction(publish);
+
+    expect(result.success).toBe(true);
+    expect(executed(executor)).toEqual([
+      {
+        type: "type",
+        target: { type: "css", selector: "#title" },
+        value: "Q3",
+        description: "Set the title",
+      },
+      { type: "click", target: { type: "css", selector: "#publish" }, description: "Publish" },
+    ]);
+  });
+
+  it("rejects packs whose scripts need undeclared capabilities", () => {
+    const files = {
+      "actions/publish.yaml": [
+        "description: Leave",
+        "steps:",
+        "  - action: navigate",
+        "    value: https://evil.example.net",
+        "    description: Navigate away",
+      ].join("\n"),
+    };
+
+    expect(() => new PackAdapter(makePack(files), mockExecutor())).toThrow(
+      'actions/publish.yaml:3:13 steps[0].action: "navigate" needs the "navigate" capability',
+    );
+  });
+
+  it("keeps navigation on the pack's domains at run time", async () => {
+    const files = {
+      "manifest.yaml": MANIFEST.replace("[interact, input]", "[navigate]"),
+      "actions/publish.yaml": [
+        "description: Open",
+        "steps:",
+        "  - action: navigate",
+        '    value: "{{url}}"',
+        "    description: Open the page",
+      ].join("\n"),
+    };
+    const executor = mockExecutor();
+    const adapter = new PackAdapter(makePack(files), executor);
+
+    const open = (url: string): CustomAction => ({ ...publish, params: { url } });
+    const away = await adapter.executeCustomAction(open("https://evil.example.net/"));
+    const home = await adapter.executeCustomAction(open("https://cms.example.com/pages"));
+
+    expect(away.success).toBe(false);
+    expect(away.error).toContain("may only navigate within cms.example.com");
+    expect(home.success).toBe(true);
+    expect(executed(executor)).toHaveLength(1);
+  });
+
+  it("reports files the manifest references but the pack lacks", () => {
+    const files = { "actions/publish.yaml": undefined as unknown as string };
+    expect(() => new PackAdapter(makePack(files), mockExecutor())).toThrow(
+      'manifest.yaml:8:12 actions.publish: file "actions/publish.yaml" is not in the pack',
+    );
+  });
+
+  it("fails unknown custom actions and stops at the first failed step", async () => {
+    const executor = mockExecutor(() => ({
+      ...makeMockResult(),
+      success: false,
+      error: "not found",
+    }));
+    const adapter = new PackAdapter(makePack(), executor);
+
+    const unknown: CustomAction = { ...publish, name: "nope" };
+    expect((await adapter.executeCustomAction(unknown)).error).toContain(
+      'Unknown custom action "nope"',
+    );
+    const result = await adapter.executeCustomAction(publish);
+    expect(result.error).toBe("Set the title: not found");
+    expect(executed(executor)).toHaveLength(1);
+  });
+
+  it("can be registered and unregistered by name", () => {
+    const registry = new AdapterRegistry();
+    registry.registerAdapter(new PackAdapter(makePack(), mockExecutor()));
+
+    expect(registry.getAdapter("https://cms.example.com/edit").name).toBe("Internal CMS");
+    expect(registry.unregisterAdapter("Internal CMS")).toBe(true);
+    expect(registry.hasAdapterFor("https://cms.example.com/edit")).toBe(false);
+  });
 });
 
 // ===========================================================================
@@ -140,10 +435,50 @@ describe("FigmaAdapter", () => {
     expect(prompt).toContain("Change heading to Hello");
   });
 
-  it("executeCustomAction returns success ActionResult", async () => {
-    const result = await adapter.executeCustomAction(makeMockAction());
+  it("edits text through the plugin bridge, falling back to the canvas", () => {
+    const [step] = adapter.getKnowledge().workflows.editText.steps;
+
+    expect(step.action).toMatchObject({
+      type: "custom",
+      name: "setText",
+      params: { layer: "{{layer_name}}", text: "{{new_text}}" },
+    });
+    expect(adapter.getKnowledge().commonTasks.editText.dataMapping).toMatchObject({
+      layer_name: "layerName",
+    });
+    expect(step.fallback?.map((s) => s.action.type)).toContain("type");
+    expect(adapter.buildThinkPrompt(makeMockObservation("https://www.figma.com/file/1"))).toContain(
+      "cloneFrame",
+    );
+  });
+
+  it("sends plugin actions to the Figma content script with validated params", async () => {
+    vi.mocked(chrome.tabs.query).mockResolvedValueOnce([{ id: 3 } as chrome.tabs.Tab]);
+    vi.mocked(chrome.tabs.sendMessage).mockResolvedValueOnce({
+      ...makeMockResult(),
+      data: { layer: "Headline", id: "1:2" },
+    });
+    const rows = [{ headline: "Hello" }];
+
+    const result = await adapter.executeCustomAction({
+      type: "custom",
+      name: "cloneFrame",
+      params: { frame: "Post", rows, nameColumn: "headline" },
+    } as CustomAction);
+    const invalid = await adapter.executeCustomAction({
+      type: "custom",
+      name: "exportFrame",
+      params: { frame: "Post", format: "gif" },
+    } as CustomAction);
+
+    expect(chrome.tabs.sendMessage).toHaveBeenCalledTimes(1);
+    expect(chrome.tabs.sendMessage).toHaveBeenCalledWith(3, {
+      platform: "figma",
+      customAction: "cloneFrame",
+      params: { frame: "Post", rows, nameColumn: "headline" },
+    });
     expect(result.success).toBe(true);
-    expect(result.timestamp).toBeDefined();
+    expect(invalid.error).toContain("Invalid params for exportFrame: format:");
   });
 });
 
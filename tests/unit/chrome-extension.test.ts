@@ -1,5 +1,7 @@
 import { describe, it, expect, vi, beforeEach } from "vitest";
 import path from "path";
+import type { ActionResult } from "~types/common";
+import type { DataRow } from "~types/data";
 
 /**
  * Tests for the Canva and Figma platform-specific content scripts
@@ -42,6 +44,72 @@ describe("Canva Content Script", () => {
 
     expect(addListenerSpy.mock.calls.length).toBeGreaterThan(callsBefore);
   });
+
+  it("runs Canva custom actions against the editor DOM", async () => {
+    vi.resetModules();
+    await import("../../src/contents/canva-injector");
+    const [listener] = vi.mocked(chrome.runtime.onMessage.addListener).mock.calls.at(-1)!;
+    const send = (message: object) =>
+      new Promise<ActionResult>((resolve) => {
+        (listener as (...args: unknown[]) => boolean)(message, {}, resolve);
+      });
+    document.body.innerHTML =
+      '<div data-text-element="true"><p contenteditable="true">Old title</p></div>';
+
+    const replaced = await send({
+      platform: "canva",
+      customAction: "replaceText",
+      params: { text: "New title", index: 0 },
+    });
+    const missing = await send({
+      platform: "canva",
+      customAction: "replaceText",
+      params: { text: "x", index: 3 },
+    });
+    const noPanel = await send({
+      platform: "canva",
+      customAction: "setExportFormat",
+      params: { format: "pdf" },
+    });
+
+    expect(replaced.success).toBe(true);
+    expect(document.querySelector("p")?.textContent).toBe("New title");
+    expect(missing.error).toBe("Text layer at index 3 not found");
+    expect(noPanel.error).toBe("The download panel is not open");
+    document.body.innerHTML = "";
+  });
+
+  it("answers Canva actions even with the universal script on the page", async () => {
+    vi.resetModules();
+    const addListener = vi.mocked(chrome.runtime.onMessage.addListener);
+    const callsBefore = addListener.mock.calls.length;
+    await import("../../src/contents/canva-injector");
+    await import("../../src/contents/universal-injector");
+    const listeners = addListener.mock.calls
+      .slice(callsBefore)
+      .map(([listener]) => listener as (...args: unknown[]) => boolean);
+    // Like Chrome: the first listener to respond wins.
+    const send = (message: object) =>
+      new Promise<{ result: ActionResult; kept: boolean[] }>((resolve) => {
+        const kept = listeners.map((listener) =>
+          listener(message, {}, (result: ActionResult) => resolve({ result, kept }))
+        );
+      });
+    document.body.innerHTML = '<button data-testid="format-selector">PNG</button>';
+    setTimeout(() => {
+      document.body.insertAdjacentHTML("beforeend", '<div role="option">PDF Standard</div>');
+    }, 50);
+
+    const { result, kept } = await send({
+      platform: "canva",
+      customAction: "setExportFormat",
+      params: { format: "pdf" },
+    });
+
+    expect(result).toMatchObject({ success: true, data: { format: "pdf" } });
+    expect(kept).toEqual([true, false]);
+    document.body.innerHTML = "";
+  });
 });
 
 // ===========================================================================
@@ -78,6 +146,40 @@ describe("Figma Content Script", () => {
 
     expect(addListenerSpy.mock.calls.length).toBeGreaterThan(callsBefore);
   });
+
+  it("relays plugin actions over the postMessage bridge", async () => {
+    vi.resetModules();
+    vi.useFakeTimers();
+    await import("../../src/contents/figma-injector");
+    const [listener] = vi.mocked(chrome.runtime.onMessage.addListener).mock.calls.at(-1)!;
+    const send = (message: object) =>
+      new Promise<ActionResult>((resolve) => {
+        (listener as (...args: unknown[]) => boolean)(message, {}, resolve);
+      });
+    const respond = (id: string, fields: object) =>
+      window.dispatchEvent(
+        new MessageEvent("message", {
+          data: { source: "browserai-craft-bridge", direction: "response", id, ...fields },
+        }),
+      );
+    vi.spyOn(crypto, "randomUUID")
+      .mockReturnValueOnce("1-1-1-1-1")
+      .mockReturnValueOnce("2-2-2-2-2");
+
+    const setText = send({
+      platform: "figma",
+      customAction: "setText",
+      params: { layer: "Headline", text: "Hello" },
+    });
+    respond("9-9-9-9-9", { success: false, error: "not ours" });
+    respond("1-1-1-1-1", { success: true, data: { layer: "Headline", id: "1:2" } });
+    const ping = send({ platform: "figma", customAction: "ping" });
+    await vi.advanceTimersByTimeAsync(15_000);
+
+    expect(await setText).toMatchObject({ success: true, data: { layer: "Headline", id: "1:2" } });
+    expect((await ping).error).toContain("The Figma plugin did not answer within 15000ms");
+    vi.useRealTimers();
+  });
 });
 
 // ===========================================================================
@@ -184,6 +286,38 @@ describe("Enhanced Background Service Worker", () => {
     expect(response.error).toBe("Job ID is required");
   });
 
+  it("handleMessage resumes a paused job without queuing it twice", async () => {
+    const store: Record<string, unknown> = {
+      browserai_jobs_j1: { id: "j1", status: "paused", config: {}, tasks: [] },
+      browserai_jobs_j2: { id: "j2", status: "completed", config: {}, tasks: [] },
+    };
+    vi.mocked(chrome.storage.local.get).mockImplementation(async (keys) => {
+      const names = typeof keys === "string" ? [keys] : Array.isArray(keys) ? keys : [];
+      return Object.fromEntries(names.filter((k) => k in store).map((k) => [k, store[k]]));
+    });
+    vi.mocked(chrome.storage.local.set).mockImplementation(async (items) => {
+      Object.assign(store, items);
+    });
+
+    vi.resetModules();
+    const { OrchestrationEngine } = await import("../../src/background/core/OrchestrationEngine");
+    const isRunning = vi.spyOn(OrchestrationEngine.prototype, "isRunning").mockReturnValue(true);
+    const bg = await import("../../src/background/index");
+    await bg.ensureInitialised();
+
+    const stopping = await bg.handleMessage({ type: "RESUME_JOB", payload: { jobId: "j1" } });
+    const completed = await bg.handleMessage({ type: "RESUME_JOB", payload: { jobId: "j2" } });
+    isRunning.mockRestore();
+    vi.mocked(chrome.storage.local.get).mockImplementation(async () => ({}));
+    vi.mocked(chrome.storage.local.set).mockResolvedValue(undefined);
+
+    // The engine has not stopped j1 yet, so it carries on instead of a
+    // second copy being queued.
+    expect(stopping.success).toBe(true);
+    expect(store["browserai_jobs_j1"]).toMatchObject({ status: "running" });
+    expect(completed).toEqual({ success: false, error: "Job j2 is completed, not paused" });
+  });
+
   it("handleMessage routes GET_JOB_STATUS with missing jobId", async () => {
     vi.resetModules();
     const bg = await import("../../src/background/index");
@@ -198,6 +332,130 @@ describe("Enhanced Background Service Worker", () => {
     expect(response.error).toBe("Job ID is required");
   });
 
+  it("handleMessage schedules a sheet sync and queues a job per new row", async () => {
+    const store: Record<string, unknown> = {};
+    vi.mocked(chrome.storage.local.get).mockImplementation(async (keys) => {
+      const names = typeof keys === "string" ? [keys] : Array.isArray(keys) ? keys : [];
+      return Object.fromEntries(names.filter((k) => k in store).map((k) => [k, store[k]]));
+    });
+    vi.mocked(chrome.storage.local.set).mockImplementation(async (items) => {
+      Object.assign(store, items);
+    });
+    vi.mocked(global.fetch).mockResolvedValue({
+      ok: true,
+      status: 200,
+      json: async () => ({ values: [["Full Name"], ["Ann"], ["Bo"]] }),
+    } as Response);
+    const getAuthToken = vi.fn((_options: object, done: (token: string) => void) => done("t-1"));
+    Object.assign(chrome, { identity: { getAuthToken, removeCachedAuthToken: vi.fn() } });
+
+    vi.resetModules();
+    const bg = await import("../../src/background/index");
+    await bg.ensureInitialised();
+
+    const saved = await bg.handleMessage({
+      type: "SAVE_SHEET_SYNC",
+      payload: {
+        sheetUrl: "https://docs.google.com/spreadsheets/d/abc123/edit",
+        prompt: "Make a badge for {{name}}",
+        dataMapping: { name: "Full Name" },
+        enabled: true,
+        includeExisting: true,
+      },
+    });
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const syncId = (saved.data as any).sync.id;
+    expect(chrome.alarms.create).toHaveBeenCalledWith(`sheet-sync:${syncId}`, {
+      delayInMinutes: 5,
+      periodInMinutes: 5,
+    });
+
+    const run = await bg.handleMessage({ type: "RUN_SHEET_SYNC", payload: { id: syncId } });
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const { jobIds } = run.data as any;
+    expect(jobIds).toHaveLength(2);
+    expect(getAuthToken).toHaveBeenCalledWith({ interactive: false }, expect.any(Function));
+    const sheetRead = vi
+      .mocked(global.fetch)
+      .mock.calls.find(([url]) => String(url).includes("/abc123/values/"));
+    expect(sheetRead?.[1]?.headers).toMatchObject({ Authorization: "Bearer t-1" });
+    expect(store[`browserai_jobs_${jobIds[1]}`]).toMatchObject({
+      prompt: "Make a badge for {{name}}",
+      context: { dataRows: [{ "Full Name": "Bo", name: "Bo" }] },
+    });
+
+    // Nothing changed since, so the next poll queues nothing.
+    const rerun = await bg.handleMessage({ type: "RUN_SHEET_SYNC", payload: { id: syncId } });
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    expect((rerun.data as any).jobIds).toEqual([]);
+
+    vi.mocked(chrome.storage.local.get).mockImplementation(async () => ({}));
+    vi.mocked(chrome.storage.local.set).mockImplementation(async () => {});
+    Object.assign(chrome, { identity: undefined });
+  });
+
+  it("runs one poll of a sheet sync at a time and keeps rows queued before a failure", async () => {
+    const store: Record<string, unknown> = {};
+    let failOn: string | undefined;
+    vi.mocked(chrome.storage.local.get).mockImplementation(async (keys) => {
+      const names = typeof keys === "string" ? [keys] : Array.isArray(keys) ? keys : [];
+      return Object.fromEntries(names.filter((k) => k in store).map((k) => [k, store[k]]));
+    });
+    vi.mocked(chrome.storage.local.set).mockImplementation(async (items) => {
+      const jobs = Object.values(items) as Array<{ context?: { dataRows?: DataRow[] } }>;
+      if (failOn && jobs.some((j) => j?.context?.dataRows?.[0]?.["Full Name"] === failOn)) {
+        throw new Error("Quota exceeded");
+      }
+      Object.assign(store, items);
+    });
+    const serve = (names: string[]) =>
+      vi.mocked(global.fetch).mockResolvedValue({
+        ok: true,
+        status: 200,
+        json: async () => ({ values: [["Full Name"], ...names.map((n) => [n])] }),
+      } as Response);
+    Object.assign(chrome, {
+      identity: {
+        getAuthToken: vi.fn((_options: object, done: (token: string) => void) => done("t-1")),
+        removeCachedAuthToken: vi.fn(),
+      },
+    });
+
+    vi.resetModules();
+    const bg = await import("../../src/background/index");
+    await bg.ensureInitialised();
+    const saved = await bg.handleMessage({
+      type: "SAVE_SHEET_SYNC",
+      payload: {
+        sheetUrl: "https://docs.google.com/spreadsheets/d/abc123/edit",
+        prompt: "Make a badge for {{Full Name}}",
+        enabled: true,
+        includeExisting: true,
+      },
+    });
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const syncId = (saved.data as any).sync.id;
+    const runSync = async () => {
+      const response = await bg.handleMessage({ type: "RUN_SHEET_SYNC", payload: { id: syncId } });
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      return response.success ? (response.data as any).jobIds.length : response.error;
+    };
+
+    serve(["Ann", "Bo"]);
+    expect(await Promise.all([runSync(), runSync()])).toEqual([2, 0]);
+
+    serve(["Ann", "Bo", "Cy", "Di", "Ed"]);
+    failOn = "Di";
+    expect(await runSync()).toBe("Quota exceeded");
+    failOn = undefined;
+    // Cy was queued before the failure, so only Di and Ed are left.
+    expect(await runSync()).toBe(2);
+
+    vi.mocked(chrome.storage.local.get).mockImplementation(async () => ({}));
+    vi.mocked(chrome.storage.local.set).mockImplementation(async () => {});
+    Object.assign(chrome, { identity: undefined });
+  });
+
   it("initializeSystems can be called without error", async () => {
     vi.resetModules();
     const bg = await import("../../src/background/index");
@@ -233,6 +491,7 @@ describe("Manifest Configuration", () => {
     expect(permissions).toContain("sidePanel");
     expect(permissions).toContain("downloads");
     expect(permissions).toContain("identity");
+    expect(permissions).toContain("alarms");
   });
 
   it("package.json manifest has Canva, Figma, and Google Sheets host permissions", async () => {
@@ -252,6 +511,8 @@ describe("Manifest Configuration", () => {
 
     expect(pkg.manifest.content_security_policy).toBeDefined();
     expect(pkg.manifest.content_security_policy.extension_pages).toContain("script-src 'self'");
+    // The in-browser LLM engines compile WebAssembly.
+    expect(pkg.manifest.content_security_policy.extension_pages).toContain("'wasm-unsafe-eval'");
     expect(pkg.manifest.web_accessible_resources).toBeDefined();
     expect(pkg.manifest.web_accessible_resources.length).toBeGreaterThan(0);
   });
@@ -263,7 +524,7 @@ describe("Manifest Configuration", () => {
     expect(pkg.manifest.oauth2).toBeDefined();
     expect(pkg.manifest.oauth2.client_id).toBeDefined();
     expect(pkg.manifest.oauth2.scopes).toContain(
-      "https://www.googleapis.com/auth/spreadsheets.readonly"
+      "https://www.googleapis.com/auth/spreadsheets"
     );
     expect(pkg.manifest.oauth2.scopes).toContain(
       "https://www.googleapis.com/auth/drive.readonly"
@@ -311,6 +572,91 @@ describe("Background — TEST_LLM_CONNECTION handler", () => {
   });
 });
 
+describe("Background — Recorder", () => {
+  it("drafts a workflow from the recorded tab's events", async () => {
+    vi.resetModules();
+    const bg = await import("../../src/background/index");
+    await bg.ensureInitialised();
+    vi.mocked(chrome.tabs.query).mockResolvedValueOnce([
+      { id: 4, url: "https://www.example.com/" } as chrome.tabs.Tab,
+    ]);
+    const event = {
+      type: "type",
+      selector: "#title",
+      label: "Title",
+      value: "Summer Sale",
+      url: "https://www.example.com/",
+      timestamp: Date.now(),
+    };
+
+    const started = await bg.handleMessage({ type: "START_RECORDING" });
+    const otherTab = await bg.handleMessage({ type: "RECORDER_EVENT", payload: event }, {
+      tab: { id: 9 } as chrome.tabs.Tab,
+    });
+    await bg.handleMessage({ type: "RECORDER_EVENT", payload: event }, {
+      tab: { id: 4 } as chrome.tabs.Tab,
+    });
+    const stopped = await bg.handleMessage({
+      type: "STOP_RECORDING",
+      payload: { name: "createPost", dataRows: [{ headline: "Summer Sale" }] },
+    });
+
+    expect(started.success).toBe(true);
+    expect(chrome.tabs.onUpdated.addListener).toHaveBeenCalled();
+    expect(otherTab.success).toBe(false);
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const { draft, files } = stopped.data as any;
+    expect(draft.variables).toEqual(["headline"]);
+    expect(files["workflows.yaml"]).toContain("value: \"{{headline}}\"");
+    expect(chrome.tabs.sendMessage).toHaveBeenLastCalledWith(4, { type: "STOP_RECORDING" });
+  });
+
+  it("resumes the recording after the service worker restarts", async () => {
+    const store: Record<string, unknown> = {};
+    vi.mocked(chrome.storage.session.get).mockImplementation(async (key) => ({
+      [key as string]: store[key as string],
+    }));
+    vi.mocked(chrome.storage.session.set).mockImplementation(async (items) => {
+      Object.assign(store, items);
+    });
+    vi.mocked(chrome.storage.session.remove).mockImplementation(async (key) => {
+      delete store[key as string];
+    });
+    vi.mocked(chrome.tabs.query).mockResolvedValueOnce([
+      { id: 4, url: "https://www.example.com/" } as chrome.tabs.Tab,
+    ]);
+    const click = (selector: string) => ({
+      type: "click",
+      selector,
+      label: selector,
+      url: "https://www.example.com/",
+      timestamp: Date.now(),
+    });
+    const sender = { tab: { id: 4 } as chrome.tabs.Tab };
+
+    vi.resetModules();
+    let bg = await import("../../src/background/index");
+    await bg.ensureInitialised();
+    await bg.handleMessage({ type: "START_RECORDING" });
+    await bg.handleMessage({ type: "RECORDER_EVENT", payload: click("#new") }, sender);
+
+    vi.resetModules();
+    bg = await import("../../src/background/index");
+    await bg.ensureInitialised();
+    const resumed = await bg.handleMessage(
+      { type: "RECORDER_EVENT", payload: click("#publish") },
+      sender
+    );
+    const stopped = await bg.handleMessage({ type: "STOP_RECORDING", payload: {} });
+
+    expect(resumed.success).toBe(true);
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const { draft } = stopped.data as any;
+    expect(draft.workflow.steps).toHaveLength(2);
+    expect(store).toEqual({});
+  });
+});
+
 // ===========================================================================
 // Background — Port-based connections
 // ===========================================================================
@@ -336,6 +682,50 @@ describe("Universal Content Script — port connection", () => {
     // Port is now established lazily via ensurePort(), not on import
     expect(chrome.runtime.connect).not.toHaveBeenCalled();
   });
+
+  it("records clicks and typing with stable selectors in record mode", async () => {
+    vi.resetModules();
+    await import("../../src/contents/universal-injector");
+    const [listener] = vi.mocked(chrome.runtime.onMessage.addListener).mock.calls.at(-1)!;
+    const send = (message: object) =>
+      new Promise<ActionResult>((resolve) => {
+        (listener as (...args: unknown[]) => boolean)(message, {}, resolve);
+      });
+    document.body.innerHTML =
+      '<button id="ember123" data-testid="new-post"><span>New</span></button>' +
+      '<div class="row"><input placeholder="Title"></div>' +
+      '<div class="row" id="footer"><input placeholder="Title"></div>' +
+      '<input type="password" aria-label="Password">';
+    const [, footerTitle] = Array.from(document.querySelectorAll("input"));
+    const password = document.querySelector("input[type=password]") as HTMLInputElement;
+
+    await send({ type: "START_RECORDING" });
+    document.querySelector("span")!.click();
+    footerTitle.value = "Summer Sale";
+    footerTitle.dispatchEvent(new Event("input", { bubbles: true }));
+    password.value = "secret";
+    password.dispatchEvent(new Event("input", { bubbles: true }));
+    await send({ type: "STOP_RECORDING" });
+    document.querySelector("span")!.click();
+
+    const recorded = vi
+      .mocked(chrome.runtime.sendMessage)
+      .mock.calls.map(([m]) => (m as unknown as { payload: unknown }).payload);
+    expect(recorded).toEqual([
+      expect.objectContaining({
+        type: "click",
+        selector: 'button[data-testid="new-post"]',
+        label: "New",
+      }),
+      expect.objectContaining({
+        type: "type",
+        selector: "#footer input",
+        label: "Title",
+        value: "Summer Sale",
+      }),
+    ]);
+    document.body.innerHTML = "";
+  });
 });
 
 // ===========================================================================
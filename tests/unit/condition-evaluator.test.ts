@@ -0,0 +1,60 @@
+import { describe, it, expect } from "vitest";
+import { ConditionError, ConditionEvaluator } from "~background/core/ConditionEvaluator";
+import type { ConditionScope } from "~background/core/ConditionEvaluator";
+import type { DOMState } from "~types/browser";
+
+function makePage(url: string): DOMState {
+  return {
+    url,
+    title: "Editor",
+    visibleElements: [],
+    forms: [],
+    canvasElements: [],
+    iframes: [],
+    timestamp: new Date().toISOString(),
+  };
+}
+
+describe("ConditionEvaluator", () => {
+  const scope: ConditionScope = {
+    row: { status: "done", count: "12", name: "Summer Sale", logo_url: "" },
+    variables: { region: "EU", tags: ["sale", "summer"] },
+    page: makePage("https://www.canva.com/design/abc"),
+  };
+  const evaluate = (expression: string) => ConditionEvaluator.evaluate(expression, scope);
+
+  it("compares row fields, variables and the page", () => {
+    expect(evaluate("row.status == 'done'")).toBe(true);
+    expect(evaluate('vars.region != "EU"')).toBe(false);
+    expect(evaluate("!url.includes('canva.com')")).toBe(false);
+    expect(evaluate("page.title.toLowerCase() == 'editor'")).toBe(true);
+  });
+
+  it("treats empty and missing fields as falsy", () => {
+    expect(evaluate("!row.logo_url")).toBe(true);
+    expect(evaluate("!row.missing && row.missing == null")).toBe(true);
+    expect(evaluate("row.missing.includes('x')")).toBe(false);
+  });
+
+  it("compares numeric strings as numbers", () => {
+    expect(evaluate("row.count > 9")).toBe(true);
+    expect(evaluate("row.count === 12")).toBe(true);
+    expect(evaluate("row.name.length >= 11 && -1 < 0")).toBe(true);
+  });
+
+  it("supports precedence, parentheses, indexing and array includes", () => {
+    expect(evaluate("row.status == 'todo' || vars.region == 'EU' && true")).toBe(true);
+    expect(evaluate("(row.status == 'todo' || vars.region == 'EU') && false")).toBe(false);
+    expect(evaluate("row['status'] == 'done' && vars.tags.includes('sale')")).toBe(true);
+  });
+
+  it("rejects anything outside the language", () => {
+    expect(() => evaluate("window.alert(1)")).toThrow(ConditionError);
+    expect(() => evaluate("row.constructor")).toThrow('Property "constructor" is not accessible');
+    expect(() => evaluate("row.status.replace('d', 'x')")).toThrow(
+      '"replace" cannot be called on string'
+    );
+    expect(() => evaluate("row.status = 'done'")).toThrow('Unexpected "=" at position 12');
+    expect(() => ConditionEvaluator.validate("row.status == ")).toThrow("Unexpected end");
+  });
+});
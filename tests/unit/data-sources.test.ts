@@ -1,10 +1,18 @@
-import { describe, it, expect, vi, beforeEach } from "vitest";
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
 import { CSVParser } from "../../src/data/CSVParser";
 import { GoogleSheetsConnector } from "../../src/data/GoogleSheetsConnector";
 import { DataMapper } from "../../src/data/DataMapper";
 import { DataValidator } from "../../src/data/DataValidator";
 import type { ValidationRule } from "../../src/data/DataValidator";
 import { createDataSource, detectDataSourceType } from "../../src/data/DataSourceFactory";
+import { WorkbookParser } from "../../src/data/WorkbookParser";
+import { utils, write } from "xlsx";
+import { createServer } from "node:http";
+import type { Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { Window } from "happy-dom";
+import type { Job } from "~types/orchestration";
+import type { FieldMappings, SheetSync } from "~types/data";
 
 // ===========================================================================
 // CSVParser
@@ -146,6 +154,48 @@ describe("CSVParser", () => {
     await expect(parser.parse(file)).rejects.toThrow("empty");
   });
 
+  // --- parseStream ---
+
+  it("streams rows in batches across chunk boundaries", async () => {
+    const csv =
+      '\uFEFFname,bio,price\r\n"Ann","Line one\r\nline ""two""",9.5\r\n' +
+      "\r\nBj\u00F6rn,Caf\u00E9,12\nCy,,3\nDee,Last,4";
+    const file = new File([new TextEncoder().encode(csv)], "feed.csv");
+    const progress = vi.fn();
+
+    const batches = [];
+    // 7-byte chunks split the quoted newline, the escaped quotes, \r\n and ö.
+    for await (const batch of parser.parseStream(file, {
+      chunkSize: 7,
+      batchSize: 2,
+      onProgress: progress,
+    })) {
+      batches.push(batch);
+    }
+
+    expect(batches.map((b) => [b.startIndex, b.rows.length])).toEqual([
+      [0, 2],
+      [2, 2],
+    ]);
+    expect(batches.flatMap((b) => b.rows)).toEqual([
+      { name: "Ann", bio: 'Line one\r\nline "two"', price: "9.5" },
+      { name: "Bj\u00F6rn", bio: "Caf\u00E9", price: "12" },
+      { name: "Cy", bio: "", price: "3" },
+      { name: "Dee", bio: "Last", price: "4" },
+    ]);
+    expect(batches[1].progress).toEqual({
+      bytesRead: file.size,
+      totalBytes: file.size,
+      rowsParsed: 4,
+    });
+    expect(progress).toHaveBeenCalledTimes(Math.ceil(file.size / 7));
+  });
+
+  it("rejects a streamed file without data rows", async () => {
+    const stream = parser.parseStream(new File(["name,age\n"], "header.csv"));
+    await expect(stream.next()).rejects.toThrow("at least one data row");
+  });
+
   // --- preview ---
 
   it("returns only the requested number of rows", async () => {
@@ -317,6 +367,408 @@ describe("GoogleSheetsConnector", () => {
   });
 });
 
+// ===========================================================================
+// GoogleSheetsConnector — write-back
+// ===========================================================================
+
+/**
+ * A local mock of the Sheets values API holding one sheet in `grid`. Only
+ * the token "fresh" is accepted.
+ */
+async function startMockSheets(grid: string[][]) {
+  const requests: { method: string; url: string; body?: any }[] = [];
+  const server: Server = createServer((req, res) => {
+    let raw = "";
+    req.on("data", (chunk) => (raw += chunk));
+    req.on("end", () => {
+      const body = raw ? JSON.parse(raw) : undefined;
+      requests.push({ method: req.method!, url: decodeURIComponent(req.url!), body });
+      res.setHeader("Content-Type", "application/json");
+      if (req.headers.authorization !== "Bearer fresh") {
+        res.statusCode = 401;
+        res.end(JSON.stringify({ error: { code: 401 } }));
+        return;
+      }
+      if (req.method === "GET") {
+        res.end(JSON.stringify({ values: grid }));
+        return;
+      }
+      for (const { range, values } of body.data) {
+        const [, letters, row] = /([A-Z]+)(\d+)$/.exec(range)!;
+        const col = [...letters].reduce((n, ch) => n * 26 + ch.charCodeAt(0) - 64, 0) - 1;
+        while (grid.length < Number(row)) grid.push([]);
+        grid[Number(row) - 1][col] = values[0][0];
+      }
+      res.end(JSON.stringify({ totalUpdatedCells: body.data.length }));
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const origin = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  // A same-origin page fetches from the mock server without CORS.
+  const page = new Window({ url: origin });
+  vi.mocked(global.fetch).mockImplementation(
+    (input, init) => page.fetch(String(input), init as any) as unknown as Promise<Response>,
+  );
+
+  return {
+    grid,
+    requests,
+    apiBase: `${origin}/v4/spreadsheets`,
+    close: () => new Promise((resolve) => server.close(resolve)),
+  };
+}
+
+describe("GoogleSheetsConnector write-back", () => {
+  const sheetUrl = "https://docs.google.com/spreadsheets/d/abc123/edit";
+  let mock: Awaited<ReturnType<typeof startMockSheets>>;
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    mock = await startMockSheets([
+      ["SKU", "Title", "status"],
+      ["A-1", "Mug"],
+      ["B-2", "Tee"],
+    ]);
+  });
+
+  afterEach(async () => {
+    await mock.close();
+  });
+
+  it("updates existing and appends missing result columns by key", async () => {
+    const connector = new GoogleSheetsConnector(undefined, mock.apiBase);
+    connector.setAccessToken("fresh");
+
+    const summary = await connector.writeResults(
+      sheetUrl,
+      [
+        { key: "B-2", designId: "D2", exportUrl: "https://x.io/b.png", status: "done" },
+        { key: "Z-9", status: "done" },
+        { key: "A-1", status: "error", error: "Export timed out" },
+      ],
+      { keyColumn: "SKU", columns: { exportUrl: "Export URL" } },
+    );
+
+    expect(summary).toEqual({
+      updatedRows: 2,
+      updatedCells: 8,
+      addedColumns: ["designId", "Export URL", "error"],
+      unmatched: [{ key: "Z-9", status: "done" }],
+    });
+    expect(mock.grid).toEqual([
+      ["SKU", "Title", "status", "designId", "Export URL", "error"],
+      ["A-1", "Mug", "error", undefined, undefined, "Export timed out"],
+      ["B-2", "Tee", "done", "D2", "https://x.io/b.png"],
+    ]);
+    // One read, then every cell in a single batchUpdate.
+    expect(mock.requests.map((r) => r.method)).toEqual(["GET", "POST"]);
+    expect(mock.requests[1].url).toMatch(/\/abc123\/values:batchUpdate$/);
+  });
+
+  it("refreshes an expired token once and addresses rows by index", async () => {
+    vi.mocked(chrome.storage.local.get).mockImplementation(async () => ({
+      google_sheets_access_token: "fresh",
+    }));
+    const connector = new GoogleSheetsConnector(undefined, mock.apiBase);
+    connector.setAccessToken("stale");
+
+    const summary = await connector.writeResults(sheetUrl, [{ rowIndex: 1, status: "done" }], {
+      sheetName: "Products",
+    });
+
+    expect(summary.updatedCells).toBe(1);
+    expect(mock.grid[2]).toEqual(["B-2", "Tee", "done"]);
+    expect(mock.requests.map((r) => `${r.method} ${r.url.split("/").pop()}`)).toEqual([
+      "GET 'Products'!A:ZZZ",
+      "GET 'Products'!A:ZZZ",
+      "POST values:batchUpdate",
+    ]);
+    expect(mock.requests[2].body.data).toEqual([{ range: "'Products'!C3", values: [["done"]] }]);
+  });
+
+  it("drops an expired token from Chrome's cache and retries with a new one", async () => {
+    const identity = {
+      removeCachedAuthToken: vi.fn((_details: { token: string }, done: () => void) => done()),
+      getAuthToken: vi.fn((_options: { interactive: boolean }, done: (token: string) => void) =>
+        done("fresh"),
+      ),
+    };
+    Object.assign(chrome, { identity });
+    const connector = new GoogleSheetsConnector(undefined, mock.apiBase);
+    connector.setAccessToken("stale");
+
+    try {
+      const summary = await connector.writeResults(sheetUrl, [{ rowIndex: 0, status: "done" }]);
+
+      expect(summary.updatedCells).toBe(1);
+      expect(identity.removeCachedAuthToken).toHaveBeenCalledWith(
+        { token: "stale" },
+        expect.any(Function),
+      );
+      expect(identity.getAuthToken).toHaveBeenCalledWith(
+        { interactive: false },
+        expect.any(Function),
+      );
+      expect(chrome.storage.local.set).toHaveBeenCalledWith({
+        google_sheets_access_token: "fresh",
+      });
+      expect(mock.requests.map((r) => r.method)).toEqual(["GET", "GET", "POST"]);
+    } finally {
+      Object.assign(chrome, { identity: undefined });
+    }
+  });
+
+  it("reports an authorization error when the refreshed token is also rejected", async () => {
+    vi.mocked(chrome.storage.local.get).mockImplementation(async () => ({}));
+    const connector = new GoogleSheetsConnector(undefined, mock.apiBase);
+    connector.setAccessToken("stale");
+
+    await expect(
+      connector.writeResults(sheetUrl, [{ rowIndex: 0, status: "done" }]),
+    ).rejects.toThrow("401");
+  });
+
+  it("collects a bulk job's results per source row", () => {
+    const task = (id: string, dataRowIndex: number, status: string) => ({
+      id,
+      dataRowIndex,
+      status,
+    });
+    const job = {
+      tasks: [task("t1", 0, "completed"), task("t2", 0, "completed"), task("t3", 1, "failed")],
+      results: [{ taskId: "t2", designId: "D1", exportUrl: "https://x.io/1.png" }],
+      errors: [{ taskId: "t3", error: "Template not found" }],
+    } as unknown as Job;
+
+    expect(GoogleSheetsConnector.resultsFromJob(job)).toEqual([
+      { rowIndex: 0, designId: "D1", exportUrl: "https://x.io/1.png", status: "done" },
+      { rowIndex: 1, error: "Template not found", status: "error" },
+    ]);
+  });
+});
+
+// ===========================================================================
+// GoogleSheetsConnector — sync
+// ===========================================================================
+
+describe("GoogleSheetsConnector sync", () => {
+  const sync: SheetSync = {
+    id: "leads",
+    sheetUrl: "https://docs.google.com/spreadsheets/d/abc123/edit",
+    prompt: "Make a welcome card for {{name}}",
+    dataMapping: { name: "Name" },
+    keyColumns: ["Email"],
+    intervalMinutes: 0.25,
+    enabled: true,
+    createdAt: "2026-01-01T00:00:00.000Z",
+  };
+
+  /** Serve `grid` for every values read. */
+  function serveGrid(grid: string[][]) {
+    vi.mocked(global.fetch).mockResolvedValue({
+      ok: true,
+      status: 200,
+      json: async () => ({ values: grid }),
+    } as Response);
+  }
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("reports only rows that are new or changed since the last poll", async () => {
+    const connector = new GoogleSheetsConnector();
+    serveGrid([
+      ["Email", "Name"],
+      ["ann@x.io", "Ann"],
+      ["bo@x.io", "Bo"],
+    ]);
+
+    const first = await connector.pollSync(sync, null);
+    expect(first.changed).toEqual([]);
+    expect(first.fingerprints).toHaveLength(2);
+    expect(first.fingerprints[0]).toMatch(/^[0-9a-f]{16}$/);
+
+    serveGrid([
+      ["Email", "Name", "status"],
+      ["ann@x.io", "Ann", "done"],
+      ["bo@x.io", "Bob", "done"],
+      ["", "", ""],
+      ["cy@x.io", "Cy", ""],
+      ["cy@x.io", "Cy again", ""],
+    ]);
+    const second = await connector.pollSync(sync, first.fingerprints);
+
+    // Ann only gained a written-back status; Bo was renamed; Cy is new and
+    // the second Cy row repeats the key.
+    expect(second.changed.map((c) => [c.rowIndex, c.row.Name])).toEqual([
+      [1, "Bob"],
+      [3, "Cy"],
+    ]);
+    expect(second.duplicates).toBe(1);
+    expect(second.fingerprints).toHaveLength(3);
+    expect(second.fingerprints[0]).toBe(first.fingerprints[0]);
+    expect(vi.mocked(global.fetch).mock.calls[0][0]).toContain("/abc123/values/A%3AZZZ");
+  });
+
+  it("fingerprints the columns a transformed mapping reads", async () => {
+    const connector = new GoogleSheetsConnector();
+    const transformed: SheetSync = {
+      ...sync,
+      dataMapping: { name: { column: "Name", transforms: [{ type: "uppercase" }] } },
+    };
+    serveGrid([
+      ["Email", "Name"],
+      ["ann@x.io", "Ann"],
+    ]);
+    const first = await connector.pollSync(transformed, null);
+
+    serveGrid([
+      ["Email", "Name"],
+      ["ann@x.io", "Anna"],
+    ]);
+    const second = await connector.pollSync(transformed, first.fingerprints);
+
+    expect(second.changed.map((c) => c.row.Name)).toEqual(["Anna"]);
+  });
+
+  it("ignores written-back results when the sync has no mapping", async () => {
+    const connector = new GoogleSheetsConnector();
+    const unmapped = { ...sync, dataMapping: undefined };
+    serveGrid([
+      ["Email", "Name"],
+      ["ann@x.io", "Ann"],
+    ]);
+    const first = await connector.pollSync(unmapped, null);
+
+    serveGrid([
+      ["Email", "Name", "designId", "exportUrl", "status", "error"],
+      ["ann@x.io", "Ann", "D1", "https://x.io/1.png", "error", "Export timed out"],
+    ]);
+    const second = await connector.pollSync(unmapped, first.fingerprints);
+
+    expect(second.changed).toEqual([]);
+    expect(second.fingerprints).toEqual(first.fingerprints);
+  });
+
+  it("queues existing rows on the first poll when asked to", async () => {
+    serveGrid([
+      ["Email", "Name"],
+      ["ann@x.io", "Ann"],
+    ]);
+
+    const connector = new GoogleSheetsConnector();
+    const poll = await connector.pollSync({ ...sync, includeExisting: true }, null);
+
+    expect(poll.changed).toEqual([
+      { rowIndex: 0, row: { Email: "ann@x.io", Name: "Ann" }, fingerprint: poll.fingerprints[0] },
+    ]);
+  });
+
+  it("polls on a repeating alarm named after the sync", async () => {
+    const connector = new GoogleSheetsConnector();
+
+    await connector.scheduleSync(sync);
+    await connector.cancelSync(sync.id);
+
+    expect(chrome.alarms.create).toHaveBeenCalledWith("sheet-sync:leads", {
+      delayInMinutes: 1,
+      periodInMinutes: 1,
+    });
+    expect(chrome.alarms.clear).toHaveBeenCalledWith("sheet-sync:leads");
+    expect(GoogleSheetsConnector.syncIdFromAlarm("sheet-sync:leads")).toBe("leads");
+    expect(GoogleSheetsConnector.syncIdFromAlarm("storage-check")).toBeNull();
+  });
+});
+
+// ===========================================================================
+// WorkbookParser
+// ===========================================================================
+
+/**
+ * A workbook with a "Leads" sheet whose header groups Name and Email under
+ * a merged "Contact" cell, and an empty "Notes" sheet.
+ */
+function makeWorkbook(bookType: "xlsx" | "ods"): ArrayBuffer {
+  const leads = utils.aoa_to_sheet(
+    [
+      ["Contact", null, "Launch", "Budget"],
+      ["Name", "Email", null, null],
+      ["Alice", "alice@example.com", new Date(2026, 2, 1), 1250.5],
+      [null, null, null, null],
+      ["Bob", "bob@example.com", new Date(2026, 2, 2, 14, 30), 900],
+    ],
+    { cellDates: true },
+  );
+  leads["!merges"] = [
+    { s: { r: 0, c: 0 }, e: { r: 0, c: 1 } },
+    { s: { r: 0, c: 2 }, e: { r: 1, c: 2 } },
+    { s: { r: 0, c: 3 }, e: { r: 1, c: 3 } },
+  ];
+  const workbook = utils.book_new();
+  utils.book_append_sheet(workbook, leads, "Leads");
+  utils.book_append_sheet(workbook, utils.aoa_to_sheet([["Note"], ["Call back"]]), "Notes");
+  return write(workbook, { type: "array", bookType });
+}
+
+describe("WorkbookParser", () => {
+  const parser = new WorkbookParser();
+
+  it.each(["xlsx", "ods"] as const)(
+    "flattens merged headers and keeps number and date cells (%s)",
+    (bookType) => {
+      const rows = parser.parseFromBuffer(makeWorkbook(bookType));
+
+      expect(rows).toEqual([
+        {
+          "Contact Name": "Alice",
+          "Contact Email": "alice@example.com",
+          Launch: "2026-03-01",
+          Budget: 1250.5,
+        },
+        {
+          "Contact Name": "Bob",
+          "Contact Email": "bob@example.com",
+          Launch: "2026-03-02T14:30:00",
+          Budget: 900,
+        },
+      ]);
+    },
+  );
+
+  it("keeps the cell's date in a time zone behind UTC", () => {
+    // vitest.config.ts pins TZ to America/Los_Angeles.
+    expect(new Date(2026, 2, 1).getTimezoneOffset()).toBeGreaterThan(0);
+
+    const [alice, bob] = parser.parseFromBuffer(makeWorkbook("xlsx"));
+    expect([alice.Launch, bob.Launch]).toEqual(["2026-03-01", "2026-03-02T14:30:00"]);
+  });
+
+  it("reads the named sheet and range", () => {
+    const buffer = makeWorkbook("xlsx");
+
+    expect(parser.parseFromBuffer(buffer, { sheetName: "Notes" })).toEqual([{ Note: "Call back" }]);
+    expect(parser.parseFromBuffer(buffer, { range: "Leads!A2:B3" })).toEqual([
+      { Name: "Alice", Email: "alice@example.com" },
+    ]);
+    expect(() => parser.parseFromBuffer(buffer, { sheetName: "Missing" })).toThrow(
+      'Sheet "Missing" not found; the workbook has: Leads, Notes',
+    );
+  });
+
+  it("lists the sheets of a workbook file", async () => {
+    const file = new File([makeWorkbook("xlsx")], "Spring campaign.xlsx");
+
+    expect(await parser.getSheetMetadata(file)).toEqual({
+      title: "Spring campaign",
+      sheets: [
+        { name: "Leads", rowCount: 5, columnCount: 4 },
+        { name: "Notes", rowCount: 2, columnCount: 1 },
+      ],
+    });
+  });
+});
+
 // ===========================================================================
 // DataMapper
 // ===========================================================================
@@ -405,6 +857,109 @@ describe("DataMapper", () => {
     expect(mapper.transformValue("not-a-date", { type: "dateFormat" })).toBe("not-a-date");
   });
 
+  it("formats a date with a pattern and locale names", () => {
+    const short = { type: "dateFormat" as const, dateFormat: "DD/MM/YY" };
+    expect(mapper.transformValue("2024-03-05", short)).toBe("05/03/24");
+    expect(
+      mapper.transformValue("2024-03-05T14:07:00", {
+        type: "dateFormat",
+        dateFormat: "dddd D MMMM [at] h:mm A",
+        locale: "en-US",
+      }),
+    ).toBe("Tuesday 5 March at 2:07 PM");
+  });
+
+  it("formats numbers and currency amounts for a locale", () => {
+    const eur = { type: "currency" as const, currency: "EUR", locale: "de-DE" };
+    expect(mapper.transformValue("$1,234.5", eur)).toBe("1.234,50\u00a0€");
+    expect(mapper.transformValue("1.234,5", { type: "number", locale: "en-US" })).toBe("1,234.5");
+    expect(mapper.transformValue("12,5", { type: "number", locale: "en-US", decimals: 2 })).toBe(
+      "12.50",
+    );
+    expect(mapper.transformValue("n/a", eur)).toBe("n/a");
+  });
+
+  it("title-cases words and truncates at a word boundary", () => {
+    expect(mapper.transformValue("hELLO wide-WORLD", { type: "titleCase" })).toBe(
+      "Hello Wide-World",
+    );
+    expect(
+      mapper.transformValue("The quick brown fox jumps", {
+        type: "truncate",
+        maxLength: 16,
+        ellipsis: "…",
+      }),
+    ).toBe("The quick brown…");
+  });
+
+  it("fills design fields through chained transformations", () => {
+    const row = { first: "ada", last: "LOVELACE", plan: "pro", price: "1299", city: "" };
+    const mappings: FieldMappings = {
+      name: {
+        transforms: [{ type: "template", template: "{{first}} {{last}}" }, { type: "titleCase" }],
+      },
+      tier: {
+        column: "plan",
+        transforms: [{ type: "lookup", table: { pro: "Professional" }, fallback: "Starter" }],
+      },
+      price: { column: "price", transforms: [{ type: "currency", locale: "en-US", decimals: 0 }] },
+      city: { column: "city", transforms: [{ type: "default", value: "Worldwide" }] },
+      badge: {
+        transforms: [
+          {
+            type: "conditional",
+            when: { column: "plan", equals: "pro" },
+            then: "VIP {{first}}",
+            otherwise: "Member",
+          },
+          { type: "uppercase" },
+        ],
+      },
+      raw: "price",
+    };
+
+    // Mappings are plain data, so a copy saved with a job works the same.
+    const saved = JSON.parse(JSON.stringify(mappings)) as FieldMappings;
+    expect(mapper.applyFieldMappings(row, saved)).toEqual({
+      name: "Ada Lovelace",
+      tier: "Professional",
+      price: "$1,299",
+      city: "Worldwide",
+      badge: "VIP ADA",
+      raw: "1299",
+    });
+  });
+
+  it("leaves the value unchanged when a transformation's options are invalid", () => {
+    expect(mapper.transformValue("12", { type: "currency", currency: "EURO" })).toBe("12");
+    expect(mapper.transformValue("12", { type: "number", locale: "not a locale" })).toBe("12");
+    expect(
+      mapper.transformValue("2024-03-05", { type: "dateFormat", dateFormat: "MMM", locale: "?" })
+    ).toBe("2024-03-05");
+    expect(
+      mapper.transformValue("pro", {
+        type: "conditional",
+        when: { matches: "(" },
+        then: "yes",
+        otherwise: "no",
+      })
+    ).toBe("no");
+  });
+
+  it("lists the columns a mapping reads", () => {
+    expect(
+      DataMapper.sourceColumns({
+        name: "Full Name",
+        tier: {
+          column: "plan",
+          transforms: [
+            { type: "conditional", when: { column: "country" }, then: "{{value}} in {{city}}" },
+          ],
+        },
+      })
+    ).toEqual(["Full Name", "plan", "country", "city"]);
+  });
+
   // --- detectFieldTypes ---
 
   it("detects number columns", () => {
@@ -591,6 +1146,11 @@ describe("DataSourceFactory", () => {
     expect(detectDataSourceType('{"key":"val"}')).toBe("json");
   });
 
+  it("detects workbook file extensions", () => {
+    expect(detectDataSourceType("leads.xlsx")).toBe("xlsx");
+    expect(detectDataSourceType("leads.ods")).toBe("ods");
+  });
+
   it("returns unknown for unrecognised input", () => {
     expect(detectDataSourceType("some random text")).toBe("unknown");
   });
@@ -645,4 +1205,12 @@ describe("DataSourceFactory", () => {
   it("throws when manual source has no rows", () => {
     expect(() => createDataSource({ type: "manual", rows: [] })).toThrow("requires at least one");
   });
+
+  it("creates a workbook data source for the configured sheet", async () => {
+    const file = new File([makeWorkbook("ods")], "leads.ods");
+    const source = createDataSource({ type: "ods", file, sheetName: "Notes" });
+
+    expect(source.type).toBe("ods");
+    expect(await source.load()).toEqual([{ Note: "Call back" }]);
+  });
 });
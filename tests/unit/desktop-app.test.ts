@@ -152,6 +152,17 @@ describe("Desktop App — main.ts patterns", () => {
     expect(mainSrc).toContain("stopAllMCPServers");
   });
 
+  it("launches stdio MCP servers through StdioTransport", () => {
+    expect(mainSrc).toContain('from "./mcp/StdioTransport"');
+    expect(mainSrc).toContain("startStdioServers");
+    expect(mainSrc).toContain('resolveAsset("mcp-servers")');
+  });
+
+  it("relays stdio MCP messages over IPC", () => {
+    expect(mainSrc).toContain('"send-mcp-message"');
+    expect(mainSrc).toContain('"mcp-message"');
+  });
+
   it("imports autoUpdater from electron-updater", () => {
     expect(mainSrc).toContain('import { autoUpdater } from "electron-updater"');
   });
@@ -239,6 +250,12 @@ describe("Desktop App — preload.ts patterns", () => {
     expect(preloadSrc).toContain("onTrayStartJob");
   });
 
+  it("exposes the stdio MCP server bridge", () => {
+    expect(preloadSrc).toContain("sendMCPMessage");
+    expect(preloadSrc).toContain("onMCPMessage");
+    expect(preloadSrc).toContain('"mcp-status"');
+  });
+
   it("defines ElectronBridge interface", () => {
     expect(preloadSrc).toContain("ElectronBridge");
   });
@@ -1,11 +1,22 @@
 import { describe, it, expect, vi, beforeEach } from "vitest";
 import { PromptBuilder } from "~core/llm/PromptBuilder";
 import { createProvider } from "~core/llm/ProviderFactory";
+import { CostCalculator } from "~core/llm/CostCalculator";
 import { LLMAdapter } from "~core/llm/LLMAdapter";
+import {
+  FallbackProvider,
+  ProviderHealthTracker,
+  classifyProviderError,
+} from "~core/llm/FallbackProvider";
 import { LMStudioProvider } from "~core/llm/providers/LMStudioProvider";
 import { OllamaProvider } from "~core/llm/providers/OllamaProvider";
 import { OpenAIProvider } from "~core/llm/providers/OpenAIProvider";
-import type { LLMConfig } from "~types/llm";
+import { WebLLMProvider } from "~core/llm/providers/WebLLMProvider";
+import { detectWebLLMBackend, toGGUFSource, toMLCModelId } from "~core/llm/providers/WebLLMEngines";
+import type { WebLLMEngine, WebLLMEngineLoader } from "~core/llm/providers/WebLLMEngines";
+import type { PricingTable } from "~types/config";
+import type { LLMConfig, Tool } from "~types/llm";
+import type { MCPToolSource } from "~types/mcp";
 
 // ===========================================================================
 // PromptBuilder
@@ -89,9 +100,10 @@ describe("ProviderFactory", () => {
     expect(provider).toBeInstanceOf(OpenAIProvider);
   });
 
-  it("createProvider with webllm throws", () => {
+  it("createProvider with webllm config returns WebLLMProvider", () => {
     const config: LLMConfig = { type: "webllm" };
-    expect(() => createProvider(config)).toThrow("WebLLM provider is not yet implemented");
+    const provider = createProvider(config);
+    expect(provider).toBeInstanceOf(WebLLMProvider);
   });
 
   it("createProvider with groq without apiKey throws provider-specific message", () => {
@@ -139,6 +151,35 @@ describe("LLMAdapter", () => {
     expect(global.fetch).toHaveBeenCalled();
   });
 
+  it("passes the abort signal through to the provider's fetch", async () => {
+    mockFetchForOpenAI("Hello");
+    const controller = new AbortController();
+
+    await adapter.generate("Hi", { signal: controller.signal });
+
+    expect(vi.mocked(global.fetch).mock.calls[0][1]).toMatchObject({
+      signal: controller.signal,
+    });
+  });
+
+  it("reports each response's usage to onUsage listeners", async () => {
+    mockFetchForOpenAI("Hello");
+    const listener = vi.fn();
+    const unsubscribe = adapter.onUsage(listener);
+
+    await adapter.generate("Hi");
+    unsubscribe();
+    await adapter.generate("Again");
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener).toHaveBeenCalledWith(
+      expect.objectContaining({
+        provider: "groq",
+        usage: { promptTokens: 10, completionTokens: 5, totalTokens: 15 },
+      }),
+    );
+  });
+
   it("generateWithVision throws when supportsVision is false", async () => {
     const ollamaAdapter = new LLMAdapter({ type: "ollama" });
     await expect(ollamaAdapter.generateWithVision("prompt", "base64img")).rejects.toThrow(
@@ -299,3 +340,516 @@ describe("OllamaProvider", () => {
     expect(response.usage?.totalTokens).toBe(11);
   });
 });
+
+// ===========================================================================
+// FallbackProvider
+// ===========================================================================
+
+describe("FallbackProvider", () => {
+  const groq: LLMConfig = { type: "groq", apiKey: "test-key" };
+  const ollama: LLMConfig = { type: "ollama" };
+  let now: number;
+  let health: ProviderHealthTracker;
+
+  function groqReply(content: string): Response {
+    return {
+      ok: true,
+      status: 200,
+      json: vi.fn().mockResolvedValue({
+        id: "c",
+        model: "llama-3.3-70b-versatile",
+        choices: [{ index: 0, message: { role: "assistant", content }, finish_reason: "stop" }],
+      }),
+    } as unknown as Response;
+  }
+
+  function ollamaReply(content: string): Response {
+    return {
+      ok: true,
+      status: 200,
+      json: vi.fn().mockResolvedValue({
+        model: "llama3.2",
+        message: { role: "assistant", content },
+        done: true,
+      }),
+    } as unknown as Response;
+  }
+
+  const rateLimited = { ok: false, status: 429 } as unknown as Response;
+  const calledUrls = () => vi.mocked(global.fetch).mock.calls.map((c) => String(c[0]));
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    now = 1_000_000;
+    health = new ProviderHealthTracker(() => now);
+  });
+
+  it("classifies provider errors", () => {
+    expect(classifyProviderError(new Error("OpenAIProvider: rate limit exceeded (429)"))).toBe(
+      "rate_limit"
+    );
+    expect(classifyProviderError(new Error("unauthorized – check your API key (401)"))).toBe(
+      "auth"
+    );
+    expect(classifyProviderError(new TypeError("fetch failed"))).toBe("connection");
+    expect(classifyProviderError(new Error("server error (503)"))).toBe("server");
+    expect(classifyProviderError(new Error("request failed with status 400"))).toBe("other");
+  });
+
+  it("fails over on a rate limit and records the serving provider", async () => {
+    vi.mocked(global.fetch)
+      .mockResolvedValueOnce(rateLimited)
+      .mockResolvedValueOnce(ollamaReply("from ollama"));
+    const provider = new FallbackProvider([groq, ollama], health);
+
+    const response = await provider.complete([{ role: "user", content: "Hi" }]);
+
+    expect(response).toMatchObject({ content: "from ollama", provider: "ollama" });
+    expect(health.get("groq")).toMatchObject({
+      healthy: false,
+      cooldownUntil: now + 60_000,
+      lastFailure: { kind: "rate_limit" },
+    });
+  });
+
+  it("skips providers in cool-down until the window expires", async () => {
+    vi.mocked(global.fetch).mockRejectedValueOnce(new TypeError("fetch failed"));
+    vi.mocked(global.fetch).mockResolvedValue(ollamaReply("ok"));
+    const provider = new FallbackProvider([groq, ollama], health);
+
+    await provider.complete([{ role: "user", content: "1" }]);
+    await provider.complete([{ role: "user", content: "2" }]);
+    expect(calledUrls().filter((u) => u.includes("groq"))).toHaveLength(1);
+
+    now += 30_000;
+    vi.mocked(global.fetch).mockResolvedValueOnce(groqReply("groq is back"));
+    const response = await provider.complete([{ role: "user", content: "3" }]);
+    expect(response.provider).toBe("groq");
+    expect(health.get("groq").healthy).toBe(true);
+  });
+
+  it("benches a provider after repeated malformed JSON", async () => {
+    vi.mocked(global.fetch)
+      .mockResolvedValueOnce(groqReply("Sure! Here you go"))
+      .mockResolvedValueOnce(groqReply("still not json"))
+      .mockResolvedValueOnce(ollamaReply('{"ok":true}'));
+    const adapter = new LLMAdapter(groq, { fallbacks: [ollama], health });
+
+    const result = await adapter.generateJSON<{ ok: boolean }>("Give me JSON");
+
+    expect(result).toEqual({ ok: true });
+    expect(health.get("groq").lastFailure?.kind).toBe("malformed_json");
+  });
+
+  it("skips providers that are not configured", async () => {
+    vi.mocked(global.fetch).mockResolvedValue(ollamaReply("ok"));
+    const adapter = new LLMAdapter({ type: "groq" }, { fallbacks: [ollama], health });
+
+    const response = await adapter.generate("Hi");
+    expect(response.provider).toBe("ollama");
+    expect(health.get("groq").lastFailure?.kind).toBe("auth");
+  });
+
+  it("reports every failure when the whole chain is down", async () => {
+    vi.mocked(global.fetch).mockResolvedValue(rateLimited);
+    const provider = new FallbackProvider([groq, { type: "lmstudio" }], health);
+
+    await expect(provider.complete([{ role: "user", content: "Hi" }])).rejects.toThrow(
+      /all providers failed — groq: .*429.*; lmstudio: .*429/
+    );
+  });
+
+  it("tags responses from a single provider too", async () => {
+    vi.mocked(global.fetch).mockResolvedValue(ollamaReply("hello"));
+    const response = await new LLMAdapter(ollama).generate("Hi");
+    expect(response.provider).toBe("ollama");
+  });
+});
+
+// ===========================================================================
+// CostCalculator
+// ===========================================================================
+
+describe("CostCalculator", () => {
+  const pricing: PricingTable = {
+    groq: { "llama-3.3-70b-versatile": { inputPerMillion: 0.59, outputPerMillion: 0.79 } },
+    ollama: { "*": { inputPerMillion: 0, outputPerMillion: 0 } },
+  };
+  const usage = { promptTokens: 2_000_000, completionTokens: 1_000_000, totalTokens: 3_000_000 };
+
+  it("prices usage by provider and model, falling back to the provider's '*' entry", () => {
+    const priced = CostCalculator.fromUsage(usage, pricing, "groq", "llama-3.3-70b-versatile");
+    expect(priced.costUSD).toBeCloseTo(1.97);
+    expect(CostCalculator.getPricing(pricing, "ollama", "llama3.2")).toEqual({
+      inputPerMillion: 0,
+      outputPerMillion: 0,
+    });
+    expect(CostCalculator.fromUsage(usage, pricing, "groq", "unknown-model").costUSD).toBe(0);
+    expect(CostCalculator.fromUsage(undefined, pricing, "groq").requests).toBe(1);
+  });
+
+  it("adds totals and reports exceeded budgets", () => {
+    const once = CostCalculator.fromUsage(usage, pricing, "groq", "llama-3.3-70b-versatile");
+    const twice = CostCalculator.add(once, once);
+
+    expect(twice.totalTokens).toBe(6_000_000);
+    expect(twice.requests).toBe(2);
+    expect(CostCalculator.exceededBudget(twice, { maxCostUSD: 5 })).toBeNull();
+    expect(CostCalculator.exceededBudget(twice, { maxCostUSD: 3 })).toMatch(
+      "cost budget exceeded ($3.9400 / $3.00)",
+    );
+    expect(CostCalculator.exceededBudget(twice, { maxTokens: 1000 })).toMatch("token budget");
+    expect(CostCalculator.exceededBudget(twice)).toBeNull();
+  });
+});
+
+// ===========================================================================
+// WebLLMProvider
+// ===========================================================================
+
+describe("WebLLMProvider", () => {
+  /** CPU-only stand-in for a loaded model that echoes the last message. */
+  function fakeEngine(): WebLLMEngine {
+    return {
+      backend: "wasm",
+      modelId: "bartowski/Llama-3.2-1B-Instruct-GGUF",
+      complete: vi.fn(async (request) => ({
+        model: "local",
+        choices: [
+          {
+            message: { content: `echo: ${request.messages.at(-1)?.content}` },
+            finish_reason: "stop",
+          },
+        ],
+        usage: { prompt_tokens: 4, completion_tokens: 2, total_tokens: 6 },
+      })),
+      stream: vi.fn(async () =>
+        (async function* () {
+          yield { model: "local", choices: [{ delta: { content: "Hel" }, finish_reason: null }] };
+          yield { model: "local", choices: [{ delta: { content: "lo" }, finish_reason: "stop" }] };
+          yield {
+            model: "local",
+            choices: [],
+            usage: { prompt_tokens: 3, completion_tokens: 2, total_tokens: 5 },
+          };
+        })()
+      ),
+      unload: vi.fn(async () => {}),
+    };
+  }
+
+  function fakeLoader(engine: WebLLMEngine): WebLLMEngineLoader {
+    return vi.fn(async (backend, _model, onProgress) => {
+      onProgress({ backend, progress: 0.5, text: "Fetching weights", cached: false });
+      onProgress({ backend, progress: 1, text: "Ready", cached: false });
+      return engine;
+    });
+  }
+
+  it("falls back to the WASM backend without WebGPU", async () => {
+    // happy-dom has no navigator.gpu
+    expect(await detectWebLLMBackend()).toBe("wasm");
+    expect(await new WebLLMProvider({ type: "webllm" }).testConnection()).toBe(true);
+  });
+
+  it("maps model names for each runtime", () => {
+    expect(toMLCModelId("Llama-3.2-1B-Instruct")).toBe("Llama-3.2-1B-Instruct-q4f16_1-MLC");
+    expect(toMLCModelId("Phi-3-mini-4k-instruct-q4f32_1-MLC")).toBe(
+      "Phi-3-mini-4k-instruct-q4f32_1-MLC"
+    );
+    expect(toGGUFSource("Llama-3.2-1B-Instruct")).toEqual({
+      repo: "bartowski/Llama-3.2-1B-Instruct-GGUF",
+      quant: "Q4_K_M",
+    });
+  });
+
+  it("loads the model once and reports progress", async () => {
+    const engine = fakeEngine();
+    const loadEngine = fakeLoader(engine);
+    const provider = new WebLLMProvider({ type: "webllm" }, { loadEngine });
+    const progress = vi.fn();
+    provider.onProgress(progress);
+
+    const [a] = await Promise.all([
+      provider.complete([{ role: "user", content: "Hi" }], { maxTokens: 16 }),
+      provider.complete([{ role: "user", content: "Again" }]),
+    ]);
+
+    expect(loadEngine).toHaveBeenCalledTimes(1);
+    expect(loadEngine).toHaveBeenCalledWith("wasm", "Llama-3.2-1B-Instruct", expect.any(Function));
+    expect(progress).toHaveBeenLastCalledWith(expect.objectContaining({ progress: 1 }));
+    expect(a).toMatchObject({
+      content: "echo: Hi",
+      finishReason: "stop",
+      usage: { totalTokens: 6 },
+    });
+    expect(engine.complete).toHaveBeenCalledWith({
+      messages: [{ role: "user", content: "Hi" }],
+      max_tokens: 16,
+    });
+  });
+
+  it("uses the MLC model id on WebGPU", async () => {
+    const loadEngine = fakeLoader(fakeEngine());
+    const provider = new WebLLMProvider({ type: "webllm" }, { backend: "webgpu", loadEngine });
+
+    await provider.load();
+    expect(loadEngine).toHaveBeenCalledWith(
+      "webgpu",
+      "Llama-3.2-1B-Instruct-q4f16_1-MLC",
+      expect.any(Function)
+    );
+  });
+
+  it("falls back to WASM when the detected WebGPU backend fails to load", async () => {
+    Object.defineProperty(navigator, "gpu", {
+      value: { requestAdapter: async () => ({}) },
+      configurable: true,
+    });
+    const engine = fakeEngine();
+    const loadEngine = vi
+      .fn<Parameters<WebLLMEngineLoader>, ReturnType<WebLLMEngineLoader>>()
+      .mockRejectedValueOnce(new Error("out of GPU memory"))
+      .mockResolvedValueOnce(engine);
+
+    try {
+      await expect(new WebLLMProvider({ type: "webllm" }, { loadEngine }).load()).resolves.toBe(
+        engine
+      );
+      expect(loadEngine.mock.calls.map(([backend, model]) => [backend, model])).toEqual([
+        ["webgpu", "Llama-3.2-1B-Instruct-q4f16_1-MLC"],
+        ["wasm", "Llama-3.2-1B-Instruct"],
+      ]);
+
+      // A backend chosen explicitly is not second-guessed.
+      loadEngine.mockRejectedValueOnce(new Error("out of GPU memory"));
+      const forced = new WebLLMProvider({ type: "webllm" }, { backend: "webgpu", loadEngine });
+      await expect(forced.load()).rejects.toThrow("out of GPU memory");
+    } finally {
+      delete (navigator as Navigator & { gpu?: unknown }).gpu;
+    }
+  });
+
+  it("streams chunks and collects usage", async () => {
+    const provider = new WebLLMProvider(
+      { type: "webllm" },
+      { loadEngine: fakeLoader(fakeEngine()) }
+    );
+    const chunks: string[] = [];
+
+    const response = await provider.completeStreaming([{ role: "user", content: "Hi" }], (c) =>
+      chunks.push(c)
+    );
+
+    expect(chunks).toEqual(["Hel", "lo"]);
+    expect(response).toMatchObject({
+      content: "Hello",
+      finishReason: "stop",
+      usage: { totalTokens: 5 },
+    });
+  });
+
+  it("retries loading after a failed download", async () => {
+    const engine = fakeEngine();
+    const loadEngine = vi
+      .fn<Parameters<WebLLMEngineLoader>, ReturnType<WebLLMEngineLoader>>()
+      .mockRejectedValueOnce(new Error("network down"))
+      .mockResolvedValueOnce(engine);
+    const provider = new WebLLMProvider({ type: "webllm" }, { loadEngine });
+
+    await expect(provider.load()).rejects.toThrow("network down");
+    await expect(provider.load()).resolves.toBe(engine);
+
+    await provider.unload();
+    expect(engine.unload).toHaveBeenCalled();
+  });
+});
+
+// ===========================================================================
+// Tool calling
+// ===========================================================================
+
+describe("Tool calling", () => {
+  const clickTool: Tool = {
+    name: "playwright.browser_click",
+    description: "Click an element",
+    parameters: { type: "object", properties: { selector: { type: "string" } } },
+  };
+
+  function openAIReply(message: Record<string, unknown>, finishReason = "stop") {
+    return {
+      ok: true,
+      json: vi.fn().mockResolvedValue({
+        id: "chatcmpl-1",
+        model: "test-model",
+        choices: [
+          { index: 0, message: { role: "assistant", ...message }, finish_reason: finishReason },
+        ],
+      }),
+    } as unknown as Response;
+  }
+
+  function requestBody(call: number): Record<string, unknown> {
+    const init = vi.mocked(global.fetch).mock.calls[call][1];
+    return JSON.parse(String(init?.body)) as Record<string, unknown>;
+  }
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("OpenAIProvider serializes tools and parses tool_calls", async () => {
+    vi.mocked(global.fetch).mockResolvedValue(
+      openAIReply(
+        {
+          content: null,
+          tool_calls: [
+            {
+              id: "call_1",
+              type: "function",
+              function: { name: "playwright__browser_click", arguments: '{"selector":"#go"}' },
+            },
+          ],
+        },
+        "tool_calls",
+      ),
+    );
+
+    const provider = new OpenAIProvider({ type: "groq", apiKey: "test-key" });
+    const response = await provider.complete([{ role: "user", content: "Click go" }], {
+      tools: [clickTool],
+    });
+
+    expect(requestBody(0).tools).toEqual([
+      {
+        type: "function",
+        function: {
+          name: "playwright__browser_click",
+          description: "Click an element",
+          parameters: clickTool.parameters,
+        },
+      },
+    ]);
+    expect(response.finishReason).toBe("tool_calls");
+    expect(response.toolCalls).toEqual([
+      { id: "call_1", toolName: "playwright.browser_click", arguments: { selector: "#go" } },
+    ]);
+  });
+
+  it("LMStudioProvider treats malformed arguments as empty", async () => {
+    vi.mocked(global.fetch).mockResolvedValue(
+      openAIReply({
+        content: "",
+        tool_calls: [
+          { id: "c", type: "function", function: { name: "browser_click", arguments: "{oops" } },
+        ],
+      }),
+    );
+
+    const provider = new LMStudioProvider({ type: "lmstudio" });
+    const response = await provider.complete([{ role: "user", content: "Hi" }]);
+    expect(response.toolCalls).toEqual([{ id: "c", toolName: "browser_click", arguments: {} }]);
+  });
+
+  it("OllamaProvider parses tool_calls with object arguments", async () => {
+    vi.mocked(global.fetch).mockResolvedValue({
+      ok: true,
+      json: vi.fn().mockResolvedValue({
+        model: "llama3.1",
+        message: {
+          role: "assistant",
+          content: "",
+          tool_calls: [
+            { function: { name: "playwright__browser_click", arguments: { selector: "#go" } } },
+          ],
+        },
+        done: true,
+      }),
+    } as unknown as Response);
+
+    const provider = new OllamaProvider({ type: "ollama" });
+    const response = await provider.complete([{ role: "user", content: "Click go" }], {
+      tools: [clickTool],
+    });
+
+    expect(requestBody(0).tools).toHaveLength(1);
+    expect(response.finishReason).toBe("tool_calls");
+    expect(response.toolCalls).toEqual([
+      { id: "call_0", toolName: "playwright.browser_click", arguments: { selector: "#go" } },
+    ]);
+  });
+
+  it("LLMAdapter.generateWithTools runs tool calls and feeds results back", async () => {
+    vi.mocked(global.fetch)
+      .mockResolvedValueOnce(
+        openAIReply(
+          {
+            content: null,
+            tool_calls: [
+              {
+                id: "call_1",
+                type: "function",
+                function: { name: "playwright__browser_click", arguments: '{"selector":"#go"}' },
+              },
+            ],
+          },
+          "tool_calls",
+        ),
+      )
+      .mockResolvedValueOnce(openAIReply({ content: "Clicked the button." }));
+
+    const source: MCPToolSource = {
+      getAvailableTools: vi.fn().mockResolvedValue([
+        {
+          name: clickTool.name,
+          description: clickTool.description,
+          inputSchema: clickTool.parameters,
+        },
+      ]),
+      callTool: vi.fn().mockResolvedValue({ content: "clicked", isError: false }),
+    };
+
+    const adapter = new LLMAdapter({ type: "groq", apiKey: "test-key" });
+    const response = await adapter.generateWithTools("Click go", source);
+
+    expect(source.callTool).toHaveBeenCalledWith("playwright.browser_click", { selector: "#go" });
+    expect(response.content).toBe("Clicked the button.");
+    expect(response.toolResults).toEqual([
+      { toolCallId: "call_1", result: "clicked", isError: false },
+    ]);
+
+    const followUp = requestBody(1).messages as Array<Record<string, unknown>>;
+    expect(followUp.at(-2)).toMatchObject({
+      role: "assistant",
+      tool_calls: [{ id: "call_1", function: { name: "playwright__browser_click" } }],
+    });
+    expect(followUp.at(-1)).toEqual({ role: "tool", tool_call_id: "call_1", content: "clicked" });
+    expect(adapter.getHistory().map((m) => m.role)).toEqual([
+      "user",
+      "assistant",
+      "tool",
+      "assistant",
+    ]);
+  });
+
+  it("LLMAdapter.generateWithTools stops after maxIterations", async () => {
+    vi.mocked(global.fetch).mockImplementation(async () =>
+      openAIReply({
+        content: null,
+        tool_calls: [{ id: "x", type: "function", function: { name: "loop", arguments: "{}" } }],
+      }),
+    );
+    const source: MCPToolSource = {
+      getAvailableTools: vi.fn().mockResolvedValue([]),
+      callTool: vi
+        .fn()
+        .mockResolvedValue({ content: "", isError: true, metadata: { error: "nope" } }),
+    };
+
+    const adapter = new LLMAdapter({ type: "groq", apiKey: "test-key" });
+    await expect(adapter.generateWithTools("Go", source, { maxIterations: 2 })).rejects.toThrow(
+      "after 2 iterations",
+    );
+    expect(source.callTool).toHaveBeenCalledTimes(2);
+  });
+});
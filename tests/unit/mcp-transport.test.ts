@@ -0,0 +1,526 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import path from "node:path";
+import { StdioTransport } from "../../desktop/mcp/StdioTransport";
+import { MCPIntegration, describeMCPError } from "~core/browser/MCPIntegration";
+import { MCPHttpTransport, MCPSessionExpiredError } from "~core/browser/MCPHttpTransport";
+import { MCPRouter } from "~core/browser/MCPRouter";
+import { MCPIpcTransport } from "~core/browser/MCPIpcTransport";
+import type { MCPDesktopBridge } from "~core/browser/MCPIpcTransport";
+import { MCPErrorCodes } from "~types/mcp";
+import type {
+  MCPHttpServerConfig,
+  MCPMessage,
+  MCPRequest,
+  MCPServerConfig,
+  MCPStdioServerConfig,
+} from "~types/mcp";
+
+const ECHO_SERVER = path.resolve(__dirname, "../helpers/echo-mcp-server.mjs");
+
+const echoConfig: MCPServerConfig = {
+  transport: "stdio",
+  command: process.execPath,
+  args: [ECHO_SERVER],
+};
+
+// ===========================================================================
+// MCPIntegration over stdio
+// ===========================================================================
+
+describe("MCPIntegration (stdio)", () => {
+  let mcp: MCPIntegration;
+
+  beforeEach(async () => {
+    mcp = new MCPIntegration();
+    await mcp.initialize(echoConfig, new StdioTransport(echoConfig), { requestTimeoutMs: 500 });
+  });
+
+  afterEach(async () => {
+    await mcp.shutdown();
+  });
+
+  it("performs the initialize handshake", () => {
+    expect(mcp.isInitialized()).toBe(true);
+    expect(mcp.getServerInfo()).toEqual({
+      name: "echo-server",
+      version: "1.0.0",
+      capabilities: ["tools"],
+    });
+  });
+
+  it("populates tools from every tools/list page", async () => {
+    const tools = await mcp.getAvailableTools();
+    expect(tools.map((t) => t.name)).toEqual(["echo", "fail", "slow"]);
+    expect(tools[0].inputSchema.required).toEqual(["text"]);
+  });
+
+  it("correlates tools/call responses by id", async () => {
+    const [a, b] = await Promise.all([
+      mcp.callTool("echo", { text: "first" }),
+      mcp.callTool("echo", { text: "second" }),
+    ]);
+
+    expect(a).toMatchObject({ content: "first", isError: false });
+    expect(b).toMatchObject({ content: "second", isError: false });
+  });
+
+  it("surfaces tool-level errors", async () => {
+    const result = await mcp.callTool("fail", {});
+    expect(result.isError).toBe(true);
+    expect(result.metadata?.error).toBe("boom");
+  });
+
+  it("times out requests the server never answers", async () => {
+    const result = await mcp.callTool("slow", {});
+    expect(result.isError).toBe(true);
+    expect(result.metadata?.error).toContain("timed out after 500ms");
+  });
+
+  it("validates required arguments before sending", async () => {
+    const result = await mcp.callTool("echo", {});
+    expect(result.isError).toBe(true);
+    expect(result.metadata?.error).toBe("Missing required argument: text");
+  });
+
+  it("fails in-flight requests when the server goes away", async () => {
+    const pending = mcp.callTool("slow", {});
+    await mcp.shutdown();
+
+    const result = await pending;
+    expect(result.isError).toBe(true);
+    expect(mcp.isInitialized()).toBe(false);
+  });
+});
+
+describe("MCPIntegration without a transport", () => {
+  it("reports that no server is connected", async () => {
+    const mcp = new MCPIntegration();
+    await mcp.initialize();
+
+    expect(await mcp.getAvailableTools()).toEqual([]);
+    const result = await mcp.callTool("browser_click", {});
+    expect(result.isError).toBe(true);
+  });
+
+  it("rejects initialization when the server cannot be launched", async () => {
+    const config: MCPServerConfig = {
+      transport: "stdio",
+      command: "/nonexistent/mcp-server",
+      args: [],
+    };
+    const mcp = new MCPIntegration();
+
+    await expect(mcp.initialize(config, new StdioTransport(config))).rejects.toThrow(
+      "MCP initialization failed"
+    );
+  });
+});
+
+describe("StdioTransport", () => {
+  const script = (source: string): MCPStdioServerConfig => ({
+    transport: "stdio",
+    command: process.execPath,
+    args: ["-e", source],
+  });
+
+  it("reports an unexpected exit after being restarted", async () => {
+    const transport = new StdioTransport(script("setTimeout(() => process.exit(3), 300)"));
+    await transport.start();
+    await transport.close();
+
+    const closed = new Promise<Error | undefined>((resolve) => {
+      transport.onclose = resolve;
+    });
+    await transport.start();
+
+    expect((await closed)?.message).toContain("code 3");
+  });
+
+  it("rejects sends to a server that closed its stdin", async () => {
+    const transport = new StdioTransport(
+      script("require('fs').closeSync(0); setTimeout(() => {}, 2000)")
+    );
+    await transport.start();
+    await new Promise((r) => setTimeout(r, 200));
+
+    await expect(transport.send({ jsonrpc: "2.0", method: "ping" })).rejects.toThrow();
+    await transport.close();
+  });
+});
+
+describe("describeMCPError", () => {
+  it("names standard JSON-RPC error codes", () => {
+    expect(
+      describeMCPError({ code: MCPErrorCodes.METHOD_NOT_FOUND, message: "Method not found: x" })
+    ).toBe("METHOD_NOT_FOUND (-32601): Method not found: x");
+    expect(describeMCPError({ code: -32050, message: "busy" })).toBe("SERVER_ERROR (-32050): busy");
+  });
+});
+
+// ===========================================================================
+// MCPRouter
+// ===========================================================================
+
+describe("MCPRouter", () => {
+  let router: MCPRouter;
+
+  beforeEach(() => {
+    router = new MCPRouter({
+      requestTimeoutMs: 500,
+      createTransport: (config) =>
+        config.transport === "stdio" ? new StdioTransport(config) : undefined,
+    });
+  });
+
+  afterEach(async () => {
+    await router.shutdown();
+  });
+
+  it("namespaces tools from each server", async () => {
+    const report = await router.connectAll([
+      { ...echoConfig, name: "playwright-mcp" },
+      { ...echoConfig, name: "filesystem" },
+    ]);
+
+    expect(report).toEqual({ connected: ["playwright", "filesystem"], failed: [] });
+    const names = (await router.getAvailableTools()).map((t) => t.name);
+    expect(names).toEqual([
+      "playwright.echo",
+      "playwright.fail",
+      "playwright.slow",
+      "filesystem.echo",
+      "filesystem.fail",
+      "filesystem.slow",
+    ]);
+  });
+
+  it("suffixes colliding namespaces", async () => {
+    await router.connectAll([
+      { ...echoConfig, name: "echo" },
+      { ...echoConfig, name: "echo" },
+    ]);
+    expect(router.getNamespaces()).toEqual(["echo", "echo-2"]);
+  });
+
+  it("routes namespaced and bare tool names", async () => {
+    await router.connectAll([
+      { ...echoConfig, name: "first" },
+      { ...echoConfig, name: "second" },
+    ]);
+
+    const namespaced = await router.callTool("second.echo", { text: "hi" });
+    expect(namespaced).toMatchObject({ content: "hi", metadata: { server: "second" } });
+
+    // Bare names resolve to the highest-priority server.
+    const bare = await router.callTool("echo", { text: "hi" });
+    expect(bare.metadata?.server).toBe("first");
+
+    const unknown = await router.callTool("third.echo", { text: "hi" });
+    expect(unknown.isError).toBe(true);
+  });
+
+  it("reports servers it cannot connect to without failing the rest", async () => {
+    const stdioOnly = new MCPRouter();
+    const report = await stdioOnly.connectAll([{ ...echoConfig, name: "echo" }]);
+
+    expect(report.connected).toEqual([]);
+    expect(report.failed[0]).toMatchObject({ server: "echo" });
+    expect(stdioOnly.isInitialized()).toBe(false);
+    expect(await stdioOnly.getAvailableTools()).toEqual([]);
+  });
+});
+
+// ===========================================================================
+// Desktop app IPC
+// ===========================================================================
+
+/**
+ * Stand-in for the desktop app: runs stdio servers the way `desktop/main.ts`
+ * does and hands their messages to listeners as its IPC events would.
+ */
+function createDesktopBridge() {
+  const servers = new Map<string, StdioTransport>();
+  const messageListeners: Array<(data: { server: string; message: object }) => void> = [];
+  const statusListeners: Array<
+    (data: { server: string; running: boolean; error?: string }) => void
+  > = [];
+
+  const bridge: MCPDesktopBridge = {
+    listMCPServers: async () => [...servers.keys()],
+    sendMCPMessage: async (server, message) => {
+      const transport = servers.get(server);
+      if (!transport) return { success: false, error: `MCP server "${server}" is not running` };
+      await transport.send(message as MCPMessage);
+      return { success: true };
+    },
+    onMCPMessage: (callback) => messageListeners.push(callback),
+    onMCPStatus: (callback) => statusListeners.push(callback),
+  };
+
+  return {
+    bridge,
+    async start(name: string) {
+      const transport = new StdioTransport(echoConfig as MCPStdioServerConfig);
+      transport.onmessage = (message) =>
+        messageListeners.forEach((l) => l({ server: name, message }));
+      transport.onclose = (error) => {
+        servers.delete(name);
+        statusListeners.forEach((l) => l({ server: name, running: false, error: error?.message }));
+      };
+      await transport.start();
+      servers.set(name, transport);
+    },
+    async stop(name: string) {
+      await servers.get(name)?.close();
+    },
+  };
+}
+
+describe("MCPIpcTransport", () => {
+  let desktop: ReturnType<typeof createDesktopBridge>;
+  let router: MCPRouter;
+
+  beforeEach(() => {
+    desktop = createDesktopBridge();
+    router = new MCPRouter({
+      requestTimeoutMs: 500,
+      createTransport: (config) =>
+        config.transport === "stdio" && config.name
+          ? new MCPIpcTransport(config.name, desktop.bridge)
+          : undefined,
+    });
+  });
+
+  afterEach(async () => {
+    await router.shutdown();
+    await desktop.stop("filesystem");
+    await desktop.stop("playwright-mcp");
+  });
+
+  it("connects the router to a stdio server run by the desktop app", async () => {
+    await desktop.start("filesystem");
+    await desktop.start("playwright-mcp");
+
+    const report = await router.connectAll([
+      { ...echoConfig, name: "filesystem" },
+      { ...echoConfig, name: "playwright-mcp" },
+    ]);
+
+    expect(report).toEqual({ connected: ["filesystem", "playwright"], failed: [] });
+    const names = (await router.getAvailableTools()).map((t) => t.name);
+    expect(names).toContain("playwright.echo");
+
+    const result = await router.callTool("playwright.echo", { text: "over ipc" });
+    expect(result).toMatchObject({ content: "over ipc", metadata: { server: "playwright" } });
+  });
+
+  it("fails to connect to a server the desktop app is not running", async () => {
+    const report = await router.connectAll([{ ...echoConfig, name: "filesystem" }]);
+
+    expect(report.connected).toEqual([]);
+    expect(report.failed[0].error).toContain("not running in the desktop app");
+  });
+
+  it("reports the server exiting as a close", async () => {
+    await desktop.start("filesystem");
+    const transport = new MCPIpcTransport("filesystem", desktop.bridge);
+    await transport.start();
+
+    const closed = new Promise<Error | undefined>((resolve) => {
+      transport.onclose = resolve;
+    });
+    await desktop.stop("filesystem");
+
+    await closed;
+    await expect(transport.send({ jsonrpc: "2.0", method: "ping" })).rejects.toThrow("not started");
+  });
+});
+
+// ===========================================================================
+// HTTP transports
+// ===========================================================================
+
+const HTTP_URL = "http://localhost:8931/mcp";
+
+function jsonResponse(body: unknown, headers: Record<string, string> = {}): Response {
+  return new Response(JSON.stringify(body), {
+    status: 200,
+    headers: { "content-type": "application/json", ...headers },
+  });
+}
+
+function sseResponse(chunks: string[], headers: Record<string, string> = {}): Response {
+  const encoder = new TextEncoder();
+  const body = new ReadableStream<Uint8Array>({
+    start(controller) {
+      for (const chunk of chunks) controller.enqueue(encoder.encode(chunk));
+      controller.close();
+    },
+  });
+  return new Response(body, {
+    status: 200,
+    headers: { "content-type": "text/event-stream", ...headers },
+  });
+}
+
+/** Minimal streamable-HTTP MCP server backed by the mocked fetch. */
+function mockStreamableServer(options: { expireAfterInit?: boolean } = {}) {
+  let sessions = 0;
+  let expired = false;
+  const seenSessionIds: Array<string | null> = [];
+
+  vi.mocked(global.fetch).mockImplementation(async (_url, init) => {
+    const headers = (init?.headers ?? {}) as Record<string, string>;
+    if (init?.method === "DELETE") return new Response(null, { status: 204 });
+
+    const message = JSON.parse(String(init?.body)) as MCPRequest;
+    seenSessionIds.push(headers["Mcp-Session-Id"] ?? null);
+
+    if (message.id === undefined) return new Response(null, { status: 202 });
+
+    switch (message.method) {
+      case "initialize":
+        sessions++;
+        expired = false;
+        return jsonResponse(
+          {
+            jsonrpc: "2.0",
+            id: message.id,
+            result: { capabilities: {}, serverInfo: { name: "playwright", version: "2" } },
+          },
+          { "mcp-session-id": `session-${sessions}` }
+        );
+      case "tools/list":
+        if (options.expireAfterInit && sessions === 1) expired = true;
+        return jsonResponse({
+          jsonrpc: "2.0",
+          id: message.id,
+          result: { tools: [{ name: "browser_click", inputSchema: { type: "object" } }] },
+        });
+      default:
+        if (expired) return new Response("", { status: 404 });
+        // Reply as an SSE stream, the other format allowed by the spec.
+        return sseResponse([
+          ": keep-alive\n\n",
+          `event: message\ndata: ${JSON.stringify({
+            jsonrpc: "2.0",
+            id: message.id,
+            result: { content: [{ type: "text", text: "clicked" }] },
+          })}\n\n`,
+        ]);
+    }
+  });
+
+  return { seenSessionIds };
+}
+
+describe("MCPHttpTransport (streamable HTTP)", () => {
+  const config: MCPHttpServerConfig = { transport: "http", url: HTTP_URL };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("connects automatically for http configs and echoes the session id", async () => {
+    const { seenSessionIds } = mockStreamableServer();
+    const mcp = new MCPIntegration();
+
+    await mcp.initialize(config);
+    const result = await mcp.callTool("browser_click", { selector: "#go" });
+
+    expect(result).toMatchObject({ content: "clicked", isError: false });
+    expect(mcp.getServerInfo()?.name).toBe("playwright");
+    // initialize is sent without a session; everything after carries it.
+    expect(seenSessionIds).toEqual([null, "session-1", "session-1", "session-1"]);
+  });
+
+  it("re-initializes and retries when the session expires", async () => {
+    const { seenSessionIds } = mockStreamableServer({ expireAfterInit: true });
+    const mcp = new MCPIntegration();
+    await mcp.initialize(config);
+
+    const result = await mcp.callTool("browser_click", {});
+
+    expect(result.isError).toBe(false);
+    expect(seenSessionIds.at(-1)).toBe("session-2");
+  });
+
+  it("ends the session with DELETE on close", async () => {
+    mockStreamableServer();
+    const mcp = new MCPIntegration();
+    await mcp.initialize(config);
+    await mcp.shutdown();
+
+    const calls = vi.mocked(global.fetch).mock.calls;
+    expect(calls.at(-1)?.[1]).toMatchObject({
+      method: "DELETE",
+      headers: { "Mcp-Session-Id": "session-1" },
+    });
+  });
+
+  it("raises MCPSessionExpiredError on 404 for a known session", async () => {
+    vi.mocked(global.fetch)
+      .mockResolvedValueOnce(
+        jsonResponse({ jsonrpc: "2.0", id: 1, result: {} }, { "mcp-session-id": "s" })
+      )
+      .mockResolvedValueOnce(new Response("", { status: 404 }));
+    const transport = new MCPHttpTransport(config);
+    await transport.start();
+
+    await transport.send({ jsonrpc: "2.0", id: 1, method: "initialize" });
+    await expect(
+      transport.send({ jsonrpc: "2.0", id: 2, method: "tools/list" })
+    ).rejects.toBeInstanceOf(MCPSessionExpiredError);
+    expect(transport.getSessionId()).toBeNull();
+  });
+});
+
+describe("MCPHttpTransport (HTTP+SSE)", () => {
+  const config: MCPHttpServerConfig = { transport: "sse", url: "http://localhost:9000/sse" };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("posts to the announced endpoint and receives replies on the stream", async () => {
+    const received: MCPMessage[] = [];
+    vi.mocked(global.fetch)
+      .mockResolvedValueOnce(
+        sseResponse([
+          "event: endpoint\ndata: /messages?sessionId=abc\n\n",
+          'id: 7\nevent: message\ndata: {"jsonrpc":"2.0","id":1,"result":{"ok":true}}\n\n',
+        ])
+      )
+      .mockResolvedValueOnce(new Response(null, { status: 202 }))
+      // Stream re-open after it ends; keep it pending.
+      .mockImplementation(() => new Promise(() => {}));
+
+    const transport = new MCPHttpTransport(config, { reconnectDelayMs: 1 });
+    transport.onmessage = (m) => received.push(m);
+    await transport.start();
+    await transport.send({ jsonrpc: "2.0", id: 1, method: "ping" });
+
+    const post = vi.mocked(global.fetch).mock.calls[1];
+    expect(post[0]).toBe("http://localhost:9000/messages?sessionId=abc");
+    expect(received).toEqual([{ jsonrpc: "2.0", id: 1, result: { ok: true } }]);
+
+    await vi.waitFor(() => expect(global.fetch).toHaveBeenCalledTimes(3));
+    const reopen = vi.mocked(global.fetch).mock.calls[2][1];
+    expect(reopen?.headers).toMatchObject({ "Last-Event-ID": "7" });
+    await transport.close();
+  });
+
+  it("gives up after the configured reconnect attempts", async () => {
+    vi.mocked(global.fetch).mockResolvedValue(new Response("", { status: 503 }));
+    const transport = new MCPHttpTransport(config, {
+      maxReconnectAttempts: 2,
+      reconnectDelayMs: 1,
+    });
+    const onclose = vi.fn();
+    transport.onclose = onclose;
+
+    await expect(transport.start()).rejects.toThrow("HTTP 503");
+    expect(global.fetch).toHaveBeenCalledTimes(3);
+    expect(onclose).toHaveBeenCalledWith(expect.any(Error));
+  });
+});
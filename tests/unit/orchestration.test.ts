@@ -0,0 +1,726 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { OrchestrationEngine } from "~background/core/OrchestrationEngine";
+import { StateManager } from "~background/core/StateManager";
+import { PromptParser } from "~background/core/PromptParser";
+import { TaskPlanner } from "~background/core/TaskPlanner";
+import { CanvaAdapter } from "../../src/adapters/CanvaAdapter";
+import { GenericWebAdapter } from "../../src/adapters/GenericWebAdapter";
+import { AdapterRegistry } from "../../src/adapters/AdapterRegistry";
+import { LLMAdapter } from "~core/llm/LLMAdapter";
+import type { ActionExecutor } from "~core/browser/ActionExecutor";
+import type { BrowserAgent } from "~core/browser/BrowserAgent";
+import type { ActionResult } from "~types/common";
+import type { DOMState } from "~types/browser";
+import type { LLMResponse } from "~types/llm";
+import type { AgentStreamEvent, Job, ParsedPrompt, Task } from "~types/orchestration";
+import type { Screenshot } from "~types/vision";
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function makeTask(id: string, overrides?: Partial<Task>): Task {
+  return {
+    id,
+    name: `Task ${id}`,
+    type: "edit_text",
+    goal: `Goal for ${id}`,
+    requiresVision: false,
+    dependencies: [],
+    status: "pending",
+    attempts: 0,
+    ...overrides,
+  };
+}
+
+function makeJob(tasks: Task[]): Job {
+  return {
+    id: "job-1",
+    prompt: "Edit the heading",
+    config: {
+      llmProvider: { type: "groq", apiKey: "test" },
+      templateMode: "same",
+      exportFormat: "png",
+    },
+    tasks,
+    status: "running",
+    progress: 0,
+    currentTaskIndex: 0,
+    createdAt: new Date().toISOString(),
+    results: [],
+    errors: [],
+  };
+}
+
+function makeDOMState(): DOMState {
+  return {
+    url: "https://www.canva.com/design/abc",
+    title: "Canva",
+    visibleElements: [],
+    forms: [],
+    canvasElements: [],
+    iframes: [],
+    timestamp: new Date().toISOString(),
+  };
+}
+
+function ok(): ActionResult {
+  return { success: true, timestamp: new Date().toISOString(), duration: 5 };
+}
+
+function llmResponse(content: string): LLMResponse {
+  return { content, model: "mock-model" };
+}
+
+/** Answer each provider request with the next reply, 1000 + 500 tokens each. */
+function mockCompletions(...replies: string[]): void {
+  for (const content of replies) {
+    vi.mocked(global.fetch).mockResolvedValueOnce({
+      ok: true,
+      status: 200,
+      json: async () => ({
+        model: "llama-3.3-70b-versatile",
+        choices: [{ message: { content }, finish_reason: "stop" }],
+        usage: { prompt_tokens: 1000, completion_tokens: 500, total_tokens: 1500 },
+      }),
+    } as Response);
+  }
+}
+
+const SCREENSHOT: Screenshot = {
+  data: "iVBORw0KGgo=",
+  format: "png",
+  width: 1,
+  height: 1,
+  timestamp: new Date().toISOString(),
+  isCompressed: false,
+};
+const CLICK = '{ "type": "click", "target": { "type": "css", "selector": ".heading" } }';
+const VERIFIED = '{ "success": true, "reasoning": "Heading updated", "confidence": 90 }';
+const NOT_VERIFIED = '{ "success": false, "reasoning": "Nothing changed", "confidence": 80 }';
+
+// ===========================================================================
+// OrchestrationEngine
+// ===========================================================================
+
+describe("OrchestrationEngine", () => {
+  let stateManager: StateManager;
+  let browserAgent: BrowserAgent;
+  let actionExecutor: ActionExecutor;
+  let llm: LLMAdapter;
+  let engine: OrchestrationEngine;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(chrome.storage.local.get).mockImplementation(async () => ({}));
+
+    stateManager = new StateManager();
+    browserAgent = {
+      getDOMState: vi.fn().mockResolvedValue(makeDOMState()),
+      getCurrentPageUrl: vi.fn().mockResolvedValue(makeDOMState().url),
+      captureScreenshot: vi.fn(),
+      setVisionAgent: vi.fn(),
+    } as unknown as BrowserAgent;
+    actionExecutor = {
+      executeSequence: vi.fn().mockResolvedValue([ok()]),
+    } as unknown as ActionExecutor;
+    llm = new LLMAdapter({ type: "ollama" });
+
+    engine = new OrchestrationEngine({
+      stateManager,
+      browserAgent,
+      actionExecutor,
+      createLLM: () => llm,
+    });
+  });
+
+  it("runs Think → Act → Verify and completes the job", async () => {
+    vi.spyOn(llm, "generate")
+      .mockResolvedValueOnce(llmResponse(CLICK))
+      .mockResolvedValueOnce(llmResponse(VERIFIED));
+
+    const job = makeJob([makeTask("t1")]);
+    await engine.executeJob(job);
+
+    expect(actionExecutor.executeSequence).toHaveBeenCalledWith([
+      { type: "click", target: { type: "css", selector: ".heading" } },
+    ]);
+    expect(job.status).toBe("completed");
+    expect(job.progress).toBe(100);
+    expect(job.tasks[0].status).toBe("completed");
+    expect(job.results).toHaveLength(1);
+    expect(job.results[0].taskId).toBe("t1");
+    expect(job.errors).toHaveLength(0);
+  });
+
+  it("records the serving provider and passes the fallback chain", async () => {
+    const createLLM = vi.fn(() => llm);
+    engine = new OrchestrationEngine({ stateManager, browserAgent, actionExecutor, createLLM });
+    vi.spyOn(llm, "generate")
+      .mockResolvedValueOnce({ ...llmResponse(CLICK), provider: "ollama" })
+      .mockResolvedValueOnce(llmResponse(VERIFIED));
+
+    const job = makeJob([makeTask("t1")]);
+    await engine.executeJob(job);
+
+    // Default fallbackChain is ["groq", "ollama"]; the job already uses groq.
+    expect(createLLM).toHaveBeenCalledWith(job.config.llmProvider, [
+      expect.objectContaining({ type: "ollama" }),
+    ]);
+    expect(job.results[0].metadata?.provider).toBe("ollama");
+  });
+
+  it("accounts token usage and cost per task and per job", async () => {
+    llm = new LLMAdapter({ type: "groq", apiKey: "test", model: "llama-3.3-70b-versatile" });
+    engine = new OrchestrationEngine({
+      stateManager,
+      browserAgent,
+      actionExecutor,
+      createLLM: () => llm,
+    });
+    // Groq supports vision, so verification goes through a screenshot.
+    vi.mocked(browserAgent.captureScreenshot).mockResolvedValue(SCREENSHOT);
+    mockCompletions(CLICK, VERIFIED);
+
+    const job = makeJob([makeTask("t1")]);
+    await engine.executeJob(job);
+
+    // Two requests of 1000 prompt + 500 completion tokens at $0.59 / $0.79 per million.
+    expect(job.usage).toEqual({
+      promptTokens: 2000,
+      completionTokens: 1000,
+      totalTokens: 3000,
+      costUSD: expect.closeTo(0.00197, 8),
+      requests: 2,
+    });
+    expect(job.tasks[0].usage).toEqual(job.usage);
+    expect(engine.getUsage(job.id)).toBeUndefined();
+  });
+
+  it("pauses the job once its token budget is exceeded", async () => {
+    llm = new LLMAdapter({ type: "groq", apiKey: "test" });
+    engine = new OrchestrationEngine({
+      stateManager,
+      browserAgent,
+      actionExecutor,
+      createLLM: () => llm,
+    });
+    vi.mocked(browserAgent.captureScreenshot).mockResolvedValue(SCREENSHOT);
+    mockCompletions(CLICK, VERIFIED);
+
+    const job = makeJob([makeTask("t1"), makeTask("t2")]);
+    job.config.budget = { maxTokens: 2000 };
+    await engine.executeJob(job);
+
+    expect(job.status).toBe("paused");
+    expect(job.pausedReason).toMatch(/token budget exceeded \(3000 \/ 2000 tokens\)/);
+    expect(job.tasks[0].status).toBe("completed");
+    expect(job.tasks[1].status).toBe("pending");
+  });
+
+  it("estimates usage for the whole job after planning", async () => {
+    vi.spyOn(llm, "generate")
+      .mockResolvedValueOnce(llmResponse('{ "action": "export", "count": 1, "platform": "canva" }'))
+      .mockResolvedValueOnce(llmResponse(CLICK))
+      .mockResolvedValueOnce(llmResponse(VERIFIED));
+
+    const job = makeJob([]);
+    await engine.executeJob(job);
+
+    expect(job.estimatedUsage?.requests).toBe(job.tasks.length);
+    expect(job.estimatedUsage?.totalTokens).toBeGreaterThan(0);
+  });
+
+  it("streams reasoning and planned actions to onStream", async () => {
+    const events: AgentStreamEvent[] = [];
+    engine = new OrchestrationEngine({
+      stateManager,
+      browserAgent,
+      actionExecutor,
+      createLLM: () => llm,
+      onStream: (event) => events.push(event),
+    });
+    vi.spyOn(llm, "generateStreaming").mockImplementationOnce(async (_prompt, onChunk) => {
+      onChunk('{ "type": "click", ');
+      onChunk('"target": { "type": "css", "selector": ".heading" } }');
+      return llmResponse(CLICK);
+    });
+    vi.spyOn(llm, "generate").mockResolvedValueOnce(llmResponse(VERIFIED));
+
+    const job = makeJob([makeTask("t1")]);
+    await engine.executeJob(job);
+
+    expect(events.map((e) => e.type)).toEqual([
+      "think_start",
+      "think_chunk",
+      "think_chunk",
+      "think_end",
+      "task_end",
+      "job_end",
+    ]);
+    expect(events[3]).toMatchObject({
+      actions: [{ type: "click", target: { type: "css", selector: ".heading" } }],
+    });
+    expect(events[4]).toMatchObject({ taskId: "t1", status: "completed" });
+    expect(events[5]).toEqual({ type: "job_end", jobId: "job-1", status: "completed" });
+  });
+
+  it("aborts the in-flight Think request when the job is cancelled", async () => {
+    let cancelled = false;
+    vi.mocked(chrome.storage.local.get).mockImplementation(async (key) =>
+      cancelled && key === "browserai_jobs_job-1"
+        ? { [key]: { ...makeJob([]), status: "cancelled" } }
+        : {}
+    );
+    vi.spyOn(llm, "generate").mockImplementationOnce(
+      (_prompt, options) =>
+        new Promise((_resolve, reject) => {
+          options?.signal?.addEventListener("abort", () => reject(new Error("aborted")));
+          cancelled = true;
+          engine.abortJob("job-1");
+        })
+    );
+
+    const job = makeJob([makeTask("t1")]);
+    await engine.executeJob(job);
+
+    expect(job.status).toBe("cancelled");
+    expect(job.tasks[0].status).toBe("pending");
+    expect(job.tasks[0].attempts).toBe(0);
+    expect(engine.abortJob("job-1")).toBe(false);
+  });
+
+  it("retries Think after an abort that did not pause or cancel the job", async () => {
+    vi.spyOn(llm, "generate")
+      .mockImplementationOnce(
+        (_prompt, options) =>
+          new Promise((_resolve, reject) => {
+            options?.signal?.addEventListener("abort", () => reject(new Error("aborted")));
+            engine.abortJob("job-1");
+          })
+      )
+      .mockImplementationOnce(async (_prompt, options) => {
+        expect(options?.signal?.aborted).toBe(false);
+        return llmResponse(CLICK);
+      })
+      .mockResolvedValueOnce(llmResponse(VERIFIED));
+
+    const job = makeJob([makeTask("t1")]);
+    await engine.executeJob(job);
+
+    expect(job.tasks[0]).toMatchObject({ status: "completed", attempts: 1 });
+    expect(job.status).toBe("completed");
+  });
+
+  it("passes the Canva adapter's think prompt to the LLM", async () => {
+    const generate = vi
+      .spyOn(llm, "generate")
+      .mockResolvedValueOnce(llmResponse(CLICK))
+      .mockResolvedValueOnce(llmResponse(VERIFIED));
+
+    await engine.executeJob(makeJob([makeTask("t1")]));
+
+    const thinkPrompt = generate.mock.calls[0][0];
+    expect(thinkPrompt).toContain("Canva web editor");
+    expect(thinkPrompt).toContain("Goal for t1");
+  });
+
+  it("routes custom actions to the page's adapter", async () => {
+    const canva = new CanvaAdapter();
+    const custom = vi.spyOn(canva, "executeCustomAction").mockResolvedValue(ok());
+    const adapterRegistry = new AdapterRegistry();
+    vi.spyOn(adapterRegistry, "getAdapter").mockReturnValue(canva);
+    engine = new OrchestrationEngine({
+      stateManager,
+      browserAgent,
+      actionExecutor,
+      adapterRegistry,
+      createLLM: () => llm,
+    });
+    vi.spyOn(llm, "generate")
+      .mockResolvedValueOnce(llmResponse(`[${CLICK}, { "type": "custom", "name": "publish" }]`))
+      .mockResolvedValueOnce(llmResponse(VERIFIED));
+
+    const job = makeJob([makeTask("t1")]);
+    await engine.executeJob(job);
+
+    expect(actionExecutor.executeSequence).toHaveBeenCalledWith([
+      { type: "click", target: { type: "css", selector: ".heading" } },
+    ]);
+    expect(custom).toHaveBeenCalledWith({ type: "custom", name: "publish" });
+    expect(job.status).toBe("completed");
+  });
+
+  it("runs a template task's workflow without calling the LLM", async () => {
+    const generate = vi.spyOn(llm, "generate");
+    const job = makeJob([
+      makeTask("t1", { type: "search", template: "createFromTemplate", dataRowIndex: 0 }),
+    ]);
+    job.context = { dataRows: [{ templateName: "Summer sale" }] };
+
+    await engine.executeJob(job);
+
+    expect(generate).not.toHaveBeenCalled();
+    expect(actionExecutor.executeSequence).toHaveBeenCalledWith([
+      {
+        type: "type",
+        target: { type: "css", selector: expect.any(String) },
+        value: "Summer sale",
+        description: expect.any(String),
+      },
+    ]);
+    expect(job.tasks[0].status).toBe("completed");
+    expect(job.status).toBe("completed");
+  });
+
+  it("takes a task's template from the adapter it was planned with", async () => {
+    const adapterRegistry = new AdapterRegistry();
+    // The page has moved to a site the Canva adapter does not handle.
+    vi.spyOn(adapterRegistry, "getAdapter").mockReturnValue(new GenericWebAdapter());
+    engine = new OrchestrationEngine({
+      stateManager,
+      browserAgent,
+      actionExecutor,
+      adapterRegistry,
+      createLLM: () => llm,
+    });
+    const generate = vi.spyOn(llm, "generate");
+    const job = makeJob([
+      makeTask("t1", {
+        type: "search",
+        template: "createFromTemplate",
+        adapter: "Canva",
+        dataRowIndex: 0,
+      }),
+    ]);
+    job.context = { dataRows: [{ templateName: "Summer sale" }] };
+
+    await engine.executeJob(job);
+
+    expect(generate).not.toHaveBeenCalled();
+    expect(job.tasks[0].status).toBe("completed");
+  });
+
+  it("falls back to the LLM loop when a template workflow fails", async () => {
+    vi.mocked(actionExecutor.executeSequence).mockResolvedValueOnce([
+      { success: false, error: "Element not found", timestamp: "", duration: 1 },
+    ]);
+    const generate = vi
+      .spyOn(llm, "generate")
+      .mockResolvedValueOnce(llmResponse(CLICK))
+      .mockResolvedValueOnce(llmResponse(VERIFIED));
+    const job = makeJob([makeTask("t1", { type: "search", template: "createFromTemplate" })]);
+    job.context = { variables: { template_query: "Summer sale" } };
+
+    await engine.executeJob(job);
+
+    expect(actionExecutor.executeSequence).toHaveBeenCalledTimes(2);
+    expect(generate).toHaveBeenCalledTimes(2);
+    expect(job.tasks[0].status).toBe("completed");
+  });
+
+  it("skips or fails template tasks whose conditions hold", async () => {
+    const canva = new CanvaAdapter();
+    const knowledge = canva.getKnowledge();
+    const conditions = [
+      { check: "row.status == 'done'", action: "skip" as const },
+      { check: "!row.logo_url", action: "fail" as const },
+    ];
+    vi.spyOn(canva, "getKnowledge").mockReturnValue({
+      ...knowledge,
+      commonTasks: {
+        ...knowledge.commonTasks,
+        editText: { ...knowledge.commonTasks.editText, conditions },
+      },
+    });
+    const adapterRegistry = new AdapterRegistry();
+    vi.spyOn(adapterRegistry, "getAdapter").mockReturnValue(canva);
+    engine = new OrchestrationEngine({
+      stateManager,
+      browserAgent,
+      actionExecutor,
+      adapterRegistry,
+      createLLM: () => llm,
+    });
+    const generate = vi.spyOn(llm, "generate");
+    const job = makeJob([
+      makeTask("t1", { template: "editText", dataRowIndex: 0 }),
+      makeTask("t2", { template: "editText", dataRowIndex: 1, dependencies: ["t1"] }),
+    ]);
+    job.context = { dataRows: [{ status: "done" }, { status: "todo", logo_url: "" }] };
+
+    await engine.executeJob(job);
+
+    expect(job.tasks[0]).toMatchObject({ status: "skipped", condition: "row.status == 'done'" });
+    expect(job.tasks[1]).toMatchObject({
+      status: "failed",
+      error: "Condition failed: !row.logo_url",
+    });
+    expect(job.errors[0].taskId).toBe("t2");
+    expect(generate).not.toHaveBeenCalled();
+    expect(job.status).toBe("failed");
+  });
+
+  it("keeps stepping until verification succeeds", async () => {
+    vi.spyOn(llm, "generate")
+      .mockResolvedValueOnce(llmResponse(CLICK))
+      .mockResolvedValueOnce(llmResponse(NOT_VERIFIED))
+      .mockResolvedValueOnce(llmResponse(CLICK))
+      .mockResolvedValueOnce(llmResponse(VERIFIED));
+
+    const job = makeJob([makeTask("t1")]);
+    await engine.executeJob(job);
+
+    expect(actionExecutor.executeSequence).toHaveBeenCalledTimes(2);
+    expect(job.tasks[0].status).toBe("completed");
+    expect(job.results[0].metadata?.actions).toBe(2);
+  });
+
+  it("fails the task after repeated action failures and records an error", async () => {
+    vi.spyOn(llm, "generate").mockResolvedValue(llmResponse(CLICK));
+    vi.mocked(actionExecutor.executeSequence).mockResolvedValue([
+      { success: false, error: "Element not found", timestamp: "", duration: 1 },
+    ]);
+
+    const job = makeJob([makeTask("t1"), makeTask("t2", { dependencies: ["t1"] })]);
+    await engine.executeJob(job);
+
+    expect(job.tasks[0].status).toBe("failed");
+    expect(job.tasks[0].attempts).toBe(3);
+    expect(job.tasks[1].status).toBe("skipped");
+    expect(job.status).toBe("failed");
+    expect(job.errors).toHaveLength(1);
+    expect(job.errors[0]).toMatchObject({ taskId: "t1", error: "Element not found" });
+  });
+
+  it("counts unparseable LLM output as a failed attempt", async () => {
+    vi.spyOn(llm, "generate").mockResolvedValue(llmResponse("I am not sure what to do."));
+
+    const job = makeJob([makeTask("t1")]);
+    await engine.executeJob(job);
+
+    expect(actionExecutor.executeSequence).not.toHaveBeenCalled();
+    expect(job.tasks[0].status).toBe("failed");
+    expect(job.errors[0].error).toContain("Think step failed");
+  });
+
+  it("stops without finishing when the job has been paused", async () => {
+    vi.mocked(chrome.storage.local.get).mockImplementation(async (key) => {
+      if (key === "browserai_jobs_job-1") {
+        return { [key]: { ...makeJob([]), status: "paused" } };
+      }
+      return {};
+    });
+    const generate = vi.spyOn(llm, "generate");
+
+    const job = makeJob([makeTask("t1")]);
+    await engine.executeJob(job);
+
+    expect(generate).not.toHaveBeenCalled();
+    expect(job.status).toBe("paused");
+    expect(job.tasks[0].status).toBe("pending");
+    expect(job.completedAt).toBeUndefined();
+  });
+
+  it("keeps a pause stored while a task was acting", async () => {
+    let paused = false;
+    vi.mocked(chrome.storage.local.get).mockImplementation(async (key) =>
+      paused && key === "browserai_jobs_job-1"
+        ? { [key]: { ...makeJob([]), status: "paused" } }
+        : {}
+    );
+    vi.mocked(actionExecutor.executeSequence).mockImplementation(async () => {
+      paused = true;
+      return [ok()];
+    });
+    vi.spyOn(llm, "generate")
+      .mockResolvedValueOnce(llmResponse(CLICK))
+      .mockResolvedValueOnce(llmResponse(VERIFIED));
+
+    const job = makeJob([makeTask("t1"), makeTask("t2")]);
+    await engine.executeJob(job);
+
+    expect(actionExecutor.executeSequence).toHaveBeenCalledTimes(1);
+    expect(job.tasks.map((t) => t.status)).toEqual(["completed", "pending"]);
+    expect(job.status).toBe("paused");
+    const saves = vi
+      .mocked(chrome.storage.local.set)
+      .mock.calls.map(([items]) => (items as Record<string, Job>)["browserai_jobs_job-1"])
+      .filter(Boolean);
+    expect(saves.at(-1)?.status).toBe("paused");
+  });
+
+  it("plans tasks from the prompt when the job has none", async () => {
+    vi.spyOn(llm, "generate")
+      .mockResolvedValueOnce(llmResponse('{ "action": "export", "count": 1, "platform": "canva" }'))
+      .mockResolvedValueOnce(llmResponse(CLICK))
+      .mockResolvedValueOnce(llmResponse(VERIFIED));
+
+    const job = makeJob([]);
+    await engine.executeJob(job);
+
+    expect(job.parsedPrompt?.action).toBe("export");
+    expect(job.tasks.map((t) => t.type)).toEqual(["export"]);
+    expect(job.status).toBe("completed");
+  });
+
+  it("adds the job's field mappings to its data rows when planning", async () => {
+    vi.spyOn(llm, "generate")
+      .mockResolvedValueOnce(llmResponse('{ "action": "export", "count": 1, "platform": "canva" }'))
+      .mockResolvedValue(llmResponse(VERIFIED));
+
+    const job = makeJob([]);
+    job.config.fieldMappings = {
+      headline: { column: "name", transforms: [{ type: "titleCase" }] },
+    };
+    job.context = { dataRows: [{ name: "ada lovelace" }] };
+    await engine.executeJob(job);
+
+    expect(job.context.dataRows).toEqual([{ name: "ada lovelace", headline: "Ada Lovelace" }]);
+  });
+
+  it("resumes from currentTaskIndex and skips completed tasks", async () => {
+    vi.spyOn(llm, "generate")
+      .mockResolvedValueOnce(llmResponse(CLICK))
+      .mockResolvedValueOnce(llmResponse(VERIFIED));
+
+    const job = makeJob([makeTask("t1", { status: "completed" }), makeTask("t2")]);
+    job.currentTaskIndex = 1;
+    await engine.executeJob(job);
+
+    expect(actionExecutor.executeSequence).toHaveBeenCalledTimes(1);
+    expect(job.tasks[1].status).toBe("completed");
+    expect(job.currentTaskIndex).toBe(2);
+    expect(job.status).toBe("completed");
+  });
+});
+
+// ===========================================================================
+// Planning
+// ===========================================================================
+
+describe("PromptParser", () => {
+  let llm: LLMAdapter;
+  let parser: PromptParser;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    llm = new LLMAdapter({ type: "ollama" });
+    parser = new PromptParser(llm);
+  });
+
+  it("normalises and validates the LLM's JSON", async () => {
+    vi.spyOn(llm, "generate").mockResolvedValueOnce(
+      llmResponse(
+        '{ "action": "Create", "count": "20", "style": "Instagram post", "exportFormat": "PNG", "platform": "Canva", "style_notes": null }'
+      )
+    );
+
+    const parsed = await parser.parse("make 20 Instagram posts from my CSV in Canva, export PNG");
+
+    expect(parsed).toEqual({
+      action: "create",
+      count: 20,
+      style: "Instagram post",
+      templatePreference: "same",
+      exportFormat: "png",
+      platform: "canva",
+    });
+  });
+
+  it("feeds validation issues back to the model once", async () => {
+    const generate = vi
+      .spyOn(llm, "generate")
+      .mockResolvedValueOnce(llmResponse('{ "action": "paint", "count": 2 }'))
+      .mockResolvedValueOnce(llmResponse('{ "action": "create", "count": 2 }'));
+
+    const parsed = await parser.parse("make two posters");
+
+    expect(parsed.action).toBe("create");
+    expect(generate.mock.calls[1][0]).toContain("action:");
+  });
+
+  it("throws with the failing fields when the model cannot comply", async () => {
+    vi.spyOn(llm, "generate").mockResolvedValue(llmResponse('{ "count": 0 }'));
+
+    await expect(parser.parse("???")).rejects.toThrow(/action: .*count: /);
+  });
+
+  it("generateJSON retries once when the reply is not JSON", async () => {
+    vi.spyOn(llm, "generate")
+      .mockResolvedValueOnce(llmResponse("Sure! Here you go."))
+      .mockResolvedValueOnce(llmResponse('```json\n{ "ok": true }\n```'));
+
+    await expect(llm.generateJSON<{ ok: boolean }>("ping")).resolves.toEqual({ ok: true });
+  });
+});
+
+describe("TaskPlanner", () => {
+  const planner = new TaskPlanner();
+  const base: ParsedPrompt = {
+    action: "create",
+    count: 1,
+    templatePreference: "same",
+    exportFormat: "png",
+  };
+
+  it("orders search → edit_text → export for a single design", () => {
+    const plan = planner.createPlan(base, new CanvaAdapter());
+
+    expect(plan.tasks.map((t) => t.type)).toEqual(["search", "edit_text", "export"]);
+    expect(plan.tasks.map((t) => t.template)).toEqual(["createFromTemplate", "editText", "export"]);
+    expect(plan.tasks.every((t) => t.adapter === "Canva")).toBe(true);
+    expect(plan.tasks[1].dependencies).toEqual([plan.tasks[0].id]);
+    expect(plan.tasks[2].dependencies).toEqual([plan.tasks[1].id]);
+    expect(plan.tasks[2].goal).toContain("PNG");
+    expect(plan.strategy).toBe("sequential");
+    expect(plan.estimatedDuration).toBeGreaterThan(0);
+  });
+
+  it("expands bulk jobs per data row with text and image tasks", () => {
+    const parsed: ParsedPrompt = {
+      ...base,
+      count: 20,
+      dataMapping: { headline: "title", photo: "image_url" },
+    };
+    const rows = [
+      { title: "Summer sale", image_url: "https://img/1.png" },
+      { title: "Winter sale", image_url: "https://img/2.png" },
+    ];
+
+    const plan = planner.createPlan(parsed, new CanvaAdapter(), { dataRows: rows });
+
+    expect(plan.tasks.map((t) => t.type)).toEqual([
+      "search",
+      "bulk_generate",
+      "edit_text",
+      "replace_image",
+      "export",
+      "bulk_generate",
+      "edit_text",
+      "replace_image",
+      "export",
+    ]);
+    expect(plan.tasks[2].goal).toContain('headline → "Summer sale"');
+    expect(plan.tasks[7].goal).toContain("photo → https://img/2.png");
+    expect(plan.tasks[6].dataRowIndex).toBe(1);
+    expect(plan.tasks[2].requiresVision).toBe(true);
+
+    // Each row builds on the shared search and its own previous task only.
+    const [search, , , , firstExport, secondBulk, secondEdit] = plan.tasks;
+    expect(secondBulk.dependencies).toEqual([search.id]);
+    expect(secondEdit.dependencies).toEqual([secondBulk.id]);
+    expect(plan.tasks.some((t) => t.dependencies.includes(firstExport.id))).toBe(false);
+  });
+
+  it("falls back to a single custom task when the adapter has no templates", () => {
+    const plan = planner.createPlan(
+      { ...base, additionalInstructions: "fill in the signup form" },
+      new GenericWebAdapter()
+    );
+
+    expect(plan.tasks).toHaveLength(1);
+    expect(plan.tasks[0].type).toBe("custom");
+    expect(plan.tasks[0].goal).toContain("fill in the signup form");
+  });
+});
@@ -0,0 +1,104 @@
+import { describe, it, expect, vi } from "vitest";
+import { SelectorAudit } from "~core/browser/SelectorAudit";
+import type { BrowserAgent } from "~core/browser/BrowserAgent";
+import type { BaseAdapter } from "~types/adapter";
+import type { DOMState } from "~types/browser";
+
+/** Elements present on each screen, by selector, with their match counts. */
+const PAGES: Record<string, Record<string, number>> = {
+  "https://www.example.com/": { '[data-testid="search"]': 1, "button.card": 3 },
+  "https://www.example.com/editor": {
+    '[data-testid="canvas"]': 1,
+    'div[data-testid="export-v2"]': 1,
+  },
+};
+
+function makeAgent() {
+  let url = "";
+  const dom: DOMState = {
+    url: "",
+    title: "Editor",
+    visibleElements: [
+      {
+        tagName: "div",
+        selector: 'div[data-testid="export-v2"]',
+        text: "Export",
+        bbox: { x: 0, y: 0, width: 10, height: 10 },
+        attributes: { "aria-label": "export" },
+        isInteractive: true,
+      },
+    ],
+    forms: [],
+    canvasElements: [],
+    iframes: [],
+    timestamp: new Date().toISOString(),
+  };
+  const count = (selector: string) => PAGES[url]?.[selector] ?? 0;
+
+  return {
+    navigate: vi.fn(async (to: string) => {
+      url = to;
+      return { success: true, timestamp: "", duration: 0 };
+    }),
+    waitForSelector: vi.fn(async (selector: string) => count(selector) > 0),
+    isElementVisible: vi.fn(async (selector: string) => count(selector) > 0),
+    countElements: vi.fn(async (selector: string) => count(selector)),
+    getDOMState: vi.fn(async () => dom),
+  } as unknown as BrowserAgent;
+}
+
+const adapter = {
+  name: "Example",
+  supportedDomains: ["www.example.com"],
+  getKnowledge: () => ({
+    selectors: {
+      searchBox: '[data-testid="search"]',
+      templateCard: "button.card",
+      canvas: '[data-testid="canvas"]',
+      exportButton: '[aria-label="export"]',
+      shareButton: '[data-testid="share"]',
+    },
+    workflows: {},
+    commonTasks: {},
+  }),
+} as unknown as BaseAdapter;
+
+describe("SelectorAudit", () => {
+  it("reports ok, ambiguous, healed and broken selectors across screens", async () => {
+    const agent = makeAgent();
+    const report = await new SelectorAudit(agent).run(adapter, {
+      screens: [
+        { name: "home", url: "https://www.example.com/" },
+        {
+          name: "editor",
+          url: "https://www.example.com/editor",
+          selectors: ["canvas", "exportButton"],
+        },
+      ],
+      timeout: 10,
+    });
+    const byName = Object.fromEntries(report.entries.map((e) => [e.name, e]));
+
+    expect(report.summary).toEqual({ ok: 2, healed: 1, ambiguous: 1, broken: 1 });
+    expect(byName.canvas).toMatchObject({ status: "ok", screen: "editor" });
+    expect(byName.templateCard).toMatchObject({ status: "ambiguous", matches: 3 });
+    expect(byName.exportButton).toMatchObject({
+      status: "healed",
+      screen: "editor",
+      proposed: 'div[data-testid="export-v2"]',
+    });
+    expect(byName.shareButton).toMatchObject({ status: "broken", screen: "home" });
+    expect(report.proposedSelectors).toEqual({
+      ...adapter.getKnowledge().selectors,
+      exportButton: 'div[data-testid="export-v2"]',
+    });
+  });
+
+  it("opens the adapter's first domain by default", async () => {
+    const agent = makeAgent();
+    const report = await new SelectorAudit(agent).run(adapter, { timeout: 10 });
+
+    expect(agent.navigate).toHaveBeenCalledWith("https://www.example.com/");
+    expect(report.summary.ok).toBe(1);
+  });
+});
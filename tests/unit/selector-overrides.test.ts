@@ -0,0 +1,194 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { BrowserAgent } from "~core/browser/BrowserAgent";
+import type { MCPToolSource } from "~types/mcp";
+import type {
+  BrowserAction,
+  DOMState,
+  SelectorOverride,
+  SelectorOverrideStore,
+} from "~types/browser";
+
+/** Selectors that match an element in the fake page. */
+const present = new Set<string>();
+
+const dom: DOMState = {
+  url: "https://cms.example.com/editor",
+  title: "Editor",
+  visibleElements: [
+    {
+      tagName: "button",
+      selector: 'button[data-testid="save-v2"]',
+      text: "Save",
+      bbox: { x: 0, y: 0, width: 10, height: 10 },
+      attributes: { "aria-label": "save" },
+      isInteractive: true,
+    },
+  ],
+  forms: [],
+  canvasElements: [],
+  iframes: [],
+  timestamp: new Date().toISOString(),
+};
+
+/** In-memory override store with the same keying as StateManager. */
+function makeStore(initial: SelectorOverride[] = []) {
+  let overrides = [...initial];
+  const same = (
+    a: SelectorOverride,
+    b: Pick<SelectorOverride, "adapter" | "domain" | "original">,
+  ) => a.adapter === b.adapter && a.domain === b.domain && a.original === b.original;
+  return {
+    get overrides() {
+      return overrides;
+    },
+    getSelectorOverrides: vi.fn(async () => overrides),
+    saveSelectorOverride: vi.fn(async (o: SelectorOverride) => {
+      overrides = [...overrides.filter((x) => !same(x, o)), o];
+    }),
+    removeSelectorOverride: vi.fn(async (key) => {
+      const before = overrides.length;
+      overrides = overrides.filter((x) => !same(x, key));
+      return overrides.length < before;
+    }),
+  } satisfies SelectorOverrideStore & { overrides: SelectorOverride[] };
+}
+
+const override = (fields: Partial<SelectorOverride> = {}): SelectorOverride => ({
+  adapter: "CMS",
+  domain: "cms.example.com",
+  original: "#save",
+  replacement: 'button[data-testid="save-v2"]',
+  confidence: 0.6,
+  successes: 0,
+  failures: 0,
+  learnedAt: "2026-01-01T00:00:00.000Z",
+  ...fields,
+});
+
+const click = (selector: string): BrowserAction => ({
+  type: "click",
+  target: { type: "css", selector },
+});
+
+function makeAgent(store: SelectorOverrideStore) {
+  return new BrowserAgent({} as MCPToolSource, { overrides: store, adapterFor: () => "CMS" });
+}
+
+describe("BrowserAgent — learned selector overrides", () => {
+  beforeEach(() => {
+    present.clear();
+    vi.mocked(chrome.tabs.query).mockResolvedValue([
+      { id: 1, url: "https://cms.example.com/editor" } as chrome.tabs.Tab,
+    ]);
+    vi.mocked(chrome.tabs.sendMessage).mockImplementation((async (_tabId: number, message: any) => {
+      if (message.type === "GET_DOM_STATE") return { success: true, data: dom };
+      if (message.type === "ELEMENT_AT_POINT") {
+        return { success: true, data: { selector: "#publish-v2" } };
+      }
+      const selector = message.payload?.target?.selector;
+      return present.has(selector)
+        ? { success: true }
+        : { success: false, error: `Element not found: ${selector}` };
+    }) as any);
+  });
+
+  it("learns the replacement SelfHealing finds and uses it first next time", async () => {
+    present.add('button[data-testid="save-v2"]');
+    const store = makeStore();
+    const agent = makeAgent(store);
+
+    expect((await agent.executeAction(click("#save"))).success).toBe(true);
+    expect(store.overrides).toEqual([
+      expect.objectContaining({
+        adapter: "CMS",
+        domain: "cms.example.com",
+        original: "#save",
+        replacement: 'button[data-testid="save-v2"]',
+      }),
+    ]);
+
+    vi.mocked(chrome.tabs.sendMessage).mockClear();
+    expect((await agent.executeAction(click("#save"))).success).toBe(true);
+    const clicked = vi
+      .mocked(chrome.tabs.sendMessage)
+      .mock.calls.map(([, m]) => (m as any).payload?.target?.selector);
+    expect(clicked).toEqual(['button[data-testid="save-v2"]']);
+    expect(store.overrides[0]).toMatchObject({ successes: 1, confidence: 0.7 });
+  });
+
+  it("looks for a described element by vision once the DOM heuristics fail", async () => {
+    present.add("#publish-v2");
+    const store = makeStore();
+    const agent = makeAgent(store);
+    const vision = {
+      locateElement: vi.fn(async () => ({
+        found: true,
+        confidence: 0.9,
+        bbox: { x: 100, y: 40, width: 20, height: 10 },
+      })),
+      detectElements: vi.fn(),
+      verify: vi.fn(),
+    };
+    vi.spyOn(agent, "captureScreenshot").mockResolvedValue({
+      data: "png",
+      format: "png",
+      width: 0,
+      height: 0,
+      timestamp: "",
+      isCompressed: false,
+    });
+
+    const action = { ...click("#publish"), description: "Publish button" };
+    expect((await agent.executeAction(action)).success).toBe(false);
+
+    agent.setVisionAgent(vision);
+    expect((await agent.executeAction(action)).success).toBe(true);
+    expect(vision.locateElement).toHaveBeenCalledWith("png", "Publish button");
+    expect(store.overrides).toEqual([
+      expect.objectContaining({ original: "#publish", replacement: "#publish-v2" }),
+    ]);
+  });
+
+  it("halves the confidence of a failing override and falls back to the original", async () => {
+    present.add("#save");
+    const store = makeStore([override({ confidence: 0.8 })]);
+
+    expect((await makeAgent(store).executeAction(click("#save"))).success).toBe(true);
+    expect(store.overrides[0]).toMatchObject({ failures: 1, confidence: 0.4 });
+  });
+
+  it("replaces a stale override with the selector healing finds", async () => {
+    present.add('button[data-testid="save-v2"]');
+    const stale = override({ replacement: "#save-old", confidence: 0.9, promoted: true });
+    const store = makeStore([stale]);
+    const agent = makeAgent(store);
+
+    expect((await agent.executeAction(click("#save"))).success).toBe(true);
+    expect(store.overrides).toEqual([
+      expect.objectContaining({
+        original: "#save",
+        replacement: 'button[data-testid="save-v2"]',
+        confidence: 0.6,
+        successes: 0,
+        failures: 0,
+      }),
+    ]);
+    expect(store.overrides[0].promoted).toBeUndefined();
+  });
+
+  it("revokes an override whose confidence gets too low, unless it was promoted", async () => {
+    present.add("#save");
+    const store = makeStore([
+      override({ confidence: 0.3 }),
+      override({ original: "#publish", confidence: 0.3, promoted: true }),
+    ]);
+    const agent = makeAgent(store);
+
+    await agent.executeAction(click("#save"));
+    await agent.executeAction(click("#publish"));
+
+    expect(store.overrides).toEqual([
+      expect.objectContaining({ original: "#publish", confidence: 0.15, promoted: true }),
+    ]);
+  });
+});
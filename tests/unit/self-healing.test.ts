@@ -0,0 +1,77 @@
+import { describe, it, expect, vi } from "vitest";
+import { SelfHealing } from "~core/browser/SelfHealing";
+import type { BrowserAgent } from "~core/browser/BrowserAgent";
+import type { VisionAgent } from "~core/vision/VisionAgent";
+import type { DOMState } from "~types/browser";
+
+vi.mock("~core/vision/ScreenshotCapture", () => ({
+  annotateScreenshot: vi.fn(async (screenshot: string) => `annotated:${screenshot}`),
+}));
+
+const dom: DOMState = {
+  url: "https://www.canva.com/design/1/edit",
+  title: "Design",
+  visibleElements: [],
+  forms: [],
+  canvasElements: [],
+  iframes: [],
+  viewport: { width: 800, height: 600 },
+  timestamp: new Date().toISOString(),
+};
+
+/** Agent on a page captured at 2x, with `selectorAt` under the located point. */
+function makeAgent(selectorAt: string | null) {
+  return {
+    isElementVisible: vi.fn(async () => false),
+    getDOMState: vi.fn(async () => dom),
+    captureScreenshot: vi.fn(async () => ({ data: "png", width: 1600, height: 1200 })),
+    elementAtPoint: vi.fn(async () => selectorAt),
+  } as unknown as BrowserAgent;
+}
+
+function makeVision(confidence = 0.9) {
+  return {
+    locateElement: vi.fn(async () => ({
+      found: true,
+      bbox: { x: 400, y: 200, width: 100, height: 40 },
+      confidence,
+    })),
+  } as unknown as Pick<VisionAgent, "locateElement">;
+}
+
+describe("SelfHealing — vision stage", () => {
+  const metadata = {
+    selector: "#headline",
+    description: "The headline text on the canvas",
+    requiresVision: true,
+  };
+
+  it("maps the located box back to the DOM element under its centre", async () => {
+    const agent = makeAgent('[data-testid="headline-layer"]');
+    const vision = makeVision();
+
+    const healed = await new SelfHealing(agent, vision).healElement(metadata, dom);
+
+    expect(healed).toEqual({ type: "css", selector: '[data-testid="headline-layer"]' });
+    expect(vision.locateElement).toHaveBeenCalledWith(
+      "annotated:png",
+      "The headline text on the canvas",
+    );
+    // Centre of the box in device pixels, halved to CSS pixels.
+    expect(agent.elementAtPoint).toHaveBeenCalledWith({ x: 225, y: 110 });
+    expect(agent.isElementVisible).not.toHaveBeenCalled();
+  });
+
+  it("returns coordinates when no element can be addressed there", async () => {
+    const healed = await new SelfHealing(makeAgent(null), makeVision()).healWithVision(metadata);
+
+    expect(healed).toEqual({ type: "coordinates", x: 225, y: 110 });
+  });
+
+  it("ignores low-confidence locations and needs a vision agent", async () => {
+    const agent = makeAgent(null);
+
+    expect(await new SelfHealing(agent, makeVision(0.2)).healWithVision(metadata)).toBeNull();
+    expect(await new SelfHealing(agent).healWithVision(metadata)).toBeNull();
+  });
+});
@@ -4,6 +4,9 @@ import type { Job } from "~types/orchestration";
 import type { UserConfig } from "~types/config";
 import { DEFAULT_CONFIG } from "~types/config";
 import type { LogEntry } from "~types/common";
+import type { AdapterPack } from "~types/adapter";
+import type { SelectorOverride } from "~types/browser";
+import type { SheetSync } from "~types/data";
 
 /** Build a minimal valid Job for testing. */
 function makeJob(overrides?: Partial<Job>): Job {
@@ -181,6 +184,14 @@ describe("StateManager", () => {
       expect(savedCall).toBeDefined();
     });
 
+    it("resumeJob refuses a job that is not paused", async () => {
+      mockStorageGet({ browserai_jobs_c1: makeJob({ id: "c1", status: "completed" }) });
+
+      await expect(sm.resumeJob("c1")).rejects.toThrow("Job c1 is completed, not paused");
+      const saved = vi.mocked(chrome.storage.local.set).mock.calls.map((c) => Object.keys(c[0]));
+      expect(saved.flat()).not.toContain("browserai_jobs_c1");
+    });
+
     it("pauseJob throws for non-existent job", async () => {
       mockStorageGet({});
       await expect(sm.pauseJob("missing")).rejects.toThrow("Job missing not found");
@@ -211,6 +222,111 @@ describe("StateManager", () => {
     });
   });
 
+  // ── Adapter packs ─────────────────────────────────────────────────
+
+  describe("adapter packs", () => {
+    const pack = (name: string, version = "1.0.0"): AdapterPack => ({
+      manifest: {
+        name,
+        version,
+        supportedDomains: ["cms.example.com"],
+        capabilities: [],
+        knowledge: { selectors: "selectors.yaml" },
+      },
+      files: { "manifest.yaml": "", "selectors.yaml": "" },
+      installedAt: new Date().toISOString(),
+    });
+
+    it("saveAdapterPack replaces an installed pack with the same name", async () => {
+      mockStorageGet({ browserai_adapter_packs: [pack("CMS"), pack("Other")] });
+
+      await sm.saveAdapterPack(pack("CMS", "2.0.0"));
+
+      const setCall = vi.mocked(chrome.storage.local.set).mock.calls.find(
+        (c) => "browserai_adapter_packs" in c[0],
+      );
+      const saved = (setCall![0] as Record<string, AdapterPack[]>).browserai_adapter_packs;
+      expect(saved.map((p) => `${p.manifest.name}@${p.manifest.version}`)).toEqual([
+        "Other@1.0.0",
+        "CMS@2.0.0",
+      ]);
+    });
+
+    it("removeAdapterPack reports whether the pack was installed", async () => {
+      mockStorageGet({ browserai_adapter_packs: [pack("CMS")] });
+
+      expect(await sm.removeAdapterPack("Missing")).toBe(false);
+      expect(await sm.removeAdapterPack("CMS")).toBe(true);
+      expect(chrome.storage.local.set).toHaveBeenCalledWith({ browserai_adapter_packs: [] });
+    });
+  });
+
+  // ── Selector overrides ────────────────────────────────────────────
+
+  describe("selector overrides", () => {
+    const override = (adapter: string, replacement: string): SelectorOverride => ({
+      adapter,
+      domain: "cms.example.com",
+      original: "#save",
+      replacement,
+      confidence: 0.6,
+      successes: 0,
+      failures: 0,
+      learnedAt: "2026-01-01T00:00:00.000Z",
+    });
+
+    it("saveSelectorOverride replaces the override for the same selector", async () => {
+      mockStorageGet({
+        browserai_selector_overrides: [override("CMS", "#old"), override("Other", "#other")],
+      });
+
+      await sm.saveSelectorOverride(override("CMS", "#new"));
+
+      expect(chrome.storage.local.set).toHaveBeenCalledWith({
+        browserai_selector_overrides: [override("Other", "#other"), override("CMS", "#new")],
+      });
+    });
+
+    it("removeSelectorOverride reports whether the override existed", async () => {
+      mockStorageGet({ browserai_selector_overrides: [override("CMS", "#new")] });
+
+      const key = { adapter: "CMS", domain: "cms.example.com", original: "#save" };
+      expect(await sm.removeSelectorOverride({ ...key, adapter: "Other" })).toBe(false);
+      expect(await sm.removeSelectorOverride(key)).toBe(true);
+      expect(chrome.storage.local.set).toHaveBeenCalledWith({ browserai_selector_overrides: [] });
+    });
+  });
+
+  // ── Sheet syncs ───────────────────────────────────────────────────
+
+  describe("sheet syncs", () => {
+    const sync: SheetSync = {
+      id: "sync-1",
+      sheetUrl: "https://docs.google.com/spreadsheets/d/abc123/edit",
+      prompt: "Make a banner for {{Name}}",
+      intervalMinutes: 5,
+      enabled: true,
+      createdAt: "2026-01-01T00:00:00.000Z",
+    };
+
+    it("keeps row fingerprints per sync and drops them with the sync", async () => {
+      mockStorageGet({
+        browserai_sheet_syncs: [sync],
+        "browserai_sheet_sync_fingerprints_sync-1": ["a1", "b2"],
+      });
+
+      expect(await sm.getSyncFingerprints("sync-1")).toEqual(["a1", "b2"]);
+      expect(await sm.getSyncFingerprints("sync-2")).toBeNull();
+
+      expect(await sm.removeSheetSync("sync-2")).toBe(false);
+      expect(await sm.removeSheetSync("sync-1")).toBe(true);
+      expect(chrome.storage.local.set).toHaveBeenCalledWith({ browserai_sheet_syncs: [] });
+      expect(chrome.storage.local.remove).toHaveBeenCalledWith(
+        "browserai_sheet_sync_fingerprints_sync-1",
+      );
+    });
+  });
+
   // ── saveLogs / getLogs / clearLogs ────────────────────────────────
 
   describe("logging", () => {
@@ -0,0 +1,123 @@
+import { describe, it, expect } from "vitest";
+import { WorkflowRecorder } from "../../src/adapters/WorkflowRecorder";
+import { AdapterLoader } from "../../src/adapters/AdapterLoader";
+import type { RecordedEvent } from "~types/recorder";
+
+const URL_START = "https://www.example.com/posts";
+
+function record(events: RecordedEvent[]): WorkflowRecorder {
+  const recorder = new WorkflowRecorder(URL_START);
+  events.forEach((event) => recorder.add(event));
+  return recorder;
+}
+
+describe("WorkflowRecorder", () => {
+  const demo: RecordedEvent[] = [
+    {
+      type: "click",
+      selector: '[data-testid="new"]',
+      label: "New post",
+      url: URL_START,
+      timestamp: 1000,
+    },
+    { type: "navigate", url: "https://www.example.com/posts/new", timestamp: 1500 },
+    {
+      type: "click",
+      selector: "#title",
+      label: "Post title",
+      url: "https://www.example.com/posts/new",
+      timestamp: 9000,
+    },
+    {
+      type: "type",
+      selector: "#title",
+      label: "Post title",
+      value: "Sum",
+      url: "https://www.example.com/posts/new",
+      timestamp: 9100,
+    },
+    {
+      type: "type",
+      selector: "#title",
+      label: "Post title",
+      value: "Summer Sale",
+      url: "https://www.example.com/posts/new",
+      timestamp: 9200,
+    },
+    { type: "scroll", x: 0, y: 200, url: "https://www.example.com/posts/new", timestamp: 9300 },
+    { type: "scroll", x: 0, y: 640, url: "https://www.example.com/posts/new", timestamp: 9400 },
+    {
+      type: "click",
+      selector: 'button[aria-label="Publish"]',
+      label: "Publish",
+      url: "https://www.example.com/posts/new",
+      timestamp: 9500,
+    },
+  ];
+
+  it("merges keystrokes and scrolls and infers placeholders from data rows", () => {
+    const recorder = record(demo);
+    const draft = recorder.buildDraft("createPost", [{ headline: "Summer Sale", price: 10 }]);
+
+    expect(recorder.events.map((e) => e.type)).toEqual([
+      "click",
+      "navigate",
+      "type",
+      "scroll",
+      "click",
+    ]);
+    expect(draft.domain).toBe("example.com");
+    expect(draft.variables).toEqual(["headline"]);
+    expect(draft.selectors).toEqual({
+      newPost: '[data-testid="new"]',
+      postTitleInput: "#title",
+      publish: 'button[aria-label="Publish"]',
+    });
+    expect(draft.workflow.steps.map((s) => s.action)).toEqual([
+      { type: "click", target: { type: "named", name: "newPost" } },
+      {
+        type: "wait",
+        condition: { type: "url_match", pattern: "https://www\\.example\\.com/posts/new" },
+        timeout: 15000,
+      },
+      {
+        type: "type",
+        target: { type: "named", name: "postTitleInput" },
+        value: "{{headline}}",
+        clearFirst: true,
+      },
+      { type: "scroll", direction: "down", amount: 640 },
+      { type: "click", target: { type: "named", name: "publish" } },
+    ]);
+  });
+
+  it("records typed URLs as navigations and keeps unmatched text literal", () => {
+    const draft = record([
+      { type: "navigate", url: "https://www.example.com/settings", timestamp: 1000 },
+      {
+        type: "type",
+        selector: 'input[name="q"]',
+        label: "Search",
+        value: "shoes",
+        url: URL_START,
+        timestamp: 2000,
+      },
+    ]).buildDraft("search");
+
+    expect(draft.workflow.steps[0].action).toEqual({
+      type: "navigate",
+      value: "https://www.example.com/settings",
+    });
+    expect(draft.workflow.steps[1].action).toMatchObject({ value: "shoes" });
+    expect(draft.variables).toEqual([]);
+  });
+
+  it("exports a draft as an adapter pack the loader accepts", () => {
+    const draft = record(demo).buildDraft("createPost", [{ headline: "Summer Sale" }]);
+    const { manifest, definition } = AdapterLoader.loadPack(WorkflowRecorder.toPackFiles(draft));
+
+    expect(manifest.supportedDomains).toEqual(["example.com"]);
+    expect(definition.selectors).toEqual(draft.selectors);
+    expect(definition.workflows.createPost).toEqual(draft.workflow);
+  });
+});
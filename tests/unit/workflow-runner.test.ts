@@ -0,0 +1,155 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { WorkflowRunner } from "~core/browser/WorkflowRunner";
+import type { ActionExecutor } from "~core/browser/ActionExecutor";
+import type { Workflow } from "~types/adapter";
+import type { BrowserAction } from "~types/browser";
+import type { ActionResult } from "~types/common";
+
+function okResult(): ActionResult {
+  return { success: true, timestamp: new Date().toISOString(), duration: 10 };
+}
+
+function failResult(error: string): ActionResult {
+  return { success: false, error, timestamp: new Date().toISOString(), duration: 10 };
+}
+
+describe("WorkflowRunner", () => {
+  let executeSequence: ReturnType<typeof vi.fn>;
+  let runner: WorkflowRunner;
+
+  const selectors = { titleInput: "#title", saveButton: "#save" };
+
+  const editTitle: Workflow = {
+    name: "editTitle",
+    description: "Set the title and save",
+    steps: [
+      {
+        action: { type: "type", target: { type: "named", name: "titleInput" }, value: "{{title}}" },
+        description: "Set the title",
+      },
+      {
+        action: { type: "click", target: { type: "named", name: "saveButton" } },
+        description: "Save",
+      },
+    ],
+  };
+
+  const executed = (): BrowserAction[] => executeSequence.mock.calls.map(([[action]]) => action);
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    executeSequence = vi.fn().mockResolvedValue([okResult()]);
+    runner = new WorkflowRunner({ executeSequence } as unknown as ActionExecutor);
+  });
+
+  it("resolves named targets and fills placeholders", async () => {
+    const result = await runner.run(editTitle, { selectors, variables: { title: "Q3 Report" } });
+
+    expect(result.success).toBe(true);
+    expect(result.steps.map((s) => s.status)).toEqual(["completed", "completed"]);
+    expect(executed()).toEqual([
+      {
+        type: "type",
+        target: { type: "css", selector: "#title" },
+        value: "Q3 Report",
+        description: "Set the title",
+      },
+      { type: "click", target: { type: "css", selector: "#save" }, description: "Save" },
+    ]);
+  });
+
+  it("prefers the mapped data row column over variables", async () => {
+    await runner.run(editTitle, {
+      selectors,
+      variables: { title: "Default" },
+      row: { Headline: "From the sheet" },
+      dataMapping: { title: "Headline" },
+    });
+
+    expect(executed()[0].value).toBe("From the sheet");
+  });
+
+  it("fails before running anything when a placeholder has no value", async () => {
+    const result = await runner.run(editTitle, { selectors });
+
+    expect(result.success).toBe(false);
+    expect(result.error).toBe("No value for {{title}}");
+    expect(executeSequence).not.toHaveBeenCalled();
+  });
+
+  it("skips failed optional steps and recovers through fallbacks", async () => {
+    executeSequence
+      .mockResolvedValueOnce([failResult("not found")])
+      .mockResolvedValueOnce([failResult("not found")])
+      .mockResolvedValue([okResult()]);
+    const workflow: Workflow = {
+      name: "save",
+      description: "Save",
+      steps: [
+        { ...editTitle.steps[1], description: "Dismiss banner", optional: true },
+        {
+          ...editTitle.steps[1],
+          fallback: [
+            { action: { type: "press_key", value: "Control+s" }, description: "Shortcut" },
+          ],
+        },
+      ],
+    };
+
+    const result = await runner.run(workflow, { selectors });
+
+    expect(result.success).toBe(true);
+    expect(result.steps.map((s) => s.status)).toEqual(["skipped", "recovered"]);
+    expect(executed()[2]).toEqual({ type: "press_key", value: "Control+s" });
+  });
+
+  it("stops at the first required step that fails", async () => {
+    executeSequence.mockResolvedValue([failResult("not found")]);
+
+    const result = await runner.run(editTitle, { selectors, variables: { title: "x" } });
+
+    expect(result.success).toBe(false);
+    expect(result.error).toBe("Set the title: not found");
+    expect(executeSequence).toHaveBeenCalledTimes(1);
+  });
+
+  it("checks url and visibility requirements against the page", async () => {
+    const agent = {
+      getCurrentPageUrl: vi.fn().mockResolvedValue("https://cms.example.com/pages"),
+      isElementVisible: vi.fn().mockResolvedValue(false),
+    };
+    runner = new WorkflowRunner({ executeSequence } as unknown as ActionExecutor, agent);
+    const workflow = { ...editTitle, requirements: ["url: /pages", "visible: saveButton"] };
+
+    const result = await runner.run(workflow, { selectors, variables: { title: "x" } });
+
+    expect(result.error).toBe("Requirement not met: visible: saveButton");
+    expect(agent.isElementVisible).toHaveBeenCalledWith("#save");
+    expect(executeSequence).not.toHaveBeenCalled();
+  });
+
+  it("locates semantic targets and hands custom steps to runCustom", async () => {
+    const runCustom = vi.fn().mockResolvedValue(okResult());
+    const workflow: Workflow = {
+      name: "publish",
+      description: "Publish",
+      steps: [
+        {
+          action: { type: "click", target: { type: "semantic", description: "Publish button" } },
+          description: "Click publish",
+        },
+        { action: { type: "custom", name: "confirm" } as BrowserAction, description: "Confirm" },
+      ],
+    };
+
+    const result = await runner.run(workflow, {
+      selectors,
+      locate: async () => ({ type: "coordinates", x: 10, y: 20 }),
+      runCustom,
+    });
+
+    expect(result.success).toBe(true);
+    expect(executed()[0].target).toEqual({ type: "coordinates", x: 10, y: 20 });
+    expect(runCustom).toHaveBeenCalledWith({ type: "custom", name: "confirm" });
+  });
+});
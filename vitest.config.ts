@@ -4,6 +4,9 @@ import { join } from "node:path";
 
 const __dirname = fileURLToPath(new URL(".", import.meta.url));
 
+// Run in a time zone behind UTC, so date code that only works in UTC fails here too.
+process.env.TZ = "America/Los_Angeles";
+
 export default defineConfig({
   test: {
     globals: true,
@@ -18,14 +21,18 @@ export default defineConfig({
     },
   },
   resolve: {
-    alias: {
-      "~core": join(__dirname, "src/core"),
-      "~sidepanel": join(__dirname, "src/sidepanel"),
-      "~background": join(__dirname, "src/background"),
-      "~contents": join(__dirname, "src/contents"),
-      "~adapters": join(__dirname, "adapters"),
-      "~types": join(__dirname, "src/core/types"),
-      "~utils": join(__dirname, "src/core/utils"),
-    },
+    alias: [
+      // Plasmo inlines `data-text:` imports as strings; Vite does the same with `?raw`.
+      { find: /^data-text:~adapters\/(.*)$/, replacement: join(__dirname, "adapters/$1") + "?raw" },
+      // ...and resolves `url:` imports to the asset's URL, as `?url` does.
+      { find: /^url:(.*)$/, replacement: "$1?url" },
+      { find: "~core", replacement: join(__dirname, "src/core") },
+      { find: "~sidepanel", replacement: join(__dirname, "src/sidepanel") },
+      { find: "~background", replacement: join(__dirname, "src/background") },
+      { find: "~contents", replacement: join(__dirname, "src/contents") },
+      { find: "~adapters", replacement: join(__dirname, "adapters") },
+      { find: "~types", replacement: join(__dirname, "src/core/types") },
+      { find: "~utils", replacement: join(__dirname, "src/core/utils") },
+    ],
   },
 });